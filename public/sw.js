@@ -0,0 +1,115 @@
+// Krishi Sahayak service worker: serves the app shell when offline, shows Web Push alerts sent
+// by the send-push-notifications function and opens the alert's deep link when it is tapped, and
+// wakes the page to replay its offline outbox (src/lib/offlineSync.ts) when the network is back.
+
+// The precache-service-worker plugin in vite.config.ts fills in the build's hashed /assets/ files
+// and an id that changes with them, so a deploy installs a new worker with a new cache and the old
+// cache, with the old assets, is dropped on activation. In development both keep these defaults.
+const BUILD_ID = 'dev' /* build-id */;
+const BUILD_ASSETS = [] /* build-assets */;
+const SHELL_CACHE = `krishi-shell-${BUILD_ID}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.json', '/favicon.svg'];
+const OUTBOX_SYNC_TAG = 'krishi-outbox';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages load from the network so deploys show up at once, falling back to the cached shell offline.
+// Built assets have content hashes in their names, so a cached copy never goes stale; they are all
+// precached at install, since the first visit loads them before the worker is in control.
+// Everything else, including Supabase calls on their own origin, is left to the browser.
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/').then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      }))
+    );
+  }
+});
+
+// The outbox needs the farmer's session, which only the page has, so the page does the replay
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((windows) => {
+      windows.forEach((client) => client.postMessage({ type: 'sync-outbox' }));
+    })
+  );
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let alert;
+  try {
+    alert = event.data.json();
+  } catch {
+    alert = { title: 'Krishi Sahayak', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(alert.title || 'Krishi Sahayak', {
+      body: alert.body,
+      icon: '/favicon.svg',
+      badge: '/favicon.svg',
+      tag: alert.tag,
+      silent: Boolean(alert.silent),
+      vibrate: alert.vibrate || [],
+      data: { url: alert.url || '/', id: alert.id },
+    })
+  );
+});
+
+// Focus an open Krishi Sahayak tab on the alert's widget, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (open) {
+        return open.navigate(url).then((client) => (client || open).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
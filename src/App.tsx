@@ -12,6 +12,10 @@ import { Dashboard } from './components/Dashboard';
 import { Auth } from './pages/Auth';
 import { HomePage } from './components/HomePage';
 import { supabase } from '@/integrations/supabase/client';
+import { cacheFarmerProfile, readCachedFarmerProfile } from '@/lib/farmerProfile';
+import { clearCache } from '@/lib/offlineCache';
+import { clearOutbox } from '@/lib/offlineSync';
+import { unsubscribeFromPush } from '@/lib/pushNotifications';
 
 interface FarmerData {
   name: string;
@@ -50,8 +54,11 @@ const AppContent = () => {
                 .eq('user_id', session.user.id)
                 .maybeSingle();
 
+              // Offline the request fails, so the profile last seen on this device is used
+              const cached = error ? readCachedFarmerProfile(session.user.id) : null;
+
               if (data && !error) {
-                setFarmerData({
+                const profile: FarmerData = {
                   name: data.name,
                   location: data.location,
                   crops: data.crops,
@@ -60,7 +67,12 @@ const AppContent = () => {
                   phone: data.phone,
                   latitude: data.latitude,
                   longitude: data.longitude
-                });
+                };
+                cacheFarmerProfile(session.user.id, profile);
+                setFarmerData(profile);
+                setIsRegistered(true);
+              } else if (cached) {
+                setFarmerData(cached);
                 setIsRegistered(true);
               } else {
                 setIsRegistered(false);
@@ -103,7 +115,17 @@ const AppContent = () => {
   };
 
   const handleLogout = async () => {
+    // This device's push subscription goes while the session can still delete it, so the next
+    // farmer to sign in here does not get this one's alerts
+    try {
+      await unsubscribeFromPush();
+    } catch (error) {
+      console.error('Push unsubscribe error:', error);
+    }
     await supabase.auth.signOut();
+    // Saved responses and unsent changes belong to this farmer, not the next one to sign in
+    clearCache();
+    clearOutbox();
     setUser(null);
     setSession(null);
     setIsRegistered(false);
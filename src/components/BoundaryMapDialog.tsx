@@ -0,0 +1,338 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Footprints, Minus, Plus, Square, Trash2, Undo2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/translations";
+import type { PlotBoundary } from "@/lib/plots";
+import {
+  LngLat,
+  distanceM,
+  fromBoundary,
+  getBoundaryCenter,
+  getLocalAreas,
+  polygonAreaSqm,
+  toBoundary,
+} from "@/lib/landMeasure";
+
+interface BoundaryMapDialogProps {
+  language: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boundary?: PlotBoundary | null;
+  center?: { latitude?: number; longitude?: number };
+  state?: string | null; // decides which bigha is shown
+  onSave: (boundary: PlotBoundary, areaSqm: number) => void;
+}
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 4;
+const MAX_ZOOM = 19;
+const MAP_HEIGHT = 360;
+
+// Centre of India, for farmers without saved coordinates
+const DEFAULT_CENTER = { latitude: 22.5, longitude: 79 };
+
+// GPS fixes worse than this are too coarse to trace a field edge
+const MAX_WALK_ACCURACY_M = 25;
+// Skip fixes closer than this to the previous corner so standing still does not pile up points
+const MIN_WALK_STEP_M = 3;
+
+const tileUrl = (x: number, y: number, z: number) =>
+  `https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/${z}/${y}/${x}`;
+
+// Web Mercator pixel coordinates at a zoom level
+const project = ([lng, lat]: LngLat, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number): LngLat => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lng = (x / scale) * 360 - 180;
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI;
+  return [lng, lat];
+};
+
+export const BoundaryMapDialog: React.FC<BoundaryMapDialogProps> = ({
+  language,
+  open,
+  onOpenChange,
+  boundary,
+  center,
+  state,
+  onSave,
+}) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  const [width, setWidth] = useState(0);
+  const [mapCenter, setMapCenter] = useState<LngLat>([DEFAULT_CENTER.longitude, DEFAULT_CENTER.latitude]);
+  const [zoom, setZoom] = useState(5);
+  const [points, setPoints] = useState<LngLat[]>([]);
+  const [isWalking, setIsWalking] = useState(false);
+  const [gpsAccuracy, setGpsAccuracy] = useState<number | null>(null);
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ startX: number; startY: number; origin: { x: number; y: number }; moved: boolean } | null>(null);
+  const watchIdRef = useRef<number | null>(null);
+
+  // Start from the saved boundary, else the farm's coordinates, else the whole country
+  useEffect(() => {
+    if (!open) return;
+    const existing = fromBoundary(boundary);
+    const start = (boundary && getBoundaryCenter(boundary))
+      ?? (center?.latitude && center?.longitude ? { latitude: center.latitude, longitude: center.longitude } : null);
+    setPoints(existing);
+    setMapCenter(start ? [start.longitude, start.latitude] : [DEFAULT_CENTER.longitude, DEFAULT_CENTER.latitude]);
+    setZoom(start ? 17 : 5);
+  }, [open, boundary, center?.latitude, center?.longitude]);
+
+  // The dialog animates in, so measure once the map element exists and on every resize
+  useEffect(() => {
+    if (!open) return;
+    const element = mapRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [open]);
+
+  const stopWalking = () => {
+    if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+    watchIdRef.current = null;
+    setIsWalking(false);
+    setGpsAccuracy(null);
+  };
+
+  useEffect(() => {
+    if (!open) stopWalking();
+    return () => {
+      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+    };
+  }, [open]);
+
+  const startWalking = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: t('common.error'),
+        description: t('plots.locationUnavailable'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsWalking(true);
+    setZoom(prev => Math.max(prev, 18));
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords;
+        setGpsAccuracy(Math.round(accuracy));
+        if (accuracy > MAX_WALK_ACCURACY_M) return;
+
+        const point: LngLat = [longitude, latitude];
+        setMapCenter(point);
+        setPoints(prev => prev.length > 0 && distanceM(prev[prev.length - 1], point) < MIN_WALK_STEP_M
+          ? prev
+          : [...prev, point]);
+      },
+      (error) => {
+        console.error('Boundary walk location error:', error);
+        stopWalking();
+        toast({
+          title: t('common.error'),
+          description: t('plots.locationUnavailable'),
+          variant: "destructive",
+        });
+      },
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 20000 }
+    );
+  };
+
+  const centerPx = project(mapCenter, zoom);
+  const left = centerPx.x - width / 2;
+  const top = centerPx.y - MAP_HEIGHT / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (width > 0) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tx}/${ty}`,
+          url: tileUrl(wrappedX, ty, zoom),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: centerPx, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    drag.moved = true;
+    setMapCenter(unproject(drag.origin.x - dx, drag.origin.y - dy, zoom));
+  };
+
+  // A tap that did not pan the map adds a corner (tracing by hand is disabled while walking)
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || isWalking) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPoints(prev => [...prev, unproject(left + e.clientX - rect.left, top + e.clientY - rect.top, zoom)]);
+  };
+
+  const changeZoom = (delta: number) => setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev + delta)));
+
+  const screenPoints = points.map(point => {
+    const { x, y } = project(point, zoom);
+    return { x: x - left, y: y - top };
+  });
+
+  const areaSqm = points.length >= 3 ? polygonAreaSqm(toBoundary(points)) : 0;
+  const areas = getLocalAreas(areaSqm, state);
+
+  const handleSave = () => {
+    if (points.length < 3 || areaSqm <= 0) {
+      toast({
+        title: t('common.error'),
+        description: t('plots.boundaryNeedsPoints'),
+        variant: "destructive",
+      });
+      return;
+    }
+    stopWalking();
+    onSave(toBoundary(points), areaSqm);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('plots.drawBoundary')}</DialogTitle>
+          <DialogDescription>{t('plots.boundaryHelp')}</DialogDescription>
+        </DialogHeader>
+
+        <div
+          ref={mapRef}
+          className="relative w-full overflow-hidden rounded-md border bg-muted touch-none select-none cursor-crosshair"
+          style={{ height: MAP_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { dragRef.current = null; }}
+        >
+          {tiles.map(tile => (
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute pointer-events-none"
+              style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+            />
+          ))}
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={MAP_HEIGHT}>
+            {screenPoints.length >= 3 ? (
+              <polygon
+                points={screenPoints.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="rgba(34, 197, 94, 0.25)"
+                stroke="#22c55e"
+                strokeWidth={2}
+              />
+            ) : (
+              <polyline
+                points={screenPoints.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="none"
+                stroke="#22c55e"
+                strokeWidth={2}
+              />
+            )}
+            {screenPoints.map(({ x, y }, index) => (
+              <circle key={index} cx={x} cy={y} r={4} fill="#ffffff" stroke="#16a34a" strokeWidth={2} />
+            ))}
+          </svg>
+          <div className="absolute right-2 top-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+            <Button type="button" variant="secondary" size="icon" className="h-8 w-8" onClick={() => changeZoom(1)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="secondary" size="icon" className="h-8 w-8" onClick={() => changeZoom(-1)}>
+              <Minus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-700">
+            Tiles © Esri, Maxar, Earthstar Geographics
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {isWalking ? (
+            <Button type="button" variant="destructive" size="sm" onClick={stopWalking}>
+              <Square className="h-4 w-4 mr-1" />
+              {t('plots.stopWalking')}
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={startWalking}>
+              <Footprints className="h-4 w-4 mr-1" />
+              {t('plots.walkBoundary')}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setPoints(prev => prev.slice(0, -1))}
+            disabled={points.length === 0}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            {t('plots.undoPoint')}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setPoints([])} disabled={points.length === 0}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            {t('plots.clearBoundary')}
+          </Button>
+          {isWalking && gpsAccuracy !== null && (
+            <span className={`text-xs ${gpsAccuracy > MAX_WALK_ACCURACY_M ? 'text-warning' : 'text-muted-foreground'}`}>
+              {t('plots.gpsAccuracy')}: ±{gpsAccuracy} m
+            </span>
+          )}
+        </div>
+
+        {areaSqm > 0 && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <div className="font-medium">{t('plots.measuredArea')}</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <div>{areas.acres} acres</div>
+              <div>{areas.hectares} hectares</div>
+              <div>{areas.bigha} bigha</div>
+              <div>{areas.guntha} guntha</div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {areas.bighaState ? `${t('plots.bighaOf')} ${areas.bighaState}` : t('plots.bighaDefault')}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>{t('common.cancel')}</Button>
+          <Button type="button" onClick={handleSave} disabled={points.length < 3}>{t('plots.useBoundary')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
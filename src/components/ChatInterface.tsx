@@ -1,13 +1,39 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, Image, Bot, User, Cloud, Thermometer, Droplets, Mic, MicOff, Volume2, StopCircle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Send, Image, Bot, User, Cloud, Thermometer, Droplets, Mic, MicOff, Volume2, StopCircle, History, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useTranslation } from "@/lib/translations";
+import {
+  ChatConversation,
+  NewChatMessage,
+  StoredChatMessage,
+  CHAT_HISTORY_LIMIT,
+  appendConversationMessages,
+  buildConversationTitle,
+  createConversation,
+  deleteConversation,
+  fetchConversationMessages,
+  fetchConversations,
+  renameConversation,
+} from "@/lib/chatConversations";
+import { streamChatAssistant } from "@/lib/chatStream";
+import { coordinateKey, invokeWithCache } from "@/lib/offlineCache";
+import { getSessionUserId, queueAction, subscribeToOutbox } from "@/lib/offlineSync";
 
 interface Message {
   id: string;
@@ -52,25 +78,48 @@ const getWelcomeMessage = (language: string, farmerName?: string): string => {
   }
 };
 
+// Convert a stored message back into the shape the chat renders
+const toChatMessage = (stored: StoredChatMessage): Message => ({
+  id: stored.id,
+  content: stored.content,
+  sender: stored.role === 'user' ? 'user' : 'bot',
+  timestamp: new Date(stored.createdAt),
+  type: stored.messageType,
+  weatherData: stored.weatherData,
+});
+
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerData }) => {
   const { toast } = useToast();
   const t = useTranslation(language);
 
+  const buildWelcomeMessage = useCallback((): Message => ({
+    id: 'welcome',
+    content: getWelcomeMessage(language, farmerData?.name),
+    sender: 'bot',
+    timestamp: new Date(),
+    type: 'text',
+  }), [language, farmerData?.name]);
+
   // Initialize with personalized welcome message
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: getWelcomeMessage(language, farmerData?.name),
-      sender: 'bot',
-      timestamp: new Date(),
-      type: 'text',
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([buildWelcomeMessage()]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [chatHistory, setChatHistory] = useState<Array<{ role: string, content: string }>>([]);
 
+  // Stored conversations
+  const [userId, setUserId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ChatConversation | null>(null);
+  // Questions asked offline in a chat that has no stored thread yet share this id until it is synced
+  const draftIdRef = useRef(Date.now().toString());
+  const activeConversationRef = useRef<string | null>(null);
+
   // Voice State
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -85,6 +134,156 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
     scrollToBottom();
   }, [messages]);
 
+  // Load stored conversations and resume the most recent one
+  useEffect(() => {
+    loadConversations();
+  }, []);
+
+  useEffect(() => {
+    activeConversationRef.current = activeConversationId;
+  }, [activeConversationId]);
+
+  const loadConversations = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+      const stored = await fetchConversations(user.id);
+      setConversations(stored);
+      if (stored.length > 0) {
+        await resumeConversation(stored[0].id);
+      }
+    } catch (error) {
+      console.error('Conversation load error:', error);
+    }
+  };
+
+  const resumeConversation = useCallback(async (conversationId: string) => {
+    try {
+      const stored = await fetchConversationMessages(conversationId);
+      setMessages([buildWelcomeMessage(), ...stored.map(toChatMessage)]);
+      setChatHistory(stored.map(({ role, content }) => ({ role, content })));
+      setActiveConversationId(conversationId);
+    } catch (error) {
+      console.error('Conversation fetch error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.networkError'),
+        variant: "destructive",
+      });
+    }
+  }, [buildWelcomeMessage, t, toast]);
+
+  // Questions queued offline are answered when the outbox syncs; show the answers if that chat is open
+  useEffect(() => {
+    return subscribeToOutbox(async (_pending, result) => {
+      const answered = (result?.synced || []).flatMap(entry => entry.kind === 'chat-message' ? [entry.payload] : []);
+      if (answered.length === 0) return;
+
+      toast({
+        title: t('common.success'),
+        description: t('chat.queuedAnswered'),
+      });
+      const open = answered.find(payload =>
+        payload.conversationId === activeConversationRef.current ||
+        (!activeConversationRef.current && payload.draftId === draftIdRef.current)
+      );
+      try {
+        setConversations(await fetchConversations(answered[0].userId));
+      } catch (error) {
+        console.error('Conversation load error:', error);
+      }
+      if (open?.conversationId) {
+        await resumeConversation(open.conversationId);
+      }
+    });
+  }, [resumeConversation, t, toast]);
+
+  const startNewConversation = () => {
+    draftIdRef.current = Date.now().toString();
+    setActiveConversationId(null);
+    setMessages([buildWelcomeMessage()]);
+    setChatHistory([]);
+  };
+
+  // Create the thread lazily on the first message so empty chats are never stored
+  const ensureConversation = async (firstMessage: string): Promise<string | null> => {
+    if (activeConversationId) return activeConversationId;
+    if (!userId) return null;
+
+    try {
+      const conversation = await createConversation(userId, buildConversationTitle(firstMessage), language);
+      setConversations(prev => [conversation, ...prev]);
+      setActiveConversationId(conversation.id);
+      return conversation.id;
+    } catch (error) {
+      console.error('Conversation create error:', error);
+      return null;
+    }
+  };
+
+  // Saving is best-effort: a failed write must not interrupt the conversation
+  const persistMessages = async (conversationId: string | null, newMessages: NewChatMessage[]) => {
+    if (!conversationId || !userId) return;
+
+    try {
+      await appendConversationMessages(userId, conversationId, newMessages);
+      const updatedAt = new Date().toISOString();
+      setConversations(prev => {
+        const current = prev.find(c => c.id === conversationId);
+        return current
+          ? [{ ...current, updatedAt }, ...prev.filter(c => c.id !== conversationId)]
+          : prev;
+      });
+    } catch (error) {
+      console.error('Message save error:', error);
+    }
+  };
+
+  const handleRenameConversation = async (conversationId: string) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title) return;
+
+    try {
+      const renamed = await renameConversation(conversationId, title);
+      setConversations(prev => prev.map(c => c.id === renamed.id ? renamed : c));
+    } catch (error) {
+      console.error('Conversation rename error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteConversation = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+
+    try {
+      await deleteConversation(target.id);
+      setConversations(prev => prev.filter(c => c.id !== target.id));
+      if (target.id === activeConversationId) {
+        startNewConversation();
+      }
+      toast({
+        title: t('common.success'),
+        description: t('chat.conversationDeleted'),
+      });
+    } catch (error) {
+      console.error('Conversation delete error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
   // Cleanup speech synthesis on unmount
   useEffect(() => {
     return () => {
@@ -218,14 +417,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
     }
 
     try {
-      const { data, error } = await supabase.functions.invoke('weather-data', {
-        body: {
-          latitude: farmerData.latitude,
-          longitude: farmerData.longitude,
-        },
-      });
-
-      if (error) throw error;
+      const { data } = await invokeWithCache<{ weather: unknown }>(
+        'weather-data',
+        { latitude: farmerData.latitude, longitude: farmerData.longitude },
+        `weather-data:${coordinateKey(farmerData.latitude, farmerData.longitude)}`
+      );
       return data.weather;
     } catch (error) {
       console.error('Weather fetch error:', error);
@@ -273,8 +469,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
         {forecast && (
           <div>
             <h4 className="font-medium mb-2">{t('weather.forecast')}</h4>
+            {/* A week fits the chat bubble; the weather widget has the full forecast */}
             <div className="grid grid-cols-7 gap-1 text-xs">
-              {forecast.labels.map((day: string, index: number) => (
+              {forecast.labels.slice(0, 7).map((day: string, index: number) => (
                 <div key={index} className="text-center bg-white/50 dark:bg-black/20 p-2 rounded">
                   <div className="font-medium">{day}</div>
                   <div>{forecast.temperature[index]}°C</div>
@@ -412,6 +609,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
       };
 
       setMessages(prev => [...prev, userMessage]);
+      const conversationId = await ensureConversation(userMessage.content);
+      await persistMessages(conversationId, [{ role: 'user', content: userMessage.content, messageType: 'image' }]);
 
       // Convert image to base64
       const base64Image = await fileToBase64(file);
@@ -443,6 +642,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
       };
 
       setMessages(prev => [...prev, botMessage]);
+      await persistMessages(conversationId, [{ role: 'assistant', content: analysisResult }]);
 
       // Add to chat history
       setChatHistory(prev => [
@@ -504,9 +704,53 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
     setMessages(prev => [...prev, userMessage]);
     const currentMessage = newMessage;
     setNewMessage('');
+
+    // Offline, the question waits in the outbox and is answered once the device reconnects
+    const offlineUserId = navigator.onLine ? null : userId ?? await getSessionUserId();
+    if (offlineUserId) {
+      queueAction({
+        kind: 'chat-message',
+        payload: {
+          userId: offlineUserId,
+          conversationId: activeConversationId,
+          draftId: draftIdRef.current,
+          message: currentMessage,
+          language,
+          farmerData,
+        },
+      });
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        content: t('chat.queuedOffline'),
+        sender: 'bot',
+        timestamp: new Date(),
+        type: 'text',
+      }]);
+      return;
+    }
+
     setIsLoading(true);
 
+    const botMessageId = (Date.now() + 1).toString();
+
+    // Render the streamed reply token by token in a single bot bubble
+    const upsertBotMessage = (changes: Partial<Message>) => {
+      setMessages(prev => prev.some(m => m.id === botMessageId)
+        ? prev.map(m => m.id === botMessageId ? { ...m, ...changes } : m)
+        : [...prev, {
+          id: botMessageId,
+          content: '',
+          sender: 'bot',
+          timestamp: new Date(),
+          type: 'text',
+          ...changes,
+        }]);
+    };
+
     try {
+      const conversationId = await ensureConversation(currentMessage);
+      await persistMessages(conversationId, [{ role: 'user', content: currentMessage }]);
+
       let weatherData = null;
 
       // Check if the message is weather-related
@@ -514,35 +758,38 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
         weatherData = await fetchWeatherData();
       }
 
-      // Call Supabase chat-assistant function (uses Gemini with Mistral fallback)
-      const { data, error } = await supabase.functions.invoke('chat-assistant', {
-        body: {
+      // Stream from the chat-assistant function (uses Gemini with Mistral fallback)
+      const { content } = await streamChatAssistant(
+        {
           message: currentMessage,
           language: language,
           farmerData: farmerData,
-          history: chatHistory.slice(-10), // Send last 10 messages for context
+          history: chatHistory.slice(-CHAT_HISTORY_LIMIT), // Send recent messages for context
         },
-      });
-
-      if (error) {
-        throw error;
-      }
+        {
+          onText: (text) => {
+            setStreamingMessageId(botMessageId);
+            upsertBotMessage({ content: text });
+          },
+        }
+      );
 
-      const assistantResponse = data?.response ||
+      const assistantResponse = content ||
         (language === 'hi' ? 'क्षमा करें, जवाब देने में समस्या हुई।' :
           language === 'ta' ? 'மன்னிக்கவும், பதிலளிப்பதில் சிக்கல்.' :
             'Sorry, there was an issue generating a response.');
 
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      upsertBotMessage({
         content: assistantResponse,
-        sender: 'bot',
-        timestamp: new Date(),
         type: weatherData ? 'weather' : 'text',
         weatherData: weatherData,
-      };
-
-      setMessages(prev => [...prev, botMessage]);
+      });
+      await persistMessages(conversationId, [{
+        role: 'assistant',
+        content: assistantResponse,
+        messageType: weatherData ? 'weather' : 'text',
+        weatherData: weatherData,
+      }]);
 
       // Update chat history for context
       setChatHistory(prev => [
@@ -575,9 +822,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
         type: 'text',
       };
 
-      setMessages(prev => [...prev, fallbackMessage]);
+      // Replace any partially streamed reply with the fallback
+      setMessages(prev => [...prev.filter(m => m.id !== botMessageId), fallbackMessage]);
     } finally {
       setIsLoading(false);
+      setStreamingMessageId(null);
     }
   };
 
@@ -598,9 +847,106 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
             <Cloud className="h-3 w-3 text-blue-500" />
             AI-Powered
           </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={startNewConversation}
+            disabled={isLoading || isUploadingImage}
+            title={t('chat.newConversation')}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={showHistory ? "secondary" : "ghost"}
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setShowHistory(prev => !prev)}
+            title={t('chat.conversations')}
+          >
+            <History className="h-4 w-4" />
+          </Button>
         </CardTitle>
       </CardHeader>
-      <CardContent className="flex-1 flex flex-col p-0 bg-card">
+      <CardContent className="flex-1 flex p-0 bg-card min-h-0">
+        {/* Conversations Sidebar */}
+        {showHistory && (
+          <div className="w-56 shrink-0 border-r border-border flex flex-col">
+            <div className="p-3 text-sm font-medium border-b border-border">{t('chat.conversations')}</div>
+            <ScrollArea className="flex-1">
+              {conversations.length === 0 ? (
+                <p className="p-3 text-xs text-muted-foreground">{t('chat.noConversations')}</p>
+              ) : (
+                <div className="p-2 space-y-1">
+                  {conversations.map((conversation) => (
+                    <div
+                      key={conversation.id}
+                      className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50 ${conversation.id === activeConversationId ? 'bg-muted' : ''}`}
+                      onClick={() => renamingId !== conversation.id && resumeConversation(conversation.id)}
+                    >
+                      {renamingId === conversation.id ? (
+                        <>
+                          <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRenameConversation(conversation.id);
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="h-7 text-xs"
+                            autoFocus
+                          />
+                          <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={(e) => { e.stopPropagation(); handleRenameConversation(conversation.id); }}>
+                            <Check className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={(e) => { e.stopPropagation(); setRenamingId(null); }}>
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <div className="flex-1 min-w-0">
+                            <div className="truncate">{conversation.title}</div>
+                            <div className="text-[10px] text-muted-foreground">
+                              {new Date(conversation.updatedAt).toLocaleDateString()}
+                            </div>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                            title={t('chat.renameConversation')}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setRenamingId(conversation.id);
+                              setRenameValue(conversation.title);
+                            }}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                            title={t('chat.deleteConversation')}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDeleteTarget(conversation);
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="flex-1 flex flex-col min-w-0">
         {/* Messages Area */}
         <ScrollArea className="flex-1 p-4 bg-card">
           <div className="space-y-4 min-h-full">
@@ -658,7 +1004,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
               </div>
             ))}
 
-            {(isLoading || isUploadingImage) && (
+            {((isLoading && !streamingMessageId) || isUploadingImage) && (
               <div className="flex gap-3 justify-start">
                 <Avatar className="h-8 w-8">
                   <AvatarFallback className="bg-primary text-primary-foreground">
@@ -732,7 +1078,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language, farmerDa
             </Button>
           </div>
         </div>
+        </div>
       </CardContent>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('chat.deleteConversation')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('chat.deleteConversationConfirm')} "{deleteTarget?.title}"
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConversation}>{t('common.delete')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
\ No newline at end of file
@@ -8,11 +8,19 @@ import { MarketPricesWidget } from './MarketPricesWidget';
 import { ChatInterface } from './ChatInterface';
 import { FertilizerAdvice } from './FertilizerAdvice';
 import { IrrigationGuide } from './IrrigationGuide';
+import { FarmingCalendar } from './FarmingCalendar';
 import { LanguageSelector } from './LanguageSelector';
 import { ProfileEdit } from './ProfileEdit';
 import { Settings } from './Settings';
 import { Notifications } from './Notifications';
+import { PlotManager } from './PlotManager';
+import { supabase } from "@/integrations/supabase/client";
 import { useTranslation } from "@/lib/translations";
+import { FarmPlot, fetchPlots, getPlotCrops, getTotalArea } from "@/lib/plots";
+import { resolveLocation } from "@/lib/location";
+import { AppNotification, fetchNotifications, generateNotifications } from "@/lib/notifications";
+import { flushOutbox, getPendingActions, subscribeToOutbox } from "@/lib/offlineSync";
+import { useToast } from "@/hooks/use-toast";
 import { 
   Cloud, 
   TrendingUp, 
@@ -20,12 +28,15 @@ import {
   Leaf,
   Droplets,
   Sprout,
+  CalendarDays,
   WifiOff,
+  RefreshCw,
   Bell,
   Settings as SettingsIcon,
   LogOut,
   User,
-  Edit
+  Edit,
+  Layers
 } from 'lucide-react';
 
 interface FarmerData {
@@ -75,6 +86,20 @@ const quickActions = [
     color: 'bg-earth-brown', 
     description: 'Water management' 
   },
+  { 
+    id: 'calendar', 
+    label: 'Farming Calendar', 
+    icon: CalendarDays, 
+    color: 'bg-primary', 
+    description: 'Sowing to harvest schedule' 
+  },
+  { 
+    id: 'plots', 
+    label: 'My Plots', 
+    icon: Layers, 
+    color: 'bg-success', 
+    description: 'Crop, soil and water per plot' 
+  },
 ];
 
 export const Dashboard: React.FC<DashboardProps> = ({ 
@@ -84,12 +109,88 @@ export const Dashboard: React.FC<DashboardProps> = ({
   onLogout 
 }) => {
   const t = useTranslation(language);
+  const { toast } = useToast();
   const [activeWidget, setActiveWidget] = useState<string>('chat');
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(() => getPendingActions().length);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [isProfileEditOpen, setIsProfileEditOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [currentFarmerData, setCurrentFarmerData] = useState<FarmerData>(farmerData);
+  const [plots, setPlots] = useState<FarmPlot[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  React.useEffect(() => {
+    const loadPlots = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        setPlots(await fetchPlots(user.id));
+      } catch (error) {
+        console.error('Error loading plots:', error);
+      }
+    };
+    loadPlots();
+  }, []);
+
+  // Run the notification rules first so the list includes anything raised since the last visit;
+  // if the rules cannot run (e.g. offline) the stored notifications are still shown
+  React.useEffect(() => {
+    const loadNotifications = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        try {
+          await generateNotifications();
+        } catch (error) {
+          console.error('Error generating notifications:', error);
+        }
+        setNotifications(await fetchNotifications(user.id));
+      } catch (error) {
+        console.error('Error loading notifications:', error);
+      }
+    };
+    loadNotifications();
+  }, []);
+
+  const unreadCount = notifications.filter(notification => !notification.isRead).length;
+
+  // Changes made offline wait in the outbox; the count shows until they have been sent
+  React.useEffect(() => {
+    return subscribeToOutbox((pending, result) => {
+      setPendingChanges(pending.length);
+      if (result && result.synced.length > 0 && result.remaining === 0) {
+        toast({
+          title: t('common.success'),
+          description: t('common.changesSynced'),
+        });
+      }
+    });
+  }, [t, toast]);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await flushOutbox();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Once plots exist they are the source of truth for land size and crops
+  const landSize = plots.length > 0 ? getTotalArea(plots, currentFarmerData.landUnit) : currentFarmerData.landSize;
+  const farmCrops = [...new Set([...currentFarmerData.crops, ...getPlotCrops(plots)])];
+
+  // Local land units such as bigha differ by state
+  const farmState = React.useMemo(() => {
+    const resolution = resolveLocation({
+      text: currentFarmerData.location,
+      latitude: currentFarmerData.latitude,
+      longitude: currentFarmerData.longitude,
+    });
+    return resolution.status === 'resolved' ? resolution.state : null;
+  }, [currentFarmerData.location, currentFarmerData.latitude, currentFarmerData.longitude]);
 
   React.useEffect(() => {
     const handleOnline = () => setIsOffline(false);
@@ -118,11 +219,30 @@ export const Dashboard: React.FC<DashboardProps> = ({
       case 'irrigation':
         setActiveWidget('irrigation');
         break;
+      case 'calendar':
+        setActiveWidget('calendar');
+        break;
+      case 'plots':
+        setActiveWidget('plots');
+        break;
       default:
         setActiveWidget('chat');
     }
   };
 
+  // Notification deep links look like /?widget=weather
+  const handleOpenLink = (actionUrl: string) => {
+    const widget = new URL(actionUrl, window.location.origin).searchParams.get('widget');
+    if (widget) handleQuickAction(widget);
+    setIsNotificationsOpen(false);
+  };
+
+  // Opened straight from a notification deep link
+  React.useEffect(() => {
+    const widget = new URLSearchParams(window.location.search).get('widget');
+    if (widget) setActiveWidget(widget);
+  }, []);
+
   const handleProfileUpdate = (updatedData: FarmerData) => {
     setCurrentFarmerData(updatedData);
   };
@@ -133,6 +253,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
     market: 'quickActions.marketPrices',
     fertilizer: 'quickActions.fertilizerAdvice',
     irrigation: 'quickActions.irrigationGuide',
+    calendar: 'quickActions.farmingCalendar',
+    plots: 'quickActions.myPlots',
   };
 
   const quickActionDescKey: Record<string, string> = {
@@ -140,6 +262,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
     market: 'quickActions.livePrices',
     fertilizer: 'quickActions.nutritionTips',
     irrigation: 'quickActions.waterManagement',
+    calendar: 'quickActions.sowingHarvest',
+    plots: 'quickActions.plotsDescription',
   };
 
   const renderActiveWidget = () => {
@@ -154,6 +278,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
         return <MarketPricesWidget 
           location={currentFarmerData.location}
           crops={currentFarmerData.crops}
+          latitude={currentFarmerData.latitude}
+          longitude={currentFarmerData.longitude}
           language={language}
         />;
       case 'fertilizer':
@@ -163,6 +289,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
             crops: currentFarmerData.crops,
             location: currentFarmerData.location,
           }}
+          plots={plots}
+          state={farmState}
         />;
       case 'irrigation':
         return <IrrigationGuide 
@@ -170,7 +298,30 @@ export const Dashboard: React.FC<DashboardProps> = ({
           farmerData={{
             crops: currentFarmerData.crops,
             location: currentFarmerData.location,
+            latitude: currentFarmerData.latitude,
+            longitude: currentFarmerData.longitude,
           }}
+          plots={plots}
+        />;
+      case 'calendar':
+        return <FarmingCalendar 
+          language={language}
+          farmerData={{
+            crops: currentFarmerData.crops,
+            latitude: currentFarmerData.latitude,
+            longitude: currentFarmerData.longitude,
+          }}
+          plots={plots}
+          onPlotsChange={setPlots}
+        />;
+      case 'plots':
+        return <PlotManager
+          language={language}
+          plots={plots}
+          crops={currentFarmerData.crops}
+          onPlotsChange={setPlots}
+          center={{ latitude: currentFarmerData.latitude, longitude: currentFarmerData.longitude }}
+          state={farmState}
         />;
       default:
         return <ChatInterface 
@@ -178,8 +329,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
           farmerData={{
             name: currentFarmerData.name,
             location: currentFarmerData.location,
-            crops: currentFarmerData.crops,
-            landSize: currentFarmerData.landSize,
+            crops: farmCrops,
+            landSize,
             landUnit: currentFarmerData.landUnit,
             latitude: currentFarmerData.latitude,
             longitude: currentFarmerData.longitude,
@@ -204,6 +355,19 @@ export const Dashboard: React.FC<DashboardProps> = ({
                   {t('chat.offline')}
                 </Badge>
               )}
+              {pendingChanges > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSyncNow}
+                  disabled={isOffline || isSyncing}
+                  title={t('common.syncNow')}
+                  className="flex items-center gap-1"
+                >
+                  <RefreshCw className={`h-3 w-3 ${isSyncing ? 'animate-spin' : ''}`} />
+                  {t('common.pendingChanges')}: {pendingChanges}
+                </Button>
+              )}
             </div>
             
             <div className="flex items-center gap-3">
@@ -218,9 +382,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 className="relative"
               >
                 <Bell className="h-4 w-4" />
-                <Badge className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs">
-                  3
-                </Badge>
+                {unreadCount > 0 && (
+                  <Badge className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs">
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                  </Badge>
+                )}
               </Button>
               <Button 
                 variant="ghost" 
@@ -268,14 +434,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <div>
                   <div className="text-sm text-muted-foreground">{t('profile.landSize')}</div>
                   <div className="font-medium">
-                    {currentFarmerData.landSize} {currentFarmerData.landUnit}
+                    {landSize} {currentFarmerData.landUnit}
                   </div>
                 </div>
                 
                 <div>
                   <div className="text-sm text-muted-foreground">{t('profile.crops')}</div>
                   <div className="flex flex-wrap gap-1 mt-1">
-                    {currentFarmerData.crops.map((crop, index) => (
+                    {farmCrops.map((crop, index) => (
                       <Badge key={index} variant="outline" className="text-xs">
                         {crop}
                       </Badge>
@@ -377,6 +543,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
         language={language}
         isOpen={isNotificationsOpen}
         onClose={() => setIsNotificationsOpen(false)}
+        notifications={notifications}
+        onNotificationsChange={setNotifications}
+        onOpenLink={handleOpenLink}
       />
 
       <Toaster />
@@ -1,12 +1,16 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { MapPin, User, Wheat, Calculator } from 'lucide-react';
+import { MapPin, MapPinned, User, Wheat, Calculator } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from '@/integrations/supabase/client';
+import { formatResolvedLocation, resolveLocation } from '@/lib/location';
+import { PlotBoundary, createPlot } from '@/lib/plots';
+import { polygonAreaSqm, sqmToUnit } from '@/lib/landMeasure';
+import { BoundaryMapDialog } from './BoundaryMapDialog';
 
 interface FarmerData {
   name: string;
@@ -43,6 +47,15 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
   const [selectedCrops, setSelectedCrops] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null);
+  const [boundary, setBoundary] = useState<PlotBoundary | null>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+
+  // Canonical state/district for the typed or GPS location, shown under the field and saved with the profile
+  const resolution = useMemo(() => resolveLocation({
+    text: formData.location,
+    latitude: coordinates?.lat,
+    longitude: coordinates?.lng,
+  }), [formData.location, coordinates]);
 
   const handleCropToggle = (crop: string) => {
     const updated = selectedCrops.includes(crop)
@@ -91,6 +104,8 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
           phone: formData.phone,
           latitude: coordinates?.lat || null,
           longitude: coordinates?.lng || null,
+          state: resolution.status === 'resolved' ? resolution.state : null,
+          district: resolution.status === 'resolved' ? resolution.district : null,
         });
 
       if (error) {
@@ -102,6 +117,21 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
         return;
       }
 
+      // Start the farm as a single plot; the farmer can split it up later
+      if (formData.landSize > 0) {
+        try {
+          await createPlot(user.id, {
+            name: 'My farm',
+            area: formData.landSize,
+            areaUnit: formData.landUnit,
+            currentCrop: selectedCrops[0],
+            boundary: boundary ?? undefined,
+          });
+        } catch (plotError) {
+          console.error('Default plot creation error:', plotError);
+        }
+      }
+
       const finalFarmerData: FarmerData = {
         ...formData,
         crops: selectedCrops
@@ -253,6 +283,21 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
                   📍 GPS
                 </Button>
               </div>
+              {formData.location && (
+                resolution.status === 'resolved' ? (
+                  <p className="text-xs text-muted-foreground">
+                    Detected: {formatResolvedLocation(resolution)}
+                  </p>
+                ) : resolution.status === 'ambiguous' ? (
+                  <p className="text-xs text-warning">
+                    Several places match ({resolution.candidates.map(c => c.district ? `${c.district}, ${c.state}` : c.state).join('; ')}). Please add your state.
+                  </p>
+                ) : (
+                  <p className="text-xs text-warning">
+                    We could not recognise this location. Add your district and state, or use GPS, for local prices and advice.
+                  </p>
+                )
+              )}
             </div>
 
             {/* Land Size */}
@@ -272,7 +317,11 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
                   step="0.1"
                 />
                 <Select value={formData.landUnit} onValueChange={(value: 'acres' | 'hectares') => 
-                  setFormData(prev => ({ ...prev, landUnit: value }))}>
+                  setFormData(prev => ({
+                    ...prev,
+                    landUnit: value,
+                    ...(boundary && { landSize: sqmToUnit(polygonAreaSqm(boundary), value) }),
+                  }))}>
                   <SelectTrigger className="w-32">
                     <SelectValue />
                   </SelectTrigger>
@@ -282,6 +331,22 @@ export const FarmerRegistration: React.FC<FarmerRegistrationProps> = ({
                   </SelectContent>
                 </Select>
               </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsMapOpen(true)}>
+                <MapPinned className="h-4 w-4 mr-1" />
+                {boundary ? 'Redraw field on map' : 'Measure field on map'}
+              </Button>
+              <BoundaryMapDialog
+                language="en"
+                open={isMapOpen}
+                onOpenChange={setIsMapOpen}
+                boundary={boundary}
+                center={coordinates ? { latitude: coordinates.lat, longitude: coordinates.lng } : undefined}
+                state={resolution.status === 'resolved' ? resolution.state : null}
+                onSave={(drawn, areaSqm) => {
+                  setBoundary(drawn);
+                  setFormData(prev => ({ ...prev, landSize: sqmToUnit(areaSqm, prev.landUnit) }));
+                }}
+              />
             </div>
 
             {/* Crops Selection */}
@@ -0,0 +1,693 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, ChevronLeft, ChevronRight, CheckCircle, XCircle, RotateCcw, Loader2, Sprout, CloudRain } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useTranslation, translateCropName } from '@/lib/translations';
+import {
+  CropActivity,
+  CropCalendar,
+  UserCalendarEntry,
+  getActivitiesForMonth,
+  getActivitiesForWeek,
+  getActivityById,
+  getUserCropCalendars,
+} from '@/lib/farmingCalendarData';
+import { ScheduleAnchor, generateCropSchedule, getAvailableAnchors, recomputeScheduleAfterCompletion } from '@/lib/cropScheduler';
+import { WeatherAdjustment, getForecastDays, planWeatherAdjustments } from '@/lib/weatherRescheduler';
+import {
+  cacheCalendarEntries,
+  fetchCalendarEntries,
+  readCachedCalendarEntries,
+  rescheduleCalendarEntries,
+  saveCropSchedule,
+  saveWeatherAdjustments,
+  updateCalendarEntryStatus,
+} from '@/lib/calendarEntries';
+import { FarmPlot, updatePlot } from '@/lib/plots';
+import { getSessionUserId, queueAction } from '@/lib/offlineSync';
+
+interface FarmingCalendarProps {
+  language: string;
+  farmerData?: {
+    crops: string[];
+    latitude?: number;
+    longitude?: number;
+  };
+  plots?: FarmPlot[];
+  onPlotsChange?: (plots: FarmPlot[]) => void;
+}
+
+// A schedule is generated per plot, or per profile crop that is not grown on any plot yet
+interface ScheduleTarget {
+  key: string;
+  calendar: CropCalendar;
+  plot: FarmPlot | null;
+}
+
+const getStatusColor = (status: UserCalendarEntry['status']) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'cancelled':
+      return 'bg-gray-100 text-gray-500 line-through';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const getPriorityColor = (priority: CropActivity['priority']) => {
+  switch (priority) {
+    case 'high':
+      return 'bg-red-500';
+    case 'medium':
+      return 'bg-yellow-500';
+    default:
+      return 'bg-green-500';
+  }
+};
+
+export const FarmingCalendar: React.FC<FarmingCalendarProps> = ({ language, farmerData, plots = [], onPlotsChange }) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<UserCalendarEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCheckingWeather, setIsCheckingWeather] = useState(false);
+  const [savingTarget, setSavingTarget] = useState<string | null>(null);
+  const [view, setView] = useState<'month' | 'week'>('month');
+  const [currentDate, setCurrentDate] = useState<Date>(new Date());
+  const [sowingDates, setSowingDates] = useState<Record<string, string>>({});
+  const [anchors, setAnchors] = useState<Record<string, ScheduleAnchor>>({});
+  const [selectedEntry, setSelectedEntry] = useState<UserCalendarEntry | null>(null);
+  const [entryNotes, setEntryNotes] = useState('');
+  const [completedOn, setCompletedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const plotTargets: ScheduleTarget[] = plots
+    .map(plot => ({ key: plot.id, calendar: getUserCropCalendars(plot.currentCrop ? [plot.currentCrop] : [])[0], plot }))
+    .filter(target => target.calendar !== undefined);
+  const targets: ScheduleTarget[] = [
+    ...plotTargets,
+    ...getUserCropCalendars(farmerData?.crops || [])
+      .filter(calendar => !plotTargets.some(target => target.calendar.cropName === calendar.cropName))
+      .map(calendar => ({ key: calendar.cropName, calendar, plot: null })),
+  ];
+  const calendars = [...new Set(targets.map(target => target.calendar))];
+
+  const isTargetEntry = (entry: UserCalendarEntry, target: ScheduleTarget) =>
+    entry.cropName === target.calendar.cropName && (entry.plotId ?? null) === (target.plot?.id ?? null);
+
+  const getSowingDate = (target: ScheduleTarget) => sowingDates[target.key] ?? target.plot?.sowingDate ?? '';
+
+  const getPlotName = (entry: UserCalendarEntry) =>
+    entry.plotId ? plots.find(plot => plot.id === entry.plotId)?.name : undefined;
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  // Keep the offline copy in step with every change once the calendar has loaded
+  useEffect(() => {
+    if (userId && !isLoading) cacheCalendarEntries(userId, entries);
+  }, [userId, isLoading, entries]);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    let currentUserId: string | null = null;
+    try {
+      // Offline the server cannot be asked who is signed in, so the stored session is used
+      currentUserId = await getSessionUserId();
+      if (!currentUserId) throw new Error('User not authenticated');
+
+      setUserId(currentUserId);
+      const loaded = await fetchCalendarEntries(currentUserId);
+      setEntries(loaded);
+      if (loaded.some(entry => entry.status === 'pending')) {
+        await adjustForWeather(loaded, false);
+      }
+    } catch (error) {
+      console.error('Calendar fetch error:', error);
+      const cached = currentUserId ? readCachedCalendarEntries(currentUserId) : null;
+      if (cached) {
+        setEntries(cached);
+      } else {
+        toast({
+          title: t('common.error'),
+          description: t('errors.networkError'),
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatAdjustmentReason = (adjustment: WeatherAdjustment) => {
+    const day = format(new Date(`${adjustment.blockedDate}T00:00:00`), 'd MMM');
+    return adjustment.reason === 'rain'
+      ? `${t('calendar.rainForecast')}: ${adjustment.value} mm (${day})`
+      : `${t('calendar.heatForecast')}: ${adjustment.value}°C (${day})`;
+  };
+
+  // Move pending weather-sensitive activities off forecast rain/heat days
+  const adjustForWeather = async (currentEntries: UserCalendarEntry[], notifyWhenUnchanged: boolean) => {
+    if (!farmerData?.latitude || !farmerData?.longitude) return;
+
+    setIsCheckingWeather(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('weather-data', {
+        body: { latitude: farmerData.latitude, longitude: farmerData.longitude },
+      });
+      if (error) throw error;
+
+      const adjustments = planWeatherAdjustments(currentEntries, getForecastDays(data?.weather?.forecast));
+      if (adjustments.length === 0) {
+        if (notifyWhenUnchanged) {
+          toast({
+            title: t('common.success'),
+            description: t('calendar.noWeatherChanges'),
+          });
+        }
+        return;
+      }
+
+      const updates = adjustments.map(adjustment => ({
+        id: adjustment.id,
+        scheduledDate: adjustment.scheduledDate,
+        originalScheduledDate: adjustment.originalScheduledDate,
+        reason: formatAdjustmentReason(adjustment),
+      }));
+      await saveWeatherAdjustments(updates);
+
+      setEntries(prev => prev
+        .map(entry => {
+          const update = updates.find(u => u.id === entry.id);
+          return update
+            ? {
+              ...entry,
+              scheduledDate: update.scheduledDate,
+              originalScheduledDate: update.originalScheduledDate,
+              weatherAdjusted: true,
+              weatherAdjustmentReason: update.reason,
+            }
+            : entry;
+        })
+        .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate)));
+      toast({
+        title: t('calendar.weatherRescheduled'),
+        description: updates.map(u => u.reason).join('; '),
+      });
+    } catch (error) {
+      console.error('Weather reschedule error:', error);
+      if (notifyWhenUnchanged) {
+        toast({
+          title: t('common.error'),
+          description: t('errors.networkError'),
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsCheckingWeather(false);
+    }
+  };
+
+  const handleGenerateSchedule = async (target: ScheduleTarget) => {
+    const { calendar, plot } = target;
+    const sowingDate = getSowingDate(target);
+    const anchor = anchors[target.key] || 'sowing';
+    if (!sowingDate || !userId) return;
+
+    setSavingTarget(target.key);
+    try {
+      const schedule = generateCropSchedule(calendar, new Date(`${sowingDate}T00:00:00`), anchor);
+      const saved = await saveCropSchedule(userId, calendar.cropName, schedule, plot?.id ?? null);
+      setEntries(prev => [
+        ...prev.filter(entry => !isTargetEntry(entry, target) || entry.status !== 'pending'),
+        ...saved,
+      ].sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate)));
+
+      // Keep the plot's sowing date in step with the schedule built from it
+      if (plot && anchor === 'sowing' && plot.sowingDate !== sowingDate) {
+        const updated = await updatePlot(plot.id, { sowingDate });
+        onPlotsChange?.(plots.map(existing => existing.id === updated.id ? updated : existing));
+      }
+      toast({
+        title: t('common.success'),
+        description: t('calendar.scheduleSaved'),
+      });
+    } catch (error) {
+      console.error('Schedule save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTarget(null);
+    }
+  };
+
+  const handleStatusChange = async (status: UserCalendarEntry['status']) => {
+    if (!selectedEntry) return;
+
+    const notes = entryNotes.trim() || undefined;
+    const completedDate = new Date(`${completedOn}T00:00:00`);
+    const isOffline = !navigator.onLine;
+
+    try {
+      // Offline, the change is applied here and queued; the same update is sent once back online
+      const updated = isOffline
+        ? {
+          ...selectedEntry,
+          status,
+          notes,
+          completedDate: status === 'completed' ? completedDate.toISOString() : undefined,
+        }
+        : await updateCalendarEntryStatus(selectedEntry.id, status, notes, completedDate);
+      if (isOffline) {
+        queueAction({
+          kind: 'calendar-status',
+          payload: { entryId: selectedEntry.id, status, notes, completedDate: completedDate.toISOString() },
+        });
+      }
+
+      // A late completion pushes the crop's remaining activities back
+      const rescheduled = status === 'completed' ? recomputeScheduleAfterCompletion(entries, updated) : [];
+      if (rescheduled.length > 0) {
+        if (isOffline) {
+          queueAction({ kind: 'calendar-reschedule', payload: { updates: rescheduled } });
+        } else {
+          await rescheduleCalendarEntries(rescheduled);
+        }
+      }
+
+      setEntries(prev => prev
+        .map(entry => {
+          if (entry.id === updated.id) return updated;
+          const moved = rescheduled.find(r => r.id === entry.id);
+          return moved ? { ...entry, scheduledDate: moved.scheduledDate } : entry;
+        })
+        .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate)));
+      setSelectedEntry(null);
+      const description = rescheduled.length > 0
+        ? `${t('calendar.entryUpdated')}. ${t('calendar.activitiesRescheduled')}: ${rescheduled.length}`
+        : t('calendar.entryUpdated');
+      toast({
+        title: t('common.success'),
+        description: isOffline ? `${description}. ${t('common.savedOffline')}` : description,
+      });
+    } catch (error) {
+      console.error('Calendar entry update error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openEntry = (entry: UserCalendarEntry) => {
+    setSelectedEntry(entry);
+    setEntryNotes(entry.notes || '');
+    setCompletedOn(format(new Date(entry.completedDate || Date.now()), 'yyyy-MM-dd'));
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    setCurrentDate(prev => view === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const getEntriesForDay = (day: Date) =>
+    entries.filter(entry => isSameDay(new Date(entry.scheduledDate), day));
+
+  const getActivityName = (entry: UserCalendarEntry) =>
+    getActivityById(entry.cropName, entry.activityId)?.name || entry.activityId;
+
+  const renderEntryChip = (entry: UserCalendarEntry) => (
+    <button
+      key={entry.id}
+      type="button"
+      onClick={() => openEntry(entry)}
+      className={`w-full text-left text-[10px] leading-tight rounded px-1 py-0.5 truncate ${getStatusColor(entry.status)}`}
+      title={`${translateCropName(entry.cropName, language)}${getPlotName(entry) ? ` (${getPlotName(entry)})` : ''}: ${getActivityName(entry)}`}
+    >
+      {entry.weatherAdjusted && '🌧️ '}
+      {getActivityName(entry)}
+    </button>
+  );
+
+  // Generic month/week activities from the crop dataset, shown until the farmer saves a schedule
+  const renderTypicalActivities = (activities: CropActivity[]) => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-muted-foreground">{t('calendar.typicalActivities')}</h4>
+      {activities.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('calendar.noActivities')}</p>
+      ) : (
+        activities.map(activity => (
+          <div key={activity.id} className="flex items-start gap-2 border rounded-lg p-2">
+            <div className={`w-2 h-2 rounded-full mt-1.5 ${getPriorityColor(activity.priority)}`} />
+            <div>
+              <div className="text-sm font-medium">{activity.name}</div>
+              <div className="text-xs text-muted-foreground">{activity.description}</div>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  const renderMonthView = () => {
+    const days = eachDayOfInterval({
+      start: startOfWeek(startOfMonth(currentDate)),
+      end: endOfWeek(endOfMonth(currentDate)),
+    });
+
+    return (
+      <div className="grid grid-cols-7 gap-1">
+        {days.slice(0, 7).map(day => (
+          <div key={`head-${day.toISOString()}`} className="text-xs font-medium text-center text-muted-foreground py-1">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayEntries = getEntriesForDay(day);
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-[80px] border rounded p-1 space-y-0.5 ${isSameMonth(day, currentDate) ? '' : 'opacity-40'} ${isSameDay(day, new Date()) ? 'border-primary' : ''}`}
+            >
+              <div className="text-xs font-medium">{format(day, 'd')}</div>
+              {dayEntries.slice(0, 3).map(renderEntryChip)}
+              {dayEntries.length > 3 && (
+                <div className="text-[10px] text-muted-foreground">+{dayEntries.length - 3}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeekView = () => {
+    const weekStart = startOfWeek(currentDate);
+    const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+    return (
+      <div className="space-y-2">
+        {days.map(day => {
+          const dayEntries = getEntriesForDay(day);
+          return (
+            <div key={day.toISOString()} className={`border rounded-lg p-3 ${isSameDay(day, new Date()) ? 'border-primary' : ''}`}>
+              <div className="text-sm font-medium mb-2">{format(day, 'EEEE, d MMM')}</div>
+              {dayEntries.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{t('calendar.noActivities')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {dayEntries.map(entry => {
+                    const activity = getActivityById(entry.cropName, entry.activityId);
+                    return (
+                      <div
+                        key={entry.id}
+                        className="flex items-start justify-between gap-2 cursor-pointer hover:bg-muted/50 rounded p-1"
+                        onClick={() => openEntry(entry)}
+                      >
+                        <div className="flex items-start gap-2">
+                          {activity && <div className={`w-2 h-2 rounded-full mt-1.5 ${getPriorityColor(activity.priority)}`} />}
+                          <div>
+                            <div className="text-sm font-medium flex items-center gap-1">
+                              {activity?.name || entry.activityId}
+                              {entry.weatherAdjusted && <CloudRain className="h-3 w-3 text-blue-600" />}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {translateCropName(entry.cropName, language)}
+                              {getPlotName(entry) && ` · ${getPlotName(entry)}`}
+                              {activity && ` · ${activity.duration} ${t('units.days')}`}
+                            </div>
+                          </div>
+                        </div>
+                        <Badge className={getStatusColor(entry.status)} variant="outline">
+                          {t(`calendar.${entry.status}`)}
+                        </Badge>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const selectedActivity = selectedEntry ? getActivityById(selectedEntry.cropName, selectedEntry.activityId) : null;
+  const month = currentDate.getMonth() + 1;
+  const week = Math.min(4, Math.ceil(currentDate.getDate() / 7));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-green-600" />
+            {t('calendar.title')}
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          </CardTitle>
+          <CardDescription>{t('calendar.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {targets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('calendar.noCalendarCrops')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {targets.map(target => {
+                const { calendar, plot } = target;
+                const hasSchedule = entries.some(entry => isTargetEntry(entry, target));
+                const availableAnchors = getAvailableAnchors(calendar);
+                const anchor = anchors[target.key] || 'sowing';
+                return (
+                  <div key={target.key} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Sprout className="h-4 w-4 text-green-600" />
+                      <span className="font-medium">{translateCropName(calendar.cropName, language)}</span>
+                      {plot && <span className="text-sm text-muted-foreground">· {plot.name}</span>}
+                      <Badge variant="outline" className="capitalize">{calendar.season.replace('_', ' ')}</Badge>
+                    </div>
+                    {availableAnchors.length > 1 && (
+                      <Select
+                        value={anchor}
+                        onValueChange={(value) => setAnchors(prev => ({ ...prev, [target.key]: value as ScheduleAnchor }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={t('calendar.dateType')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sowing">{t('calendar.sowingDate')}</SelectItem>
+                          <SelectItem value="transplanting">{t('calendar.transplantingDate')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Label htmlFor={`sowing-${target.key}`}>
+                      {anchor === 'transplanting' ? t('calendar.transplantingDate') : t('calendar.sowingDate')}
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id={`sowing-${target.key}`}
+                        type="date"
+                        value={getSowingDate(target)}
+                        onChange={(e) => setSowingDates(prev => ({ ...prev, [target.key]: e.target.value }))}
+                      />
+                      <Button
+                        onClick={() => handleGenerateSchedule(target)}
+                        disabled={!getSowingDate(target) || !userId || savingTarget !== null}
+                      >
+                        {savingTarget === target.key && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                        {hasSchedule ? t('calendar.regenerateSchedule') : t('calendar.generateSchedule')}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+                {t('calendar.today')}
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => navigate(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <span className="font-semibold ml-2">
+                {view === 'month'
+                  ? format(currentDate, 'MMMM yyyy')
+                  : `${format(startOfWeek(currentDate), 'd MMM')} - ${format(endOfWeek(currentDate), 'd MMM yyyy')}`}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {farmerData?.latitude && farmerData?.longitude && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => adjustForWeather(entries, true)}
+                  disabled={isCheckingWeather || entries.length === 0}
+                >
+                  {isCheckingWeather
+                    ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    : <CloudRain className="h-4 w-4 mr-1" />}
+                  {t('calendar.checkWeather')}
+                </Button>
+              )}
+              <Tabs value={view} onValueChange={(value) => setView(value as 'month' | 'week')}>
+                <TabsList>
+                  <TabsTrigger value="month">{t('calendar.monthView')}</TabsTrigger>
+                  <TabsTrigger value="week">{t('calendar.weekView')}</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {view === 'month' ? renderMonthView() : renderWeekView()}
+          {entries.length === 0 && calendars.length > 0 && renderTypicalActivities(
+            view === 'month'
+              ? getActivitiesForMonth(calendars, month)
+              : getActivitiesForWeek(calendars, month, week)
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-lg">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  {selectedActivity?.name || selectedEntry.activityId}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{translateCropName(selectedEntry.cropName, language)}</Badge>
+                  {getPlotName(selectedEntry) && <Badge variant="outline">{getPlotName(selectedEntry)}</Badge>}
+                  <Badge className={getStatusColor(selectedEntry.status)} variant="outline">
+                    {t(`calendar.${selectedEntry.status}`)}
+                  </Badge>
+                </div>
+                <div className="text-sm">
+                  <span className="font-medium">{t('calendar.scheduledFor')}: </span>
+                  {format(new Date(selectedEntry.scheduledDate), 'd MMM yyyy')}
+                  {selectedActivity && selectedActivity.duration > 1 &&
+                    ` - ${format(addDays(new Date(selectedEntry.scheduledDate), selectedActivity.duration - 1), 'd MMM yyyy')}`}
+                  {selectedActivity && ` · ${selectedActivity.duration} ${t('units.days')}`}
+                </div>
+                {selectedEntry.weatherAdjusted && (
+                  <Alert>
+                    <CloudRain className="h-4 w-4" />
+                    <AlertDescription>
+                      <strong>{t('calendar.weatherAdjusted')}</strong>
+                      {selectedEntry.weatherAdjustmentReason && `: ${selectedEntry.weatherAdjustmentReason}`}
+                      {selectedEntry.originalScheduledDate && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {t('calendar.originallyScheduled')}: {format(new Date(selectedEntry.originalScheduledDate), 'd MMM yyyy')}
+                        </div>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {selectedActivity && (
+                  <>
+                    <p className="text-sm text-muted-foreground">{selectedActivity.description}</p>
+                    {selectedActivity.inputs && selectedActivity.inputs.length > 0 && (
+                      <div>
+                        <div className="text-sm font-medium mb-1">{t('calendar.inputs')}:</div>
+                        <ul className="text-sm list-disc pl-4">
+                          {selectedActivity.inputs.map((input, index) => (
+                            <li key={index}>{input}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {selectedActivity.notes && (
+                      <p className="text-xs text-muted-foreground">💡 {selectedActivity.notes}</p>
+                    )}
+                  </>
+                )}
+                {selectedEntry.status !== 'completed' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="calendar-entry-completed-on">{t('calendar.completedOn')}</Label>
+                    <Input
+                      id="calendar-entry-completed-on"
+                      type="date"
+                      value={completedOn}
+                      onChange={(e) => setCompletedOn(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-entry-notes">{t('calendar.notes')}</Label>
+                  <Textarea
+                    id="calendar-entry-notes"
+                    value={entryNotes}
+                    onChange={(e) => setEntryNotes(e.target.value)}
+                    placeholder={t('calendar.notesPlaceholder')}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2 justify-end">
+                  {selectedEntry.status !== 'pending' && (
+                    <Button variant="outline" onClick={() => handleStatusChange('pending')}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {t('calendar.markPending')}
+                    </Button>
+                  )}
+                  {selectedEntry.status !== 'cancelled' && (
+                    <Button variant="outline" onClick={() => handleStatusChange('cancelled')}>
+                      <XCircle className="h-4 w-4 mr-1" />
+                      {t('calendar.markCancelled')}
+                    </Button>
+                  )}
+                  {selectedEntry.status !== 'completed' && (
+                    <Button onClick={() => handleStatusChange('completed')}>
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      {t('calendar.markCompleted')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -5,10 +5,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Calculator, Leaf, TrendingUp, Calendar, Droplets, Info } from 'lucide-react';
+import { Calculator, Leaf, TrendingUp, Calendar, Droplets, Info, FlaskConical, Plus, Trash2, IndianRupee } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useTranslation, translateStageName, translateFertilizerName, translateUnit, translateApplicationMethod } from '@/lib/translations';
+import { useTranslation, translateStageName, translateFertilizerName, translateUnit, translateApplicationMethod, translateStateName } from '@/lib/translations';
 import { getCropData, getAvailableCrops, CropData } from '@/lib/cropData';
+import { FarmPlot, getPlotCrops, toAcres } from '@/lib/plots';
+import { SoilTest, deleteSoilTest, fetchSoilTests, getLatestSoilTest } from '@/lib/soilTests';
+import { ADVISORY_LABEL_KEYS, RATING_LABEL_KEYS, adjustNpk, assessSoilTest, clampYieldTarget, getStcrEquation } from '@/lib/soilFertility';
+import { getCropProducts, getSeasonPurchase, planStageBlends } from '@/lib/fertilizerOptimizer';
+import { FertilizerPrice, fetchFertilizerPrices, resolvePrices } from '@/lib/fertilizerPrices';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PlotSelect } from './PlotSelect';
+import { SoilTestDialog } from './SoilTestDialog';
+import { FertilizerPriceDialog } from './FertilizerPriceDialog';
 
 interface FertilizerAdviceProps {
   language: string;
@@ -16,6 +26,8 @@ interface FertilizerAdviceProps {
     crops: string[];
     location: string;
   };
+  plots?: FarmPlot[];
+  state?: string | null;
 }
 
 interface SoilData {
@@ -52,15 +64,87 @@ const soilData: Record<string, SoilData> = {
   }
 };
 
-export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, farmerData }) => {
+const NO_SOIL_TEST = 'none';
+
+export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, farmerData, plots = [], state }) => {
+  const { toast } = useToast();
   const t = useTranslation(language);
   const [selectedCrop, setSelectedCrop] = useState<string>('');
   const [selectedSoil, setSelectedSoil] = useState<string>('');
   const [landSize, setLandSize] = useState<number>(1);
   const [selectedType, setSelectedType] = useState<'organic' | 'synthetic'>('organic');
+  const [selectedPlotId, setSelectedPlotId] = useState<string | null>(null);
+  const [soilTests, setSoilTests] = useState<SoilTest[]>([]);
+  const [selectedTestId, setSelectedTestId] = useState<string | null>(null);
+  const [isSoilTestOpen, setIsSoilTestOpen] = useState(false);
+  const [prices, setPrices] = useState<FertilizerPrice[]>([]);
+  const [isPricesOpen, setIsPricesOpen] = useState(false);
+  // Yield target (q/ha) per crop, for crops with STCR equations
+  const [yieldTargets, setYieldTargets] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const loadSoilTests = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        const loaded = await fetchSoilTests(user.id);
+        setSoilTests(loaded);
+        setSelectedTestId(getLatestSoilTest(loaded)?.id ?? null);
+      } catch (error) {
+        console.error('Soil test fetch error:', error);
+      }
+    };
+    loadSoilTests();
+  }, []);
+
+  useEffect(() => {
+    const loadPrices = async () => {
+      try {
+        setPrices(await fetchFertilizerPrices());
+      } catch (error) {
+        console.error('Fertilizer price fetch error:', error);
+      }
+    };
+    loadPrices();
+  }, []);
+
+  // Local prices in force today; products without one keep the crop data's built-in cost
+  const resolvedPrices = resolvePrices(prices, state);
 
-  // Get available crops for the user
-  const availableCrops = farmerData?.crops ? getAvailableCrops(farmerData.crops) : [];
+  const selectedTest = soilTests.find(test => test.id === selectedTestId) ?? null;
+
+  const handleDeleteSoilTest = async () => {
+    if (!selectedTest) return;
+    try {
+      await deleteSoilTest(selectedTest.id);
+      setSoilTests(prev => prev.filter(test => test.id !== selectedTest.id));
+      setSelectedTestId(null);
+      toast({
+        title: t('common.success'),
+        description: t('soilTest.deleted'),
+      });
+    } catch (error) {
+      console.error('Soil test delete error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Get available crops for the user, including crops standing on their plots
+  const availableCrops = getAvailableCrops([...new Set([...(farmerData?.crops || []), ...getPlotCrops(plots)])]);
+
+  // Advice for a plot uses that plot's crop, soil and area
+  const handlePlotChange = (plot: FarmPlot | null) => {
+    setSelectedPlotId(plot?.id ?? null);
+    if (!plot) return;
+    if (plot.currentCrop && getCropData(plot.currentCrop)) setSelectedCrop(plot.currentCrop.toLowerCase());
+    setSelectedSoil(plot.soilType ?? '');
+    setLandSize(Math.round(toAcres(plot.area, plot.areaUnit) * 100) / 100);
+    setSelectedTestId(getLatestSoilTest(soilTests, plot.id)?.id ?? null);
+  };
   
   // Auto-select first crop if available
   useEffect(() => {
@@ -77,13 +161,6 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
     };
   };
 
-  const calculateCost = (fertilizer: any, requirement: { N: number; P: number; K: number }) => {
-    const nCost = (requirement.N / fertilizer.npk.N) * fertilizer.cost;
-    const pCost = (requirement.P / fertilizer.npk.P) * fertilizer.cost;
-    const kCost = (requirement.K / fertilizer.npk.K) * fertilizer.cost;
-    return Math.round((nCost + pCost + kCost) * 10) / 10;
-  };
-
   const getTotalNPK = () => {
     if (!selectedCrop) return { N: 0, P: 0, K: 0 };
     
@@ -101,9 +178,44 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
     return total;
   };
 
-  const totalNPK = getTotalNPK();
+  // Doses follow the selected soil test, worked out for the yield target where the crop has STCR
+  // equations; without a test the general recommendation applies
+  const stcrEquation = selectedCrop ? getStcrEquation(selectedCrop) : null;
+  const yieldTarget = stcrEquation ? yieldTargets[selectedCrop] ?? stcrEquation.typicalYield : null;
+  const assessment = selectedTest
+    ? assessSoilTest(
+      selectedTest.values,
+      stcrEquation && yieldTarget !== null ? { crop: selectedCrop, yield: yieldTarget, generalDose: getTotalNPK() } : undefined
+    )
+    : null;
+  const usesStcr = Object.values(assessment?.methods ?? {}).includes('stcr');
+
+  const totalNPK = adjustNpk(getTotalNPK(), assessment);
   const totalRequirement = calculateFertilizerRequirement(totalNPK, landSize);
 
+  // Cheapest mix of the organic or synthetic products for every stage, and the bags to buy
+  const getMixPlan = (type: 'organic' | 'synthetic') => {
+    const crop = selectedCrop ? getCropData(selectedCrop) : null;
+    if (!crop) return { products: [], stages: [], purchase: [] };
+    const products = getCropProducts(crop, type, resolvedPrices);
+    const stages = planStageBlends(
+      Object.entries(crop.stages).map(([stage, data]) => ({ stage, npk: adjustNpk(data.npk, assessment) })),
+      landSize,
+      products
+    );
+    return { products, stages, purchase: getSeasonPurchase(stages, products) };
+  };
+
+  const mixPlans = { organic: getMixPlan('organic'), synthetic: getMixPlan('synthetic') };
+  const activePlan = mixPlans[selectedType];
+  const getBagKg = (productId: string) =>
+    [...mixPlans.organic.products, ...mixPlans.synthetic.products].find(product => product.id === productId)?.bagKg ?? 50;
+  const getPricePerKg = (productId: string, builtInCost: number) => resolvedPrices[productId]?.pricePerKg ?? builtInCost;
+  const pricesAsOf = Object.values(resolvedPrices).reduce((latest, price) =>
+    (price.effectiveFrom > latest ? price.effectiveFrom : latest), '');
+  const formatProductName = (productId: string) =>
+    translateFertilizerName(selectedType === 'synthetic' ? productId.toUpperCase() : productId.replace(/([A-Z])/g, ' $1'), language);
+
   return (
     <div className="space-y-6">
       <Card>
@@ -117,7 +229,10 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className={`grid grid-cols-1 ${plots.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4`}>
+            {plots.length > 0 && (
+              <PlotSelect language={language} plots={plots} value={selectedPlotId} onChange={handlePlotChange} />
+            )}
             <div className="space-y-2">
               <label className="text-sm font-medium">{t('fertilizerAdvice.selectCrop')}</label>
               <Select value={selectedCrop} onValueChange={setSelectedCrop}>
@@ -162,6 +277,42 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
             </div>
           </div>
 
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2 flex-1 min-w-[220px]">
+              <label className="text-sm font-medium flex items-center gap-1">
+                <FlaskConical className="h-4 w-4" />
+                {t('soilTest.selectSoilTest')}
+              </label>
+              <Select
+                value={selectedTestId ?? NO_SOIL_TEST}
+                onValueChange={(value) => setSelectedTestId(value === NO_SOIL_TEST ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SOIL_TEST}>{t('soilTest.noSoilTest')}</SelectItem>
+                  {soilTests.map(test => (
+                    <SelectItem key={test.id} value={test.id}>
+                      {test.sampleDate}
+                      {test.plotId && ` · ${plots.find(plot => plot.id === test.plotId)?.name ?? ''}`}
+                      {test.labName && ` · ${test.labName}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => setIsSoilTestOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t('soilTest.addSoilTest')}
+            </Button>
+            {selectedTest && (
+              <Button variant="ghost" size="icon" onClick={handleDeleteSoilTest} title={t('soilTest.deleteSoilTest')}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
           {selectedSoil && soilData[selectedSoil] && (
             <Alert>
               <Info className="h-4 w-4" />
@@ -175,6 +326,81 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
         </CardContent>
       </Card>
 
+      {assessment && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-amber-700" />
+              {t('soilTest.soilStatus')}
+            </CardTitle>
+            <CardDescription>{t(usesStcr ? 'soilTest.targetedDose' : 'soilTest.adjustedDose')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stcrEquation && yieldTarget !== null && (
+              <div className="space-y-1 max-w-xs">
+                <label className="text-sm font-medium">{t('soilTest.yieldTarget')}</label>
+                <input
+                  type="number"
+                  value={yieldTarget}
+                  onChange={(e) => setYieldTargets(prev => ({ ...prev, [selectedCrop]: Number(e.target.value) }))}
+                  onBlur={() => setYieldTargets(prev => ({ ...prev, [selectedCrop]: clampYieldTarget(stcrEquation, yieldTarget) }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  min={stcrEquation.yieldRange[0]}
+                  max={stcrEquation.yieldRange[1]}
+                  step="1"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {t('soilTest.stcrEquations')}: {translateStateName(stcrEquation.region, language)}, {stcrEquation.yieldRange[0]}–{stcrEquation.yieldRange[1]}
+                </p>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {(['N', 'P', 'K'] as const).map(nutrient => {
+                const rating = assessment.ratings[nutrient];
+                if (!rating) return null;
+                const targeted = assessment.targetedDose[nutrient];
+                return (
+                  <Badge key={nutrient} variant="outline">
+                    {nutrient}: {t(RATING_LABEL_KEYS[rating])} · {targeted !== undefined
+                      ? `${t('soilTest.methodStcr')} ${targeted} ${translateUnit('kg/acre', language)}`
+                      : `${Math.round(assessment.doseFactors[nutrient] * 100)}%`}
+                  </Badge>
+                );
+              })}
+            </div>
+            {assessment.nitrogenFromOrganicCarbon && (
+              <p className="text-xs text-muted-foreground">{t('soilTest.nitrogenFromOc')}</p>
+            )}
+            {assessment.advisories.map(advisory => (
+              <Alert key={advisory.key} variant={advisory.severity === 'warning' ? 'destructive' : 'default'}>
+                <Info className="h-4 w-4" />
+                <AlertDescription>{t(ADVISORY_LABEL_KEYS[advisory.key])}</AlertDescription>
+              </Alert>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <SoilTestDialog
+        language={language}
+        open={isSoilTestOpen}
+        onOpenChange={setIsSoilTestOpen}
+        plots={plots}
+        plotId={selectedPlotId}
+        onSaved={(test) => {
+          setSoilTests(prev => [test, ...prev]);
+          setSelectedTestId(test.id);
+        }}
+      />
+      <FertilizerPriceDialog
+        language={language}
+        open={isPricesOpen}
+        onOpenChange={setIsPricesOpen}
+        prices={prices}
+        state={state}
+        onPricesChange={setPrices}
+      />
+
       {selectedCrop && getCropData(selectedCrop) && (
         <>
           <Tabs value={selectedType} onValueChange={(value) => setSelectedType(value as 'organic' | 'synthetic')}>
@@ -193,12 +419,12 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {Object.entries(getCropData(selectedCrop)!.organicAlternatives).map(([key, fertilizer]) => {
-                    const cost = calculateCost(fertilizer, totalRequirement);
+                    const purchase = mixPlans.organic.purchase.find(line => line.productId === key);
                     return (
                       <div key={key} className="border rounded-lg p-4">
                         <div className="flex justify-between items-start mb-2">
                           <h4 className="font-semibold capitalize">{translateFertilizerName(key.replace(/([A-Z])/g, ' $1'), language)}</h4>
-                          <Badge variant="secondary">₹{cost}</Badge>
+                          <Badge variant="secondary">₹{getPricePerKg(key, fertilizer.cost)}{t('fertilizerAdvice.perKg')}</Badge>
                         </div>
                         <div className="grid grid-cols-3 gap-4 text-sm">
                           <div>
@@ -212,7 +438,9 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
                           </div>
                         </div>
                         <div className="mt-2 text-sm text-gray-600">
-                          {t('fertilizerAdvice.required')}: {Math.round((totalRequirement.N / fertilizer.npk.N) * 100) / 100} {translateUnit('kg', language)}
+                          {purchase
+                            ? `${t('fertilizerAdvice.required')}: ${purchase.kg} ${translateUnit('kg', language)} · ${t('fertilizerAdvice.toBuy')}: ${purchase.bags} × ${getBagKg(key)} kg`
+                            : t('fertilizerAdvice.notNeeded')}
                         </div>
                       </div>
                     );
@@ -231,12 +459,12 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {Object.entries(getCropData(selectedCrop)!.syntheticOptions).map(([key, fertilizer]) => {
-                    const cost = calculateCost(fertilizer, totalRequirement);
+                    const purchase = mixPlans.synthetic.purchase.find(line => line.productId === key);
                     return (
                       <div key={key} className="border rounded-lg p-4">
                         <div className="flex justify-between items-start mb-2">
                           <h4 className="font-semibold uppercase">{translateFertilizerName(key, language)}</h4>
-                          <Badge variant="secondary">₹{cost}</Badge>
+                          <Badge variant="secondary">₹{getPricePerKg(key, fertilizer.cost)}{t('fertilizerAdvice.perKg')}</Badge>
                         </div>
                         <div className="grid grid-cols-3 gap-4 text-sm">
                           <div>
@@ -250,7 +478,9 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
                           </div>
                         </div>
                         <div className="mt-2 text-sm text-gray-600">
-                          {t('fertilizerAdvice.required')}: {Math.round((totalRequirement.N / fertilizer.npk.N) * 100) / 100} {translateUnit('kg', language)}
+                          {purchase
+                            ? `${t('fertilizerAdvice.required')}: ${purchase.kg} ${translateUnit('kg', language)} · ${t('fertilizerAdvice.toBuy')}: ${purchase.bags} × ${getBagKg(key)} kg`
+                            : t('fertilizerAdvice.notNeeded')}
                         </div>
                       </div>
                     );
@@ -260,6 +490,78 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
             </TabsContent>
           </Tabs>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="h-5 w-5 text-green-600" />
+                {t('fertilizerAdvice.cheapestMix')}
+              </CardTitle>
+              <CardDescription>{t('fertilizerAdvice.cheapestMixDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>{pricesAsOf ? `${t('fertilizerAdvice.pricesAsOf')} ${pricesAsOf}` : t('fertilizerAdvice.builtInPrice')}</span>
+                <Button variant="outline" size="sm" onClick={() => setIsPricesOpen(true)}>
+                  <IndianRupee className="h-4 w-4 mr-1" />
+                  {t('fertilizerAdvice.editPrices')}
+                </Button>
+              </div>
+              {activePlan.stages.map(({ stage, target, blend }) => (
+                <div key={stage} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <h4 className="font-semibold">{translateStageName(stage, language)}</h4>
+                      <div className="text-xs text-muted-foreground">
+                        NPK {Math.round(target.N * 10) / 10}-{Math.round(target.P * 10) / 10}-{Math.round(target.K * 10) / 10} {translateUnit('kg', language)}
+                      </div>
+                    </div>
+                    {blend.items.length > 0 && <Badge variant="secondary">₹{blend.cost}</Badge>}
+                  </div>
+                  {blend.items.length === 0 && blend.unmet.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('fertilizerAdvice.notNeeded')}</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {blend.items.map(item => (
+                        <div key={item.productId} className="flex justify-between text-sm">
+                          <span className="capitalize">{formatProductName(item.productId)}</span>
+                          <span>
+                            {item.kg} {translateUnit('kg', language)} ({item.bags} {t('fertilizerAdvice.bags')})
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {blend.unmet.length > 0 && (
+                    <p className="text-xs text-warning">
+                      {t('fertilizerAdvice.notSupplied')}: {blend.unmet.join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              {activePlan.purchase.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-1">
+                    <h4 className="font-semibold">{t('fertilizerAdvice.seasonPurchase')}</h4>
+                    {activePlan.purchase.map(line => (
+                      <div key={line.productId} className="flex justify-between text-sm">
+                        <span className="capitalize">{formatProductName(line.productId)}</span>
+                        <span>
+                          {line.bags} × {getBagKg(line.productId)} kg · ₹{line.cost}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm font-semibold pt-1">
+                      <span>{t('fertilizerAdvice.estimatedCost')}</span>
+                      <span>₹{Math.round(activePlan.purchase.reduce((sum, line) => sum + line.cost, 0))}</span>
+                    </div>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -269,29 +571,37 @@ export const FertilizerAdvice: React.FC<FertilizerAdviceProps> = ({ language, fa
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {Object.entries(getCropData(selectedCrop)!.stages).map(([stage, data]) => (
-                  <div key={stage} className="border-l-4 border-green-500 pl-4">
-                    <h4 className="font-semibold text-green-700">{translateStageName(stage, language)}</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
-                      <div>
-                        <span className="text-sm font-medium">NPK ({translateUnit('kg', language)}):</span>
-                        <div className="flex gap-2 mt-1">
-                          <Badge variant="outline" className="text-blue-600">{t('fertilizers.nitrogen')}: {data.npk.N}</Badge>
-                          <Badge variant="outline" className="text-green-600">{t('fertilizers.phosphorus')}: {data.npk.P}</Badge>
-                          <Badge variant="outline" className="text-orange-600">{t('fertilizers.potassium')}: {data.npk.K}</Badge>
+                {Object.entries(getCropData(selectedCrop)!.stages).map(([stage, data]) => {
+                  const npk = adjustNpk(data.npk, assessment);
+                  return (
+                    <div key={stage} className="border-l-4 border-green-500 pl-4">
+                      <h4 className="font-semibold text-green-700">{translateStageName(stage, language)}</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+                        <div>
+                          <span className="text-sm font-medium">NPK ({translateUnit('kg', language)}):</span>
+                          <div className="flex gap-2 mt-1">
+                            <Badge variant="outline" className="text-blue-600">{t('fertilizers.nitrogen')}: {npk.N}</Badge>
+                            <Badge variant="outline" className="text-green-600">{t('fertilizers.phosphorus')}: {npk.P}</Badge>
+                            <Badge variant="outline" className="text-orange-600">{t('fertilizers.potassium')}: {npk.K}</Badge>
+                          </div>
+                          {assessment && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {t('soilTest.generalDose')}: {data.npk.N}-{data.npk.P}-{data.npk.K}
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <span className="text-sm font-medium">{t('fertilizerAdvice.timing')}:</span>
+                          <p className="text-sm text-gray-600">{translateApplicationMethod(data.timing, language)}</p>
+                        </div>
+                        <div>
+                          <span className="text-sm font-medium">{t('fertilizerAdvice.application')}:</span>
+                          <p className="text-sm text-gray-600">{translateApplicationMethod(data.application, language)}</p>
                         </div>
-                      </div>
-                      <div>
-                        <span className="text-sm font-medium">{t('fertilizerAdvice.timing')}:</span>
-                        <p className="text-sm text-gray-600">{translateApplicationMethod(data.timing, language)}</p>
-                      </div>
-                      <div>
-                        <span className="text-sm font-medium">{t('fertilizerAdvice.application')}:</span>
-                        <p className="text-sm text-gray-600">{translateApplicationMethod(data.application, language)}</p>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
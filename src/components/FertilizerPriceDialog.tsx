@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useTranslation, translateFertilizerName } from "@/lib/translations";
+import { BAG_SIZES_KG } from "@/lib/fertilizerOptimizer";
+import {
+  FertilizerPrice,
+  ORGANIC_PRODUCT_IDS,
+  PriceScope,
+  SYNTHETIC_PRODUCT_IDS,
+  createOwnPrice,
+  deleteOwnPrices,
+  getPriceScope,
+  resolvePrices,
+} from "@/lib/fertilizerPrices";
+
+interface FertilizerPriceDialogProps {
+  language: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prices: FertilizerPrice[];
+  state?: string | null;
+  onPricesChange: (prices: FertilizerPrice[]) => void;
+}
+
+type Draft = { pricePerBag: string; bagKg: string; effectiveFrom: string };
+
+const SCOPE_LABEL_KEYS: Record<PriceScope, string> = {
+  own: 'fertilizerAdvice.priceSourceOwn',
+  state: 'fertilizerAdvice.priceSourceState',
+  national: 'fertilizerAdvice.priceSourceNational',
+};
+
+export const FertilizerPriceDialog: React.FC<FertilizerPriceDialogProps> = ({
+  language,
+  open,
+  onOpenChange,
+  prices,
+  state,
+  onPricesChange,
+}) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  // Only the fields the farmer has edited; the rest show the price in force
+  const [drafts, setDrafts] = useState<Record<string, Partial<Draft>>>({});
+  const [savingProduct, setSavingProduct] = useState<string | null>(null);
+
+  const resolved = resolvePrices(prices, state);
+  const productIds = [...SYNTHETIC_PRODUCT_IDS, ...ORGANIC_PRODUCT_IDS];
+
+  const getDraft = (id: string): Draft => ({
+    pricePerBag: resolved[id] ? String(resolved[id].pricePerBag) : '',
+    bagKg: String(resolved[id]?.bagKg ?? BAG_SIZES_KG[id] ?? 50),
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+    ...drafts[id],
+  });
+
+  const clearDraft = (id: string) =>
+    setDrafts(({ [id]: _cleared, ...rest }) => rest);
+
+  // Unsaved edits are dropped when the dialog closes
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDrafts({});
+    onOpenChange(nextOpen);
+  };
+
+  const productName = (id: string) =>
+    translateFertilizerName(SYNTHETIC_PRODUCT_IDS.includes(id) ? id.toUpperCase() : id.replace(/([A-Z])/g, ' $1'), language);
+
+  const updateDraft = (id: string, field: keyof Draft, value: string) =>
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+
+  const withUser = async (productId: string, action: (userId: string) => Promise<void>) => {
+    setSavingProduct(productId);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      await action(user.id);
+    } catch (error) {
+      console.error('Fertilizer price save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingProduct(null);
+    }
+  };
+
+  const handleSave = (productId: string) => {
+    const draft = getDraft(productId);
+    const pricePerBag = Number(draft.pricePerBag);
+    const bagKg = Number(draft.bagKg);
+    if (!(pricePerBag >= 0) || !(bagKg > 0) || !draft.effectiveFrom) {
+      toast({
+        title: t('common.error'),
+        description: t('fertilizerAdvice.invalidPrice'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    return withUser(productId, async (userId) => {
+      const saved = await createOwnPrice(userId, { productId, pricePerBag, bagKg, effectiveFrom: draft.effectiveFrom });
+      onPricesChange([saved, ...prices]);
+      clearDraft(productId);
+      toast({
+        title: t('common.success'),
+        description: t('fertilizerAdvice.priceSaved'),
+      });
+    });
+  };
+
+  const handleReset = (productId: string) => withUser(productId, async (userId) => {
+    await deleteOwnPrices(userId, productId);
+    onPricesChange(prices.filter(price => !(price.isOwn && price.productId === productId)));
+    clearDraft(productId);
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('fertilizerAdvice.editPrices')}</DialogTitle>
+          <DialogDescription>{t('fertilizerAdvice.editPricesDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {productIds.map(id => {
+            const current = resolved[id];
+            const draft = getDraft(id);
+            const hasOwn = prices.some(price => price.isOwn && price.productId === id);
+            return (
+              <div key={id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-semibold capitalize">{productName(id)}</span>
+                  {current ? (
+                    <div className="flex flex-wrap items-center gap-1 text-sm">
+                      <span>₹{current.pricePerBag} / {current.bagKg} kg</span>
+                      <Badge variant="outline">{t(SCOPE_LABEL_KEYS[getPriceScope(current)])}</Badge>
+                      {current.isSubsidised && <Badge variant="secondary">{t('fertilizerAdvice.subsidised')}</Badge>}
+                      <span className="text-xs text-muted-foreground">{t('fertilizerAdvice.effectiveFrom')} {current.effectiveFrom}</span>
+                    </div>
+                  ) : (
+                    <Badge variant="outline">{t('fertilizerAdvice.builtInPrice')}</Badge>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                  <div className="space-y-1">
+                    <label className="text-xs">{t('fertilizerAdvice.pricePerBag')}</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={draft.pricePerBag}
+                      onChange={(e) => updateDraft(id, 'pricePerBag', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs">{t('fertilizerAdvice.bagSize')}</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={draft.bagKg}
+                      onChange={(e) => updateDraft(id, 'bagKg', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs">{t('fertilizerAdvice.effectiveFrom')}</label>
+                    <Input
+                      type="date"
+                      value={draft.effectiveFrom}
+                      onChange={(e) => updateDraft(id, 'effectiveFrom', e.target.value)}
+                    />
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" onClick={() => handleSave(id)} disabled={savingProduct !== null}>
+                      {savingProduct === id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                      {t('fertilizerAdvice.saveMyPrice')}
+                    </Button>
+                    {hasOwn && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleReset(id)}
+                        disabled={savingProduct !== null}
+                        title={t('fertilizerAdvice.useCataloguePrice')}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useTranslation, translateIrrigationMethodName } from "@/lib/translations";
+import { FarmPlot, convertArea } from "@/lib/plots";
+import {
+  IRRIGATION_METHODS,
+  IrrigationEvent,
+  IrrigationMethod,
+  createIrrigationEvent,
+  depthToVolumeLitres,
+  getEventVolume,
+  volumeToDepthMm,
+} from "@/lib/irrigationEvents";
+
+interface IrrigationEventDialogProps {
+  language: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plot: FarmPlot;
+  suggestedMm?: number;
+  defaultMethod?: IrrigationMethod;
+  lastFlowRateLpm?: number;
+  onSaved: (event: IrrigationEvent) => void;
+}
+
+type MeasureBy = 'pump' | 'depth';
+
+export const IrrigationEventDialog: React.FC<IrrigationEventDialogProps> = ({
+  language,
+  open,
+  onOpenChange,
+  plot,
+  suggestedMm,
+  defaultMethod,
+  lastFlowRateLpm,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  const [eventDate, setEventDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [method, setMethod] = useState<IrrigationMethod>(defaultMethod ?? 'flood');
+  const [measureBy, setMeasureBy] = useState<MeasureBy>('pump');
+  const [runHours, setRunHours] = useState('');
+  const [flowRateLpm, setFlowRateLpm] = useState('');
+  const [depthMm, setDepthMm] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The same pump is usually used again, so its flow rate carries over from the last entry
+  useEffect(() => {
+    if (!open) return;
+    setEventDate(format(new Date(), 'yyyy-MM-dd'));
+    setMethod(defaultMethod ?? 'flood');
+    setMeasureBy(lastFlowRateLpm ? 'pump' : 'depth');
+    setRunHours('');
+    setFlowRateLpm(lastFlowRateLpm ? String(lastFlowRateLpm) : '');
+    setDepthMm(suggestedMm ? String(Math.round(suggestedMm)) : '');
+    setNotes('');
+  }, [open, suggestedMm, defaultMethod, lastFlowRateLpm]);
+
+  const areaHectares = convertArea(plot.area, plot.areaUnit, 'hectares');
+  const durationMinutes = Number(runHours || 0) * 60;
+  const flowRate = Number(flowRateLpm || 0);
+  const litres = measureBy === 'pump'
+    ? getEventVolume(durationMinutes, flowRate)
+    : depthToVolumeLitres(Number(depthMm || 0), areaHectares);
+  const depth = measureBy === 'pump' ? volumeToDepthMm(litres, areaHectares) : Number(depthMm || 0);
+
+  const handleSave = async () => {
+    if (!eventDate || !(depth > 0) || !(litres > 0)) {
+      toast({
+        title: t('common.error'),
+        description: t('irrigationGuide.needAmount'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      const saved = await createIrrigationEvent(user.id, {
+        plotId: plot.id,
+        eventDate,
+        depthMm: depth,
+        method,
+        durationMinutes: measureBy === 'pump' ? durationMinutes : undefined,
+        flowRateLpm: measureBy === 'pump' ? flowRate : undefined,
+        volumeLitres: litres,
+        notes: notes.trim() || undefined,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: t('common.success'),
+        description: t('irrigationGuide.irrigationLogged'),
+      });
+    } catch (error) {
+      console.error('Irrigation event save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('irrigationGuide.logIrrigation')} - {plot.name}</DialogTitle>
+          <DialogDescription>{t('irrigationGuide.logIrrigationHelp')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="irrigation-date">{t('irrigationGuide.irrigationDate')}</Label>
+            <Input
+              id="irrigation-date"
+              type="date"
+              value={eventDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setEventDate(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('irrigationGuide.irrigationMethod')}</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as IrrigationMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IRRIGATION_METHODS.map(option => (
+                    <SelectItem key={option} value={option}>{translateIrrigationMethodName(option, language)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('irrigationGuide.measureBy')}</Label>
+              <Select value={measureBy} onValueChange={(value) => setMeasureBy(value as MeasureBy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pump">{t('irrigationGuide.measureByPump')}</SelectItem>
+                  <SelectItem value="depth">{t('irrigationGuide.measureByDepth')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {measureBy === 'pump' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="irrigation-hours">{t('irrigationGuide.runHours')}</Label>
+                <Input
+                  id="irrigation-hours"
+                  type="number"
+                  min="0.1"
+                  step="0.25"
+                  value={runHours}
+                  onChange={(e) => setRunHours(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="irrigation-flow">{t('irrigationGuide.flowRate')}</Label>
+                <Input
+                  id="irrigation-flow"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={flowRateLpm}
+                  onChange={(e) => setFlowRateLpm(e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="irrigation-depth">{t('irrigationGuide.waterApplied')}</Label>
+              <Input
+                id="irrigation-depth"
+                type="number"
+                min="1"
+                step="1"
+                value={depthMm}
+                onChange={(e) => setDepthMm(e.target.value)}
+              />
+            </div>
+          )}
+          {litres > 0 && (
+            <p className="text-xs text-muted-foreground">≈ {litres.toLocaleString()} L · {depth} mm</p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="irrigation-notes">{t('irrigationGuide.notes')}</Label>
+            <Input
+              id="irrigation-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t('common.cancel')}</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
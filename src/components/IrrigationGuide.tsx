@@ -1,30 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Droplets, Calendar, Cloud, AlertTriangle, Info, BookOpen, Thermometer, Sun } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Droplets, Calendar, Cloud, AlertTriangle, Info, BookOpen, Thermometer, Sun, Calculator, RefreshCw, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useTranslation, translateStageName, translateIrrigationMethodName, translateIrrigationText, translateManagementStrategyText, translateWateringSignsText, translateWeatherCondition, translateWeatherRecommendation, translateSoilMoistureLevel, translateSoilMoistureDescription, translateSoilMoistureAction } from '@/lib/translations';
-import { getCropData, getAvailableCrops, CropData } from '@/lib/cropData';
+import { useTranslation, translateStageName, translateIrrigationMethodName, translateIrrigationText, translateManagementStrategyText, translateWateringSignsText, translateSoilMoistureLevel, translateSoilMoistureDescription, translateSoilMoistureAction } from '@/lib/translations';
+import { getCropData, getAvailableCrops, CropData, CropStage } from '@/lib/cropData';
+import { FarmPlot, IRRIGATION_SOURCE_LABEL_KEYS, convertArea, getPlotCrops } from '@/lib/plots';
+import { getBoundaryCenter } from '@/lib/landMeasure';
+import { WeatherDay, getWeatherDays, referenceEt0 } from '@/lib/evapotranspiration';
+import { KcStage, getCropCoefficients, getEffectiveRainfall, getSeasonLength, planIrrigation } from '@/lib/irrigationScheduler';
+import { BalanceInputDay, getCropRooting, getSoilWater, getSoilWaterOutlook } from '@/lib/soilWaterBalance';
+import { IrrigationEvent, deleteIrrigationEvent, depthToVolumeLitres, fetchIrrigationEvents } from '@/lib/irrigationEvents';
+import { getEffectiveDepthMm, getSeasonWaterReport } from '@/lib/irrigationReport';
+import { DEFAULT_TARIFFS, METHOD_PRESSURE_HEAD_M, PowerSupply, compareMethodCosts, estimatePumping } from '@/lib/pumpEnergy';
+import { coordinateKey, invokeWithCache } from '@/lib/offlineCache';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { PlotSelect } from './PlotSelect';
+import { IrrigationEventDialog } from './IrrigationEventDialog';
 
 interface IrrigationGuideProps {
   language: string;
   farmerData?: {
     crops: string[];
     location: string;
+    latitude?: number;
+    longitude?: number;
   };
+  plots?: FarmPlot[];
 }
 
-// Using CropData from cropData.ts which includes water requirements
+const KC_STAGE_LABEL_KEYS: Record<KcStage, string> = {
+  initial: 'irrigationGuide.stageInitial',
+  development: 'irrigationGuide.stageDevelopment',
+  midSeason: 'irrigationGuide.stageMidSeason',
+  lateSeason: 'irrigationGuide.stageLateSeason',
+};
 
-interface WeatherCondition {
-  condition: string;
-  adjustment: number; // percentage adjustment to water requirement
-  recommendation: string;
-}
+const SQM_PER_HECTARE = 10000;
+// Open-Meteo keeps this many days of past weather
+const MAX_HISTORY_DAYS = 92;
+// A usual single irrigation when neither the soil balance nor the schedule suggests one
+const TYPICAL_IRRIGATION_MM = 50;
+
+// Using CropData from cropData.ts which includes water requirements
 
 interface SoilMoistureLevel {
   level: string;
@@ -35,34 +60,6 @@ interface SoilMoistureLevel {
 
 // Using crop data from cropData.ts
 
-const getWeatherConditions = (language: string): WeatherCondition[] => [
-  {
-    condition: 'Hot & Dry',
-    adjustment: 20,
-    recommendation: 'Increase irrigation frequency and amount'
-  },
-  {
-    condition: 'Humid',
-    adjustment: -15,
-    recommendation: 'Reduce irrigation to prevent waterlogging'
-  },
-  {
-    condition: 'Rainy',
-    adjustment: -50,
-    recommendation: 'Suspend irrigation, monitor drainage'
-  },
-  {
-    condition: 'Cold',
-    adjustment: -10,
-    recommendation: 'Reduce irrigation, protect from frost'
-  },
-  {
-    condition: 'Windy',
-    adjustment: 10,
-    recommendation: 'Increase irrigation due to evaporation'
-  }
-];
-
 const getSoilMoistureLevels = (language: string): SoilMoistureLevel[] => [
   {
     level: 'Very Dry',
@@ -165,19 +162,125 @@ const wateringSigns = {
   }
 };
 
-export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farmerData }) => {
+export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farmerData, plots = [] }) => {
+  const { toast } = useToast();
   const t = useTranslation(language);
   const [selectedCrop, setSelectedCrop] = useState<string>('');
-  const [selectedWeather, setSelectedWeather] = useState<string>('');
   const [selectedSoilMoisture, setSelectedSoilMoisture] = useState<string>('');
   const [plantCount, setPlantCount] = useState<number>(100);
-  const [activeTab, setActiveTab] = useState<string>('requirements');
+  const [activeTab, setActiveTab] = useState<string>('schedule');
+  const [selectedPlotId, setSelectedPlotId] = useState<string | null>(null);
+  const [sowingDate, setSowingDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [areaAcres, setAreaAcres] = useState<number>(1);
+  const [selectedMethod, setSelectedMethod] = useState<string>('');
+  const [weatherDays, setWeatherDays] = useState<WeatherDay[]>([]);
+  const [isLoadingWeather, setIsLoadingWeather] = useState(false);
+  const [weatherFailed, setWeatherFailed] = useState(false);
+  const [historyDays, setHistoryDays] = useState<BalanceInputDay[]>([]);
+  const [irrigationEvents, setIrrigationEvents] = useState<IrrigationEvent[]>([]);
+  const [isLoadingBalance, setIsLoadingBalance] = useState(false);
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const [pumpHp, setPumpHp] = useState<number>(5);
+  const [powerSupply, setPowerSupply] = useState<PowerSupply>('electric');
+  const [tariff, setTariff] = useState<number>(DEFAULT_TARIFFS.electric);
+  const [pumpHeadM, setPumpHeadM] = useState<number>(20);
+  const [plannedLitres, setPlannedLitres] = useState<string>('');
 
-  // Get available crops for the user
-  const availableCrops = farmerData?.crops ? getAvailableCrops(farmerData.crops) : [];
-  
-  // Get weather conditions and soil moisture levels with translations
-  const weatherConditions = getWeatherConditions(language);
+  // Get available crops for the user, including crops standing on their plots
+  const availableCrops = getAvailableCrops([...new Set([...(farmerData?.crops || []), ...getPlotCrops(plots)])]);
+  const selectedPlot = plots.find(plot => plot.id === selectedPlotId) ?? null;
+
+  const handlePlotChange = (plot: FarmPlot | null) => {
+    setSelectedPlotId(plot?.id ?? null);
+    if (!plot) return;
+    if (plot.currentCrop && getCropData(plot.currentCrop)) setSelectedCrop(plot.currentCrop.toLowerCase());
+    if (plot.sowingDate) setSowingDate(plot.sowingDate);
+    setAreaAcres(Math.round(convertArea(plot.area, plot.areaUnit, 'acres') * 100) / 100);
+  };
+
+  // The forecast is for the plot itself when it has been mapped, otherwise for the farm location
+  const plotCenter = selectedPlot?.boundary ? getBoundaryCenter(selectedPlot.boundary) : null;
+  const latitude = plotCenter?.latitude ?? farmerData?.latitude;
+  const longitude = plotCenter?.longitude ?? farmerData?.longitude;
+
+  const loadForecast = useCallback(async () => {
+    if (!latitude || !longitude) return;
+    setIsLoadingWeather(true);
+    setWeatherFailed(false);
+    try {
+      const { data } = await invokeWithCache<{ weather?: { forecast?: Parameters<typeof getWeatherDays>[0] } }>(
+        'weather-data',
+        { latitude, longitude },
+        `weather-data:${coordinateKey(latitude, longitude)}`
+      );
+      setWeatherDays(getWeatherDays(data.weather?.forecast));
+    } catch (error) {
+      console.error('Irrigation forecast error:', error);
+      setWeatherFailed(true);
+    } finally {
+      setIsLoadingWeather(false);
+    }
+  }, [latitude, longitude]);
+
+  useEffect(() => {
+    loadForecast();
+  }, [loadForecast]);
+
+  // Observed weather since sowing and the irrigation logged on the plot drive its soil water balance.
+  // A response for a plot or sowing date the farmer has since moved away from is ignored.
+  useEffect(() => {
+    let cancelled = false;
+    const loadBalanceInputs = async () => {
+      setHistoryDays([]);
+      setIrrigationEvents([]);
+      setIsLoadingBalance(false);
+      if (!selectedPlotId || !latitude || !longitude || !sowingDate) return;
+      const daysSinceSowing = Math.floor((Date.now() - Date.parse(`${sowingDate}T00:00:00`)) / 86400000);
+      if (daysSinceSowing < 0) return;
+
+      setIsLoadingBalance(true);
+      try {
+        const pastDays = Math.min(MAX_HISTORY_DAYS, daysSinceSowing + 1);
+        const [{ data, error }, events] = await Promise.all([
+          supabase.functions.invoke('weather-history', { body: { latitude, longitude, pastDays } }),
+          fetchIrrigationEvents(selectedPlotId, sowingDate),
+        ]);
+        if (error) throw error;
+        if (cancelled) return;
+        const history = data?.history;
+        setHistoryDays((history?.dates || []).map((date: string, index: number) => ({
+          date,
+          et0: history.et0[index] ?? 0,
+          rainfall: history.rainfall[index] ?? 0,
+        })));
+        setIrrigationEvents(events);
+      } catch (error) {
+        console.error('Soil water balance load error:', error);
+      } finally {
+        if (!cancelled) setIsLoadingBalance(false);
+      }
+    };
+    loadBalanceInputs();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPlotId, latitude, longitude, sowingDate]);
+
+  const handleDeleteEvent = async (eventId: string) => {
+    try {
+      await deleteIrrigationEvent(eventId);
+      setIrrigationEvents(prev => prev.filter(event => event.id !== eventId));
+    } catch (error) {
+      console.error('Irrigation event delete error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Get soil moisture levels with translations
   const soilMoistureLevels = getSoilMoistureLevels(language);
   
   // Auto-select first crop if available
@@ -187,15 +290,8 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
     }
   }, [availableCrops, selectedCrop]);
 
-  const calculateWaterRequirement = (stage: any, plantCount: number, weatherAdjustment: number = 0) => {
-    const baseRequirement = stage.waterRequirement * plantCount;
-    const adjustedRequirement = baseRequirement * (1 + weatherAdjustment / 100);
-    return Math.round(adjustedRequirement * 10) / 10;
-  };
-
-  const getWeatherAdjustment = () => {
-    const weather = weatherConditions.find(w => w.condition === selectedWeather);
-    return weather ? weather.adjustment : 0;
+  const calculateWaterRequirement = (stage: CropStage, plantCount: number) => {
+    return Math.round(stage.waterRequirement * plantCount * 10) / 10;
   };
 
   const getRecommendedMethod = (crop: CropData) => {
@@ -214,6 +310,82 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
     return { method: bestMethod, data: methods[bestMethod as keyof typeof methods] };
   };
 
+  // Day-by-day plan from the forecast; the irrigation method's efficiency sets the losses
+  const cropInfo = selectedCrop ? getCropData(selectedCrop) : null;
+  const coefficients = selectedCrop ? getCropCoefficients(selectedCrop) : null;
+  const methodKey = (cropInfo && cropInfo.irrigationMethods[selectedMethod as keyof CropData['irrigationMethods']])
+    ? selectedMethod as keyof CropData['irrigationMethods']
+    : cropInfo ? getRecommendedMethod(cropInfo).method as keyof CropData['irrigationMethods'] : null;
+  const schedule = cropInfo && coefficients && methodKey && latitude && sowingDate
+    ? planIrrigation(weatherDays, {
+      coefficients,
+      sowingDate,
+      latitude,
+      areaSqm: convertArea(areaAcres, 'acres', 'hectares') * SQM_PER_HECTARE,
+      efficiency: cropInfo.irrigationMethods[methodKey].efficiency,
+    })
+    : [];
+  const scheduleTotalLitres = schedule.reduce((sum, day) => sum + day.litres, 0);
+
+  // Running soil water balance for the selected plot, carried on through the forecast
+  const soilOutlook = selectedPlot && cropInfo && coefficients && latitude && historyDays.length > 0
+    ? getSoilWaterOutlook(
+      historyDays,
+      weatherDays.map(day => ({ date: day.date, et0: referenceEt0(day, latitude), rainfall: day.rainfall })),
+      {
+        coefficients,
+        rooting: getCropRooting(selectedCrop),
+        soil: getSoilWater(selectedPlot.soilType),
+        sowingDate,
+        // Only the share of the water the method delivers to the roots counts
+        irrigation: irrigationEvents.map(event => ({ date: event.eventDate, depthMm: getEffectiveDepthMm(event, cropInfo) })),
+      }
+    )
+    : null;
+  const currentBalance = soilOutlook?.current ?? null;
+  const currentLevel = currentBalance ? soilMoistureLevels.find(level => level.level === currentBalance.level) : null;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Season totals from the log for the selected plot, against the crop's seasonal requirement
+  const plotAreaHectares = selectedPlot ? convertArea(selectedPlot.area, selectedPlot.areaUnit, 'hectares') : 0;
+  const seasonEnd = coefficients && sowingDate
+    ? format(new Date(Date.parse(`${sowingDate}T00:00:00`) + getSeasonLength(coefficients) * 86400000), 'yyyy-MM-dd')
+    : undefined;
+  const waterReport = selectedPlot && cropInfo && sowingDate
+    ? getSeasonWaterReport(irrigationEvents, {
+      crop: cropInfo,
+      areaHectares: plotAreaHectares,
+      seasonStart: sowingDate,
+      seasonEnd,
+      effectiveRainfallMm: historyDays
+        .filter(day => day.date >= sowingDate)
+        .reduce((sum, day) => sum + getEffectiveRainfall(day.rainfall), 0),
+    })
+    : null;
+  const methodEfficiency = cropInfo && methodKey ? cropInfo.irrigationMethods[methodKey].efficiency : 100;
+  const lastFlowRateLpm = irrigationEvents.find(event => event.flowRateLpm)?.flowRateLpm;
+  const formatLitres = (litres: number) => `${Math.round(litres).toLocaleString()} L`;
+
+  // Pump running cost: the next irrigation (from the soil balance or schedule unless entered) and
+  // the season's requirement, for the chosen method and for each alternative
+  const areaHectares = convertArea(areaAcres, 'acres', 'hectares');
+  const pumpSetup = { horsepower: pumpHp, supply: powerSupply, tariff, headM: pumpHeadM };
+  const suggestedLitres = soilOutlook && soilOutlook.refillMm > 0
+    ? depthToVolumeLitres(soilOutlook.refillMm / (methodEfficiency / 100), areaHectares)
+    : schedule.find(day => day.litres > 0)?.litres
+      ?? depthToVolumeLitres(TYPICAL_IRRIGATION_MM / (methodEfficiency / 100), areaHectares);
+  const irrigationLitres = Number(plannedLitres) > 0 ? Number(plannedLitres) : suggestedLitres;
+  const perIrrigation = methodKey ? estimatePumping(irrigationLitres, pumpSetup, METHOD_PRESSURE_HEAD_M[methodKey]) : null;
+  const methodCosts = cropInfo ? compareMethodCosts(cropInfo.totalWaterRequirement, areaHectares, cropInfo, pumpSetup) : [];
+  const seasonCost = methodCosts.find(cost => cost.method === methodKey) ?? null;
+  const cheapestMethod = methodCosts.reduce<typeof methodCosts[number] | null>((best, cost) =>
+    (!best || cost.cost < best.cost ? cost : best), null);
+
+  const handleSupplyChange = (supply: PowerSupply) => {
+    setPowerSupply(supply);
+    setTariff(DEFAULT_TARIFFS[supply]);
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -227,7 +399,10 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className={`grid grid-cols-1 ${plots.length > 0 && !selectedPlot ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4`}>
+            {plots.length > 0 && (
+              <PlotSelect language={language} plots={plots} value={selectedPlotId} onChange={handlePlotChange} />
+            )}
             <div className="space-y-2">
               <label className="text-sm font-medium">{t('irrigationGuide.selectCrop')}</label>
               <Select value={selectedCrop} onValueChange={setSelectedCrop}>
@@ -244,37 +419,23 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
               </Select>
             </div>
             
-            <div className="space-y-2">
-              <label className="text-sm font-medium">{t('irrigationGuide.weatherCondition')}</label>
-              <Select value={selectedWeather} onValueChange={setSelectedWeather}>
-                <SelectTrigger>
-                  <SelectValue placeholder={t('irrigationGuide.weatherCondition')} />
-                </SelectTrigger>
-                <SelectContent>
-                  {weatherConditions.map((weather) => (
-                    <SelectItem key={weather.condition} value={weather.condition}>
-                      {translateWeatherCondition(weather.condition, language)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-sm font-medium">{t('irrigationGuide.soilMoisture')}</label>
-              <Select value={selectedSoilMoisture} onValueChange={setSelectedSoilMoisture}>
-                <SelectTrigger>
-                  <SelectValue placeholder={t('irrigationGuide.soilMoisture')} />
-                </SelectTrigger>
-                <SelectContent>
-                  {soilMoistureLevels.map((level) => (
-                    <SelectItem key={level.level} value={level.level}>
-                      {translateSoilMoistureLevel(level.level, language)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {!selectedPlot && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('irrigationGuide.soilMoisture')}</label>
+                <Select value={selectedSoilMoisture} onValueChange={setSelectedSoilMoisture}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('irrigationGuide.soilMoisture')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {soilMoistureLevels.map((level) => (
+                      <SelectItem key={level.level} value={level.level}>
+                        {translateSoilMoistureLevel(level.level, language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <div className="space-y-2">
               <label className="text-sm font-medium">{t('irrigationGuide.plantCount')}</label>
@@ -289,16 +450,16 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
             </div>
           </div>
 
-          {selectedWeather && (
+          {selectedPlot?.irrigationSource && (
             <Alert>
-              <Cloud className="h-4 w-4" />
+              <Droplets className="h-4 w-4" />
               <AlertDescription>
-                <strong>{translateWeatherCondition(selectedWeather, language)} Weather:</strong> {translateWeatherRecommendation(weatherConditions.find(w => w.condition === selectedWeather)?.recommendation || '', language)}
+                <strong>{selectedPlot.name}:</strong> {t('plots.irrigationSource')} - {t(IRRIGATION_SOURCE_LABEL_KEYS[selectedPlot.irrigationSource])}
               </AlertDescription>
             </Alert>
           )}
 
-          {selectedSoilMoisture && (
+          {!selectedPlot && selectedSoilMoisture && (
             <Alert>
               <Droplets className="h-4 w-4" />
               <AlertDescription>
@@ -309,15 +470,325 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
         </CardContent>
       </Card>
 
+      {selectedPlot && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <Droplets className="h-5 w-5 text-blue-600" />
+                {t('irrigationGuide.soilMoisture')} - {selectedPlot.name}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setIsLogOpen(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                {t('irrigationGuide.logIrrigation')}
+              </Button>
+            </CardTitle>
+            <CardDescription>{t('irrigationGuide.balanceDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingBalance ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t('common.loading')}
+              </div>
+            ) : !currentBalance || !currentLevel || !soilOutlook ? (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>{t('irrigationGuide.balanceUnavailable')}</AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Badge className={currentLevel.color}>{translateSoilMoistureLevel(currentLevel.level, language)}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {t('irrigationGuide.availableWater')}: {Math.round(currentBalance.taw - currentBalance.depletion)} / {Math.round(currentBalance.taw)} mm · {t('irrigationGuide.rootDepth')} {currentBalance.rootDepthM} m
+                  </span>
+                </div>
+                <Progress value={Math.round((1 - currentBalance.depletion / currentBalance.taw) * 100)} />
+                <p className="text-sm">
+                  {translateSoilMoistureDescription(currentLevel.description, language)}. {translateSoilMoistureAction(currentLevel.action, language)}
+                </p>
+                {soilOutlook.stressDate ? (
+                  <Alert variant={soilOutlook.stressDate <= today ? 'destructive' : 'default'}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {soilOutlook.stressDate <= today
+                        ? t('irrigationGuide.stressNow')
+                        : `${t('irrigationGuide.stressExpected')} ${format(new Date(`${soilOutlook.stressDate}T00:00:00`), 'EEE d MMM')}`}
+                      {' · '}{t('irrigationGuide.refillWith')} {soilOutlook.refillMm} mm
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <p className="text-sm text-green-700">{t('irrigationGuide.noStressExpected')}</p>
+                )}
+              </>
+            )}
+
+            {irrigationEvents.length > 0 && (
+              <div className="space-y-1">
+                <h5 className="text-sm font-medium">{t('irrigationGuide.recentIrrigation')}</h5>
+                {irrigationEvents.slice(0, 5).map(event => (
+                  <div key={event.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {format(new Date(`${event.eventDate}T00:00:00`), 'd MMM')} · {event.depthMm} mm
+                      {event.method && ` · ${translateIrrigationMethodName(event.method, language)}`}
+                      {event.notes && ` · ${event.notes}`}
+                    </span>
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteEvent(event.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedPlot && (
+        <IrrigationEventDialog
+          language={language}
+          open={isLogOpen}
+          onOpenChange={setIsLogOpen}
+          plot={selectedPlot}
+          suggestedMm={soilOutlook ? soilOutlook.refillMm / (methodEfficiency / 100) : undefined}
+          defaultMethod={methodKey ?? undefined}
+          lastFlowRateLpm={lastFlowRateLpm ?? perIrrigation?.flowRateLpm}
+          onSaved={(event) => setIrrigationEvents(prev =>
+            [event, ...prev].sort((a, b) => b.eventDate.localeCompare(a.eventDate)))}
+        />
+      )}
+
       {selectedCrop && getCropData(selectedCrop) && (
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
+            <TabsTrigger value="schedule">{t('irrigationGuide.schedule')}</TabsTrigger>
+            <TabsTrigger value="usage">{t('irrigationGuide.waterUsage')}</TabsTrigger>
             <TabsTrigger value="requirements">{t('irrigationGuide.waterRequirements')}</TabsTrigger>
             <TabsTrigger value="methods">{t('irrigationGuide.irrigationMethods')}</TabsTrigger>
             <TabsTrigger value="management">{t('irrigationGuide.managementStrategies')}</TabsTrigger>
             <TabsTrigger value="signs">{t('irrigationGuide.wateringSigns')}</TabsTrigger>
           </TabsList>
 
+          <TabsContent value="schedule" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Thermometer className="h-5 w-5 text-orange-600" />
+                  {t('irrigationGuide.schedule')} - {cropInfo!.name}
+                </CardTitle>
+                <CardDescription>{t('irrigationGuide.scheduleDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.sowingDate')}</label>
+                    <input
+                      type="date"
+                      value={sowingDate}
+                      onChange={(e) => setSowingDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.areaAcres')}</label>
+                    <input
+                      type="number"
+                      value={areaAcres}
+                      onChange={(e) => setAreaAcres(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0.01"
+                      step="0.01"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.irrigationMethod')}</label>
+                    <Select value={methodKey ?? ''} onValueChange={setSelectedMethod}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(cropInfo!.irrigationMethods).map(([method, data]) => (
+                          <SelectItem key={method} value={method}>
+                            {translateIrrigationMethodName(method, language)} ({data.efficiency}%)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="outline" onClick={loadForecast} disabled={isLoadingWeather || !latitude || !longitude}>
+                    {isLoadingWeather ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                    {t('irrigationGuide.refreshForecast')}
+                  </Button>
+                </div>
+
+                {!latitude || !longitude ? (
+                  <Alert>
+                    <Info className="h-4 w-4" />
+                    <AlertDescription>{t('irrigationGuide.needLocation')}</AlertDescription>
+                  </Alert>
+                ) : weatherFailed || (!isLoadingWeather && weatherDays.length === 0) ? (
+                  <Alert>
+                    <Cloud className="h-4 w-4" />
+                    <AlertDescription>{t('irrigationGuide.forecastUnavailable')}</AlertDescription>
+                  </Alert>
+                ) : !coefficients ? null : (
+                  <div className="space-y-2">
+                    {schedule.map(day => (
+                      <div key={day.date} className="border rounded-lg p-3">
+                        <div className="flex flex-wrap justify-between items-start gap-2">
+                          <div>
+                            <h4 className="font-semibold">{format(new Date(`${day.date}T00:00:00`), 'EEE d MMM')}</h4>
+                            <div className="text-xs text-muted-foreground">
+                              {day.stage
+                                ? `${t(KC_STAGE_LABEL_KEYS[day.stage])} · ${t('irrigationGuide.daysAfterSowing')} ${day.daysAfterSowing} · Kc ${day.kc}`
+                                : t('irrigationGuide.outsideSeason')}
+                            </div>
+                          </div>
+                          {day.netMm > 0 ? (
+                            <Badge variant="default">{day.grossMm} mm · {day.litres.toLocaleString()} L</Badge>
+                          ) : (
+                            <Badge variant="secondary">{t('irrigationGuide.noIrrigationNeeded')}</Badge>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2 text-sm">
+                          <span>ET0: {day.et0} mm</span>
+                          <span>{t('irrigationGuide.cropWaterUse')}: {day.etc} mm</span>
+                          <span className="text-blue-600">{t('irrigationGuide.rain')}: {day.rainfall} mm ({day.effectiveRainfall} mm)</span>
+                          <span>{t('irrigationGuide.netIrrigation')}: {day.netMm} mm</span>
+                        </div>
+                      </div>
+                    ))}
+                    {schedule.length > 0 && (
+                      <div className="flex justify-between text-sm font-semibold pt-1">
+                        <span>{t('irrigationGuide.totalWater')}</span>
+                        <span>{scheduleTotalLitres.toLocaleString()} L</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">{t('irrigationGuide.scheduleNote')}</p>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="usage" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5 text-blue-600" />
+                  {t('irrigationGuide.waterUsage')}{selectedPlot && ` - ${selectedPlot.name}`}
+                </CardTitle>
+                <CardDescription>{t('irrigationGuide.waterUsageDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!selectedPlot || !waterReport ? (
+                  <Alert>
+                    <Info className="h-4 w-4" />
+                    <AlertDescription>{t('irrigationGuide.selectPlotForLog')}</AlertDescription>
+                  </Alert>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <span className="font-medium">{t('irrigationGuide.irrigations')}</span>
+                        <p className="text-lg font-bold">{waterReport.events}</p>
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('irrigationGuide.waterPumped')}</span>
+                        <p className="text-lg font-bold text-blue-600">{formatLitres(waterReport.volumeLitres)}</p>
+                        <p className="text-xs text-muted-foreground">{waterReport.appliedMm} mm</p>
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('irrigationGuide.reachedRoots')}</span>
+                        <p className="text-lg font-bold text-green-600">{waterReport.effectiveMm} mm</p>
+                        <p className="text-xs text-muted-foreground">+ {t('irrigationGuide.rain')} {waterReport.rainfallMm} mm</p>
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('irrigationGuide.seasonRequirement')}</span>
+                        <p className="text-lg font-bold">{waterReport.requirementMm} mm</p>
+                        <p className="text-xs text-muted-foreground">{formatLitres(waterReport.requirementLitres)}</p>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{t('irrigationGuide.requirementMet')}</span>
+                        <span className="font-semibold">{waterReport.coveredPercent}%</span>
+                      </div>
+                      <Progress value={Math.min(100, waterReport.coveredPercent)} />
+                    </div>
+
+                    {waterReport.byMethod.length > 0 && (
+                      <div className="space-y-1">
+                        <h5 className="text-sm font-medium">{t('irrigationGuide.byMethod')}</h5>
+                        {waterReport.byMethod.map(usage => (
+                          <div key={usage.method ?? 'unknown'} className="flex justify-between text-sm">
+                            <span>{usage.method ? translateIrrigationMethodName(usage.method, language) : t('irrigationGuide.methodNotRecorded')} ({usage.events})</span>
+                            <span>{formatLitres(usage.volumeLitres)} · {usage.depthMm} mm</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {waterReport.comparisons.length > 0 && (
+                      <>
+                        <Separator />
+                        <div className="space-y-1">
+                          <h5 className="text-sm font-medium">{t('irrigationGuide.switchingMethods')}</h5>
+                          <p className="text-xs text-muted-foreground">{t('irrigationGuide.switchingMethodsHelp')}</p>
+                          {waterReport.comparisons.map(comparison => (
+                            <div key={comparison.method} className="flex justify-between text-sm">
+                              <span>{translateIrrigationMethodName(comparison.method, language)} ({comparison.efficiency}%)</span>
+                              <span className={comparison.savedLitres > 0 ? 'text-green-600' : comparison.savedLitres < 0 ? 'text-red-600' : ''}>
+                                {formatLitres(comparison.volumeLitres)}
+                                {comparison.savedLitres !== 0 && ` · ${comparison.savedLitres > 0 ? t('irrigationGuide.saves') : t('irrigationGuide.extra')} ${formatLitres(Math.abs(comparison.savedLitres))}`}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+
+                    <Separator />
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h5 className="text-sm font-medium">{t('irrigationGuide.irrigationLog')}</h5>
+                        <Button variant="outline" size="sm" onClick={() => setIsLogOpen(true)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          {t('irrigationGuide.logIrrigation')}
+                        </Button>
+                      </div>
+                      {irrigationEvents.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t('irrigationGuide.noIrrigationLogged')}</p>
+                      ) : (
+                        irrigationEvents.map(event => (
+                          <div key={event.id} className="flex items-center justify-between border rounded-lg p-2 text-sm">
+                            <div>
+                              <div className="font-medium">
+                                {format(new Date(`${event.eventDate}T00:00:00`), 'd MMM yyyy')}
+                                {event.method && ` · ${translateIrrigationMethodName(event.method, language)}`}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {event.durationMinutes && event.flowRateLpm
+                                  ? `${Math.round((event.durationMinutes / 60) * 100) / 100} h × ${event.flowRateLpm} L/min · `
+                                  : ''}
+                                {formatLitres(event.volumeLitres ?? event.depthMm * plotAreaHectares * SQM_PER_HECTARE)} · {event.depthMm} mm
+                                {event.notes && ` · ${event.notes}`}
+                              </div>
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteEvent(event.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="requirements" className="space-y-4">
             <Card>
               <CardHeader>
@@ -329,8 +800,7 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
               <CardContent>
                 <div className="space-y-4">
                   {Object.entries(getCropData(selectedCrop)!.stages).map(([stage, data]) => {
-                    const weatherAdjustment = getWeatherAdjustment();
-                    const dailyRequirement = calculateWaterRequirement(data, plantCount, weatherAdjustment);
+                    const dailyRequirement = calculateWaterRequirement(data, plantCount);
                     return (
                       <div key={stage} className="border rounded-lg p-4">
                         <div className="flex justify-between items-start mb-2">
@@ -357,11 +827,6 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
                           <p className="text-sm text-gray-600">{data.waterRequirement} L/day</p>
                         </div>
                         </div>
-                        {weatherAdjustment !== 0 && (
-                          <div className="mt-2 text-sm text-orange-600">
-                            {t('irrigationGuide.weatherAdjustment')}: {weatherAdjustment > 0 ? '+' : ''}{weatherAdjustment}%
-                          </div>
-                        )}
                       </div>
                     );
                   })}
@@ -371,6 +836,122 @@ export const IrrigationGuide: React.FC<IrrigationGuideProps> = ({ language, farm
           </TabsContent>
 
           <TabsContent value="methods" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calculator className="h-5 w-5 text-orange-600" />
+                  {t('irrigationGuide.pumpCost')}
+                </CardTitle>
+                <CardDescription>{t('irrigationGuide.pumpCostDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.pumpHp')}</label>
+                    <input
+                      type="number"
+                      value={pumpHp}
+                      onChange={(e) => setPumpHp(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0.5"
+                      step="0.5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.powerSupply')}</label>
+                    <Select value={powerSupply} onValueChange={(value) => handleSupplyChange(value as PowerSupply)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="electric">{t('irrigationGuide.electric')}</SelectItem>
+                        <SelectItem value="diesel">{t('irrigationGuide.diesel')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">
+                      {powerSupply === 'electric' ? t('irrigationGuide.tariffPerKwh') : t('irrigationGuide.dieselPrice')}
+                    </label>
+                    <input
+                      type="number"
+                      value={tariff}
+                      onChange={(e) => setTariff(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0"
+                      step="0.5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.pumpHead')}</label>
+                    <input
+                      type="number"
+                      value={pumpHeadM}
+                      onChange={(e) => setPumpHeadM(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="1"
+                      step="1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('irrigationGuide.plannedVolume')}</label>
+                    <input
+                      type="number"
+                      value={plannedLitres}
+                      placeholder={String(suggestedLitres)}
+                      onChange={(e) => setPlannedLitres(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0"
+                      step="1000"
+                    />
+                  </div>
+                </div>
+
+                {perIrrigation && seasonCost && methodKey && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="border rounded-lg p-3 space-y-1 text-sm">
+                      <h5 className="font-semibold">
+                        {t('irrigationGuide.perIrrigation')} · {translateIrrigationMethodName(methodKey, language)}
+                      </h5>
+                      <p>{formatLitres(irrigationLitres)} · {perIrrigation.flowRateLpm} L/min</p>
+                      <p>{t('irrigationGuide.runTime')}: {perIrrigation.hours} h</p>
+                      <p>
+                        {t('irrigationGuide.energy')}: {perIrrigation.energyKwh} kWh
+                        {powerSupply === 'diesel' && ` · ${perIrrigation.dieselLitres} L ${t('irrigationGuide.diesel')}`}
+                      </p>
+                      <p className="text-lg font-bold text-green-700">₹{perIrrigation.cost.toLocaleString()}</p>
+                    </div>
+                    <div className="border rounded-lg p-3 space-y-1 text-sm">
+                      <h5 className="font-semibold">{t('irrigationGuide.perSeason')}</h5>
+                      <p>{formatLitres(seasonCost.volumeLitres)} ({cropInfo!.totalWaterRequirement} mm)</p>
+                      <p>{t('irrigationGuide.runTime')}: {seasonCost.hours} h</p>
+                      <p>
+                        {t('irrigationGuide.energy')}: {seasonCost.energyKwh} kWh
+                        {powerSupply === 'diesel' && ` · ${seasonCost.dieselLitres} L ${t('irrigationGuide.diesel')}`}
+                      </p>
+                      <p className="text-lg font-bold text-green-700">₹{seasonCost.cost.toLocaleString()}</p>
+                    </div>
+                  </div>
+                )}
+
+                {methodCosts.length > 0 && (
+                  <div className="space-y-1">
+                    <h5 className="text-sm font-medium">{t('irrigationGuide.operatingCostByMethod')}</h5>
+                    {methodCosts.map(cost => (
+                      <div key={cost.method} className="flex flex-wrap justify-between gap-2 text-sm border-b py-1">
+                        <span className="flex items-center gap-2">
+                          {translateIrrigationMethodName(cost.method, language)} ({cost.efficiency}%)
+                          {cheapestMethod?.method === cost.method && <Badge variant="default">{t('irrigationGuide.lowestCost')}</Badge>}
+                        </span>
+                        <span>{formatLitres(cost.volumeLitres)} · {cost.hours} h · ₹{cost.cost.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">{t('irrigationGuide.pumpCostNote')}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUp, TrendingDown, Minus, IndianRupee, Loader2, Sparkles, AlertCircle, X } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, IndianRupee, Loader2, Sparkles, AlertCircle, X, MapPin, Trophy } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { useTranslation, translateStateName, translateCropName } from "@/lib/translations";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MandiPrice, rankMandisByNetRealisation } from "@/lib/mandiRanking";
+import { formatCachedAt, invokeWithCache } from "@/lib/offlineCache";
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { format } from 'date-fns';
+
+interface PricePoint {
+  date: string;
+  price: number;
+}
 
 interface MarketPrice {
   crop: string;
@@ -13,22 +22,44 @@ interface MarketPrice {
   msp: number;
   trend: 'up' | 'down' | 'stable';
   change: string;
+  changeSince?: string | null;
+  change7d?: string | null;
+  history?: PricePoint[];
   market: string;
 }
 
 interface MarketPricesWidgetProps {
   location?: string;
   crops?: string[];
+  latitude?: number;
+  longitude?: number;
   language?: string;
   userName?: string;
 }
 
+interface HorizonForecast {
+  days: number;
+  date: string;
+  point: number;
+  lower80: number;
+  upper80: number;
+}
+
+interface AccuracyMetrics {
+  horizon: number;
+  mape: number;
+  samples: number;
+}
+
 interface ForecastData {
   direction: string;
   expectedChange: string;
   expectedPriceRange: string;
   confidence: string;
   timeframe: string;
+  method?: string;
+  horizons?: HorizonForecast[];
+  accuracy?: AccuracyMetrics[];
   recommendation: {
     action: string;
     priority: string;
@@ -99,6 +130,17 @@ const getTrendIcon = (trend: string) => {
   }
 };
 
+const getTrendStroke = (trend: string) => {
+  switch (trend) {
+    case 'up':
+      return 'hsl(var(--success))';
+    case 'down':
+      return 'hsl(var(--destructive))';
+    default:
+      return 'hsl(var(--muted-foreground))';
+  }
+};
+
 const getTrendColor = (trend: string) => {
   switch (trend) {
     case 'up':
@@ -110,38 +152,55 @@ const getTrendColor = (trend: string) => {
   }
 };
 
-export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location, crops, language = 'en', userName }) => {
+const CONFIDENCE_LABEL_KEYS: Record<string, string> = {
+  high: 'marketPrices.confidenceHigh',
+  medium: 'marketPrices.confidenceMedium',
+  low: 'marketPrices.confidenceLow',
+};
+
+const DEFAULT_SELL_QUANTITY = 10; // quintals
+
+export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location, crops, latitude, longitude, language = 'en', userName }) => {
   const { toast } = useToast();
   const t = useTranslation(language);
   const [marketData, setMarketData] = useState<MarketPrice[]>(mockMarketData);
   const [isLoading, setIsLoading] = useState(false);
   const [isUsingMockData, setIsUsingMockData] = useState(true);
   const [currentState, setCurrentState] = useState<string>('');
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
 
   // Forecast state
   const [activeForecastCrop, setActiveForecastCrop] = useState<string | null>(null);
   const [forecastData, setForecastData] = useState<ForecastData | null>(null);
   const [isLoadingForecast, setIsLoadingForecast] = useState(false);
+  const [forecastCachedAt, setForecastCachedAt] = useState<string | null>(null);
+
+  // Where-to-sell state
+  const [mandiPrices, setMandiPrices] = useState<Record<string, MandiPrice[]>>({});
+  const [activeMandiCrop, setActiveMandiCrop] = useState<string | null>(null);
+  const [sellQuantity, setSellQuantity] = useState<string>(String(DEFAULT_SELL_QUANTITY));
 
   useEffect(() => {
     if (location) {
       fetchMarketData();
     }
-  }, [location, crops]);
+  }, [location, crops, latitude, longitude]);
 
   const fetchMarketData = async () => {
     if (!location) return;
 
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('market-data', {
-        body: { location, crops: crops || [] },
-      });
+      const { data, cachedAt, fromCache } = await invokeWithCache<any>(
+        'market-data',
+        { location, crops: crops || [], latitude, longitude },
+        `market-data:${location}:${[...(crops || [])].sort().join(',')}`
+      );
 
-      if (error) throw error;
-
-      setMarketData((data as any).marketData);
-      setCurrentState((data as any).state);
+      setMarketData(data.marketData);
+      setMandiPrices(data.mandis || {});
+      setCurrentState(data.state);
+      setCachedAt(fromCache ? cachedAt : null);
       setIsUsingMockData(false);
     } catch (error) {
       console.error('Market data fetch error:', error);
@@ -156,6 +215,14 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
     }
   };
 
+  // Mandi prices are keyed by the farmer's crop names; market rows may use AGMARKNET commodity names
+  const getMandisForCrop = (crop: string): MandiPrice[] => {
+    const key = Object.keys(mandiPrices).find(name =>
+      name.toLowerCase().includes(crop.toLowerCase()) || crop.toLowerCase().includes(name.toLowerCase())
+    );
+    return key ? mandiPrices[key] : [];
+  };
+
   const handleGetForecast = async (crop: string, currentPrice: number, currentTrend: string) => {
     if (activeForecastCrop === crop) {
       setActiveForecastCrop(null);
@@ -166,21 +233,26 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
     setActiveForecastCrop(crop);
     setIsLoadingForecast(true);
     setForecastData(null);
+    setForecastCachedAt(null);
 
     try {
-      const { data, error } = await supabase.functions.invoke('market-forecast', {
-        body: {
+      const { data, cachedAt, fromCache } = await invokeWithCache<any>(
+        'market-forecast',
+        {
           crop,
           location,
+          latitude,
+          longitude,
           currentPrice,
           currentTrend,
           language,
           farmerData: { name: userName }
         },
-      });
+        `market-forecast:${location}:${crop}:${language}`
+      );
 
-      if (error) throw error;
       setForecastData(data.forecast ? { ...data.forecast, recommendation: data.recommendation } : null);
+      setForecastCachedAt(fromCache ? cachedAt : null);
     } catch (error) {
       console.error('Forecast error:', error);
       toast({
@@ -202,6 +274,11 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
           {t('marketPrices.title')} & MSP
           {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
           {isUsingMockData && <span className="text-xs text-muted-foreground">(Sample Data)</span>}
+          {cachedAt && (
+            <span className="text-xs text-muted-foreground">
+              ({t('common.savedDataFrom')} {formatCachedAt(cachedAt)})
+            </span>
+          )}
         </CardTitle>
         {currentState && (
           <p className="text-sm text-muted-foreground">
@@ -240,6 +317,28 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
                 </div>
 
                 <div className="text-right flex items-center gap-4">
+                  {item.history && item.history.length > 1 && (
+                    <div className="hidden sm:block w-24 h-10" title={t('marketPrices.priceHistory')}>
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={item.history}>
+                          <YAxis hide domain={['dataMin', 'dataMax']} />
+                          <Tooltip
+                            formatter={(value: number) => [`₹${value.toLocaleString()}`, t('marketPrices.currentPrice')]}
+                            labelFormatter={(_, payload) => payload?.[0]?.payload?.date ?? ''}
+                            contentStyle={{ fontSize: '0.75rem' }}
+                          />
+                          <Line
+                            type="monotone"
+                            dataKey="price"
+                            stroke={getTrendStroke(item.trend)}
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+
                   <div>
                     <div className="flex items-center gap-1 justify-end">
                       <span className="font-semibold text-lg">
@@ -250,6 +349,16 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
                     <div className={`text-sm ${getTrendColor(item.trend)}`}>
                       {item.change}
                     </div>
+                    {item.changeSince && (
+                      <div className="text-xs text-muted-foreground">
+                        {t('marketPrices.changeSince')}: {format(new Date(`${item.changeSince}T00:00:00`), 'd MMM')}
+                      </div>
+                    )}
+                    {item.change7d && (
+                      <div className="text-xs text-muted-foreground">
+                        {t('marketPrices.sevenDayChange')}: {item.change7d}
+                      </div>
+                    )}
                   </div>
 
                   <Button
@@ -265,9 +374,77 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
                     )}
                     <span className="hidden sm:inline">Forecast</span>
                   </Button>
+
+                  {latitude !== undefined && longitude !== undefined && (
+                    <Button
+                      variant={activeMandiCrop === item.crop ? "default" : "outline"}
+                      size="sm"
+                      className="h-8 gap-1"
+                      onClick={() => setActiveMandiCrop(activeMandiCrop === item.crop ? null : item.crop)}
+                      title={t('marketPrices.whereToSell')}
+                    >
+                      <MapPin className="h-3 w-3" />
+                      <span className="hidden sm:inline">{t('marketPrices.whereToSell')}</span>
+                    </Button>
+                  )}
                 </div>
               </div>
 
+              {/* Where to sell: nearby mandis ranked by net realisation */}
+              {activeMandiCrop === item.crop && (() => {
+                const quantity = Number(sellQuantity) || 0;
+                const ranked = rankMandisByNetRealisation(getMandisForCrop(item.crop), quantity);
+                return (
+                  <div className="rounded-lg p-4 border border-primary/20 bg-muted/30 space-y-3 animate-in slide-in-from-top-2 duration-300">
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm text-muted-foreground" htmlFor={`sell-qty-${index}`}>
+                        {t('marketPrices.quantityQuintals')}
+                      </label>
+                      <Input
+                        id={`sell-qty-${index}`}
+                        type="number"
+                        min={1}
+                        value={sellQuantity}
+                        onChange={(e) => setSellQuantity(e.target.value)}
+                        className="h-8 w-24"
+                      />
+                    </div>
+
+                    {ranked.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t('marketPrices.noNearbyMandis')}</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {ranked.map((mandi, rank) => (
+                          <div
+                            key={`${mandi.market}-${mandi.state}`}
+                            className={`flex items-center justify-between rounded border p-2 text-sm ${rank === 0 ? 'border-success bg-success/10' : 'border-border'}`}
+                          >
+                            <div>
+                              <div className="flex items-center gap-1 font-medium">
+                                {rank === 0 && <Trophy className="h-3 w-3 text-success" />}
+                                {mandi.market}
+                                <span className="text-xs text-muted-foreground">
+                                  · {mandi.distanceKm} km · {translateStateName(mandi.state, language)}
+                                </span>
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                ₹{mandi.modalPrice.toLocaleString()}/quintal ({mandi.priceDate}) − {t('marketPrices.transportCost')} ₹{mandi.transportCost.toLocaleString()}
+                              </div>
+                            </div>
+                            <div className="text-right">
+                              <div className="font-semibold">₹{mandi.netRealisation.toLocaleString()}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {t('marketPrices.netPrice')}: ₹{mandi.netPricePerQuintal.toLocaleString()}/quintal
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+
               {/* Forecast Overlay/Area */}
               {activeForecastCrop === item.crop && (
                 <div className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-950/20 dark:to-blue-950/20 rounded-lg p-4 border border-primary/20 animate-in slide-in-from-top-2 duration-300">
@@ -299,6 +476,9 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
                         } className="uppercase tracking-wider">
                           Advisor: {forecastData.recommendation.action}
                         </Badge>
+                        <Badge variant="outline" className="ml-2 capitalize">
+                          {t('marketPrices.confidence')}: {CONFIDENCE_LABEL_KEYS[forecastData.confidence] ? t(CONFIDENCE_LABEL_KEYS[forecastData.confidence]) : forecastData.confidence}
+                        </Badge>
                       </div>
 
                       <div className="bg-white/50 dark:bg-black/20 rounded p-3 text-sm">
@@ -309,9 +489,41 @@ export const MarketPricesWidget: React.FC<MarketPricesWidgetProps> = ({ location
                             <p className="text-muted-foreground leading-relaxed">
                               "{forecastData.recommendation.aiAdvice}"
                             </p>
+                            {forecastCachedAt && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {t('common.savedDataFrom')} {formatCachedAt(forecastCachedAt)}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
+
+                      {forecastData.horizons && forecastData.horizons.length > 0 && (
+                        <div className="sm:col-span-2 space-y-2">
+                          <div className="grid grid-cols-3 gap-2">
+                            {forecastData.horizons.map((horizon) => {
+                              const accuracy = forecastData.accuracy?.find(a => a.horizon === horizon.days);
+                              return (
+                                <div key={horizon.days} className="rounded border border-border bg-white/50 dark:bg-black/20 p-2 text-center">
+                                  <div className="text-xs text-muted-foreground">{horizon.days} {t('units.days')}</div>
+                                  <div className="font-semibold">₹{horizon.point.toLocaleString()}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    ₹{horizon.lower80.toLocaleString()} - ₹{horizon.upper80.toLocaleString()}
+                                  </div>
+                                  {accuracy && (
+                                    <div className="text-[10px] text-muted-foreground mt-1">
+                                      {t('marketPrices.backtestError')}: ±{accuracy.mape}%
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <p className="text-[10px] text-muted-foreground text-center">
+                            {t('marketPrices.predictionRange80')} · {t(forecastData.method === 'holt-winters' ? 'marketPrices.methodSeasonalSmoothing' : 'marketPrices.methodSmoothing')}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="flex items-center justify-center p-4 gap-2 text-destructive">
@@ -22,83 +22,30 @@ import {
   Trash2
 } from 'lucide-react';
 import { useTranslation } from "@/lib/translations";
-
-interface Notification {
-  id: string;
-  type: 'weather' | 'market' | 'farming' | 'system' | 'alert';
-  title: string;
-  message: string;
-  timestamp: Date;
-  isRead: boolean;
-  priority: 'low' | 'medium' | 'high';
-  actionUrl?: string;
-}
+import { AppNotification, dismissNotifications, markNotificationsRead } from "@/lib/notifications";
 
 interface NotificationsProps {
   language: string;
   isOpen: boolean;
   onClose: () => void;
+  notifications: AppNotification[];
+  onNotificationsChange: (notifications: AppNotification[]) => void;
+  onOpenLink: (actionUrl: string) => void;
 }
 
-const mockNotifications: Notification[] = [
-  {
-    id: '1',
-    type: 'weather',
-    title: 'Weather Alert',
-    message: 'Heavy rainfall expected in your area tomorrow. Consider delaying irrigation activities.',
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-    isRead: false,
-    priority: 'high',
-  },
-  {
-    id: '2',
-    type: 'market',
-    title: 'Price Update',
-    message: 'Rice prices have increased by 5.2% in your local market. Consider selling your stock.',
-    timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-    isRead: false,
-    priority: 'medium',
-  },
-  {
-    id: '3',
-    type: 'farming',
-    title: 'Farming Tip',
-    message: 'It\'s the ideal time to apply nitrogen fertilizer to your wheat crop for better yield.',
-    timestamp: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago
-    isRead: true,
-    priority: 'low',
-  },
-  {
-    id: '4',
-    type: 'system',
-    title: 'System Update',
-    message: 'New features added: Crop disease identification and irrigation scheduling.',
-    timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000), // 1 day ago
-    isRead: true,
-    priority: 'low',
-  },
-  {
-    id: '5',
-    type: 'alert',
-    title: 'Irrigation Reminder',
-    message: 'Your rice field needs irrigation. Soil moisture levels are below optimal.',
-    timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
-    isRead: true,
-    priority: 'high',
-  },
-];
-
 export const Notifications: React.FC<NotificationsProps> = ({
   language,
   isOpen,
-  onClose
+  onClose,
+  notifications,
+  onNotificationsChange,
+  onOpenLink
 }) => {
   const { toast } = useToast();
   const t = useTranslation(language);
-  const [notifications, setNotifications] = useState<Notification[]>(mockNotifications);
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
 
-  const getNotificationIcon = (type: Notification['type']) => {
+  const getNotificationIcon = (type: AppNotification['type']) => {
     switch (type) {
       case 'weather':
         return <Cloud className="h-4 w-4" />;
@@ -115,7 +62,7 @@ export const Notifications: React.FC<NotificationsProps> = ({
     }
   };
 
-  const getNotificationColor = (type: Notification['type']) => {
+  const getNotificationColor = (type: AppNotification['type']) => {
     switch (type) {
       case 'weather':
         return 'text-blue-600 bg-blue-100';
@@ -132,7 +79,7 @@ export const Notifications: React.FC<NotificationsProps> = ({
     }
   };
 
-  const getPriorityColor = (priority: Notification['priority']) => {
+  const getPriorityColor = (priority: AppNotification['priority']) => {
     switch (priority) {
       case 'high':
         return 'bg-red-500';
@@ -161,36 +108,65 @@ export const Notifications: React.FC<NotificationsProps> = ({
     }
   };
 
-  const markAsRead = (id: string) => {
-    setNotifications(prev =>
-      prev.map(notification =>
-        notification.id === id
+  const showUpdateError = (error: unknown) => {
+    console.error('Notification update error:', error);
+    toast({
+      title: t('common.error'),
+      description: t('notifications.updateFailed'),
+      variant: "destructive",
+    });
+  };
+
+  const markAsRead = async (ids: string[]): Promise<boolean> => {
+    try {
+      await markNotificationsRead(ids);
+      onNotificationsChange(notifications.map(notification =>
+        ids.includes(notification.id)
           ? { ...notification, isRead: true }
           : notification
-      )
-    );
+      ));
+      return true;
+    } catch (error) {
+      showUpdateError(error);
+      return false;
+    }
+  };
+
+  const dismiss = async (ids: string[]): Promise<boolean> => {
+    try {
+      await dismissNotifications(ids);
+      onNotificationsChange(notifications.filter(notification => !ids.includes(notification.id)));
+      return true;
+    } catch (error) {
+      showUpdateError(error);
+      return false;
+    }
+  };
+
+  const openNotification = async (notification: AppNotification) => {
+    if (!notification.isRead) await markAsRead([notification.id]);
+    if (notification.actionUrl) onOpenLink(notification.actionUrl);
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notification => ({ ...notification, isRead: true }))
-    );
+  const markAllAsRead = async () => {
+    const unreadIds = notifications.filter(notification => !notification.isRead).map(notification => notification.id);
+    if (!(await markAsRead(unreadIds))) return;
     toast({
       title: t('common.success'),
       description: 'All notifications marked as read',
     });
   };
 
-  const deleteNotification = (id: string) => {
-    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  const deleteNotification = async (id: string) => {
+    if (!(await dismiss([id]))) return;
     toast({
       title: t('common.success'),
       description: 'Notification deleted',
     });
   };
 
-  const clearAll = () => {
-    setNotifications([]);
+  const clearAll = async () => {
+    if (!(await dismiss(notifications.map(notification => notification.id)))) return;
     toast({
       title: t('common.success'),
       description: 'All notifications cleared',
@@ -269,7 +245,7 @@ export const Notifications: React.FC<NotificationsProps> = ({
                   className={`cursor-pointer transition-colors hover:bg-muted/50 ${
                     !notification.isRead ? 'border-l-4 border-l-primary' : ''
                   }`}
-                  onClick={() => markAsRead(notification.id)}
+                  onClick={() => openNotification(notification)}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start gap-3">
@@ -305,7 +281,7 @@ export const Notifications: React.FC<NotificationsProps> = ({
                                 className="h-6 w-6 p-0"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  markAsRead(notification.id);
+                                  markAsRead([notification.id]);
                                 }}
                               >
                                 <Check className="h-3 w-3" />
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Droplets, Layers, Loader2, MapPinned, Pencil, Plus, Sprout, Trash2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useTranslation, translateCropName } from "@/lib/translations";
+import {
+  AreaUnit,
+  FarmPlot,
+  IRRIGATION_SOURCES,
+  IRRIGATION_SOURCE_LABEL_KEYS,
+  IrrigationSource,
+  PLOT_AREA_DECIMALS,
+  PlotInput,
+  SOIL_LABEL_KEYS,
+  SOIL_TYPES,
+  SoilType,
+  createPlot,
+  deletePlot,
+  getTotalArea,
+  updatePlot,
+} from "@/lib/plots";
+import { getLocalAreasFor, polygonAreaSqm, sqmToUnit } from "@/lib/landMeasure";
+import { BoundaryMapDialog } from './BoundaryMapDialog';
+
+interface PlotManagerProps {
+  language: string;
+  plots: FarmPlot[];
+  crops: string[];
+  onPlotsChange: (plots: FarmPlot[]) => void;
+  center?: { latitude?: number; longitude?: number };
+  state?: string | null;
+}
+
+const NONE = 'none';
+
+const emptyPlot: PlotInput = {
+  name: '',
+  area: 0,
+  areaUnit: 'acres',
+};
+
+export const PlotManager: React.FC<PlotManagerProps> = ({ language, plots, crops, onPlotsChange, center, state }) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<PlotInput>(emptyPlot);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<FarmPlot | null>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+
+  // A plot may carry a crop that is no longer on the profile; keep it selectable
+  const cropOptions = [...new Set([...crops, ...(form.currentCrop ? [form.currentCrop] : [])])];
+
+  const formatLocalAreas = (plot: FarmPlot) => {
+    const local = getLocalAreasFor(plot.area, plot.areaUnit, state);
+    return `${local.bigha} bigha · ${local.guntha} guntha`;
+  };
+
+  const openNewPlot = () => {
+    setEditingId(null);
+    setForm(emptyPlot);
+    setIsFormOpen(true);
+  };
+
+  const openEditPlot = (plot: FarmPlot) => {
+    const { id, createdAt, updatedAt, ...input } = plot;
+    setEditingId(id);
+    setForm(input);
+    setIsFormOpen(true);
+  };
+
+  // A mapped boundary fixes the area; typing a new area afterwards keeps the outline for reference
+  const handleUnitChange = (areaUnit: AreaUnit) => {
+    setForm(prev => ({
+      ...prev,
+      areaUnit,
+      ...(prev.boundary && { area: sqmToUnit(polygonAreaSqm(prev.boundary), areaUnit, PLOT_AREA_DECIMALS) }),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !(form.area > 0)) {
+      toast({
+        title: t('common.error'),
+        description: t('plots.invalidPlot'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const plot = { ...form, name: form.name.trim() };
+      if (editingId) {
+        const saved = await updatePlot(editingId, plot);
+        onPlotsChange(plots.map(existing => existing.id === saved.id ? saved : existing));
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('User not authenticated');
+        const saved = await createPlot(user.id, plot);
+        onPlotsChange([...plots, saved]);
+      }
+      setIsFormOpen(false);
+      toast({
+        title: t('common.success'),
+        description: t('plots.plotSaved'),
+      });
+    } catch (error) {
+      console.error('Plot save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deletePlot(deleteTarget.id);
+      onPlotsChange(plots.filter(plot => plot.id !== deleteTarget.id));
+      toast({
+        title: t('common.success'),
+        description: t('plots.plotDeleted'),
+      });
+    } catch (error) {
+      console.error('Plot delete error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-green-600" />
+              {t('plots.title')}
+            </CardTitle>
+            <CardDescription>{t('plots.description')}</CardDescription>
+          </div>
+          <Button onClick={openNewPlot}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('plots.addPlot')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {plots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('plots.noPlots')}</p>
+        ) : (
+          <>
+            <div className="text-sm text-muted-foreground">
+              {t('plots.totalArea')}: <span className="font-medium text-foreground">{getTotalArea(plots, 'acres')} acres</span>
+              {' '}({getTotalArea(plots, 'hectares')} hectares)
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {plots.map(plot => (
+                <div key={plot.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium">{plot.name}</div>
+                      <div className="text-sm text-muted-foreground">{plot.area} {plot.areaUnit}</div>
+                      <div className="text-xs text-muted-foreground">
+                        ≈ {formatLocalAreas(plot)}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditPlot(plot)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDeleteTarget(plot)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <Sprout className="h-3 w-3" />
+                      {plot.currentCrop ? translateCropName(plot.currentCrop, language) : t('plots.noCrop')}
+                    </Badge>
+                    {plot.soilType && <Badge variant="outline">{t(SOIL_LABEL_KEYS[plot.soilType])}</Badge>}
+                    {plot.irrigationSource && (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Droplets className="h-3 w-3" />
+                        {t(IRRIGATION_SOURCE_LABEL_KEYS[plot.irrigationSource])}
+                      </Badge>
+                    )}
+                    {plot.boundary && (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <MapPinned className="h-3 w-3" />
+                        {t('plots.boundaryMapped')}
+                      </Badge>
+                    )}
+                  </div>
+                  {plot.sowingDate && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('plots.sowingDate')}: {plot.sowingDate}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? t('plots.editPlot') : t('plots.addPlot')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plot-name">{t('plots.plotName')}</Label>
+              <Input
+                id="plot-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder={t('plots.plotNamePlaceholder')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-area">{t('plots.area')}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="plot-area"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={form.area || ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, area: Number(e.target.value) }))}
+                  className="flex-1"
+                />
+                <Select value={form.areaUnit} onValueChange={(value) => handleUnitChange(value as AreaUnit)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="acres">Acres</SelectItem>
+                    <SelectItem value="hectares">Hectares</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsMapOpen(true)}>
+                <MapPinned className="h-4 w-4 mr-1" />
+                {form.boundary ? t('plots.drawBoundary') : t('plots.measureOnMap')}
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('plots.soilType')}</Label>
+                <Select
+                  value={form.soilType || NONE}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, soilType: value === NONE ? undefined : value as SoilType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>-</SelectItem>
+                    {SOIL_TYPES.map(soil => (
+                      <SelectItem key={soil} value={soil}>{t(SOIL_LABEL_KEYS[soil])}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('plots.irrigationSource')}</Label>
+                <Select
+                  value={form.irrigationSource || NONE}
+                  onValueChange={(value) => setForm(prev => ({
+                    ...prev,
+                    irrigationSource: value === NONE ? undefined : value as IrrigationSource,
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>-</SelectItem>
+                    {IRRIGATION_SOURCES.map(source => (
+                      <SelectItem key={source} value={source}>{t(IRRIGATION_SOURCE_LABEL_KEYS[source])}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('plots.currentCrop')}</Label>
+                <Select
+                  value={form.currentCrop || NONE}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, currentCrop: value === NONE ? undefined : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>{t('plots.noCrop')}</SelectItem>
+                    {cropOptions.map(crop => (
+                      <SelectItem key={crop} value={crop}>{translateCropName(crop, language)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plot-sowing-date">{t('plots.sowingDate')}</Label>
+                <Input
+                  id="plot-sowing-date"
+                  type="date"
+                  value={form.sowingDate || ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, sowingDate: e.target.value || undefined }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <BoundaryMapDialog
+        language={language}
+        open={isMapOpen}
+        onOpenChange={setIsMapOpen}
+        boundary={form.boundary}
+        center={center}
+        state={state}
+        onSave={(boundary, areaSqm) => setForm(prev => ({ ...prev, boundary, area: sqmToUnit(areaSqm, prev.areaUnit, PLOT_AREA_DECIMALS) }))}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('plots.deletePlot')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.name}" - {t('plots.deletePlotConfirm')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>{t('common.delete')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation, translateCropName } from '@/lib/translations';
+import { FarmPlot } from '@/lib/plots';
+
+interface PlotSelectProps {
+  language: string;
+  plots: FarmPlot[];
+  value: string | null; // null = advice for all profile crops, not tied to a plot
+  onChange: (plot: FarmPlot | null) => void;
+}
+
+const ALL_CROPS = 'all';
+
+export const PlotSelect: React.FC<PlotSelectProps> = ({ language, plots, value, onChange }) => {
+  const t = useTranslation(language);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{t('plots.selectPlot')}</label>
+      <Select
+        value={value ?? ALL_CROPS}
+        onValueChange={(id) => onChange(plots.find(plot => plot.id === id) ?? null)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CROPS}>{t('plots.allCrops')}</SelectItem>
+          {plots.map(plot => (
+            <SelectItem key={plot.id} value={plot.id}>
+              {plot.name}
+              {plot.currentCrop && ` · ${translateCropName(plot.currentCrop, language)}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -8,8 +8,9 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { X, Plus, MapPin, Phone, Crop, Ruler, User } from 'lucide-react';
-import { supabase } from "@/integrations/supabase/client";
 import { useTranslation } from "@/lib/translations";
+import { cacheFarmerProfile, updateFarmerProfile } from "@/lib/farmerProfile";
+import { getSessionUserId, queueAction } from "@/lib/offlineSync";
 
 interface FarmerData {
   name: string;
@@ -85,30 +86,22 @@ export const ProfileEdit: React.FC<ProfileEditProps> = ({
   const handleSave = async () => {
     setIsLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const userId = await getSessionUserId();
+      if (!userId) throw new Error('User not authenticated');
 
-      const { error } = await supabase
-        .from('farmer_profiles')
-        .update({
-          name: formData.name,
-          location: formData.location,
-          phone: formData.phone,
-          land_size: formData.landSize,
-          land_unit: formData.landUnit,
-          crops: formData.crops,
-          latitude: formData.latitude,
-          longitude: formData.longitude,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      // Offline, the edit is kept on this device and sent when the connection is back
+      const isOffline = !navigator.onLine;
+      if (isOffline) {
+        queueAction({ kind: 'profile-update', payload: { userId, profile: formData } });
+        cacheFarmerProfile(userId, formData);
+      } else {
+        await updateFarmerProfile(userId, formData);
+      }
 
       onUpdate(formData);
       toast({
         title: t('common.success'),
-        description: t('profile.profileUpdated'),
+        description: isOffline ? t('common.savedOffline') : t('profile.profileUpdated'),
       });
       onClose();
     } catch (error) {
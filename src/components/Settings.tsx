@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -22,9 +22,21 @@ import {
   Sun,
   Monitor,
   Type,
-  Save
+  Save,
+  Loader2
 } from 'lucide-react';
+import { Input } from "@/components/ui/input";
 import { useTranslation } from "@/lib/translations";
+import { supabase } from "@/integrations/supabase/client";
+import { NotificationPreferences, fetchNotificationPreferences, saveNotificationPreferences } from "@/lib/notifications";
+import { DevicePushState, getDevicePushState, subscribeToPush } from "@/lib/pushNotifications";
+import { SETTINGS_KEY } from "@/lib/offlineCache";
+import {
+  PhoneVerificationIssue,
+  confirmPhoneVerificationCode,
+  fetchPhoneVerificationStatus,
+  sendPhoneVerificationCode,
+} from "@/lib/phoneVerification";
 
 interface SettingsProps {
   language: string;
@@ -41,6 +53,11 @@ interface SettingsData {
   soundNotifications: boolean;
   vibration: boolean;
   notificationFrequency: 'low' | 'medium' | 'high';
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // HH:MM
+  quietHoursEnd: string;
+  smsAlerts: boolean;
+  voiceCalls: boolean;
   
   // Appearance
   theme: 'light' | 'dark' | 'system';
@@ -52,6 +69,42 @@ interface SettingsData {
   dataUsage: 'low' | 'medium' | 'high';
 }
 
+const defaultSettings: SettingsData = {
+  enableNotifications: true,
+  emailNotifications: true,
+  pushNotifications: true,
+  soundNotifications: true,
+  vibration: true,
+  notificationFrequency: 'medium',
+  quietHoursEnabled: false,
+  quietHoursStart: '21:00',
+  quietHoursEnd: '06:00',
+  smsAlerts: false,
+  voiceCalls: false,
+  theme: 'system',
+  fontSize: 'medium',
+  autoSync: true,
+  offlineMode: false,
+  dataUsage: 'medium',
+};
+
+const loadSettings = (): SettingsData => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
+  } catch {
+    return defaultSettings;
+  }
+};
+
+const VERIFICATION_ISSUE_KEYS: Record<PhoneVerificationIssue, string> = {
+  'invalid-phone': 'settings.invalidPhone',
+  'too-soon': 'settings.codeTooSoon',
+  'daily-limit': 'settings.codeDailyLimit',
+  'expired': 'settings.codeExpired',
+  'wrong-code': 'settings.codeWrong',
+};
+
 export const Settings: React.FC<SettingsProps> = ({
   language,
   onLanguageChange,
@@ -60,19 +113,46 @@ export const Settings: React.FC<SettingsProps> = ({
 }) => {
   const { toast } = useToast();
   const t = useTranslation(language);
-  const [settings, setSettings] = useState<SettingsData>({
-    enableNotifications: true,
-    emailNotifications: true,
-    pushNotifications: true,
-    soundNotifications: true,
-    vibration: true,
-    notificationFrequency: 'medium',
-    theme: 'system',
-    fontSize: 'medium',
-    autoSync: true,
-    offlineMode: false,
-    dataUsage: 'medium',
-  });
+  const [settings, setSettings] = useState<SettingsData>(loadSettings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [serverPreferences, setServerPreferences] = useState<NotificationPreferences | null>(null);
+  const [devicePush, setDevicePush] = useState<DevicePushState | null>(null);
+  const [phoneVerified, setPhoneVerified] = useState<boolean | null>(null);
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // SMS may have been turned off by replying STOP and push from another device, so the server's
+  // choice wins over the local copy
+  useEffect(() => {
+    if (!isOpen) return;
+    getDevicePushState().then(setDevicePush).catch((error) => {
+      console.error('Error reading push subscription:', error);
+    });
+    const loadPreferences = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        const [preferences, verification] = await Promise.all([
+          fetchNotificationPreferences(user.id),
+          fetchPhoneVerificationStatus(),
+        ]);
+        setServerPreferences(preferences);
+        setPhoneVerified(verification.verified);
+        if (preferences) {
+          setSettings(prev => ({
+            ...prev,
+            pushNotifications: preferences.pushEnabled,
+            smsAlerts: preferences.smsEnabled,
+            voiceCalls: preferences.voiceCalls,
+          }));
+        }
+      } catch (error) {
+        console.error('Error loading notification preferences:', error);
+      }
+    };
+    loadPreferences();
+  }, [isOpen]);
 
   const handleSettingChange = (key: keyof SettingsData, value: any) => {
     setSettings(prev => ({
@@ -81,30 +161,119 @@ export const Settings: React.FC<SettingsProps> = ({
     }));
   };
 
-  const handleSave = () => {
-    // Save settings to localStorage or backend
-    localStorage.setItem('krishi-settings', JSON.stringify(settings));
-    toast({
-      title: t('common.success'),
-      description: t('settings.settingsSaved'),
-    });
-    onClose();
+  // The push switch is the farmer's choice for all their devices. Turning it on also subscribes this
+  // device, which is the only time the browser is asked for permission; a device that cannot take
+  // push is reported but leaves the choice alone, so the farmer's other devices keep their alerts.
+  const enablePushOnDevice = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const result = await subscribeToPush(user.id);
+      if (result === 'subscribed') {
+        setDevicePush('subscribed');
+        return;
+      }
+      if (result === 'not-configured') {
+        console.error('Push notifications are not configured: VITE_VAPID_PUBLIC_KEY is missing');
+      }
+      setDevicePush(result === 'denied' ? 'denied' : 'unsupported');
+      toast({
+        title: t('common.error'),
+        description: result === 'denied' ? t('settings.pushDenied') : t('settings.pushUnsupported'),
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error('Push subscription error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePushToggle = (checked: boolean) => {
+    handleSettingChange('pushNotifications', checked);
+    if (checked && devicePush !== 'subscribed') enablePushOnDevice();
+  };
+
+  // SMS and calls go only to a number the farmer has confirmed with a texted code, so nobody can
+  // send alerts to someone else's phone by typing it into their profile
+  const handleVerificationStep = async (step: 'send' | 'confirm') => {
+    setIsVerifying(true);
+    try {
+      const result = step === 'send'
+        ? await sendPhoneVerificationCode(language)
+        : await confirmPhoneVerificationCode(verificationCode);
+      if (result.issue) {
+        toast({
+          title: t('common.error'),
+          description: t(VERIFICATION_ISSUE_KEYS[result.issue]),
+          variant: "destructive",
+        });
+        if (result.issue === 'expired') setCodeSent(false);
+        return;
+      }
+      if (result.verified) {
+        setPhoneVerified(true);
+        setCodeSent(false);
+        setVerificationCode('');
+        toast({ title: t('common.success'), description: t('settings.phoneVerified') });
+      } else {
+        setCodeSent(true);
+        toast({ title: t('common.success'), description: t('settings.codeSent') });
+      }
+    } catch (error) {
+      console.error('Phone verification error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        await saveNotificationPreferences(user.id, {
+          pushEnabled: settings.enableNotifications && settings.pushNotifications,
+          sound: settings.soundNotifications,
+          vibration: settings.vibration,
+          frequency: settings.notificationFrequency,
+          quietHoursStart: settings.quietHoursEnabled ? settings.quietHoursStart : null,
+          quietHoursEnd: settings.quietHoursEnabled ? settings.quietHoursEnd : null,
+          // Stays off until the number is verified; the switch keeps the farmer's wish meanwhile
+          smsEnabled: settings.enableNotifications && settings.smsAlerts && phoneVerified === true,
+          voiceCalls: settings.voiceCalls,
+          language,
+        }, serverPreferences);
+      }
+
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      toast({
+        title: t('common.success'),
+        description: t('settings.settingsSaved'),
+      });
+      onClose();
+    } catch (error) {
+      console.error('Settings save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleReset = () => {
-    setSettings({
-      enableNotifications: true,
-      emailNotifications: true,
-      pushNotifications: true,
-      soundNotifications: true,
-      vibration: true,
-      notificationFrequency: 'medium',
-      theme: 'system',
-      fontSize: 'medium',
-      autoSync: true,
-      offlineMode: false,
-      dataUsage: 'medium',
-    });
+    setSettings(defaultSettings);
   };
 
   return (
@@ -203,7 +372,7 @@ export const Settings: React.FC<SettingsProps> = ({
                   <div className="space-y-0.5">
                     <Label>{t('settings.offlineMode')}</Label>
                     <p className="text-sm text-muted-foreground">
-                      Work offline when possible
+                      Use weather and market data saved on this device when it is recent
                     </p>
                   </div>
                   <Switch
@@ -256,10 +425,18 @@ export const Settings: React.FC<SettingsProps> = ({
                     <p className="text-sm text-muted-foreground">
                       Receive push notifications
                     </p>
+                    {settings.enableNotifications && settings.pushNotifications && devicePush === 'not-subscribed' && (
+                      <p className="text-sm text-muted-foreground">
+                        {t('settings.pushNotOnDevice')}{' '}
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={enablePushOnDevice}>
+                          {t('settings.enablePushOnDevice')}
+                        </Button>
+                      </p>
+                    )}
                   </div>
                   <Switch
                     checked={settings.pushNotifications}
-                    onCheckedChange={(checked) => handleSettingChange('pushNotifications', checked)}
+                    onCheckedChange={handlePushToggle}
                     disabled={!settings.enableNotifications}
                   />
                 </div>
@@ -289,6 +466,69 @@ export const Settings: React.FC<SettingsProps> = ({
                     disabled={!settings.enableNotifications}
                   />
                 </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>{t('settings.smsAlerts')}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t('settings.smsAlertsDescription')}
+                    </p>
+                    {settings.enableNotifications && settings.smsAlerts && phoneVerified === false && (
+                      <div className="space-y-2 pt-2">
+                        <p className="text-sm text-warning">
+                          {codeSent ? t('settings.codeSent') : t('settings.verifyPhonePrompt')}
+                        </p>
+                        <div className="flex items-center gap-2">
+                          {codeSent && (
+                            <Input
+                              value={verificationCode}
+                              onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                              placeholder={t('settings.enterCode')}
+                              inputMode="numeric"
+                              autoComplete="one-time-code"
+                              className="w-32"
+                            />
+                          )}
+                          {codeSent && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleVerificationStep('confirm')}
+                              disabled={isVerifying || verificationCode.length !== 6}
+                            >
+                              {t('settings.confirmCode')}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant={codeSent ? 'outline' : 'default'}
+                            onClick={() => handleVerificationStep('send')}
+                            disabled={isVerifying}
+                          >
+                            {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            {t('settings.sendCode')}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <Switch
+                    checked={settings.smsAlerts}
+                    onCheckedChange={(checked) => handleSettingChange('smsAlerts', checked)}
+                    disabled={!settings.enableNotifications}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>{t('settings.voiceCalls')}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t('settings.voiceCallsDescription')}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={settings.voiceCalls}
+                    onCheckedChange={(checked) => handleSettingChange('voiceCalls', checked)}
+                    disabled={!settings.enableNotifications || !settings.smsAlerts}
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="frequency">{t('settings.notificationFrequency')}</Label>
                   <Select
@@ -306,6 +546,43 @@ export const Settings: React.FC<SettingsProps> = ({
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>{t('settings.quietHours')}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t('settings.quietHoursDescription')}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={settings.quietHoursEnabled}
+                    onCheckedChange={(checked) => handleSettingChange('quietHoursEnabled', checked)}
+                    disabled={!settings.enableNotifications}
+                  />
+                </div>
+                {settings.quietHoursEnabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="quietHoursStart">{t('settings.quietHoursFrom')}</Label>
+                      <Input
+                        id="quietHoursStart"
+                        type="time"
+                        value={settings.quietHoursStart}
+                        onChange={(e) => handleSettingChange('quietHoursStart', e.target.value)}
+                        disabled={!settings.enableNotifications}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quietHoursEnd">{t('settings.quietHoursTo')}</Label>
+                      <Input
+                        id="quietHoursEnd"
+                        type="time"
+                        value={settings.quietHoursEnd}
+                        onChange={(e) => handleSettingChange('quietHoursEnd', e.target.value)}
+                        disabled={!settings.enableNotifications}
+                      />
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -430,8 +707,8 @@ export const Settings: React.FC<SettingsProps> = ({
             <Button variant="outline" onClick={onClose}>
               {t('common.cancel')}
             </Button>
-            <Button onClick={handleSave} className="flex items-center gap-2">
-              <Save className="h-4 w-4" />
+            <Button onClick={handleSave} disabled={isSaving} className="flex items-center gap-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
               {t('settings.saveSettings')}
             </Button>
           </div>
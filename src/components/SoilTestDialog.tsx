@@ -0,0 +1,306 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileUp, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useTranslation } from "@/lib/translations";
+import type { FarmPlot } from "@/lib/plots";
+import { SoilParameter, SoilTestValues, parseSoilReport } from "@/lib/soilReport";
+import { SoilTest, SoilTestInput, createSoilTest } from "@/lib/soilTests";
+
+interface SoilTestDialogProps {
+  language: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plots: FarmPlot[];
+  plotId?: string | null;
+  onSaved: (test: SoilTest) => void;
+}
+
+const NONE = 'none';
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const SCANNED_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf'];
+
+// Grouped as they appear on the Soil Health Card
+const FIELD_GROUPS: { titleKey: string; fields: { parameter: SoilParameter; unit: string }[] }[] = [
+  {
+    titleKey: 'soilTest.macronutrients',
+    fields: [
+      { parameter: 'nitrogen', unit: 'kg/ha' },
+      { parameter: 'phosphorus', unit: 'kg/ha' },
+      { parameter: 'potassium', unit: 'kg/ha' },
+    ],
+  },
+  {
+    titleKey: 'soilTest.otherParameters',
+    fields: [
+      { parameter: 'ph', unit: '' },
+      { parameter: 'ec', unit: 'dS/m' },
+      { parameter: 'organicCarbon', unit: '%' },
+    ],
+  },
+  {
+    titleKey: 'soilTest.micronutrients',
+    fields: [
+      { parameter: 'sulphur', unit: 'ppm' },
+      { parameter: 'zinc', unit: 'ppm' },
+      { parameter: 'iron', unit: 'ppm' },
+      { parameter: 'copper', unit: 'ppm' },
+      { parameter: 'manganese', unit: 'ppm' },
+      { parameter: 'boron', unit: 'ppm' },
+    ],
+  },
+];
+
+const emptyTest = (plotId?: string | null): SoilTestInput => ({
+  plotId: plotId ?? undefined,
+  sampleDate: format(new Date(), 'yyyy-MM-dd'),
+  source: 'manual',
+  values: {},
+});
+
+// Convert file to base64 without the data URL prefix
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = error => reject(error);
+  });
+};
+
+export const SoilTestDialog: React.FC<SoilTestDialogProps> = ({ language, open, onOpenChange, plots, plotId, onSaved }) => {
+  const { toast } = useToast();
+  const t = useTranslation(language);
+  const [form, setForm] = useState<SoilTestInput>(emptyTest(plotId));
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (open) setForm(emptyTest(plotId));
+  }, [open, plotId]);
+
+  const setValue = (parameter: SoilParameter, raw: string) => {
+    setForm(prev => {
+      const values: SoilTestValues = { ...prev.values };
+      if (raw === '' || Number.isNaN(Number(raw))) delete values[parameter];
+      else values[parameter] = Number(raw);
+      return { ...prev, values };
+    });
+  };
+
+  // Text and CSV exports are parsed here; photos and PDFs are transcribed by the edge function first
+  const handleFile = async (file: File) => {
+    const isText = file.type.startsWith('text/') || /\.(txt|csv)$/i.test(file.name);
+    if (file.size > MAX_FILE_BYTES || (!isText && !SCANNED_TYPES.includes(file.type))) {
+      toast({
+        title: t('common.error'),
+        description: t('soilTest.unsupportedFile'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsReading(true);
+    try {
+      let parsed: { values: SoilTestValues; text: string; labName?: string; cardNumber?: string; sampleDate?: string };
+      if (isText) {
+        const text = await file.text();
+        parsed = { values: parseSoilReport(text).values, text };
+      } else {
+        const { data, error } = await supabase.functions.invoke('soil-report-parse', {
+          body: { file: await fileToBase64(file), mimeType: file.type },
+        });
+        if (error) throw error;
+        parsed = {
+          values: data?.values || {},
+          text: data?.text || '',
+          labName: data?.labName || undefined,
+          cardNumber: data?.cardNumber || undefined,
+          sampleDate: data?.sampleDate || undefined,
+        };
+      }
+
+      if (Object.keys(parsed.values).length === 0) {
+        toast({
+          title: t('common.error'),
+          description: t('soilTest.nothingRead'),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setForm(prev => ({
+        ...prev,
+        source: 'upload',
+        rawText: parsed.text,
+        labName: parsed.labName ?? prev.labName,
+        cardNumber: parsed.cardNumber ?? prev.cardNumber,
+        sampleDate: parsed.sampleDate ?? prev.sampleDate,
+        values: { ...prev.values, ...parsed.values },
+      }));
+      toast({
+        title: t('common.success'),
+        description: t('soilTest.valuesRead'),
+      });
+    } catch (error) {
+      console.error('Soil report read error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('soilTest.nothingRead'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.sampleDate || Object.keys(form.values).length === 0) {
+      toast({
+        title: t('common.error'),
+        description: t('soilTest.needValues'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      const saved = await createSoilTest(user.id, {
+        ...form,
+        labName: form.labName?.trim() || undefined,
+        cardNumber: form.cardNumber?.trim() || undefined,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: t('common.success'),
+        description: t('soilTest.saved'),
+      });
+    } catch (error) {
+      console.error('Soil test save error:', error);
+      toast({
+        title: t('common.error'),
+        description: t('errors.unknownError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('soilTest.addSoilTest')}</DialogTitle>
+          <DialogDescription>{t('soilTest.uploadHelp')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp,application/pdf,.txt,.csv,text/plain,text/csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+              {isReading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileUp className="h-4 w-4 mr-1" />}
+              {isReading ? t('soilTest.readingReport') : t('soilTest.uploadReport')}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {plots.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('plots.selectPlot')}</Label>
+                <Select
+                  value={form.plotId || NONE}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, plotId: value === NONE ? undefined : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>{t('plots.allCrops')}</SelectItem>
+                    {plots.map(plot => (
+                      <SelectItem key={plot.id} value={plot.id}>{plot.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="soil-sample-date">{t('soilTest.sampleDate')}</Label>
+              <Input
+                id="soil-sample-date"
+                type="date"
+                value={form.sampleDate}
+                onChange={(e) => setForm(prev => ({ ...prev, sampleDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="soil-lab-name">{t('soilTest.labName')}</Label>
+              <Input
+                id="soil-lab-name"
+                value={form.labName || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, labName: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="soil-card-number">{t('soilTest.cardNumber')}</Label>
+              <Input
+                id="soil-card-number"
+                value={form.cardNumber || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, cardNumber: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {FIELD_GROUPS.map(group => (
+            <div key={group.titleKey} className="space-y-2">
+              <h4 className="text-sm font-semibold">{t(group.titleKey)}</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {group.fields.map(({ parameter, unit }) => (
+                  <div key={parameter} className="space-y-1">
+                    <Label htmlFor={`soil-${parameter}`} className="text-xs">
+                      {t(`soilTest.${parameter}`)}{unit && ` (${unit})`}
+                    </Label>
+                    <Input
+                      id={`soil-${parameter}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.values[parameter] ?? ''}
+                      onChange={(e) => setValue(parameter, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t('common.cancel')}</Button>
+          <Button onClick={handleSave} disabled={isSaving || isReading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
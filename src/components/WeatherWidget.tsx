@@ -13,8 +13,8 @@ import {
 } from 'chart.js';
 import { Cloud, Droplets, Thermometer, Wind, Loader2 } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { useTranslation } from "@/lib/translations";
+import { coordinateKey, formatCachedAt, invokeWithCache } from "@/lib/offlineCache";
 
 ChartJS.register(
   CategoryScale,
@@ -37,9 +37,17 @@ interface WeatherData {
   };
   forecast: {
     labels: string[];
+    dates?: string[]; // YYYY-MM-DD, one per label
     temperature: number[];
     humidity: number[];
     rainfall: number[];
+    // Daily ranges and rain chance; older deployments and the mock data leave them out
+    tempMin?: number[];
+    tempMax?: number[];
+    humidityMin?: number[];
+    humidityMax?: number[];
+    windSpeedMax?: number[];
+    rainProbability?: number[];
   };
 }
 
@@ -73,6 +81,7 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ latitude, longitud
   const [weatherData, setWeatherData] = useState<WeatherData>(mockWeatherData);
   const [isLoading, setIsLoading] = useState(false);
   const [isUsingMockData, setIsUsingMockData] = useState(true);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
 
   useEffect(() => {
     if (latitude && longitude) {
@@ -85,13 +94,14 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ latitude, longitud
 
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('weather-data', {
-        body: { latitude, longitude },
-      });
-      
-      if (error) throw error;
+      const result = await invokeWithCache<any>(
+        'weather-data',
+        { latitude, longitude },
+        `weather-data:${coordinateKey(latitude, longitude)}`
+      );
 
-      setWeatherData((data as any).weather);
+      setWeatherData(result.data.weather);
+      setCachedAt(result.fromCache ? result.cachedAt : null);
       setIsUsingMockData(false);
     } catch (error) {
       console.error('Weather fetch error:', error);
@@ -175,6 +185,11 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ latitude, longitud
           {t('weather.title')}
           {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
           {isUsingMockData && <span className="text-xs text-muted-foreground">(Offline)</span>}
+          {cachedAt && (
+            <span className="text-xs text-muted-foreground">
+              ({t('common.savedDataFrom')} {formatCachedAt(cachedAt)})
+            </span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -218,6 +233,56 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ latitude, longitud
           <Line data={chartData} options={chartOptions} />
         </div>
 
+        {weatherData.forecast.tempMin && weatherData.forecast.tempMax && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">{t('weather.dailyForecast')}</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-1 pr-2 font-medium">{t('weather.day')}</th>
+                    <th className="py-1 pr-2 font-medium">{t('weather.minMax')}</th>
+                    <th className="py-1 pr-2 font-medium">{t('weather.precipitation')}</th>
+                    <th className="py-1 pr-2 font-medium">{t('weather.rainChance')}</th>
+                    <th className="py-1 pr-2 font-medium">{t('weather.windSpeed')}</th>
+                    <th className="py-1 font-medium">{t('weather.humidity')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weatherData.forecast.labels.map((label, index) => {
+                    const { forecast } = weatherData;
+                    return (
+                      <tr key={forecast.dates?.[index] ?? index} className="border-t border-border">
+                        <td className="py-1 pr-2 font-medium">
+                          {label}
+                          {forecast.dates?.[index] && (
+                            <span className="text-muted-foreground"> {forecast.dates[index].slice(8)}</span>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2">
+                          {Math.round(forecast.tempMin![index])}° / {Math.round(forecast.tempMax![index])}°C
+                        </td>
+                        <td className="py-1 pr-2">{forecast.rainfall[index]} mm</td>
+                        <td className="py-1 pr-2">
+                          {forecast.rainProbability ? `${forecast.rainProbability[index]}%` : '–'}
+                        </td>
+                        <td className="py-1 pr-2">
+                          {forecast.windSpeedMax ? `${Math.round(forecast.windSpeedMax[index])} km/h` : '–'}
+                        </td>
+                        <td className="py-1">
+                          {forecast.humidityMin && forecast.humidityMax
+                            ? `${forecast.humidityMin[index]}–${forecast.humidityMax[index]}%`
+                            : `${forecast.humidity[index]}%`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         <div className="text-center p-2 bg-primary/10 rounded-lg">
           <p className="text-sm text-primary font-medium">
             🌤️ {weatherData.current.condition} - {t('weather.goodConditions')}
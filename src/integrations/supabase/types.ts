@@ -14,10 +14,157 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_cache: {
+        Row: {
+          cache_key: string
+          fetched_at: string
+          fresh_until: string
+          refreshing_since: string | null
+          source: string
+          stale_until: string
+          value: Json
+        }
+        Insert: {
+          cache_key: string
+          fetched_at?: string
+          fresh_until: string
+          refreshing_since?: string | null
+          source: string
+          stale_until: string
+          value: Json
+        }
+        Update: {
+          cache_key?: string
+          fetched_at?: string
+          fresh_until?: string
+          refreshing_since?: string | null
+          source?: string
+          stale_until?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      chat_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          language: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          language?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          language?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          message_type: string
+          position: number
+          role: string
+          user_id: string
+          weather_data: Json | null
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message_type?: string
+          position?: number
+          role: string
+          user_id: string
+          weather_data?: Json | null
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message_type?: string
+          position?: number
+          role?: string
+          user_id?: string
+          weather_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_plots: {
+        Row: {
+          area: number
+          area_unit: string
+          boundary: Json | null
+          created_at: string
+          current_crop: string | null
+          id: string
+          irrigation_source: string | null
+          name: string
+          soil_type: string | null
+          sowing_date: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          area: number
+          area_unit?: string
+          boundary?: Json | null
+          created_at?: string
+          current_crop?: string | null
+          id?: string
+          irrigation_source?: string | null
+          name: string
+          soil_type?: string | null
+          sowing_date?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          area?: number
+          area_unit?: string
+          boundary?: Json | null
+          created_at?: string
+          current_crop?: string | null
+          id?: string
+          irrigation_source?: string | null
+          name?: string
+          soil_type?: string | null
+          sowing_date?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       farmer_profiles: {
         Row: {
           created_at: string
           crops: string[]
+          district: string | null
           id: string
           land_size: number
           land_unit: string
@@ -26,12 +173,14 @@ export type Database = {
           longitude: number | null
           name: string
           phone: string
+          state: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           crops?: string[]
+          district?: string | null
           id?: string
           land_size: number
           land_unit: string
@@ -40,12 +189,14 @@ export type Database = {
           longitude?: number | null
           name: string
           phone: string
+          state?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           crops?: string[]
+          district?: string | null
           id?: string
           land_size?: number
           land_unit?: string
@@ -54,11 +205,542 @@ export type Database = {
           longitude?: number | null
           name?: string
           phone?: string
+          state?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      fertilizer_prices: {
+        Row: {
+          bag_kg: number
+          created_at: string
+          effective_from: string
+          id: string
+          is_subsidised: boolean
+          price_per_bag: number
+          product_id: string
+          source: string | null
+          state: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bag_kg: number
+          created_at?: string
+          effective_from: string
+          id?: string
+          is_subsidised?: boolean
+          price_per_bag: number
+          product_id: string
+          source?: string | null
+          state?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bag_kg?: number
+          created_at?: string
+          effective_from?: string
+          id?: string
+          is_subsidised?: boolean
+          price_per_bag?: number
+          product_id?: string
+          source?: string | null
+          state?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      irrigation_events: {
+        Row: {
+          created_at: string
+          depth_mm: number
+          duration_minutes: number | null
+          event_date: string
+          flow_rate_lpm: number | null
+          id: string
+          method: string | null
+          notes: string | null
+          plot_id: string
+          updated_at: string
+          user_id: string
+          volume_litres: number | null
+        }
+        Insert: {
+          created_at?: string
+          depth_mm: number
+          duration_minutes?: number | null
+          event_date: string
+          flow_rate_lpm?: number | null
+          id?: string
+          method?: string | null
+          notes?: string | null
+          plot_id: string
+          updated_at?: string
+          user_id: string
+          volume_litres?: number | null
+        }
+        Update: {
+          created_at?: string
+          depth_mm?: number
+          duration_minutes?: number | null
+          event_date?: string
+          flow_rate_lpm?: number | null
+          id?: string
+          method?: string | null
+          notes?: string | null
+          plot_id?: string
+          updated_at?: string
+          user_id?: string
+          volume_litres?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "irrigation_events_plot_id_fkey"
+            columns: ["plot_id"]
+            isOneToOne: false
+            referencedRelation: "farm_plots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_price_history: {
+        Row: {
+          commodity: string
+          created_at: string
+          id: string
+          market: string
+          max_price: number | null
+          min_price: number | null
+          modal_price: number
+          price_date: string
+          source: string
+          state: string
+        }
+        Insert: {
+          commodity: string
+          created_at?: string
+          id?: string
+          market: string
+          max_price?: number | null
+          min_price?: number | null
+          modal_price: number
+          price_date: string
+          source: string
+          state: string
+        }
+        Update: {
+          commodity?: string
+          created_at?: string
+          id?: string
+          market?: string
+          max_price?: number | null
+          min_price?: number | null
+          modal_price?: number
+          price_date?: string
+          source?: string
+          state?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          frequency: string
+          id: string
+          language: string
+          push_enabled: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          sms_enabled: boolean
+          sms_opted_in_at: string | null
+          sms_opted_out_at: string | null
+          sound: boolean
+          updated_at: string
+          user_id: string
+          vibration: boolean
+          voice_calls: boolean
+        }
+        Insert: {
+          created_at?: string
+          frequency?: string
+          id?: string
+          language?: string
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          sms_enabled?: boolean
+          sms_opted_in_at?: string | null
+          sms_opted_out_at?: string | null
+          sound?: boolean
+          updated_at?: string
+          user_id: string
+          vibration?: boolean
+          voice_calls?: boolean
+        }
+        Update: {
+          created_at?: string
+          frequency?: string
+          id?: string
+          language?: string
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          sms_enabled?: boolean
+          sms_opted_in_at?: string | null
+          sms_opted_out_at?: string | null
+          sound?: boolean
+          updated_at?: string
+          user_id?: string
+          vibration?: boolean
+          voice_calls?: boolean
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          action_url: string | null
+          created_at: string
+          data: Json
+          dedupe_key: string | null
+          dismissed_at: string | null
+          id: string
+          is_read: boolean
+          message: string
+          priority: string
+          pushed_at: string | null
+          read_at: string | null
+          rule: string | null
+          sms_sent_at: string | null
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_url?: string | null
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          dismissed_at?: string | null
+          id?: string
+          is_read?: boolean
+          message: string
+          priority?: string
+          pushed_at?: string | null
+          read_at?: string | null
+          rule?: string | null
+          sms_sent_at?: string | null
+          title: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          dismissed_at?: string | null
+          id?: string
+          is_read?: boolean
+          message?: string
+          priority?: string
+          pushed_at?: string | null
+          read_at?: string | null
+          rule?: string | null
+          sms_sent_at?: string | null
+          title?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      outbound_messages: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string
+          error: string | null
+          id: string
+          notification_id: string | null
+          phone: string
+          provider: string
+          provider_message_id: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          channel: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          notification_id?: string | null
+          phone: string
+          provider: string
+          provider_message_id?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          notification_id?: string | null
+          phone?: string
+          provider?: string
+          provider_message_id?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_messages_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_verification_sends: {
+        Row: {
+          id: string
+          phone: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          phone: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          phone?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_expires_at: string | null
+          code_hash: string | null
+          code_sent_at: string | null
+          created_at: string
+          phone: string
+          updated_at: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_expires_at?: string | null
+          code_hash?: string | null
+          code_sent_at?: string | null
+          created_at?: string
+          phone: string
+          updated_at?: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_expires_at?: string | null
+          code_hash?: string | null
+          code_sent_at?: string | null
+          created_at?: string
+          phone?: string
           updated_at?: string
           user_id?: string
+          verified_at?: string | null
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      soil_tests: {
+        Row: {
+          boron: number | null
+          card_number: string | null
+          copper: number | null
+          created_at: string
+          ec: number | null
+          id: string
+          iron: number | null
+          lab_name: string | null
+          manganese: number | null
+          nitrogen: number | null
+          organic_carbon: number | null
+          ph: number | null
+          phosphorus: number | null
+          plot_id: string | null
+          potassium: number | null
+          raw_text: string | null
+          sample_date: string
+          source: string
+          sulphur: number | null
+          updated_at: string
+          user_id: string
+          zinc: number | null
+        }
+        Insert: {
+          boron?: number | null
+          card_number?: string | null
+          copper?: number | null
+          created_at?: string
+          ec?: number | null
+          id?: string
+          iron?: number | null
+          lab_name?: string | null
+          manganese?: number | null
+          nitrogen?: number | null
+          organic_carbon?: number | null
+          ph?: number | null
+          phosphorus?: number | null
+          plot_id?: string | null
+          potassium?: number | null
+          raw_text?: string | null
+          sample_date: string
+          source?: string
+          sulphur?: number | null
+          updated_at?: string
+          user_id: string
+          zinc?: number | null
+        }
+        Update: {
+          boron?: number | null
+          card_number?: string | null
+          copper?: number | null
+          created_at?: string
+          ec?: number | null
+          id?: string
+          iron?: number | null
+          lab_name?: string | null
+          manganese?: number | null
+          nitrogen?: number | null
+          organic_carbon?: number | null
+          ph?: number | null
+          phosphorus?: number | null
+          plot_id?: string | null
+          potassium?: number | null
+          raw_text?: string | null
+          sample_date?: string
+          source?: string
+          sulphur?: number | null
+          updated_at?: string
+          user_id?: string
+          zinc?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "soil_tests_plot_id_fkey"
+            columns: ["plot_id"]
+            isOneToOne: false
+            referencedRelation: "farm_plots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_calendar_entries: {
+        Row: {
+          activity_id: string
+          completed_date: string | null
+          created_at: string | null
+          crop_name: string
+          id: string
+          notes: string | null
+          original_scheduled_date: string | null
+          plot_id: string | null
+          scheduled_date: string
+          status: string
+          updated_at: string | null
+          user_id: string | null
+          weather_adjusted: boolean | null
+          weather_adjustment_reason: string | null
+        }
+        Insert: {
+          activity_id: string
+          completed_date?: string | null
+          created_at?: string | null
+          crop_name: string
+          id?: string
+          notes?: string | null
+          original_scheduled_date?: string | null
+          plot_id?: string | null
+          scheduled_date: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+          weather_adjusted?: boolean | null
+          weather_adjustment_reason?: string | null
+        }
+        Update: {
+          activity_id?: string
+          completed_date?: string | null
+          created_at?: string | null
+          crop_name?: string
+          id?: string
+          notes?: string | null
+          original_scheduled_date?: string | null
+          plot_id?: string | null
+          scheduled_date?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+          weather_adjusted?: boolean | null
+          weather_adjustment_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_calendar_entries_plot_id_fkey"
+            columns: ["plot_id"]
+            isOneToOne: false
+            referencedRelation: "farm_plots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,136 @@
+// Persistence helpers for the farmer's personal calendar (user_calendar_entries)
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { UserCalendarEntry } from '@/lib/farmingCalendarData';
+import { RescheduledEntry, ScheduledActivity } from '@/lib/cropScheduler';
+import { readCache, writeCache } from '@/lib/offlineCache';
+
+type CalendarEntryRow = Tables<'user_calendar_entries'>;
+
+export const mapCalendarEntryRow = (row: CalendarEntryRow): UserCalendarEntry => ({
+  id: row.id,
+  userId: row.user_id ?? '',
+  plotId: row.plot_id ?? undefined,
+  cropName: row.crop_name,
+  activityId: row.activity_id,
+  scheduledDate: row.scheduled_date,
+  completedDate: row.completed_date ?? undefined,
+  status: row.status as UserCalendarEntry['status'],
+  notes: row.notes ?? undefined,
+  weatherAdjusted: row.weather_adjusted ?? false,
+  weatherAdjustmentReason: row.weather_adjustment_reason ?? undefined,
+  originalScheduledDate: row.original_scheduled_date ?? undefined,
+  createdAt: row.created_at ?? '',
+  updatedAt: row.updated_at ?? '',
+});
+
+const entriesCacheKey = (userId: string) => `calendar-entries:${userId}`;
+
+// The calendar as last seen on this device, so it can be opened and updated offline
+export const readCachedCalendarEntries = (userId: string): UserCalendarEntry[] | null =>
+  readCache<UserCalendarEntry[]>(entriesCacheKey(userId))?.data ?? null;
+
+export const cacheCalendarEntries = (userId: string, entries: UserCalendarEntry[]) => {
+  writeCache(entriesCacheKey(userId), entries);
+};
+
+// Fetch all calendar entries for a user, ordered by scheduled date
+export const fetchCalendarEntries = async (userId: string): Promise<UserCalendarEntry[]> => {
+  const { data, error } = await supabase
+    .from('user_calendar_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('scheduled_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapCalendarEntryRow);
+};
+
+// Replace a crop's pending entries on a plot (or, without a plot, the farm-wide ones) with a freshly
+// generated schedule. Completed and cancelled entries are kept so the farmer's history is not lost.
+export const saveCropSchedule = async (
+  userId: string,
+  cropName: string,
+  schedule: ScheduledActivity[],
+  plotId: string | null = null
+): Promise<UserCalendarEntry[]> => {
+  const pending = supabase
+    .from('user_calendar_entries')
+    .delete()
+    .eq('user_id', userId)
+    .eq('crop_name', cropName)
+    .eq('status', 'pending');
+  const { error: deleteError } = await (plotId ? pending.eq('plot_id', plotId) : pending.is('plot_id', null));
+
+  if (deleteError) throw deleteError;
+
+  const { data, error } = await supabase
+    .from('user_calendar_entries')
+    .insert(schedule.map(({ activity, scheduledDate }) => ({
+      user_id: userId,
+      plot_id: plotId,
+      crop_name: cropName,
+      activity_id: activity.id,
+      scheduled_date: scheduledDate.toISOString(),
+      status: 'pending',
+    })))
+    .select('*');
+
+  if (error) throw error;
+  return (data || []).map(mapCalendarEntryRow);
+};
+
+// Mark an entry completed, cancelled or back to pending, optionally with notes
+export const updateCalendarEntryStatus = async (
+  entryId: string,
+  status: UserCalendarEntry['status'],
+  notes?: string,
+  completedDate: Date = new Date()
+): Promise<UserCalendarEntry> => {
+  const { data, error } = await supabase
+    .from('user_calendar_entries')
+    .update({
+      status,
+      notes: notes ?? null,
+      completed_date: status === 'completed' ? completedDate.toISOString() : null,
+    })
+    .eq('id', entryId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapCalendarEntryRow(data);
+};
+
+// Persist new dates for entries moved by the scheduler
+export const rescheduleCalendarEntries = async (updates: RescheduledEntry[]): Promise<void> => {
+  const results = await Promise.all(updates.map(({ id, scheduledDate }) =>
+    supabase
+      .from('user_calendar_entries')
+      .update({ scheduled_date: scheduledDate })
+      .eq('id', id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed) throw failed.error;
+};
+
+// Persist dates moved away from bad weather, keeping the first planned date and the reason
+export const saveWeatherAdjustments = async (
+  adjustments: Array<RescheduledEntry & { originalScheduledDate: string; reason: string }>
+): Promise<void> => {
+  const results = await Promise.all(adjustments.map(({ id, scheduledDate, originalScheduledDate, reason }) =>
+    supabase
+      .from('user_calendar_entries')
+      .update({
+        scheduled_date: scheduledDate,
+        original_scheduled_date: originalScheduledDate,
+        weather_adjusted: true,
+        weather_adjustment_reason: reason,
+      })
+      .eq('id', id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed) throw failed.error;
+};
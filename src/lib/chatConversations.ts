@@ -0,0 +1,153 @@
+// Persistence helpers for chat threads (chat_conversations / chat_messages)
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  language: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  messageType: 'text' | 'image' | 'weather';
+  weatherData?: Json;
+  createdAt: string;
+}
+
+export interface NewChatMessage {
+  role: StoredChatMessage['role'];
+  content: string;
+  messageType?: StoredChatMessage['messageType'];
+  weatherData?: Json;
+}
+
+// Number of past messages sent to chat-assistant as context
+export const CHAT_HISTORY_LIMIT = 10;
+
+const CONVERSATION_TITLE_LENGTH = 40;
+
+const mapConversationRow = (row: Tables<'chat_conversations'>): ChatConversation => ({
+  id: row.id,
+  title: row.title,
+  language: row.language,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const mapMessageRow = (row: Tables<'chat_messages'>): StoredChatMessage => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  role: row.role as StoredChatMessage['role'],
+  content: row.content,
+  messageType: row.message_type as StoredChatMessage['messageType'],
+  weatherData: row.weather_data ?? undefined,
+  createdAt: row.created_at,
+});
+
+// Build a short sidebar title from the first question in a thread
+export const buildConversationTitle = (firstMessage: string): string => {
+  const singleLine = firstMessage.replace(/\s+/g, ' ').trim();
+  return singleLine.length > CONVERSATION_TITLE_LENGTH
+    ? `${singleLine.slice(0, CONVERSATION_TITLE_LENGTH - 1)}…`
+    : singleLine;
+};
+
+// Convert stored messages to the { role, content } history format chat-assistant expects
+export const toAssistantHistory = (messages: StoredChatMessage[]): Array<{ role: string; content: string }> =>
+  messages
+    .slice(-CHAT_HISTORY_LIMIT)
+    .map(({ role, content }) => ({ role, content }));
+
+export const fetchConversations = async (userId: string): Promise<ChatConversation[]> => {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapConversationRow);
+};
+
+export const createConversation = async (
+  userId: string,
+  title: string,
+  language: string
+): Promise<ChatConversation> => {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({ user_id: userId, title, language })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapConversationRow(data);
+};
+
+export const renameConversation = async (conversationId: string, title: string): Promise<ChatConversation> => {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .update({ title })
+    .eq('id', conversationId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapConversationRow(data);
+};
+
+// Messages are removed by the ON DELETE CASCADE on chat_messages
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_conversations')
+    .delete()
+    .eq('id', conversationId);
+
+  if (error) throw error;
+};
+
+export const fetchConversationMessages = async (conversationId: string): Promise<StoredChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapMessageRow);
+};
+
+// Append messages to a thread and bump the thread's updated_at so it sorts first
+export const appendConversationMessages = async (
+  userId: string,
+  conversationId: string,
+  messages: NewChatMessage[]
+): Promise<StoredChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert(messages.map(message => ({
+      user_id: userId,
+      conversation_id: conversationId,
+      role: message.role,
+      content: message.content,
+      message_type: message.messageType || 'text',
+      weather_data: message.weatherData ?? null,
+    })))
+    .select('*');
+
+  if (error) throw error;
+
+  const { error: touchError } = await supabase
+    .from('chat_conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', conversationId);
+
+  if (touchError) throw touchError;
+  return (data || []).map(mapMessageRow).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,91 @@
+// Client for the streaming (server-sent events) mode of the chat-assistant edge function
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ChatStreamRequest {
+  message: string;
+  language: string;
+  farmerData?: unknown;
+  history?: Array<{ role: string; content: string }>;
+}
+
+export interface ChatStreamHandlers {
+  // Called with the full text received so far whenever it changes
+  onText: (text: string) => void;
+}
+
+export interface ChatStreamResult {
+  content: string;
+  provider?: string;
+  fallback?: boolean;
+}
+
+type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'reset'; provider?: string }
+  | { type: 'done'; provider?: string; fallback?: boolean }
+  | { type: 'error'; error: string };
+
+const getFunctionUrl = (name: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+
+// Stream a chat-assistant reply. A `reset` event means the first provider failed mid-stream and
+// the fallback provider is starting over, so the partial text is discarded.
+export const streamChatAssistant = async (
+  request: ChatStreamRequest,
+  { onText }: ChatStreamHandlers
+): Promise<ChatStreamResult> => {
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(getFunctionUrl('chat-assistant'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: anonKey,
+      Authorization: `Bearer ${session?.access_token || anonKey}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`chat-assistant stream failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let result: ChatStreamResult | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const raw of events) {
+      const data = raw.trim();
+      if (!data.startsWith('data:')) continue;
+
+      const event: ChatStreamEvent = JSON.parse(data.slice(5).trim());
+      if (event.type === 'delta') {
+        content += event.content;
+        onText(content);
+      } else if (event.type === 'reset') {
+        content = '';
+        onText(content);
+      } else if (event.type === 'done') {
+        result = { content, provider: event.provider, fallback: event.fallback };
+      } else {
+        throw new Error(event.error);
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error('chat-assistant stream ended unexpectedly');
+  }
+  return result;
+};
@@ -28,7 +28,7 @@ export interface CropData {
     sprinkler: { efficiency: number; suitability: string; pros: string[]; cons: string[] };
     flood: { efficiency: number; suitability: string; pros: string[]; cons: string[] };
   };
-  totalWaterRequirement: number;
+  totalWaterRequirement: number; // mm of water over the season
 }
 
 // Common fertilizer and irrigation data
@@ -0,0 +1,96 @@
+// Sowing-date-anchored schedule generation for crop calendars
+import { CropActivity, CropCalendar, UserCalendarEntry, getActivityById } from '@/lib/farmingCalendarData';
+
+export type ScheduleAnchor = 'sowing' | 'transplanting';
+
+export interface ScheduledActivity {
+  activity: CropActivity;
+  scheduledDate: Date;
+  endDate: Date;
+}
+
+export interface RescheduledEntry {
+  id: string;
+  scheduledDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const diffInDays = (later: Date, earlier: Date): number => {
+  const start = new Date(earlier.getFullYear(), earlier.getMonth(), earlier.getDate());
+  const end = new Date(later.getFullYear(), later.getMonth(), later.getDate());
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+};
+
+// Find the activity whose actual date the farmer supplies to anchor the schedule
+export const getAnchorActivity = (calendar: CropCalendar, anchor: ScheduleAnchor): CropActivity | null => {
+  if (anchor === 'transplanting') {
+    return calendar.activities.find(activity => activity.id.endsWith('_transplanting')) || null;
+  }
+  return calendar.activities.find(activity => /_(sowing|planting)$/.test(activity.id))
+    || calendar.activities.find(activity => activity.type === 'sowing')
+    || null;
+};
+
+// Crops raised in a nursery can be anchored on either the sowing or the transplanting date
+export const getAvailableAnchors = (calendar: CropCalendar): ScheduleAnchor[] => {
+  return getAnchorActivity(calendar, 'transplanting') ? ['sowing', 'transplanting'] : ['sowing'];
+};
+
+// Generate concrete dates for every activity from the anchor's actual date and each activity's day offset
+export const generateCropSchedule = (
+  calendar: CropCalendar,
+  anchorDate: Date,
+  anchor: ScheduleAnchor = 'sowing'
+): ScheduledActivity[] => {
+  const anchorActivity = getAnchorActivity(calendar, anchor);
+  if (!anchorActivity) return [];
+
+  return calendar.activities
+    .map(activity => {
+      const scheduledDate = addDays(anchorDate, activity.dayOffset - anchorActivity.dayOffset);
+      return {
+        activity,
+        scheduledDate,
+        endDate: addDays(scheduledDate, Math.max(activity.duration, 1) - 1),
+      };
+    })
+    .sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+};
+
+// When an activity is finished after its planned window, push the crop's later pending activities
+// back by the same delay. Finishing early never pulls activities forward, since most of them
+// depend on the age of the crop rather than on the previous task.
+export const recomputeScheduleAfterCompletion = (
+  entries: UserCalendarEntry[],
+  completedEntry: UserCalendarEntry
+): RescheduledEntry[] => {
+  const completedActivity = getActivityById(completedEntry.cropName, completedEntry.activityId);
+  if (!completedActivity || !completedEntry.completedDate) return [];
+
+  const plannedEnd = addDays(new Date(completedEntry.scheduledDate), Math.max(completedActivity.duration, 1) - 1);
+  const delay = diffInDays(new Date(completedEntry.completedDate), plannedEnd);
+  if (delay <= 0) return [];
+
+  return entries
+    .filter(entry =>
+      entry.id !== completedEntry.id &&
+      entry.cropName === completedEntry.cropName &&
+      entry.plotId === completedEntry.plotId &&
+      entry.status === 'pending'
+    )
+    .filter(entry => {
+      const activity = getActivityById(entry.cropName, entry.activityId);
+      return activity !== null && activity.dayOffset > completedActivity.dayOffset;
+    })
+    .map(entry => ({
+      id: entry.id,
+      scheduledDate: addDays(new Date(entry.scheduledDate), delay).toISOString(),
+    }));
+};
@@ -0,0 +1,104 @@
+// Reference evapotranspiration (ET0) by the FAO-56 Penman-Monteith equation from daily weather.
+// Solar radiation is used when the provider gives it; otherwise it is estimated from sunshine
+// hours (taken from cloud cover) with the Angstrom formula, or from the temperature range
+// (Hargreaves) when there is no cloud data either.
+
+export interface WeatherDay {
+  date: string; // YYYY-MM-DD
+  tempMin: number; // °C
+  tempMax: number; // °C
+  humidity: number; // mean relative humidity, %
+  windSpeed: number; // km/h, measured at 10 m
+  rainfall: number; // mm
+  cloudCover?: number; // %
+  sunshineHours?: number;
+  solarRadiation?: number; // MJ/m²/day
+}
+
+const SOLAR_CONSTANT = 0.082; // MJ/m²/min
+const STEFAN_BOLTZMANN = 4.903e-9; // MJ/K⁴/m²/day
+const ALBEDO = 0.23; // grass reference crop
+const WIND_HEIGHT_M = 10;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const dayOfYear = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / 86400000);
+};
+
+// Saturation vapour pressure, kPa
+const saturationVapourPressure = (temp: number) => 0.6108 * Math.exp((17.27 * temp) / (temp + 237.3));
+
+// Extraterrestrial radiation (MJ/m²/day) and daylight hours for a latitude and day of the year
+const getDaylight = (latitude: number, day: number): { ra: number; daylightHours: number } => {
+  const phi = toRadians(latitude);
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * day) / 365);
+  const declination = 0.409 * Math.sin((2 * Math.PI * day) / 365 - 1.39);
+  const sunsetAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))));
+  const ra = ((24 * 60) / Math.PI) * SOLAR_CONSTANT * inverseDistance
+    * (sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle));
+  return { ra, daylightHours: (24 / Math.PI) * sunsetAngle };
+};
+
+const getSolarRadiation = (day: WeatherDay, ra: number, daylightHours: number): number => {
+  if (day.solarRadiation !== undefined) return day.solarRadiation;
+  const sunshine = day.sunshineHours
+    ?? (day.cloudCover !== undefined ? daylightHours * (1 - day.cloudCover / 100) : undefined);
+  if (sunshine !== undefined) return (0.25 + 0.5 * (sunshine / daylightHours)) * ra;
+  // Hargreaves coefficient for interior locations
+  return 0.16 * Math.sqrt(Math.max(0, day.tempMax - day.tempMin)) * ra;
+};
+
+// ET0 in mm/day; elevation in metres above sea level (sets the psychrometric constant)
+export const referenceEt0 = (day: WeatherDay, latitude: number, elevation = 0): number => {
+  const tMean = (day.tempMax + day.tempMin) / 2;
+  const pressure = 101.3 * ((293 - 0.0065 * elevation) / 293) ** 5.26;
+  const gamma = 0.000665 * pressure;
+  const delta = (4098 * saturationVapourPressure(tMean)) / (tMean + 237.3) ** 2;
+
+  const es = (saturationVapourPressure(day.tempMax) + saturationVapourPressure(day.tempMin)) / 2;
+  const ea = (Math.max(0, Math.min(100, day.humidity)) / 100) * es;
+
+  // Forecast wind is at 10 m; the equation needs it at 2 m, in m/s
+  const u2 = (day.windSpeed / 3.6) * (4.87 / Math.log(67.8 * WIND_HEIGHT_M - 5.42));
+
+  const { ra, daylightHours } = getDaylight(latitude, dayOfYear(day.date));
+  const rs = getSolarRadiation(day, ra, daylightHours);
+  const rso = (0.75 + 2e-5 * elevation) * ra;
+  const rns = (1 - ALBEDO) * rs;
+  const rnl = STEFAN_BOLTZMANN
+    * (((day.tempMax + 273.16) ** 4 + (day.tempMin + 273.16) ** 4) / 2)
+    * (0.34 - 0.14 * Math.sqrt(ea))
+    * (1.35 * Math.min(1, rso > 0 ? rs / rso : 1) - 0.35);
+  const rn = rns - rnl;
+
+  // Soil heat flux is negligible over a day
+  const et0 = (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * u2 * (es - ea))
+    / (delta + gamma * (1 + 0.34 * u2));
+  return Math.max(0, Math.round(et0 * 100) / 100);
+};
+
+// Convert the weather-data forecast arrays into per-day records; responses without the daily
+// min/max temperatures (older deployments) give no days
+export const getWeatherDays = (forecast?: {
+  dates?: string[];
+  tempMin?: number[];
+  tempMax?: number[];
+  humidity: number[];
+  windSpeed?: number[];
+  cloudCover?: number[];
+  rainfall: number[];
+}): WeatherDay[] => {
+  if (!forecast?.dates || !forecast.tempMin || !forecast.tempMax) return [];
+  return forecast.dates.map((date, index) => ({
+    date,
+    tempMin: forecast.tempMin![index],
+    tempMax: forecast.tempMax![index],
+    humidity: forecast.humidity[index] ?? 60,
+    // FAO-56 suggests 2 m/s at 2 m when wind is unknown, which is about 9.6 km/h at 10 m
+    windSpeed: forecast.windSpeed?.[index] ?? 9.6,
+    cloudCover: forecast.cloudCover?.[index],
+    rainfall: forecast.rainfall[index] ?? 0,
+  }));
+};
@@ -0,0 +1,54 @@
+// Persistence helpers for the farmer's own profile (farmer_profiles)
+import { supabase } from '@/integrations/supabase/client';
+import { resolveLocation } from '@/lib/location';
+import { readCache, writeCache } from '@/lib/offlineCache';
+
+export interface FarmerProfile {
+  name: string;
+  location: string;
+  crops: string[];
+  landSize: number;
+  landUnit: 'acres' | 'hectares';
+  phone: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const profileCacheKey = (userId: string) => `farmer-profile:${userId}`;
+
+// The last profile seen on this device, so the dashboard can open offline
+export const readCachedFarmerProfile = (userId: string): FarmerProfile | null =>
+  readCache<FarmerProfile>(profileCacheKey(userId))?.data ?? null;
+
+export const cacheFarmerProfile = (userId: string, profile: FarmerProfile) => {
+  writeCache(profileCacheKey(userId), profile);
+};
+
+// State and district are derived from the location so district-level features keep working
+export const updateFarmerProfile = async (userId: string, profile: FarmerProfile): Promise<void> => {
+  const resolution = resolveLocation({
+    text: profile.location,
+    latitude: profile.latitude,
+    longitude: profile.longitude,
+  });
+
+  const { error } = await supabase
+    .from('farmer_profiles')
+    .update({
+      name: profile.name,
+      location: profile.location,
+      phone: profile.phone,
+      land_size: profile.landSize,
+      land_unit: profile.landUnit,
+      crops: profile.crops,
+      latitude: profile.latitude,
+      longitude: profile.longitude,
+      state: resolution.status === 'resolved' ? resolution.state : null,
+      district: resolution.status === 'resolved' ? resolution.district : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  cacheFarmerProfile(userId, profile);
+};
@@ -9,6 +9,7 @@ export interface CropActivity {
   weatherDependent: boolean;
   month: number; // 1-12
   week: number; // 1-4
+  dayOffset: number; // days relative to sowing/planting (negative = before)
   inputs?: string[];
   notes?: string;
 }
@@ -23,6 +24,7 @@ export interface CropCalendar {
 export interface UserCalendarEntry {
   id: string;
   userId: string;
+  plotId?: string; // unset for entries made before plots existed
   cropName: string;
   activityId: string;
   scheduledDate: string;
@@ -30,6 +32,8 @@ export interface UserCalendarEntry {
   status: 'pending' | 'completed' | 'cancelled';
   notes?: string;
   weatherAdjusted?: boolean;
+  weatherAdjustmentReason?: string;
+  originalScheduledDate?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -51,6 +55,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 5,
         week: 3,
+        dayOffset: -24,
         inputs: ['Certified seeds (25-30 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose varieties based on your region and soil type'
       },
@@ -64,6 +69,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 1,
+        dayOffset: -7,
         inputs: ['Organic manure', 'Fertilizers', 'Pesticides'],
         notes: 'Ensure proper drainage and water management'
       },
@@ -77,6 +83,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 2,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 25-30°C'
       },
@@ -90,6 +97,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 4,
+        dayOffset: 14,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper leveling and water management'
       },
@@ -103,6 +111,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 7,
         week: 1,
+        dayOffset: 23,
         inputs: ['Seedlings (25-30 days old)'],
         notes: 'Transplant when seedlings are 4-5 inches tall'
       },
@@ -116,6 +125,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 2,
+        dayOffset: 30,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply before transplanting or immediately after'
       },
@@ -129,6 +139,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 4,
+        dayOffset: 44,
         inputs: ['Urea'],
         notes: 'Apply 20-25 days after transplanting'
       },
@@ -142,6 +153,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 8,
         week: 1,
+        dayOffset: 54,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for stem borer, leaf folder, and brown planthopper'
       },
@@ -155,6 +167,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 8,
         week: 2,
+        dayOffset: 65,
         inputs: ['Urea'],
         notes: 'Apply 40-45 days after transplanting'
       },
@@ -168,6 +181,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 8,
         week: 4,
+        dayOffset: 75,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for grain formation'
       },
@@ -181,6 +195,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 1,
+        dayOffset: 85,
         inputs: ['Insecticides', 'Fungicides'],
         notes: 'Critical for grain development'
       },
@@ -194,6 +209,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 2,
+        dayOffset: 122,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor grain moisture content (18-20%)'
       },
@@ -207,6 +223,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 3,
+        dayOffset: 129,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when 80% of grains are mature'
       }
@@ -227,6 +244,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 9,
         week: 3,
+        dayOffset: -30,
         inputs: ['Certified seeds (40-50 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose varieties based on your region and soil type'
       },
@@ -240,6 +258,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 1,
+        dayOffset: -14,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -253,6 +272,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 3,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 15-20°C'
       },
@@ -266,6 +286,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 10,
         week: 4,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at sowing or immediately after'
       },
@@ -279,6 +300,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 11,
         week: 1,
+        dayOffset: 21,
         inputs: ['Water', 'Irrigation equipment'],
         notes: 'Apply 20-25 days after sowing'
       },
@@ -292,6 +314,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 11,
         week: 4,
+        dayOffset: 28,
         inputs: ['Urea'],
         notes: 'Apply 25-30 days after sowing'
       },
@@ -305,6 +328,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 12,
         week: 1,
+        dayOffset: 47,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for aphids, termites, and armyworm'
       },
@@ -318,6 +342,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 1,
         week: 2,
+        dayOffset: 85,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for grain formation'
       },
@@ -331,6 +356,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 1,
         week: 3,
+        dayOffset: 92,
         inputs: ['Insecticides', 'Fungicides'],
         notes: 'Critical for grain development'
       },
@@ -344,6 +370,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 3,
         week: 2,
+        dayOffset: 144,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor grain moisture content (12-14%)'
       },
@@ -357,6 +384,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 3,
         week: 4,
+        dayOffset: 158,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when grains are hard and dry'
       }
@@ -377,6 +405,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 3,
         week: 3,
+        dayOffset: -38,
         inputs: ['Certified seeds (2-3 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose Bt cotton varieties for better pest resistance'
       },
@@ -390,6 +419,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 4,
         week: 2,
+        dayOffset: -14,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -403,6 +433,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 4,
         week: 4,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 25-30°C'
       },
@@ -416,6 +447,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 5,
         week: 1,
+        dayOffset: 9,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at sowing or immediately after'
       },
@@ -429,6 +461,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 6,
         week: 2,
+        dayOffset: 35,
         inputs: ['Urea'],
         notes: 'Apply 30-40 days after sowing'
       },
@@ -442,6 +475,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 2,
+        dayOffset: 77,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for boll development'
       },
@@ -455,6 +489,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 1,
+        dayOffset: 40,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for aphids, whitefly, and jassids'
       },
@@ -468,6 +503,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 8,
         week: 1,
+        dayOffset: 101,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical for boll size and quality'
       },
@@ -481,6 +517,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 3,
+        dayOffset: 146,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor boll maturity and weather conditions'
       },
@@ -494,6 +531,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 1,
+        dayOffset: 162,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when bolls are fully mature and open'
       }
@@ -514,6 +552,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 1,
         week: 3,
+        dayOffset: -38,
         inputs: ['Certified setts (25,000-30,000/acre)', 'Seed treatment chemicals'],
         notes: 'Choose varieties based on your region and soil type'
       },
@@ -527,6 +566,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 2,
         week: 1,
+        dayOffset: -21,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -540,6 +580,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 2,
         week: 4,
+        dayOffset: 0,
         inputs: ['Pre-treated setts'],
         notes: 'Optimal temperature: 25-30°C'
       },
@@ -553,6 +594,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 3,
         week: 1,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at planting or immediately after'
       },
@@ -566,6 +608,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 4,
         week: 2,
+        dayOffset: 67,
         inputs: ['Urea'],
         notes: 'Apply 60-75 days after planting'
       },
@@ -579,6 +622,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 6,
         week: 1,
+        dayOffset: 99,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for cane development'
       },
@@ -592,6 +636,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 11,
         week: 2,
+        dayOffset: 259,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Monitor cane maturity and sugar content'
       },
@@ -605,6 +650,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 12,
         week: 1,
+        dayOffset: 282,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when sugar content is optimal'
       }
@@ -625,6 +671,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 5,
         week: 3,
+        dayOffset: -24,
         inputs: ['Certified seeds (15-20 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose hybrid varieties for better yield'
       },
@@ -638,6 +685,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 1,
+        dayOffset: -7,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -651,6 +699,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 2,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 25-30°C'
       },
@@ -664,6 +713,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 6,
         week: 3,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at sowing or immediately after'
       },
@@ -677,6 +727,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 1,
+        dayOffset: 27,
         inputs: ['Urea'],
         notes: 'Apply 25-30 days after sowing'
       },
@@ -690,6 +741,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 4,
+        dayOffset: 44,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for grain formation'
       },
@@ -703,6 +755,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 1,
+        dayOffset: 85,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor grain moisture content (20-25%)'
       },
@@ -716,6 +769,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 2,
+        dayOffset: 92,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when grains are hard and dry'
       }
@@ -736,6 +790,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 10,
         week: 2,
+        dayOffset: -24,
         inputs: ['Certified seed tubers (15-20 quintals/acre)', 'Seed treatment chemicals'],
         notes: 'Choose disease-free tubers with good sprouting capacity'
       },
@@ -749,6 +804,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 4,
+        dayOffset: -10,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and good drainage'
       },
@@ -762,6 +818,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 11,
         week: 1,
+        dayOffset: 0,
         inputs: ['Pre-treated seed tubers'],
         notes: 'Optimal temperature: 15-20°C'
       },
@@ -775,6 +832,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 11,
         week: 2,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at planting or immediately after'
       },
@@ -788,6 +846,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 12,
         week: 1,
+        dayOffset: 30,
         inputs: ['Hoe', 'Spade'],
         notes: 'Apply 25-30 days after planting'
       },
@@ -801,6 +860,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 12,
         week: 4,
+        dayOffset: 48,
         inputs: ['Hoe', 'Spade'],
         notes: 'Apply 45-50 days after planting'
       },
@@ -814,6 +874,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 1,
         week: 2,
+        dayOffset: 68,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for Colorado beetle, aphids, and cutworms'
       },
@@ -827,6 +888,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 2,
         week: 3,
+        dayOffset: 106,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor tuber maturity and skin set'
       },
@@ -840,6 +902,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 3,
         week: 1,
+        dayOffset: 120,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when vines start drying and tubers are mature'
       }
@@ -860,6 +923,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 5,
         week: 4,
+        dayOffset: -17,
         inputs: ['Certified seeds (2-3 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose hybrid varieties for better yield'
       },
@@ -873,6 +937,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 1,
+        dayOffset: -7,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -886,6 +951,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 2,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 20-25°C'
       },
@@ -899,6 +965,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 6,
         week: 3,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at sowing or immediately after'
       },
@@ -912,6 +979,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 1,
+        dayOffset: 23,
         inputs: ['Hand tools'],
         notes: 'Maintain 45-60 cm spacing between plants'
       },
@@ -925,6 +993,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 8,
         week: 1,
+        dayOffset: 54,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for seed development'
       },
@@ -938,6 +1007,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 8,
         week: 2,
+        dayOffset: 61,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for head borer, aphids, and thrips'
       },
@@ -951,6 +1021,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 3,
+        dayOffset: 99,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor head maturity and seed moisture'
       },
@@ -964,6 +1035,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 10,
         week: 1,
+        dayOffset: 115,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when back of head turns yellow and seeds are hard'
       }
@@ -984,6 +1056,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 4,
         week: 3,
+        dayOffset: -23,
         inputs: ['Certified seeds (200-300 g/acre)', 'Seed treatment chemicals'],
         notes: 'Choose varieties based on market demand and disease resistance'
       },
@@ -997,6 +1070,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 5,
         week: 1,
+        dayOffset: -7,
         inputs: ['Organic manure', 'Fertilizers', 'Pesticides'],
         notes: 'Ensure proper drainage and water management'
       },
@@ -1010,6 +1084,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 5,
         week: 2,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 25-30°C'
       },
@@ -1023,6 +1098,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 1,
+        dayOffset: 24,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper leveling and water management'
       },
@@ -1036,6 +1112,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 6,
         week: 3,
+        dayOffset: 38,
         inputs: ['Seedlings (30-35 days old)'],
         notes: 'Transplant when seedlings are 4-5 inches tall'
       },
@@ -1049,6 +1126,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 6,
         week: 4,
+        dayOffset: 45,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply before transplanting or immediately after'
       },
@@ -1062,6 +1140,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 7,
         week: 2,
+        dayOffset: 61,
         inputs: ['Urea'],
         notes: 'Apply 20-25 days after transplanting'
       },
@@ -1075,6 +1154,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 8,
         week: 1,
+        dayOffset: 85,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for fruit development'
       },
@@ -1088,6 +1168,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 8,
         week: 2,
+        dayOffset: 92,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for fruit borer, thrips, and mites'
       },
@@ -1101,6 +1182,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 2,
+        dayOffset: 123,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor fruit maturity and color development'
       },
@@ -1114,6 +1196,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 9,
         week: 3,
+        dayOffset: 130,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when fruits are fully mature and red'
       }
@@ -1134,6 +1217,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 10,
         week: 3,
+        dayOffset: -24,
         inputs: ['Certified seeds (8-10 kg/acre)', 'Seed treatment chemicals'],
         notes: 'Choose varieties based on your region and soil type'
       },
@@ -1147,6 +1231,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 11,
         week: 1,
+        dayOffset: -7,
         inputs: ['Tractor/plow', 'Organic manure', 'Fertilizers'],
         notes: 'Ensure proper soil moisture and leveling'
       },
@@ -1160,6 +1245,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 11,
         week: 2,
+        dayOffset: 0,
         inputs: ['Pre-treated seeds'],
         notes: 'Optimal temperature: 15-20°C'
       },
@@ -1173,6 +1259,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 11,
         week: 3,
+        dayOffset: 7,
         inputs: ['Urea', 'DAP', 'MOP'],
         notes: 'Apply at sowing or immediately after'
       },
@@ -1186,6 +1273,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 12,
         week: 1,
+        dayOffset: 23,
         inputs: ['Hand tools'],
         notes: 'Maintain 15-20 cm spacing between plants'
       },
@@ -1199,6 +1287,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 12,
         week: 3,
+        dayOffset: 33,
         inputs: ['Urea'],
         notes: 'Apply 30-35 days after sowing'
       },
@@ -1212,6 +1301,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: false,
         month: 1,
         week: 2,
+        dayOffset: 61,
         inputs: ['Urea', 'MOP'],
         notes: 'Critical stage for seed development'
       },
@@ -1225,6 +1315,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 1,
         week: 3,
+        dayOffset: 68,
         inputs: ['Insecticides', 'Pesticides'],
         notes: 'Watch for aphids, thrips, and powdery mildew'
       },
@@ -1238,6 +1329,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 2,
         week: 3,
+        dayOffset: 99,
         inputs: ['Harvesting equipment', 'Storage bags'],
         notes: 'Monitor seed maturity and moisture content'
       },
@@ -1251,6 +1343,7 @@ export const farmingCalendarData: Record<string, CropCalendar> = {
         weatherDependent: true,
         month: 3,
         week: 1,
+        dayOffset: 113,
         inputs: ['Harvesting equipment', 'Transport'],
         notes: 'Harvest when seeds are fully mature and dry'
       }
@@ -1296,3 +1389,9 @@ export const getActivitiesForWeek = (calendars: CropCalendar[], month: number, w
   });
   return activities.sort((a, b) => a.priority === 'high' ? -1 : 1);
 };
+
+// Helper function to find an activity by id within a crop's calendar
+export const getActivityById = (cropName: string, activityId: string): CropActivity | null => {
+  const calendar = getCropCalendar(cropName);
+  return calendar?.activities.find(activity => activity.id === activityId) || null;
+};
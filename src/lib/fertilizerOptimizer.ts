@@ -0,0 +1,187 @@
+// Least-cost fertilizer mix: choose product quantities that meet the N, P and K targets at the
+// lowest price. This is a linear program (minimise price·x subject to content·x >= target, x >= 0)
+// with at most three constraints, so the optimum is found exactly by checking every basic
+// solution instead of running a general simplex.
+import type { CropData } from './cropData';
+import type { Npk } from './soilFertility';
+
+export interface FertilizerProduct {
+  id: string;
+  npk: Npk; // nutrient content, % by weight
+  pricePerKg: number; // ₹
+  bagKg: number;
+}
+
+export interface ProductAmount {
+  productId: string;
+  kg: number;
+  bags: number; // fraction of a bag, one decimal
+  cost: number;
+}
+
+export interface BlendResult {
+  items: ProductAmount[];
+  cost: number;
+  supplied: Npk;
+  // Target nutrients no product in the list contains; the rest of the mix is still optimal
+  unmet: (keyof Npk)[];
+}
+
+export interface StageBlend {
+  stage: string;
+  target: Npk;
+  blend: BlendResult;
+}
+
+export interface PurchaseLine {
+  productId: string;
+  kg: number;
+  bags: number; // whole bags to buy for the season
+  cost: number;
+}
+
+const NUTRIENTS: (keyof Npk)[] = ['N', 'P', 'K'];
+const EPSILON = 1e-9;
+
+// Neem-coated urea is sold in 45 kg bags; DAP, MOP, complexes and bagged manures in 50 kg bags
+export const BAG_SIZES_KG: Record<string, number> = {
+  urea: 45,
+  dap: 50,
+  mop: 50,
+  npk: 50,
+  compost: 50,
+  vermicompost: 50,
+  farmyardManure: 50,
+};
+
+const DEFAULT_BAG_KG = 50;
+
+// Prices come from the catalogue when there is one; the crop data's built-in costs are the fallback
+export const getCropProducts = (
+  crop: CropData,
+  type: 'organic' | 'synthetic',
+  prices: Record<string, { pricePerKg: number; bagKg: number }> = {}
+): FertilizerProduct[] =>
+  Object.entries(type === 'organic' ? crop.organicAlternatives : crop.syntheticOptions).map(([id, option]) => ({
+    id,
+    npk: option.npk,
+    pricePerKg: prices[id]?.pricePerKg ?? option.cost,
+    bagKg: prices[id]?.bagKg ?? BAG_SIZES_KG[id] ?? DEFAULT_BAG_KG,
+  }));
+
+// Solve a square system with partial pivoting; null when singular
+const solveLinear = (matrix: number[][], rhs: number[]): number[] | null => {
+  const size = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < EPSILON) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= size; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  return a.map((row, i) => row[size] / row[i]);
+};
+
+const combinations = (count: number, choose: number): number[][] => {
+  if (choose === 0) return [[]];
+  const result: number[][] = [];
+  const walk = (start: number, picked: number[]) => {
+    if (picked.length === choose) {
+      result.push(picked);
+      return;
+    }
+    for (let i = start; i < count; i++) walk(i + 1, [...picked, i]);
+  };
+  walk(0, []);
+  return result;
+};
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const optimizeBlend = (target: Npk, products: FertilizerProduct[]): BlendResult => {
+  const unmet = NUTRIENTS.filter(n => target[n] > 0 && !products.some(p => p.npk[n] > 0));
+  // A zero target is met by any non-negative mix, so only positive, suppliable targets constrain
+  const active = NUTRIENTS.filter(n => target[n] > 0 && !unmet.includes(n));
+
+  let best: { amounts: number[]; cost: number; used: number } | null = null;
+
+  if (active.length > 0) {
+    // Columns: one per product, then one surplus variable per constraint (content·x - surplus = target)
+    const columns = [
+      ...products.map(p => ({ coefficients: active.map(n => p.npk[n] / 100), price: p.pricePerKg })),
+      ...active.map((_, i) => ({ coefficients: active.map((__, j) => (i === j ? -1 : 0)), price: 0 })),
+    ];
+    const rhs = active.map(n => target[n]);
+
+    for (const basis of combinations(columns.length, active.length)) {
+      const matrix = active.map((_, row) => basis.map(col => columns[col].coefficients[row]));
+      const solution = solveLinear(matrix, rhs);
+      if (!solution || solution.some(value => value < -EPSILON)) continue;
+
+      const amounts = products.map(() => 0);
+      basis.forEach((col, i) => {
+        if (col < products.length) amounts[col] = Math.max(0, solution[i]);
+      });
+      const cost = amounts.reduce((sum, kg, i) => sum + kg * products[i].pricePerKg, 0);
+      const used = amounts.filter(kg => kg > EPSILON).length;
+      // Prefer fewer products when two mixes cost the same
+      if (!best || cost < best.cost - EPSILON || (Math.abs(cost - best.cost) <= EPSILON && used < best.used)) {
+        best = { amounts, cost, used };
+      }
+    }
+  }
+
+  const amounts = best?.amounts ?? products.map(() => 0);
+  const items = products
+    .map((product, i) => ({
+      productId: product.id,
+      kg: round(amounts[i]),
+      bags: round(amounts[i] / product.bagKg),
+      cost: round(amounts[i] * product.pricePerKg),
+    }))
+    .filter(item => item.kg > 0);
+
+  const supplied = NUTRIENTS.reduce((acc, n) => ({
+    ...acc,
+    [n]: round(products.reduce((sum, p, i) => sum + (amounts[i] * p.npk[n]) / 100, 0)),
+  }), { N: 0, P: 0, K: 0 } as Npk);
+
+  return {
+    items,
+    cost: round(items.reduce((sum, item) => sum + item.cost, 0)),
+    supplied,
+    unmet,
+  };
+};
+
+// One optimal mix per application stage, since each stage is applied (and bought) separately
+export const planStageBlends = (
+  stages: { stage: string; npk: Npk }[],
+  landSize: number,
+  products: FertilizerProduct[]
+): StageBlend[] =>
+  stages.map(({ stage, npk }) => {
+    const target = { N: npk.N * landSize, P: npk.P * landSize, K: npk.K * landSize };
+    return { stage, target, blend: optimizeBlend(target, products) };
+  });
+
+// What to buy for the whole season: stage amounts added up and rounded up to whole bags
+export const getSeasonPurchase = (plans: StageBlend[], products: FertilizerProduct[]): PurchaseLine[] =>
+  products
+    .map(product => {
+      const kg = plans.reduce((sum, plan) =>
+        sum + (plan.blend.items.find(item => item.productId === product.id)?.kg ?? 0), 0);
+      const bags = Math.ceil(kg / product.bagKg - EPSILON);
+      return { productId: product.id, kg: round(kg), bags, cost: round(bags * product.bagKg * product.pricePerKg) };
+    })
+    .filter(line => line.kg > 0);
@@ -0,0 +1,113 @@
+// Fertilizer price catalogue (fertilizer_prices): national and state rates maintained by admins,
+// plus the farmer's own local prices. Rows are never edited in place; a new price is a new row
+// with a later effective date, so older estimates can be reproduced.
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface FertilizerPrice {
+  id: string;
+  productId: string;
+  state?: string;
+  isOwn: boolean; // entered by the farmer rather than the catalogue
+  pricePerBag: number;
+  bagKg: number;
+  pricePerKg: number;
+  isSubsidised: boolean;
+  effectiveFrom: string; // YYYY-MM-DD
+  source?: string;
+}
+
+export interface OwnPriceInput {
+  productId: string;
+  pricePerBag: number;
+  bagKg: number;
+  effectiveFrom: string;
+}
+
+export type PriceScope = 'own' | 'state' | 'national';
+
+// Products priced in the catalogue, as keyed in the crop data
+export const SYNTHETIC_PRODUCT_IDS = ['urea', 'dap', 'mop', 'npk'];
+export const ORGANIC_PRODUCT_IDS = ['compost', 'vermicompost', 'farmyardManure'];
+
+const mapPriceRow = (row: Tables<'fertilizer_prices'>): FertilizerPrice => ({
+  id: row.id,
+  productId: row.product_id,
+  state: row.state ?? undefined,
+  isOwn: row.user_id !== null,
+  pricePerBag: Number(row.price_per_bag),
+  bagKg: Number(row.bag_kg),
+  pricePerKg: Math.round((Number(row.price_per_bag) / Number(row.bag_kg)) * 100) / 100,
+  isSubsidised: row.is_subsidised,
+  effectiveFrom: row.effective_from,
+  source: row.source ?? undefined,
+});
+
+export const getPriceScope = (price: FertilizerPrice): PriceScope =>
+  price.isOwn ? 'own' : price.state ? 'state' : 'national';
+
+// The price in force on a date: the farmer's own entry first, then the state rate, then the
+// national rate; within each, the latest version that has taken effect
+export const resolvePrices = (
+  prices: FertilizerPrice[],
+  state?: string | null,
+  onDate: Date = new Date()
+): Record<string, FertilizerPrice> => {
+  const day = format(onDate, 'yyyy-MM-dd');
+  const rank = (price: FertilizerPrice) => (price.isOwn ? 0 : price.state ? 1 : 2);
+
+  const resolved: Record<string, FertilizerPrice> = {};
+  prices
+    .filter(price => price.effectiveFrom <= day)
+    .filter(price => price.isOwn || !price.state || price.state === state)
+    .forEach(price => {
+      const current = resolved[price.productId];
+      if (!current
+        || rank(price) < rank(current)
+        || (rank(price) === rank(current) && price.effectiveFrom > current.effectiveFrom)) {
+        resolved[price.productId] = price;
+      }
+    });
+  return resolved;
+};
+
+export const fetchFertilizerPrices = async (): Promise<FertilizerPrice[]> => {
+  // RLS returns the catalogue plus the signed-in farmer's own rows
+  const { data, error } = await supabase
+    .from('fertilizer_prices')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapPriceRow);
+};
+
+export const createOwnPrice = async (userId: string, price: OwnPriceInput): Promise<FertilizerPrice> => {
+  const { data, error } = await supabase
+    .from('fertilizer_prices')
+    .insert({
+      user_id: userId,
+      product_id: price.productId,
+      price_per_bag: price.pricePerBag,
+      bag_kg: price.bagKg,
+      effective_from: price.effectiveFrom,
+      source: 'Farmer entered',
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapPriceRow(data);
+};
+
+// Back to the catalogue rate: remove every price the farmer entered for the product
+export const deleteOwnPrices = async (userId: string, productId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('fertilizer_prices')
+    .delete()
+    .eq('user_id', userId)
+    .eq('product_id', productId);
+
+  if (error) throw error;
+};
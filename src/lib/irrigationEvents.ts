@@ -0,0 +1,92 @@
+// Persistence helpers for logged irrigation (irrigation_events)
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type IrrigationMethod = 'drip' | 'sprinkler' | 'flood';
+
+export interface IrrigationEvent {
+  id: string;
+  plotId: string;
+  eventDate: string; // YYYY-MM-DD
+  depthMm: number; // water applied over the plot area
+  method?: IrrigationMethod;
+  durationMinutes?: number;
+  flowRateLpm?: number; // litres per minute
+  volumeLitres?: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export type IrrigationEventInput = Omit<IrrigationEvent, 'id' | 'createdAt'>;
+
+export const IRRIGATION_METHODS: IrrigationMethod[] = ['drip', 'sprinkler', 'flood'];
+
+const SQM_PER_HECTARE = 10000;
+
+// Pump run time × flow rate gives the volume; spread over the plot it is a depth (1 L/m² = 1 mm)
+export const getEventVolume = (durationMinutes: number, flowRateLpm: number): number =>
+  Math.round(durationMinutes * flowRateLpm);
+
+export const volumeToDepthMm = (volumeLitres: number, areaHectares: number): number =>
+  areaHectares > 0 ? Math.round((volumeLitres / (areaHectares * SQM_PER_HECTARE)) * 10) / 10 : 0;
+
+export const depthToVolumeLitres = (depthMm: number, areaHectares: number): number =>
+  Math.round(depthMm * areaHectares * SQM_PER_HECTARE);
+
+const toNumber = (value: number | null) => (value === null ? undefined : Number(value));
+
+const mapIrrigationEventRow = (row: Tables<'irrigation_events'>): IrrigationEvent => ({
+  id: row.id,
+  plotId: row.plot_id,
+  eventDate: row.event_date,
+  depthMm: Number(row.depth_mm),
+  method: (row.method as IrrigationMethod) ?? undefined,
+  durationMinutes: toNumber(row.duration_minutes),
+  flowRateLpm: toNumber(row.flow_rate_lpm),
+  volumeLitres: toNumber(row.volume_litres),
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const fetchIrrigationEvents = async (plotId: string, fromDate?: string): Promise<IrrigationEvent[]> => {
+  let query = supabase
+    .from('irrigation_events')
+    .select('*')
+    .eq('plot_id', plotId);
+  if (fromDate) query = query.gte('event_date', fromDate);
+
+  const { data, error } = await query.order('event_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapIrrigationEventRow);
+};
+
+export const createIrrigationEvent = async (userId: string, event: IrrigationEventInput): Promise<IrrigationEvent> => {
+  const { data, error } = await supabase
+    .from('irrigation_events')
+    .insert({
+      user_id: userId,
+      plot_id: event.plotId,
+      event_date: event.eventDate,
+      depth_mm: event.depthMm,
+      method: event.method ?? null,
+      duration_minutes: event.durationMinutes ?? null,
+      flow_rate_lpm: event.flowRateLpm ?? null,
+      volume_litres: event.volumeLitres ?? null,
+      notes: event.notes ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapIrrigationEventRow(data);
+};
+
+export const deleteIrrigationEvent = async (eventId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('irrigation_events')
+    .delete()
+    .eq('id', eventId);
+
+  if (error) throw error;
+};
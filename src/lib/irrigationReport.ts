@@ -0,0 +1,103 @@
+// Seasonal water use for a plot from its irrigation log: how much was pumped, how much of it the
+// crop could use given each method's efficiency, how that compares with the crop's seasonal water
+// requirement, and how much water the same irrigation would have taken with another method.
+import type { CropData } from './cropData';
+import { IRRIGATION_METHODS, IrrigationEvent, IrrigationMethod, depthToVolumeLitres } from './irrigationEvents';
+
+export interface MethodUsage {
+  method: IrrigationMethod | null; // null for events logged without a method
+  events: number;
+  volumeLitres: number;
+  depthMm: number;
+}
+
+export interface MethodComparison {
+  method: IrrigationMethod;
+  efficiency: number; // %
+  volumeLitres: number; // to deliver the same water to the roots with this method
+  savedLitres: number; // against what was actually pumped; negative means more water
+}
+
+export interface SeasonWaterReport {
+  events: number;
+  volumeLitres: number;
+  appliedMm: number;
+  effectiveMm: number; // irrigation that reached the root zone
+  rainfallMm: number; // effective rainfall over the same period
+  requirementMm: number;
+  requirementLitres: number;
+  coveredPercent: number; // share of the seasonal requirement met by irrigation and rain
+  byMethod: MethodUsage[];
+  comparisons: MethodComparison[];
+}
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Events logged before methods were recorded count in full
+export const getMethodEfficiency = (crop: CropData, method?: IrrigationMethod): number =>
+  method ? crop.irrigationMethods[method].efficiency : 100;
+
+export const getEffectiveDepthMm = (event: IrrigationEvent, crop: CropData): number =>
+  (event.depthMm * getMethodEfficiency(crop, event.method)) / 100;
+
+export const getSeasonWaterReport = (
+  events: IrrigationEvent[],
+  options: {
+    crop: CropData;
+    areaHectares: number;
+    seasonStart: string; // YYYY-MM-DD
+    seasonEnd?: string;
+    effectiveRainfallMm?: number;
+  }
+): SeasonWaterReport => {
+  const { crop, areaHectares, seasonStart, seasonEnd } = options;
+  const seasonEvents = events.filter(event =>
+    event.eventDate >= seasonStart && (!seasonEnd || event.eventDate <= seasonEnd));
+  const volumeOf = (event: IrrigationEvent) => event.volumeLitres ?? depthToVolumeLitres(event.depthMm, areaHectares);
+
+  const volumeLitres = seasonEvents.reduce((sum, event) => sum + volumeOf(event), 0);
+  const appliedMm = seasonEvents.reduce((sum, event) => sum + event.depthMm, 0);
+  const effectiveMm = seasonEvents.reduce((sum, event) => sum + getEffectiveDepthMm(event, crop), 0);
+  const rainfallMm = options.effectiveRainfallMm ?? 0;
+  const requirementMm = crop.totalWaterRequirement;
+
+  const byMethod = [...IRRIGATION_METHODS, null]
+    .map(method => {
+      const matching = seasonEvents.filter(event => (event.method ?? null) === method);
+      return {
+        method,
+        events: matching.length,
+        volumeLitres: matching.reduce((sum, event) => sum + volumeOf(event), 0),
+        depthMm: round(matching.reduce((sum, event) => sum + event.depthMm, 0)),
+      };
+    })
+    .filter(usage => usage.events > 0);
+
+  // Compared only over events with a known method, since the others have no efficiency to adjust for
+  const withMethod = seasonEvents.filter(event => event.method);
+  const pumpedLitres = withMethod.reduce((sum, event) => sum + volumeOf(event), 0);
+  const effectiveLitres = depthToVolumeLitres(
+    withMethod.reduce((sum, event) => sum + getEffectiveDepthMm(event, crop), 0),
+    areaHectares
+  );
+  const comparisons = effectiveLitres > 0
+    ? IRRIGATION_METHODS.map(method => {
+      const efficiency = crop.irrigationMethods[method].efficiency;
+      const needed = Math.round(effectiveLitres / (efficiency / 100));
+      return { method, efficiency, volumeLitres: needed, savedLitres: pumpedLitres - needed };
+    })
+    : [];
+
+  return {
+    events: seasonEvents.length,
+    volumeLitres,
+    appliedMm: round(appliedMm),
+    effectiveMm: round(effectiveMm),
+    rainfallMm: round(rainfallMm),
+    requirementMm,
+    requirementLitres: depthToVolumeLitres(requirementMm, areaHectares),
+    coveredPercent: requirementMm > 0 ? Math.round(((effectiveMm + rainfallMm) / requirementMm) * 100) : 0,
+    byMethod,
+    comparisons,
+  };
+};
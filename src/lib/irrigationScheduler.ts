@@ -0,0 +1,116 @@
+// Day-by-day irrigation plan: crop water use (ETc = Kc × ET0) for the crop's growth stage on each
+// forecast day, less the part of the forecast rain the crop can use, converted to litres for the
+// plot and grossed up for the losses of the irrigation method.
+import { WeatherDay, referenceEt0 } from './evapotranspiration';
+
+export type KcStage = 'initial' | 'development' | 'midSeason' | 'lateSeason';
+
+export interface CropCoefficients {
+  kcIni: number;
+  kcMid: number;
+  kcEnd: number;
+  stageDays: [number, number, number, number]; // initial, development, mid-season, late season
+}
+
+export interface IrrigationDay {
+  date: string;
+  daysAfterSowing: number;
+  stage: KcStage | null; // null before sowing or after harvest
+  et0: number; // mm
+  kc: number;
+  etc: number; // mm
+  rainfall: number; // mm
+  effectiveRainfall: number; // mm
+  netMm: number; // water the crop needs from irrigation
+  grossMm: number; // water to apply, allowing for method losses
+  litres: number;
+}
+
+// FAO-56 Tables 11 and 12, using the tropical / Indian season lengths where the tables give them.
+// Turmeric, coriander and cumin are not tabulated and follow similar crops (ginger, herbs, spices).
+export const CROP_COEFFICIENTS: Record<string, CropCoefficients> = {
+  rice: { kcIni: 1.05, kcMid: 1.2, kcEnd: 0.75, stageDays: [30, 30, 60, 30] },
+  wheat: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.3, stageDays: [15, 25, 50, 30] },
+  cotton: { kcIni: 0.35, kcMid: 1.15, kcEnd: 0.6, stageDays: [30, 50, 60, 55] },
+  sugarcane: { kcIni: 0.4, kcMid: 1.25, kcEnd: 0.75, stageDays: [35, 60, 190, 120] },
+  maize: { kcIni: 0.3, kcMid: 1.2, kcEnd: 0.5, stageDays: [20, 35, 40, 30] },
+  soybean: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.5, stageDays: [20, 35, 60, 25] },
+  groundnut: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.6, stageDays: [25, 35, 45, 25] },
+  sunflower: { kcIni: 0.35, kcMid: 1.05, kcEnd: 0.35, stageDays: [25, 35, 45, 25] },
+  onion: { kcIni: 0.7, kcMid: 1.05, kcEnd: 0.75, stageDays: [15, 25, 70, 40] },
+  potato: { kcIni: 0.5, kcMid: 1.15, kcEnd: 0.75, stageDays: [25, 30, 45, 30] },
+  tomato: { kcIni: 0.6, kcMid: 1.15, kcEnd: 0.8, stageDays: [30, 40, 45, 30] },
+  chili: { kcIni: 0.6, kcMid: 1.05, kcEnd: 0.9, stageDays: [25, 35, 40, 20] },
+  turmeric: { kcIni: 0.5, kcMid: 1.05, kcEnd: 0.7, stageDays: [30, 60, 120, 60] },
+  coriander: { kcIni: 0.5, kcMid: 1.0, kcEnd: 0.75, stageDays: [20, 30, 30, 20] },
+  cumin: { kcIni: 0.4, kcMid: 1.05, kcEnd: 0.5, stageDays: [20, 30, 40, 20] },
+};
+
+// Light showers wet the canopy and evaporate; of larger falls some runs off or drains below the roots
+const MIN_EFFECTIVE_RAIN_MM = 2.5;
+const EFFECTIVE_RAIN_FRACTION = 0.8;
+
+export const getCropCoefficients = (cropName: string): CropCoefficients | null =>
+  CROP_COEFFICIENTS[cropName.toLowerCase()] ?? null;
+
+export const getSeasonLength = (coefficients: CropCoefficients): number =>
+  coefficients.stageDays.reduce((sum, days) => sum + days, 0);
+
+// Kc on a day of the season: flat in the initial and mid-season stages, straight-line between them
+export const getKc = (coefficients: CropCoefficients, daysAfterSowing: number): { stage: KcStage; kc: number } | null => {
+  if (daysAfterSowing < 0 || daysAfterSowing >= getSeasonLength(coefficients)) return null;
+  const [ini, dev, mid] = coefficients.stageDays;
+  const { kcIni, kcMid, kcEnd } = coefficients;
+
+  if (daysAfterSowing < ini) return { stage: 'initial', kc: kcIni };
+  if (daysAfterSowing < ini + dev) {
+    return { stage: 'development', kc: kcIni + ((daysAfterSowing - ini) / dev) * (kcMid - kcIni) };
+  }
+  if (daysAfterSowing < ini + dev + mid) return { stage: 'midSeason', kc: kcMid };
+  const late = coefficients.stageDays[3];
+  return { stage: 'lateSeason', kc: kcMid + ((daysAfterSowing - ini - dev - mid) / late) * (kcEnd - kcMid) };
+};
+
+export const getEffectiveRainfall = (rainfall: number): number =>
+  rainfall < MIN_EFFECTIVE_RAIN_MM ? 0 : rainfall * EFFECTIVE_RAIN_FRACTION;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// 1 mm of water over 1 m² is 1 litre; efficiency is the irrigation method's, in percent
+export const planIrrigation = (
+  days: WeatherDay[],
+  options: {
+    coefficients: CropCoefficients;
+    sowingDate: string; // YYYY-MM-DD
+    latitude: number;
+    areaSqm: number;
+    efficiency: number;
+  }
+): IrrigationDay[] =>
+  days.map(day => {
+    const daysAfterSowing = daysBetween(options.sowingDate, day.date);
+    const crop = getKc(options.coefficients, daysAfterSowing);
+    const et0 = referenceEt0(day, options.latitude);
+    const kc = crop?.kc ?? 0;
+    const etc = et0 * kc;
+    const effectiveRainfall = getEffectiveRainfall(day.rainfall);
+    const netMm = crop ? Math.max(0, etc - effectiveRainfall) : 0;
+    const grossMm = netMm / (Math.max(1, options.efficiency) / 100);
+
+    return {
+      date: day.date,
+      daysAfterSowing,
+      stage: crop?.stage ?? null,
+      et0: round(et0),
+      kc: round(kc, 2),
+      etc: round(etc),
+      rainfall: day.rainfall,
+      effectiveRainfall: round(effectiveRainfall),
+      netMm: round(netMm),
+      grossMm: round(grossMm),
+      litres: Math.round(grossMm * options.areaSqm),
+    };
+  });
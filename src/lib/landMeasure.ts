@@ -0,0 +1,118 @@
+// Area of drawn plot boundaries and conversion to the land units farmers use
+import type { AreaUnit, PlotBoundary } from './plots';
+
+export type LngLat = [number, number];
+
+// WGS84 equatorial radius, as used by web maps
+const EARTH_RADIUS_M = 6378137;
+
+const SQM_PER_ACRE = 4046.8564224;
+const SQM_PER_HECTARE = 10000;
+const SQM_PER_SQFT = 0.09290304;
+
+// A guntha is 33 x 33 feet (1089 sq ft, 1/40 acre) everywhere it is used
+const SQM_PER_GUNTHA = 1089 * SQM_PER_SQFT;
+
+// Bigha is not standardised; square feet per bigha as used in land records of each state
+const BIGHA_SQFT_BY_STATE: Record<string, number> = {
+  'Assam': 14400,
+  'Bihar': 27220,
+  'Gujarat': 17427,
+  'Haryana': 27225,
+  'Himachal Pradesh': 8712,
+  'Jharkhand': 27211,
+  'Madhya Pradesh': 12000,
+  'Punjab': 9070,
+  'Rajasthan': 27225,
+  'Tripura': 14400,
+  'Uttar Pradesh': 27000,
+  'Uttarakhand': 6804,
+  'West Bengal': 14400,
+};
+
+// Used when the farmer's state is unknown or does not use bigha in its records
+const DEFAULT_BIGHA_SQFT = 27000;
+
+export interface LocalAreas {
+  acres: number;
+  hectares: number;
+  bigha: number;
+  guntha: number;
+  bighaState: string | null; // state whose bigha was used; null means the default size
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Polygon area on the sphere (same approach as turf/area); accurate to well under 1% at field scale
+const ringAreaSqm = (ring: LngLat[]): number => {
+  const points = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  if (points.length < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < points.length; i++) {
+    const previous = points[(i + points.length - 1) % points.length];
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    total += (toRadians(next[0]) - toRadians(previous[0])) * Math.sin(toRadians(current[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+// Outer ring minus any holes
+export const polygonAreaSqm = (boundary: PlotBoundary): number => {
+  const [outer, ...holes] = boundary.coordinates;
+  if (!outer) return 0;
+  return Math.max(0, ringAreaSqm(outer) - holes.reduce((sum, hole) => sum + ringAreaSqm(hole), 0));
+};
+
+// Close an open list of points into a GeoJSON polygon
+export const toBoundary = (points: LngLat[]): PlotBoundary => ({
+  type: 'Polygon',
+  coordinates: [[...points, points[0]]],
+});
+
+// Open list of points for editing; drops the closing position
+export const fromBoundary = (boundary?: PlotBoundary | null): LngLat[] => {
+  const ring = boundary?.coordinates[0] ?? [];
+  return ring.length > 1 ? ring.slice(0, -1) : [];
+};
+
+export const getBoundaryCenter = (boundary: PlotBoundary): { latitude: number; longitude: number } | null => {
+  const points = fromBoundary(boundary);
+  if (points.length === 0) return null;
+  return {
+    longitude: points.reduce((sum, [lng]) => sum + lng, 0) / points.length,
+    latitude: points.reduce((sum, [, lat]) => sum + lat, 0) / points.length,
+  };
+};
+
+export const sqmToUnit = (areaSqm: number, unit: AreaUnit, decimals = 2): number =>
+  round(areaSqm / (unit === 'hectares' ? SQM_PER_HECTARE : SQM_PER_ACRE), decimals);
+
+export const getLocalAreas = (areaSqm: number, state?: string | null): LocalAreas => {
+  const bighaState = state && BIGHA_SQFT_BY_STATE[state] ? state : null;
+  const bighaSqft = bighaState ? BIGHA_SQFT_BY_STATE[bighaState] : DEFAULT_BIGHA_SQFT;
+  return {
+    acres: round(areaSqm / SQM_PER_ACRE),
+    hectares: round(areaSqm / SQM_PER_HECTARE),
+    bigha: round(areaSqm / (bighaSqft * SQM_PER_SQFT)),
+    guntha: round(areaSqm / SQM_PER_GUNTHA, 1),
+    bighaState,
+  };
+};
+
+// Local units for an area the farmer typed in rather than drew
+export const getLocalAreasFor = (area: number, unit: AreaUnit, state?: string | null): LocalAreas =>
+  getLocalAreas(area * (unit === 'hectares' ? SQM_PER_HECTARE : SQM_PER_ACRE), state);
+
+// Great-circle distance in metres, used to thin out GPS points while walking a boundary
+export const distanceM = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
@@ -0,0 +1,8 @@
+// The location resolver and gazetteer are shared with the edge functions
+export {
+  formatResolvedLocation,
+  resolveLocation,
+  type LocationCandidate,
+  type LocationQuery,
+  type LocationResolution,
+} from '../../supabase/functions/_shared/location.ts';
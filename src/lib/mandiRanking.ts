@@ -0,0 +1,70 @@
+// Rank nearby mandis by what the farmer actually takes home after transport
+
+export interface MandiPrice {
+  market: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number; // estimated road distance
+  modalPrice: number; // ₹ per quintal
+  priceDate: string;
+  source: string;
+}
+
+export interface Vehicle {
+  id: 'tractor' | 'pickup' | 'truck';
+  capacityQuintals: number;
+  ratePerKm: number; // ₹ per km, charged for the round trip
+}
+
+export interface RankedMandi extends MandiPrice {
+  vehicle: Vehicle['id'];
+  trips: number;
+  transportCost: number; // ₹ for the whole quantity
+  netPricePerQuintal: number;
+  netRealisation: number; // ₹ for the whole quantity
+}
+
+// Typical hire rates for farm produce transport; loading and unloading are charged per quintal
+export const VEHICLES: Vehicle[] = [
+  { id: 'tractor', capacityQuintals: 30, ratePerKm: 25 },
+  { id: 'pickup', capacityQuintals: 15, ratePerKm: 18 },
+  { id: 'truck', capacityQuintals: 90, ratePerKm: 45 },
+];
+export const HANDLING_COST_PER_QUINTAL = 15;
+
+// Cheapest way to move the quantity: for each vehicle, enough round trips to carry everything
+export const estimateTransportCost = (
+  distanceKm: number,
+  quantityQuintals: number
+): { vehicle: Vehicle['id']; trips: number; cost: number } => {
+  const options = VEHICLES.map(vehicle => {
+    const trips = Math.max(1, Math.ceil(quantityQuintals / vehicle.capacityQuintals));
+    return {
+      vehicle: vehicle.id,
+      trips,
+      cost: Math.round(trips * distanceKm * 2 * vehicle.ratePerKm + quantityQuintals * HANDLING_COST_PER_QUINTAL),
+    };
+  });
+  return options.reduce((best, option) => (option.cost < best.cost ? option : best));
+};
+
+// Net realisation = modal price × quantity − transport; best market first
+export const rankMandisByNetRealisation = (mandis: MandiPrice[], quantityQuintals: number): RankedMandi[] => {
+  if (quantityQuintals <= 0) return [];
+
+  return mandis
+    .map(mandi => {
+      const { vehicle, trips, cost } = estimateTransportCost(mandi.distanceKm, quantityQuintals);
+      const netRealisation = Math.round(mandi.modalPrice * quantityQuintals - cost);
+      return {
+        ...mandi,
+        vehicle,
+        trips,
+        transportCost: cost,
+        netPricePerQuintal: Math.round(netRealisation / quantityQuintals),
+        netRealisation,
+      };
+    })
+    .sort((a, b) => b.netRealisation - a.netRealisation);
+};
@@ -0,0 +1,143 @@
+// Persistence helpers for the farmer's notifications (notifications). New ones are raised by the
+// generate-notifications function from the notification rules; the app only reads, marks read
+// and dismisses them, and saves the farmer's delivery preferences (notification_preferences).
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type NotificationType = 'weather' | 'market' | 'farming' | 'system' | 'alert';
+export type NotificationPriority = 'low' | 'medium' | 'high';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  rule?: string;
+  title: string;
+  message: string;
+  timestamp: Date;
+  isRead: boolean;
+  priority: NotificationPriority;
+  actionUrl?: string;
+}
+
+// Shown newest first; older ones are still in the table
+const NOTIFICATION_LIMIT = 50;
+
+const mapNotificationRow = (row: Tables<'notifications'>): AppNotification => ({
+  id: row.id,
+  type: row.type as NotificationType,
+  rule: row.rule ?? undefined,
+  title: row.title,
+  message: row.message,
+  timestamp: new Date(row.created_at),
+  isRead: row.is_read,
+  priority: row.priority as NotificationPriority,
+  actionUrl: row.action_url ?? undefined,
+});
+
+// Run the rules for the signed-in farmer; returns how many new notifications were raised
+export const generateNotifications = async (): Promise<number> => {
+  const { data, error } = await supabase.functions.invoke('generate-notifications', { body: {} });
+
+  if (error) throw error;
+  return data?.created ?? 0;
+};
+
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .is('dismissed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return (data || []).map(mapNotificationRow);
+};
+
+export const markNotificationsRead = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+// Dismissed rather than deleted, so the same rule occurrence is not raised again
+export const dismissNotifications = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ dismissed_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+export interface NotificationPreferences {
+  pushEnabled: boolean;
+  sound: boolean;
+  vibration: boolean;
+  frequency: 'low' | 'medium' | 'high';
+  quietHoursStart: string | null; // HH:MM, IST
+  quietHoursEnd: string | null;
+  smsEnabled: boolean; // to the phone on the farmer's profile
+  voiceCalls: boolean; // also call for high-priority alerts
+  language: string; // for SMS and calls
+}
+
+// Read by the functions that push, text and call alerts to the farmer. SMS can also be turned off
+// by replying STOP, so Settings loads the current state rather than trusting its local copy.
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences | null> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    pushEnabled: data.push_enabled,
+    sound: data.sound,
+    vibration: data.vibration,
+    frequency: data.frequency as NotificationPreferences['frequency'],
+    quietHoursStart: data.quiet_hours_start?.slice(0, 5) ?? null,
+    quietHoursEnd: data.quiet_hours_end?.slice(0, 5) ?? null,
+    smsEnabled: data.sms_enabled,
+    voiceCalls: data.voice_calls,
+    language: data.language,
+  };
+};
+
+// Opt-in and opt-out times are recorded only when the SMS choice actually changes
+export const saveNotificationPreferences = async (
+  userId: string,
+  preferences: NotificationPreferences,
+  previous: NotificationPreferences | null
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const smsChanged = preferences.smsEnabled !== (previous?.smsEnabled ?? false);
+
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      user_id: userId,
+      push_enabled: preferences.pushEnabled,
+      sound: preferences.sound,
+      vibration: preferences.vibration,
+      frequency: preferences.frequency,
+      quiet_hours_start: preferences.quietHoursStart,
+      quiet_hours_end: preferences.quietHoursEnd,
+      sms_enabled: preferences.smsEnabled,
+      voice_calls: preferences.voiceCalls,
+      language: preferences.language,
+      ...(smsChanged ? (preferences.smsEnabled ? { sms_opted_in_at: now } : { sms_opted_out_at: now }) : {}),
+    }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
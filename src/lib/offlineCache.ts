@@ -0,0 +1,99 @@
+// Last good responses kept on the device (localStorage) with the time they were fetched, so the
+// weather, market and advice widgets still have something to show, and can say how old it is,
+// when the farmer is offline or an edge function fails
+import { supabase } from '@/integrations/supabase/client';
+
+const CACHE_PREFIX = 'krishi-cache:';
+
+// Shared with the Settings dialog, which owns the rest of these settings
+export const SETTINGS_KEY = 'krishi-settings';
+
+// With "offline mode" on, cached data younger than this is used without going to the network
+const OFFLINE_MODE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+export interface CachedResponse<T> {
+  data: T;
+  cachedAt: string;
+}
+
+export interface CachedResult<T> extends CachedResponse<T> {
+  fromCache: boolean;
+}
+
+export interface DataSettings {
+  offlineMode: boolean;
+  autoSync: boolean;
+}
+
+export const readDataSettings = (): DataSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { offlineMode: saved.offlineMode === true, autoSync: saved.autoSync !== false };
+  } catch {
+    return { offlineMode: false, autoSync: true };
+  }
+};
+
+export const readCache = <T>(key: string): CachedResponse<T> | null => {
+  try {
+    const saved = localStorage.getItem(CACHE_PREFIX + key);
+    return saved ? JSON.parse(saved) as CachedResponse<T> : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, data: T): CachedResponse<T> => {
+  const entry = { data, cachedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    // A full quota only costs the offline copy
+    console.error('Offline cache write failed:', error);
+  }
+  return entry;
+};
+
+// Cached data belongs to the signed-in farmer, so it goes when they sign out
+export const clearCache = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+// Round coordinates so GPS jitter between visits still finds the cached response (~1 km)
+export const coordinateKey = (latitude?: number, longitude?: number): string =>
+  latitude !== undefined && longitude !== undefined ? `${latitude.toFixed(2)},${longitude.toFixed(2)}` : 'none';
+
+// Call an edge function and keep its response under `cacheKey`. Offline, or when the call fails,
+// the cached response is returned instead; with offline mode on, a recent one is used without a call.
+// Throws only when there is nothing cached to fall back to.
+export const invokeWithCache = async <T>(
+  functionName: string,
+  body: Record<string, unknown>,
+  cacheKey: string
+): Promise<CachedResult<T>> => {
+  const cached = readCache<T>(cacheKey);
+  const isRecent = cached && Date.now() - new Date(cached.cachedAt).getTime() < OFFLINE_MODE_MAX_AGE_MS;
+
+  if (cached && (!navigator.onLine || (readDataSettings().offlineMode && isRecent))) {
+    return { ...cached, fromCache: true };
+  }
+  if (!navigator.onLine) {
+    throw new Error(`${functionName} is unavailable offline and nothing is cached`);
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke(functionName, { body });
+    if (error) throw error;
+    return { ...writeCache(cacheKey, data as T), fromCache: false };
+  } catch (error) {
+    if (!cached) throw error;
+    console.error(`${functionName} failed, using cached response:`, error);
+    return { ...cached, fromCache: true };
+  }
+};
+
+// "18 Oct, 09:30" for the "saved data from" label
+export const formatCachedAt = (cachedAt: string): string =>
+  new Date(cachedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
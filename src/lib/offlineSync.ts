@@ -0,0 +1,236 @@
+// Changes made while offline, kept in an outbox in localStorage and replayed in order when the
+// device is back online: on the browser's `online` event, on a Background Sync event from the
+// service worker (public/sw.js), or when the farmer taps "sync now"
+import { supabase } from '@/integrations/supabase/client';
+import { UserCalendarEntry } from '@/lib/farmingCalendarData';
+import { RescheduledEntry } from '@/lib/cropScheduler';
+import { rescheduleCalendarEntries, updateCalendarEntryStatus } from '@/lib/calendarEntries';
+import {
+  CHAT_HISTORY_LIMIT,
+  appendConversationMessages,
+  buildConversationTitle,
+  createConversation,
+  fetchConversationMessages,
+} from '@/lib/chatConversations';
+import { streamChatAssistant } from '@/lib/chatStream';
+import { FarmerProfile, updateFarmerProfile } from '@/lib/farmerProfile';
+import { readDataSettings } from '@/lib/offlineCache';
+
+const OUTBOX_KEY = 'krishi-outbox';
+const SYNC_TAG = 'krishi-outbox';
+// Actions the server keeps rejecting are dropped after this many tries so they cannot block the rest
+const MAX_ATTEMPTS = 5;
+
+export interface QueuedChatMessage {
+  userId: string;
+  // Null for a chat started offline; every message of that chat shares the draft id
+  conversationId: string | null;
+  draftId: string;
+  message: string;
+  language: string;
+  farmerData?: unknown;
+}
+
+export type QueuedAction =
+  | { kind: 'chat-message'; payload: QueuedChatMessage }
+  | { kind: 'profile-update'; payload: { userId: string; profile: FarmerProfile } }
+  | {
+    kind: 'calendar-status';
+    payload: { entryId: string; status: UserCalendarEntry['status']; notes?: string; completedDate: string };
+  }
+  | { kind: 'calendar-reschedule'; payload: { updates: RescheduledEntry[] } };
+
+export type OutboxEntry = QueuedAction & {
+  id: string;
+  queuedAt: string;
+  attempts: number;
+};
+
+export interface SyncResult {
+  synced: OutboxEntry[];
+  failed: number;
+  remaining: number;
+}
+
+type OutboxListener = (pending: OutboxEntry[], result?: SyncResult) => void;
+
+const listeners = new Set<OutboxListener>();
+let activeSync: Promise<SyncResult> | null = null;
+
+const readOutbox = (): OutboxEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[], result?: SyncResult) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  listeners.forEach(listener => listener(entries, result));
+};
+
+export const getPendingActions = (): OutboxEntry[] => readOutbox();
+
+// Called with the pending actions whenever they change, and with the result after each sync
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// auth.getUser() asks the server; offline only the stored session can say who is signed in
+export const getSessionUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+const requestBackgroundSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    };
+    await registration.sync?.register(SYNC_TAG);
+  } catch (error) {
+    // Browsers without Background Sync fall back to the online event
+    console.error('Background sync registration failed:', error);
+  }
+};
+
+export const queueAction = (action: QueuedAction): OutboxEntry => {
+  const entry = {
+    ...action,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  } as OutboxEntry;
+  writeOutbox([...readOutbox(), entry]);
+  requestBackgroundSync();
+  return entry;
+};
+
+// The chat-assistant reply is fetched before anything is stored, so a retry never saves the
+// question twice. Chats started offline get their thread when the first message is sent. The
+// history is read from the thread at send time, so it includes replies synced earlier in this run.
+const sendChatMessage = async (payload: QueuedChatMessage, draftConversations: Map<string, string>) => {
+  let conversationId = payload.conversationId ?? draftConversations.get(payload.draftId);
+  const history = conversationId
+    ? (await fetchConversationMessages(conversationId))
+      .slice(-CHAT_HISTORY_LIMIT)
+      .map(({ role, content }) => ({ role, content }))
+    : [];
+
+  const { content } = await streamChatAssistant(
+    {
+      message: payload.message,
+      language: payload.language,
+      farmerData: payload.farmerData,
+      history,
+    },
+    { onText: () => {} }
+  );
+
+  if (!conversationId) {
+    const conversation = await createConversation(
+      payload.userId,
+      buildConversationTitle(payload.message),
+      payload.language
+    );
+    conversationId = conversation.id;
+    draftConversations.set(payload.draftId, conversationId);
+  }
+  payload.conversationId = conversationId;
+
+  await appendConversationMessages(payload.userId, conversationId, [
+    { role: 'user', content: payload.message },
+    { role: 'assistant', content },
+  ]);
+};
+
+const runAction = async (entry: OutboxEntry, draftConversations: Map<string, string>): Promise<void> => {
+  switch (entry.kind) {
+    case 'chat-message':
+      return sendChatMessage(entry.payload, draftConversations);
+    case 'profile-update':
+      return updateFarmerProfile(entry.payload.userId, entry.payload.profile);
+    case 'calendar-status': {
+      const { entryId, status, notes, completedDate } = entry.payload;
+      await updateCalendarEntryStatus(entryId, status, notes, new Date(completedDate));
+      return;
+    }
+    case 'calendar-reschedule':
+      return rescheduleCalendarEntries(entry.payload.updates);
+  }
+};
+
+const syncOutbox = async (): Promise<SyncResult> => {
+  const pending = readOutbox();
+  const synced: OutboxEntry[] = [];
+  const kept: OutboxEntry[] = [];
+  const draftConversations = new Map<string, string>();
+  let failed = 0;
+
+  for (const [index, entry] of pending.entries()) {
+    // Losing the connection part way through leaves the rest for the next sync, in order
+    if (!navigator.onLine) {
+      kept.push(...pending.slice(index));
+      break;
+    }
+    try {
+      await runAction(entry, draftConversations);
+      synced.push(entry);
+    } catch (error) {
+      console.error(`Offline ${entry.kind} failed to sync:`, error);
+      failed++;
+      if (entry.attempts + 1 < MAX_ATTEMPTS) {
+        kept.push({ ...entry, attempts: entry.attempts + 1 });
+      }
+    }
+  }
+
+  // Actions queued while this sync was running were not in `pending` and must be kept. Messages
+  // still waiting in a chat that now has a thread go to that thread.
+  const queuedMeanwhile = readOutbox().filter(entry => !pending.some(p => p.id === entry.id));
+  const remaining = [...kept, ...queuedMeanwhile].map(entry =>
+    entry.kind === 'chat-message' && !entry.payload.conversationId && draftConversations.has(entry.payload.draftId)
+      ? { ...entry, payload: { ...entry.payload, conversationId: draftConversations.get(entry.payload.draftId)! } }
+      : entry
+  );
+  const result = { synced, failed, remaining: remaining.length };
+  writeOutbox(remaining, result);
+  return result;
+};
+
+// Replay the outbox; concurrent calls share one run
+export const flushOutbox = (): Promise<SyncResult> => {
+  if (!activeSync) {
+    activeSync = syncOutbox().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+};
+
+// Started once from main.tsx. Automatic syncing follows the "auto sync" setting; with it off the
+// outbox waits for the farmer to sync by hand.
+export const startBackgroundSync = () => {
+  const syncIfAllowed = () => {
+    if (navigator.onLine && readDataSettings().autoSync && readOutbox().length > 0) {
+      flushOutbox();
+    }
+  };
+
+  window.addEventListener('online', syncIfAllowed);
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      if (event.data?.type === 'sync-outbox') syncIfAllowed();
+    });
+  }
+  syncIfAllowed();
+};
+
+export const clearOutbox = () => {
+  writeOutbox([]);
+};
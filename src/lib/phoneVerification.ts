@@ -0,0 +1,27 @@
+// Confirming the phone on the farmer's profile through the verify-phone function, which SMS and
+// voice alerts need before they can be turned on
+import { supabase } from '@/integrations/supabase/client';
+
+export type PhoneVerificationIssue = 'invalid-phone' | 'too-soon' | 'daily-limit' | 'expired' | 'wrong-code';
+
+export interface PhoneVerificationResult {
+  verified: boolean;
+  issue?: PhoneVerificationIssue;
+}
+
+const invokeVerifyPhone = async (body: Record<string, unknown>): Promise<PhoneVerificationResult> => {
+  const { data, error } = await supabase.functions.invoke('verify-phone', { body });
+  if (error) {
+    // Refusals the farmer can act on come back as 4xx responses with a reason
+    const details = await error.context?.json?.().catch(() => null);
+    if (details?.reason) return { verified: false, issue: details.reason as PhoneVerificationIssue };
+    throw error;
+  }
+  return { verified: data?.verified === true };
+};
+
+export const fetchPhoneVerificationStatus = () => invokeVerifyPhone({ action: 'status' });
+
+export const sendPhoneVerificationCode = (language: string) => invokeVerifyPhone({ action: 'send', language });
+
+export const confirmPhoneVerificationCode = (code: string) => invokeVerifyPhone({ action: 'confirm', code });
@@ -0,0 +1,139 @@
+// Persistence helpers for the farmer's plots (farm_plots)
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type AreaUnit = 'acres' | 'hectares';
+export type SoilType = 'red' | 'black' | 'alluvial' | 'sandy';
+export type IrrigationSource = 'rainfed' | 'canal' | 'borewell' | 'open_well' | 'tank' | 'river';
+
+// farm_plots.area keeps four decimals so nursery beds and kitchen gardens do not round to zero
+export const PLOT_AREA_DECIMALS = 4;
+
+// GeoJSON Polygon; positions are [longitude, latitude] and the ring is closed
+export interface PlotBoundary {
+  type: 'Polygon';
+  coordinates: Array<Array<[number, number]>>;
+}
+
+export interface FarmPlot {
+  id: string;
+  name: string;
+  area: number;
+  areaUnit: AreaUnit;
+  soilType?: SoilType;
+  irrigationSource?: IrrigationSource;
+  currentCrop?: string;
+  sowingDate?: string; // YYYY-MM-DD
+  boundary?: PlotBoundary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlotInput = Omit<FarmPlot, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const SOIL_TYPES: SoilType[] = ['red', 'black', 'alluvial', 'sandy'];
+export const IRRIGATION_SOURCES: IrrigationSource[] = ['rainfed', 'canal', 'borewell', 'open_well', 'tank', 'river'];
+
+// Translation keys for the option labels
+export const SOIL_LABEL_KEYS: Record<SoilType, string> = {
+  red: 'plots.soilRed',
+  black: 'plots.soilBlack',
+  alluvial: 'plots.soilAlluvial',
+  sandy: 'plots.soilSandy',
+};
+
+export const IRRIGATION_SOURCE_LABEL_KEYS: Record<IrrigationSource, string> = {
+  rainfed: 'plots.sourceRainfed',
+  canal: 'plots.sourceCanal',
+  borewell: 'plots.sourceBorewell',
+  open_well: 'plots.sourceOpenWell',
+  tank: 'plots.sourceTank',
+  river: 'plots.sourceRiver',
+};
+
+const HECTARES_PER_ACRE = 0.404686;
+
+export const toAcres = (area: number, unit: AreaUnit): number =>
+  unit === 'hectares' ? area / HECTARES_PER_ACRE : area;
+
+export const convertArea = (area: number, from: AreaUnit, to: AreaUnit): number => {
+  if (from === to) return area;
+  return to === 'hectares' ? area * HECTARES_PER_ACRE : area / HECTARES_PER_ACRE;
+};
+
+// Total farm area in the requested unit, rounded to two decimals
+export const getTotalArea = (plots: FarmPlot[], unit: AreaUnit): number =>
+  Math.round(plots.reduce((sum, plot) => sum + convertArea(plot.area, plot.areaUnit, unit), 0) * 100) / 100;
+
+// Crops currently standing on any plot, without duplicates
+export const getPlotCrops = (plots: FarmPlot[]): string[] =>
+  [...new Set(plots.map(plot => plot.currentCrop).filter((crop): crop is string => Boolean(crop)))];
+
+const mapPlotRow = (row: Tables<'farm_plots'>): FarmPlot => ({
+  id: row.id,
+  name: row.name,
+  area: Number(row.area),
+  areaUnit: row.area_unit as AreaUnit,
+  soilType: (row.soil_type as SoilType) ?? undefined,
+  irrigationSource: (row.irrigation_source as IrrigationSource) ?? undefined,
+  currentCrop: row.current_crop ?? undefined,
+  sowingDate: row.sowing_date ?? undefined,
+  boundary: (row.boundary as unknown as PlotBoundary) ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toPlotColumns = (plot: Partial<PlotInput>) => ({
+  ...(plot.name !== undefined && { name: plot.name }),
+  ...(plot.area !== undefined && { area: plot.area }),
+  ...(plot.areaUnit !== undefined && { area_unit: plot.areaUnit }),
+  ...('soilType' in plot && { soil_type: plot.soilType ?? null }),
+  ...('irrigationSource' in plot && { irrigation_source: plot.irrigationSource ?? null }),
+  ...('currentCrop' in plot && { current_crop: plot.currentCrop ?? null }),
+  ...('sowingDate' in plot && { sowing_date: plot.sowingDate ?? null }),
+  ...('boundary' in plot && { boundary: (plot.boundary ?? null) as unknown as Json }),
+});
+
+export const fetchPlots = async (userId: string): Promise<FarmPlot[]> => {
+  const { data, error } = await supabase
+    .from('farm_plots')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapPlotRow);
+};
+
+export const createPlot = async (userId: string, plot: PlotInput): Promise<FarmPlot> => {
+  const { data, error } = await supabase
+    .from('farm_plots')
+    .insert({ user_id: userId, name: plot.name, area: plot.area, ...toPlotColumns(plot) })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapPlotRow(data);
+};
+
+export const updatePlot = async (plotId: string, changes: Partial<PlotInput>): Promise<FarmPlot> => {
+  const { data, error } = await supabase
+    .from('farm_plots')
+    .update(toPlotColumns(changes))
+    .eq('id', plotId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapPlotRow(data);
+};
+
+// Calendar entries for the plot are removed by the ON DELETE CASCADE on user_calendar_entries
+export const deletePlot = async (plotId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('farm_plots')
+    .delete()
+    .eq('id', plotId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,90 @@
+// Pump run time, energy and cost for a volume of irrigation water. The pump set's flow follows
+// from its power and the total head (lift plus the pressure the method needs at the field), so
+// drip saves water but has to be pressurised, while flood needs no pressure but far more water.
+import type { CropData } from './cropData';
+import type { IrrigationMethod } from './irrigationEvents';
+import { IRRIGATION_METHODS, depthToVolumeLitres } from './irrigationEvents';
+
+export type PowerSupply = 'electric' | 'diesel';
+
+export interface PumpSetup {
+  horsepower: number;
+  supply: PowerSupply;
+  tariff: number; // ₹ per kWh, or ₹ per litre of diesel
+  headM: number; // lift from the water level to the outlet
+}
+
+export interface PumpingEstimate {
+  flowRateLpm: number;
+  hours: number;
+  energyKwh: number;
+  dieselLitres: number; // 0 for electric pump sets
+  cost: number; // ₹
+}
+
+export interface MethodOperatingCost extends PumpingEstimate {
+  method: IrrigationMethod;
+  efficiency: number; // %
+  volumeLitres: number;
+}
+
+const KW_PER_HP = 0.746;
+// Wire-to-water efficiency of a typical farm pump set
+const PUMP_SET_EFFICIENCY = 0.4;
+// Fuel use of farm diesel engines at their usual part load
+const DIESEL_LITRES_PER_HP_HOUR = 0.25;
+const GRAVITY = 9.81;
+const MIN_HEAD_M = 1;
+
+// Operating pressure at the field, as head of water
+export const METHOD_PRESSURE_HEAD_M: Record<IrrigationMethod, number> = {
+  drip: 10,
+  sprinkler: 25,
+  flood: 0,
+};
+
+export const DEFAULT_TARIFFS: Record<PowerSupply, number> = {
+  electric: 6, // ₹/kWh, agricultural connection
+  diesel: 90, // ₹/litre
+};
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const getFlowRateLpm = (horsepower: number, headM: number): number => {
+  const flowM3PerSecond = (PUMP_SET_EFFICIENCY * horsepower * KW_PER_HP) / (GRAVITY * Math.max(MIN_HEAD_M, headM));
+  return Math.round(flowM3PerSecond * 60000);
+};
+
+export const estimatePumping = (volumeLitres: number, setup: PumpSetup, extraHeadM = 0): PumpingEstimate => {
+  const flowRateLpm = getFlowRateLpm(setup.horsepower, setup.headM + extraHeadM);
+  const hours = flowRateLpm > 0 ? volumeLitres / flowRateLpm / 60 : 0;
+  const energyKwh = setup.horsepower * KW_PER_HP * hours;
+  const dieselLitres = setup.supply === 'diesel' ? setup.horsepower * hours * DIESEL_LITRES_PER_HP_HOUR : 0;
+  const cost = setup.supply === 'diesel' ? dieselLitres * setup.tariff : energyKwh * setup.tariff;
+
+  return {
+    flowRateLpm,
+    hours: round(hours),
+    energyKwh: round(energyKwh),
+    dieselLitres: round(dieselLitres),
+    cost: Math.round(cost),
+  };
+};
+
+// Season operating cost of each method for the same water reaching the roots
+export const compareMethodCosts = (
+  netMm: number,
+  areaHectares: number,
+  crop: CropData,
+  setup: PumpSetup
+): MethodOperatingCost[] =>
+  IRRIGATION_METHODS.map(method => {
+    const efficiency = crop.irrigationMethods[method].efficiency;
+    const volumeLitres = depthToVolumeLitres(netMm / (efficiency / 100), areaHectares);
+    return {
+      method,
+      efficiency,
+      volumeLitres,
+      ...estimatePumping(volumeLitres, setup, METHOD_PRESSURE_HEAD_M[method]),
+    };
+  });
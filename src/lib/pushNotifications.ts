@@ -0,0 +1,90 @@
+// Web Push on this device: the service worker (public/sw.js) and the browser's push subscription,
+// stored in push_subscriptions so the send-push-notifications function can reach it
+import { supabase } from '@/integrations/supabase/client';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export type PushSetupResult = 'subscribed' | 'unsupported' | 'denied' | 'not-configured';
+
+// Whether this device is reached by push, as opposed to the farmer's choice in
+// notification_preferences, which covers all their devices
+export type DevicePushState = 'subscribed' | 'not-subscribed' | 'unsupported' | 'denied';
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+};
+
+// VAPID public keys are URL-safe base64; the Push API wants the raw bytes
+const urlBase64ToUint8Array = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+export const getDevicePushState = async (): Promise<DevicePushState> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription ? 'subscribed' : 'not-subscribed';
+};
+
+export const subscribeToPush = async (userId: string): Promise<PushSetupResult> => {
+  if (!isPushSupported()) return 'unsupported';
+
+  const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  if (!vapidPublicKey) return 'not-configured';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return 'denied';
+
+  await registerServiceWorker();
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) throw new Error('Push subscription has no keys');
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      user_id: userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: navigator.userAgent,
+    }, { onConflict: 'endpoint' });
+
+  if (error) throw error;
+  return 'subscribed';
+};
+
+export const unsubscribeFromPush = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
@@ -0,0 +1,231 @@
+// Soil-test-based NPK doses. For crops with soil-test-crop-response (STCR) equations the season's
+// dose of each nutrient with a soil reading is worked out for the farmer's yield target; other
+// crops and nutrients follow the Soil Health Card rating method, which rates each nutrient against
+// the standard fertility limits and raises the general dose for low soils and cuts it for high
+// ones. pH, salinity, organic carbon and micronutrient readings produce corrective advice.
+import type { SoilTestValues } from './soilReport';
+
+export type FertilityRating = 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
+
+export type Npk = { N: number; P: number; K: number };
+
+export type SoilAdvisoryKey =
+  | 'acidic'
+  | 'alkaline'
+  | 'saline'
+  | 'lowOrganicCarbon'
+  | 'sulphur'
+  | 'zinc'
+  | 'iron'
+  | 'copper'
+  | 'manganese'
+  | 'boron';
+
+export interface SoilAdvisory {
+  key: SoilAdvisoryKey;
+  value: number;
+  severity: 'warning' | 'info';
+}
+
+export type DoseMethod = 'stcr' | 'rating';
+
+// Targeted-yield equations from the AICRP on STCR: F = a·T − b·S, where T is the yield target in
+// q/ha, S the soil test value in kg/ha (KMnO4-N, Olsen P, NH4OAc K) and F the season's dose in kg/ha
+// of N, P2O5 and K2O. Coefficients are fitted per soil and region, so each set only holds for the
+// region it was fitted in and for targets within the yields of the trials.
+export interface StcrEquation {
+  region: string;
+  yieldRange: [number, number]; // q/ha
+  typicalYield: number; // q/ha
+  coefficients: Record<keyof Npk, [number, number]>; // [a, b]
+}
+
+export const STCR_EQUATIONS: Record<string, StcrEquation> = {
+  rice: {
+    region: 'Tamil Nadu',
+    yieldRange: [40, 80],
+    typicalYield: 60,
+    coefficients: { N: [4.25, 0.45], P: [1.96, 3.61], K: [2.22, 0.31] },
+  },
+  wheat: {
+    region: 'Punjab',
+    yieldRange: [35, 60],
+    typicalYield: 45,
+    coefficients: { N: [5.26, 0.44], P: [2.57, 4.34], K: [1.84, 0.22] },
+  },
+  maize: {
+    region: 'Tamil Nadu',
+    yieldRange: [50, 90],
+    typicalYield: 65,
+    coefficients: { N: [4.48, 0.43], P: [1.95, 3.92], K: [2.27, 0.29] },
+  },
+};
+
+export interface YieldTarget {
+  crop: string;
+  yield: number; // q/ha
+  generalDose: Npk; // the crop's season total per acre, which the STCR dose replaces
+}
+
+export interface SoilAssessment {
+  ratings: Partial<Record<keyof Npk, FertilityRating>>;
+  methods: Partial<Record<keyof Npk, DoseMethod>>;
+  // Season dose per acre from the STCR equations, for the nutrients they were used for
+  targetedDose: Partial<Npk>;
+  doseFactors: Npk;
+  // No nitrogen reading on the card, so the nitrogen rating comes from organic carbon
+  nitrogenFromOrganicCarbon: boolean;
+  advisories: SoilAdvisory[];
+}
+
+// Low / high limits for available nutrients in kg/ha (alkaline KMnO4-N, Olsen P, NH4OAc K)
+const NUTRIENT_LIMITS: Record<keyof Npk, [number, number]> = {
+  N: [280, 560],
+  P: [10, 25],
+  K: [108, 280],
+};
+
+// Organic carbon (%) limits, the usual stand-in for available nitrogen
+const ORGANIC_CARBON_LIMITS: [number, number] = [0.5, 0.75];
+
+// Share of the general recommended dose to apply for each rating
+const RATING_DOSE_FACTORS: Record<FertilityRating, number> = {
+  very_low: 1.5,
+  low: 1.25,
+  medium: 1,
+  high: 0.75,
+  very_high: 0.5,
+};
+
+// Critical limits below which the soil is deficient (S in ppm; DTPA Zn, Fe, Cu, Mn; hot-water B)
+const DEFICIENCY_LIMITS: Partial<Record<SoilAdvisoryKey, { parameter: keyof SoilTestValues; limit: number }>> = {
+  sulphur: { parameter: 'sulphur', limit: 10 },
+  zinc: { parameter: 'zinc', limit: 0.6 },
+  iron: { parameter: 'iron', limit: 4.5 },
+  copper: { parameter: 'copper', limit: 0.2 },
+  manganese: { parameter: 'manganese', limit: 2 },
+  boron: { parameter: 'boron', limit: 0.5 },
+};
+
+const ACIDIC_PH = 5.5;
+const ALKALINE_PH = 8.5;
+const SALINE_EC = 1; // dS/m; above 4 most crops lose yield
+const ACRES_PER_HECTARE = 2.471;
+
+export const rateValue = (value: number, [low, high]: [number, number]): FertilityRating => {
+  if (value < low / 2) return 'very_low';
+  if (value < low) return 'low';
+  if (value <= high) return 'medium';
+  if (value <= high * 1.5) return 'high';
+  return 'very_high';
+};
+
+export const getStcrEquation = (crop: string): StcrEquation | null => STCR_EQUATIONS[crop.toLowerCase()] ?? null;
+
+// Targets outside the fitted range are pulled back into it
+export const clampYieldTarget = (equation: StcrEquation, target: number): number =>
+  Math.min(Math.max(target, equation.yieldRange[0]), equation.yieldRange[1]);
+
+// Season dose in kg/ha for each nutrient with a soil reading; nitrogen rated from organic carbon has none
+export const stcrDose = (equation: StcrEquation, target: number, values: SoilTestValues): Partial<Npk> => {
+  const readings: Partial<Npk> = { N: values.nitrogen, P: values.phosphorus, K: values.potassium };
+  const yieldTarget = clampYieldTarget(equation, target);
+  const dose: Partial<Npk> = {};
+  (['N', 'P', 'K'] as const).forEach(nutrient => {
+    const reading = readings[nutrient];
+    if (reading === undefined) return;
+    const [a, b] = equation.coefficients[nutrient];
+    dose[nutrient] = Math.max(0, a * yieldTarget - b * reading);
+  });
+  return dose;
+};
+
+export const assessSoilTest = (values: SoilTestValues, target?: YieldTarget): SoilAssessment => {
+  const ratings: SoilAssessment['ratings'] = {};
+  let nitrogenFromOrganicCarbon = false;
+
+  if (values.nitrogen !== undefined) {
+    ratings.N = rateValue(values.nitrogen, NUTRIENT_LIMITS.N);
+  } else if (values.organicCarbon !== undefined) {
+    ratings.N = rateValue(values.organicCarbon, ORGANIC_CARBON_LIMITS);
+    nitrogenFromOrganicCarbon = true;
+  }
+  if (values.phosphorus !== undefined) ratings.P = rateValue(values.phosphorus, NUTRIENT_LIMITS.P);
+  if (values.potassium !== undefined) ratings.K = rateValue(values.potassium, NUTRIENT_LIMITS.K);
+
+  // Nutrients without a reading keep the general recommendation
+  const methods: SoilAssessment['methods'] = {};
+  const doseFactors: Npk = { N: 1, P: 1, K: 1 };
+  (['N', 'P', 'K'] as const).forEach(nutrient => {
+    const rating = ratings[nutrient];
+    if (!rating) return;
+    methods[nutrient] = 'rating';
+    doseFactors[nutrient] = RATING_DOSE_FACTORS[rating];
+  });
+
+  // The STCR dose replaces the season total, so each stage is scaled to keep the usual split
+  const targetedDose: Partial<Npk> = {};
+  const equation = target ? getStcrEquation(target.crop) : null;
+  if (target && equation) {
+    const dose = stcrDose(equation, target.yield, values);
+    (Object.entries(dose) as [keyof Npk, number][]).forEach(([nutrient, perHectare]) => {
+      if (target.generalDose[nutrient] <= 0) return;
+      const perAcre = Math.round(perHectare / ACRES_PER_HECTARE * 10) / 10;
+      targetedDose[nutrient] = perAcre;
+      methods[nutrient] = 'stcr';
+      doseFactors[nutrient] = perAcre / target.generalDose[nutrient];
+    });
+  }
+
+  const advisories: SoilAdvisory[] = [];
+  if (values.ph !== undefined && values.ph < ACIDIC_PH) {
+    advisories.push({ key: 'acidic', value: values.ph, severity: 'warning' });
+  }
+  if (values.ph !== undefined && values.ph > ALKALINE_PH) {
+    advisories.push({ key: 'alkaline', value: values.ph, severity: 'warning' });
+  }
+  if (values.ec !== undefined && values.ec > SALINE_EC) {
+    advisories.push({ key: 'saline', value: values.ec, severity: 'warning' });
+  }
+  if (values.organicCarbon !== undefined && values.organicCarbon < ORGANIC_CARBON_LIMITS[0]) {
+    advisories.push({ key: 'lowOrganicCarbon', value: values.organicCarbon, severity: 'info' });
+  }
+  (Object.entries(DEFICIENCY_LIMITS) as [SoilAdvisoryKey, { parameter: keyof SoilTestValues; limit: number }][])
+    .forEach(([key, { parameter, limit }]) => {
+      const value = values[parameter];
+      if (value !== undefined && value < limit) advisories.push({ key, value, severity: 'info' });
+    });
+
+  return { ratings, methods, targetedDose, doseFactors, nitrogenFromOrganicCarbon, advisories };
+};
+
+export const adjustNpk = (npk: Npk, assessment: SoilAssessment | null): Npk => {
+  if (!assessment) return npk;
+  return {
+    N: Math.round(npk.N * assessment.doseFactors.N * 10) / 10,
+    P: Math.round(npk.P * assessment.doseFactors.P * 10) / 10,
+    K: Math.round(npk.K * assessment.doseFactors.K * 10) / 10,
+  };
+};
+
+// Translation keys for ratings and advisories
+export const RATING_LABEL_KEYS: Record<FertilityRating, string> = {
+  very_low: 'soilTest.ratingVeryLow',
+  low: 'soilTest.ratingLow',
+  medium: 'soilTest.ratingMedium',
+  high: 'soilTest.ratingHigh',
+  very_high: 'soilTest.ratingVeryHigh',
+};
+
+export const ADVISORY_LABEL_KEYS: Record<SoilAdvisoryKey, string> = {
+  acidic: 'soilTest.adviceAcidic',
+  alkaline: 'soilTest.adviceAlkaline',
+  saline: 'soilTest.adviceSaline',
+  lowOrganicCarbon: 'soilTest.adviceLowOrganicCarbon',
+  sulphur: 'soilTest.adviceSulphur',
+  zinc: 'soilTest.adviceZinc',
+  iron: 'soilTest.adviceIron',
+  copper: 'soilTest.adviceCopper',
+  manganese: 'soilTest.adviceManganese',
+  boron: 'soilTest.adviceBoron',
+};
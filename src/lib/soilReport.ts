@@ -0,0 +1,7 @@
+// The soil report parser is shared with the soil-report-parse edge function
+export {
+  parseSoilReport,
+  type SoilParameter,
+  type SoilReportParse,
+  type SoilTestValues,
+} from '../../supabase/functions/_shared/soilReport.ts';
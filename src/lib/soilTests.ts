@@ -0,0 +1,103 @@
+// Persistence helpers for soil test results (soil_tests)
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { SoilTestValues } from './soilReport';
+
+export interface SoilTest {
+  id: string;
+  plotId?: string;
+  sampleDate: string; // YYYY-MM-DD
+  labName?: string;
+  cardNumber?: string;
+  source: 'manual' | 'upload';
+  values: SoilTestValues;
+  rawText?: string;
+  createdAt: string;
+}
+
+export type SoilTestInput = Omit<SoilTest, 'id' | 'createdAt'>;
+
+const toNumber = (value: number | null) => (value === null ? undefined : Number(value));
+
+const mapSoilTestRow = (row: Tables<'soil_tests'>): SoilTest => ({
+  id: row.id,
+  plotId: row.plot_id ?? undefined,
+  sampleDate: row.sample_date,
+  labName: row.lab_name ?? undefined,
+  cardNumber: row.card_number ?? undefined,
+  source: row.source as SoilTest['source'],
+  values: Object.fromEntries(Object.entries({
+    nitrogen: toNumber(row.nitrogen),
+    phosphorus: toNumber(row.phosphorus),
+    potassium: toNumber(row.potassium),
+    ph: toNumber(row.ph),
+    ec: toNumber(row.ec),
+    organicCarbon: toNumber(row.organic_carbon),
+    sulphur: toNumber(row.sulphur),
+    zinc: toNumber(row.zinc),
+    iron: toNumber(row.iron),
+    copper: toNumber(row.copper),
+    manganese: toNumber(row.manganese),
+    boron: toNumber(row.boron),
+  }).filter(([, value]) => value !== undefined)),
+  rawText: row.raw_text ?? undefined,
+  createdAt: row.created_at,
+});
+
+// Most recent test for a plot; without a plot, the most recent test on the farm
+export const getLatestSoilTest = (tests: SoilTest[], plotId?: string | null): SoilTest | null => {
+  const candidates = plotId ? tests.filter(test => test.plotId === plotId) : tests;
+  return [...candidates].sort((a, b) => b.sampleDate.localeCompare(a.sampleDate))[0] ?? null;
+};
+
+export const fetchSoilTests = async (userId: string): Promise<SoilTest[]> => {
+  const { data, error } = await supabase
+    .from('soil_tests')
+    .select('*')
+    .eq('user_id', userId)
+    .order('sample_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapSoilTestRow);
+};
+
+export const createSoilTest = async (userId: string, test: SoilTestInput): Promise<SoilTest> => {
+  const { values } = test;
+  const { data, error } = await supabase
+    .from('soil_tests')
+    .insert({
+      user_id: userId,
+      plot_id: test.plotId ?? null,
+      sample_date: test.sampleDate,
+      lab_name: test.labName ?? null,
+      card_number: test.cardNumber ?? null,
+      source: test.source,
+      nitrogen: values.nitrogen ?? null,
+      phosphorus: values.phosphorus ?? null,
+      potassium: values.potassium ?? null,
+      ph: values.ph ?? null,
+      ec: values.ec ?? null,
+      organic_carbon: values.organicCarbon ?? null,
+      sulphur: values.sulphur ?? null,
+      zinc: values.zinc ?? null,
+      iron: values.iron ?? null,
+      copper: values.copper ?? null,
+      manganese: values.manganese ?? null,
+      boron: values.boron ?? null,
+      raw_text: test.rawText ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapSoilTestRow(data);
+};
+
+export const deleteSoilTest = async (testId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('soil_tests')
+    .delete()
+    .eq('id', testId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,189 @@
+// Root-zone soil water balance per plot (FAO-56 chapter 8). Depletion below field capacity is
+// carried from the sowing date day by day: crop water use takes water out, rain and logged
+// irrigation put it back, and anything above field capacity drains away. Once depletion passes
+// the readily available water the crop is stressed and draws less than its full demand.
+import type { SoilType } from './plots';
+import { CropCoefficients, getEffectiveRainfall, getKc } from './irrigationScheduler';
+
+export interface SoilWaterProperties {
+  fieldCapacity: number; // m³/m³
+  wiltingPoint: number; // m³/m³
+}
+
+export interface RootingParameters {
+  maxRootDepthM: number;
+  depletionFraction: number; // share of available water the crop can use before stress (p)
+}
+
+export interface BalanceInputDay {
+  date: string; // YYYY-MM-DD
+  et0: number; // mm
+  rainfall: number; // mm
+}
+
+export type MoistureLevel = 'Saturated' | 'Wet' | 'Optimal' | 'Dry' | 'Very Dry';
+
+export interface WaterBalanceDay {
+  date: string;
+  rootDepthM: number;
+  taw: number; // total available water in the root zone, mm
+  raw: number; // readily available water, mm
+  depletion: number; // mm below field capacity at the end of the day
+  rainfall: number;
+  irrigation: number;
+  etc: number; // actual crop water use after any stress, mm
+  ks: number; // water stress coefficient, 1 = no stress
+  drainage: number; // water lost below the root zone, mm
+  level: MoistureLevel;
+}
+
+export interface SoilWaterOutlook {
+  current: WaterBalanceDay | null;
+  forecast: WaterBalanceDay[];
+  stressDate: string | null; // first forecast day past the readily available water
+  refillMm: number; // irrigation that brings the root zone back to field capacity now
+}
+
+// Typical values for the soil groups used on plots; black cotton soils hold the most water
+export const SOIL_WATER: Record<SoilType, SoilWaterProperties> = {
+  red: { fieldCapacity: 0.22, wiltingPoint: 0.1 },
+  black: { fieldCapacity: 0.42, wiltingPoint: 0.22 },
+  alluvial: { fieldCapacity: 0.3, wiltingPoint: 0.14 },
+  sandy: { fieldCapacity: 0.12, wiltingPoint: 0.05 },
+};
+
+const DEFAULT_SOIL_WATER: SoilWaterProperties = SOIL_WATER.alluvial;
+
+// FAO-56 Table 22, middle of the rooting depth range
+export const CROP_ROOTING: Record<string, RootingParameters> = {
+  rice: { maxRootDepthM: 0.6, depletionFraction: 0.2 },
+  wheat: { maxRootDepthM: 1.25, depletionFraction: 0.55 },
+  cotton: { maxRootDepthM: 1.35, depletionFraction: 0.65 },
+  sugarcane: { maxRootDepthM: 1.6, depletionFraction: 0.65 },
+  maize: { maxRootDepthM: 1.35, depletionFraction: 0.55 },
+  soybean: { maxRootDepthM: 0.95, depletionFraction: 0.5 },
+  groundnut: { maxRootDepthM: 0.75, depletionFraction: 0.5 },
+  sunflower: { maxRootDepthM: 1.15, depletionFraction: 0.45 },
+  onion: { maxRootDepthM: 0.45, depletionFraction: 0.3 },
+  potato: { maxRootDepthM: 0.5, depletionFraction: 0.35 },
+  tomato: { maxRootDepthM: 1.1, depletionFraction: 0.4 },
+  chili: { maxRootDepthM: 0.75, depletionFraction: 0.3 },
+  turmeric: { maxRootDepthM: 0.5, depletionFraction: 0.4 },
+  coriander: { maxRootDepthM: 0.4, depletionFraction: 0.35 },
+  cumin: { maxRootDepthM: 0.5, depletionFraction: 0.45 },
+};
+
+const DEFAULT_ROOTING: RootingParameters = { maxRootDepthM: 1, depletionFraction: 0.5 };
+const INITIAL_ROOT_DEPTH_M = 0.15;
+// Drainage this large in a day means the field was flooded beyond what the soil could hold
+const SATURATION_DRAINAGE_MM = 10;
+
+export const getSoilWater = (soilType?: SoilType | null): SoilWaterProperties =>
+  (soilType && SOIL_WATER[soilType]) || DEFAULT_SOIL_WATER;
+
+export const getCropRooting = (cropName: string): RootingParameters =>
+  CROP_ROOTING[cropName.toLowerCase()] ?? DEFAULT_ROOTING;
+
+// Roots grow from seed depth to full depth by the start of the mid-season stage
+export const getRootDepth = (coefficients: CropCoefficients, rooting: RootingParameters, daysAfterSowing: number): number => {
+  const [ini, dev] = coefficients.stageDays;
+  const progress = Math.max(0, Math.min(1, daysAfterSowing / (ini + dev)));
+  return INITIAL_ROOT_DEPTH_M + progress * (rooting.maxRootDepthM - INITIAL_ROOT_DEPTH_M);
+};
+
+export const getMoistureLevel = (depletion: number, taw: number, raw: number, drainage: number): MoistureLevel => {
+  if (drainage >= SATURATION_DRAINAGE_MM) return 'Saturated';
+  if (depletion <= 0.1 * taw) return 'Wet';
+  if (depletion <= raw) return 'Optimal';
+  if (depletion <= raw + (taw - raw) / 2) return 'Dry';
+  return 'Very Dry';
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Run the balance over consecutive days inside the season. The root zone starts at field
+// capacity on the first day unless a starting depletion is given.
+export const runWaterBalance = (
+  days: BalanceInputDay[],
+  options: {
+    coefficients: CropCoefficients;
+    rooting: RootingParameters;
+    soil: SoilWaterProperties;
+    sowingDate: string;
+    irrigation?: { date: string; depthMm: number }[];
+    initialDepletion?: number;
+  }
+): WaterBalanceDay[] => {
+  const { coefficients, rooting, soil, sowingDate, irrigation = [] } = options;
+  let depletion = options.initialDepletion ?? 0;
+  const result: WaterBalanceDay[] = [];
+
+  for (const day of days) {
+    const daysAfterSowing = daysBetween(sowingDate, day.date);
+    const crop = getKc(coefficients, daysAfterSowing);
+    if (!crop) continue;
+
+    const rootDepthM = getRootDepth(coefficients, rooting, daysAfterSowing);
+    const taw = 1000 * (soil.fieldCapacity - soil.wiltingPoint) * rootDepthM;
+    const raw = rooting.depletionFraction * taw;
+    const applied = irrigation
+      .filter(event => event.date === day.date)
+      .reduce((sum, event) => sum + event.depthMm, 0);
+
+    // Stress is judged on the water left at the start of the day
+    const start = Math.min(depletion, taw);
+    const ks = start > raw ? Math.max(0, (taw - start) / ((1 - rooting.depletionFraction) * taw)) : 1;
+    const etc = ks * crop.kc * day.et0;
+
+    let next = start - getEffectiveRainfall(day.rainfall) - applied + etc;
+    const drainage = next < 0 ? -next : 0;
+    next = Math.min(taw, Math.max(0, next));
+    depletion = next;
+
+    result.push({
+      date: day.date,
+      rootDepthM: round(rootDepthM, 2),
+      taw: round(taw),
+      raw: round(raw),
+      depletion: round(next),
+      rainfall: day.rainfall,
+      irrigation: applied,
+      etc: round(etc),
+      ks: round(ks, 2),
+      drainage: round(drainage),
+      level: getMoistureLevel(next, taw, raw, drainage),
+    });
+  }
+
+  return result;
+};
+
+// Where the plot stands today and, continuing with the forecast, when the crop will start to
+// suffer if it is not irrigated
+export const getSoilWaterOutlook = (
+  history: BalanceInputDay[],
+  forecast: BalanceInputDay[],
+  options: Parameters<typeof runWaterBalance>[1]
+): SoilWaterOutlook => {
+  const past = runWaterBalance(history, options);
+  const current = past[past.length - 1] ?? null;
+  const lastDate = history[history.length - 1]?.date ?? '';
+
+  const projected = runWaterBalance(
+    forecast.filter(day => day.date > lastDate),
+    { ...options, irrigation: [], initialDepletion: current?.depletion ?? options.initialDepletion }
+  );
+  const stressDay = current && current.depletion > current.raw
+    ? current
+    : projected.find(day => day.depletion > day.raw);
+
+  return {
+    current,
+    forecast: projected,
+    stressDate: stressDay?.date ?? null,
+    refillMm: current ? round(current.depletion) : 0,
+  };
+};
@@ -1,3 +1,12 @@
+import { useCallback } from 'react';
+import {
+  CROP_NAMES,
+  STATE_KEYS,
+  STATE_NAMES,
+  type CropKey,
+  type StateKey,
+} from '../../supabase/functions/_shared/farmNames.ts';
+
 export interface Translations {
   // Common
   common: {
@@ -23,6 +32,11 @@ export interface Translations {
     notifications: string;
     help: string;
     about: string;
+    savedDataFrom: string;
+    pendingChanges: string;
+    syncNow: string;
+    changesSynced: string;
+    savedOffline: string;
   };
   
   // Navigation
@@ -71,6 +85,15 @@ export interface Translations {
     offline: string;
     error: string;
     retry: string;
+    conversations: string;
+    newConversation: string;
+    noConversations: string;
+    renameConversation: string;
+    deleteConversation: string;
+    deleteConversationConfirm: string;
+    conversationDeleted: string;
+    queuedOffline: string;
+    queuedAnswered: string;
   };
   
   // Weather
@@ -94,6 +117,9 @@ export interface Translations {
     today: string;
     tomorrow: string;
     thisWeek: string;
+    dailyForecast: string;
+    minMax: string;
+    rainChance: string;
   };
   
   // Market Prices
@@ -113,6 +139,22 @@ export interface Translations {
     stable: string;
     showingPricesFor: string;
     tipAboveMsp: string;
+    sevenDayChange: string;
+    priceHistory: string;
+    whereToSell: string;
+    quantityQuintals: string;
+    transportCost: string;
+    netPrice: string;
+    noNearbyMandis: string;
+    confidence: string;
+    confidenceHigh: string;
+    confidenceMedium: string;
+    confidenceLow: string;
+    backtestError: string;
+    predictionRange80: string;
+    methodSeasonalSmoothing: string;
+    methodSmoothing: string;
+    changeSince: string;
   };
   
   // Quick Actions
@@ -130,6 +172,8 @@ export interface Translations {
     waterManagement: string;
     sowingHarvest: string;
     imageAnalysis: string;
+    myPlots: string;
+    plotsDescription: string;
   };
   
   // Fertilizer Advice
@@ -154,6 +198,30 @@ export interface Translations {
     acres: string;
     soilCharacteristics: string;
     recommendation: string;
+    perKg: string;
+    toBuy: string;
+    notNeeded: string;
+    bags: string;
+    cheapestMix: string;
+    cheapestMixDescription: string;
+    notSupplied: string;
+    seasonPurchase: string;
+    estimatedCost: string;
+    editPrices: string;
+    editPricesDescription: string;
+    pricePerBag: string;
+    bagSize: string;
+    effectiveFrom: string;
+    priceSourceOwn: string;
+    priceSourceState: string;
+    priceSourceNational: string;
+    builtInPrice: string;
+    subsidised: string;
+    saveMyPrice: string;
+    useCataloguePrice: string;
+    priceSaved: string;
+    invalidPrice: string;
+    pricesAsOf: string;
   };
   
   // Irrigation Guide
@@ -179,6 +247,228 @@ export interface Translations {
     recommended: string;
     criticalPeriod: string;
     weatherAdjustment: string;
+    schedule: string;
+    scheduleDescription: string;
+    sowingDate: string;
+    areaAcres: string;
+    irrigationMethod: string;
+    refreshForecast: string;
+    needLocation: string;
+    forecastUnavailable: string;
+    stageInitial: string;
+    stageDevelopment: string;
+    stageMidSeason: string;
+    stageLateSeason: string;
+    daysAfterSowing: string;
+    outsideSeason: string;
+    noIrrigationNeeded: string;
+    cropWaterUse: string;
+    rain: string;
+    netIrrigation: string;
+    totalWater: string;
+    scheduleNote: string;
+    balanceDescription: string;
+    balanceUnavailable: string;
+    availableWater: string;
+    rootDepth: string;
+    stressNow: string;
+    stressExpected: string;
+    refillWith: string;
+    noStressExpected: string;
+    logIrrigation: string;
+    logIrrigationHelp: string;
+    irrigationDate: string;
+    waterApplied: string;
+    notes: string;
+    needAmount: string;
+    irrigationLogged: string;
+    recentIrrigation: string;
+    measureBy: string;
+    measureByPump: string;
+    measureByDepth: string;
+    runHours: string;
+    flowRate: string;
+    waterUsage: string;
+    waterUsageDescription: string;
+    selectPlotForLog: string;
+    irrigations: string;
+    waterPumped: string;
+    reachedRoots: string;
+    seasonRequirement: string;
+    requirementMet: string;
+    byMethod: string;
+    methodNotRecorded: string;
+    switchingMethods: string;
+    switchingMethodsHelp: string;
+    saves: string;
+    extra: string;
+    irrigationLog: string;
+    noIrrigationLogged: string;
+    pumpCost: string;
+    pumpCostDescription: string;
+    pumpHp: string;
+    powerSupply: string;
+    electric: string;
+    diesel: string;
+    tariffPerKwh: string;
+    dieselPrice: string;
+    pumpHead: string;
+    plannedVolume: string;
+    perIrrigation: string;
+    perSeason: string;
+    runTime: string;
+    energy: string;
+    operatingCostByMethod: string;
+    lowestCost: string;
+    pumpCostNote: string;
+  };
+
+  // Farming Calendar
+  calendar: {
+    title: string;
+    description: string;
+    monthView: string;
+    weekView: string;
+    sowingDate: string;
+    generateSchedule: string;
+    regenerateSchedule: string;
+    scheduleSaved: string;
+    noCalendarCrops: string;
+    noActivities: string;
+    typicalActivities: string;
+    status: string;
+    pending: string;
+    completed: string;
+    cancelled: string;
+    markCompleted: string;
+    markCancelled: string;
+    markPending: string;
+    notes: string;
+    notesPlaceholder: string;
+    entryUpdated: string;
+    inputs: string;
+    scheduledFor: string;
+    today: string;
+    dateType: string;
+    transplantingDate: string;
+    completedOn: string;
+    activitiesRescheduled: string;
+    checkWeather: string;
+    weatherRescheduled: string;
+    noWeatherChanges: string;
+    weatherAdjusted: string;
+    originallyScheduled: string;
+    rainForecast: string;
+    heatForecast: string;
+  };
+
+  // Farm Plots
+  plots: {
+    title: string;
+    description: string;
+    addPlot: string;
+    editPlot: string;
+    deletePlot: string;
+    deletePlotConfirm: string;
+    plotName: string;
+    plotNamePlaceholder: string;
+    area: string;
+    soilType: string;
+    irrigationSource: string;
+    currentCrop: string;
+    sowingDate: string;
+    noCrop: string;
+    noPlots: string;
+    selectPlot: string;
+    allCrops: string;
+    totalArea: string;
+    plotSaved: string;
+    plotDeleted: string;
+    invalidPlot: string;
+    soilRed: string;
+    soilBlack: string;
+    soilAlluvial: string;
+    soilSandy: string;
+    sourceRainfed: string;
+    sourceCanal: string;
+    sourceBorewell: string;
+    sourceOpenWell: string;
+    sourceTank: string;
+    sourceRiver: string;
+    drawBoundary: string;
+    boundaryHelp: string;
+    measureOnMap: string;
+    walkBoundary: string;
+    stopWalking: string;
+    undoPoint: string;
+    clearBoundary: string;
+    gpsAccuracy: string;
+    measuredArea: string;
+    bighaOf: string;
+    bighaDefault: string;
+    useBoundary: string;
+    boundaryNeedsPoints: string;
+    locationUnavailable: string;
+    boundaryMapped: string;
+  };
+
+  // Soil Tests
+  soilTest: {
+    title: string;
+    addSoilTest: string;
+    selectSoilTest: string;
+    noSoilTest: string;
+    sampleDate: string;
+    labName: string;
+    cardNumber: string;
+    uploadReport: string;
+    uploadHelp: string;
+    readingReport: string;
+    valuesRead: string;
+    nothingRead: string;
+    unsupportedFile: string;
+    needValues: string;
+    saved: string;
+    deleted: string;
+    deleteSoilTest: string;
+    macronutrients: string;
+    otherParameters: string;
+    micronutrients: string;
+    nitrogen: string;
+    phosphorus: string;
+    potassium: string;
+    ph: string;
+    ec: string;
+    organicCarbon: string;
+    sulphur: string;
+    zinc: string;
+    iron: string;
+    copper: string;
+    manganese: string;
+    boron: string;
+    soilStatus: string;
+    adjustedDose: string;
+    generalDose: string;
+    nitrogenFromOc: string;
+    ratingVeryLow: string;
+    ratingLow: string;
+    ratingMedium: string;
+    ratingHigh: string;
+    ratingVeryHigh: string;
+    adviceAcidic: string;
+    adviceAlkaline: string;
+    adviceSaline: string;
+    adviceLowOrganicCarbon: string;
+    adviceSulphur: string;
+    adviceZinc: string;
+    adviceIron: string;
+    adviceCopper: string;
+    adviceManganese: string;
+    adviceBoron: string;
+    targetedDose: string;
+    yieldTarget: string;
+    stcrEquations: string;
+    methodStcr: string;
   };
 
   // Crop Stages
@@ -193,55 +483,10 @@ export interface Translations {
   };
 
   // States
-  states: {
-    tamilNadu: string;
-    delhi: string;
-    punjab: string;
-    gujarat: string;
-    up: string;
-    mp: string;
-    maharashtra: string;
-    karnataka: string;
-    andhraPradesh: string;
-    telangana: string;
-    westBengal: string;
-    bihar: string;
-    rajasthan: string;
-    haryana: string;
-    uttarakhand: string;
-    himachalPradesh: string;
-    jammuKashmir: string;
-    assam: string;
-    odisha: string;
-    chhattisgarh: string;
-    jharkhand: string;
-    uttarPradesh: string;
-    madhyaPradesh: string;
-  };
+  states: Record<StateKey, string>;
 
   // Crops
-  crops: {
-    rice: string;
-    wheat: string;
-    cotton: string;
-    sugarcane: string;
-    soybean: string;
-    groundnut: string;
-    maize: string;
-    bajra: string;
-    jowar: string;
-    ragi: string;
-    gram: string;
-    tur: string;
-    moong: string;
-    urad: string;
-    masoor: string;
-    mustard: string;
-    sunflower: string;
-    sesame: string;
-    castor: string;
-    jute: string;
-  };
+  crops: Record<CropKey, string>;
 
   // Fertilizers
   fertilizers: {
@@ -440,6 +685,29 @@ export interface Translations {
     saveSettings: string;
     resetSettings: string;
     settingsSaved: string;
+    quietHours: string;
+    quietHoursDescription: string;
+    quietHoursFrom: string;
+    quietHoursTo: string;
+    pushDenied: string;
+    pushUnsupported: string;
+    smsAlerts: string;
+    smsAlertsDescription: string;
+    voiceCalls: string;
+    voiceCallsDescription: string;
+    pushNotOnDevice: string;
+    enablePushOnDevice: string;
+    verifyPhonePrompt: string;
+    sendCode: string;
+    codeSent: string;
+    enterCode: string;
+    confirmCode: string;
+    phoneVerified: string;
+    codeWrong: string;
+    codeExpired: string;
+    codeTooSoon: string;
+    invalidPhone: string;
+    codeDailyLimit: string;
   };
   
   // Notifications
@@ -460,6 +728,7 @@ export interface Translations {
     irrigationReminder: string;
     harvestTime: string;
     sowingTime: string;
+    updateFailed: string;
   };
   
   // Errors
@@ -503,6 +772,11 @@ export const translations: Record<string, Translations> = {
     help: "Help",
     about: "About",
     tip: "Tip",
+      savedDataFrom: "Saved data from",
+      pendingChanges: "Changes waiting to sync",
+      syncNow: "Sync now",
+      changesSynced: "Changes made offline have been saved",
+      savedOffline: "Saved on this device. It will sync when you are back online.",
     },
     navigation: {
       dashboard: "Dashboard",
@@ -548,6 +822,15 @@ export const translations: Record<string, Translations> = {
     imageUploaded: "Image uploaded",
     analyzingImage: "Analyzing image...",
     tryWeather: "Try asking about weather!",
+      conversations: "Conversations",
+      newConversation: "New conversation",
+      noConversations: "No saved conversations yet",
+      renameConversation: "Rename",
+      deleteConversation: "Delete conversation",
+      deleteConversationConfirm: "This permanently deletes the conversation and its messages:",
+      conversationDeleted: "Conversation deleted",
+      queuedOffline: "You are offline. This question will be sent when you are back online.",
+      queuedAnswered: "Answers to your offline questions have arrived",
     },
     weather: {
       title: "Weather Forecast",
@@ -571,6 +854,9 @@ export const translations: Record<string, Translations> = {
     thisWeek: "This Week",
     goodConditions: "Good conditions for farming activities",
     condition: "Condition",
+      dailyForecast: "Daily forecast",
+      minMax: "Min / Max",
+      rainChance: "Chance of rain",
     },
     marketPrices: {
       title: "Market Prices",
@@ -590,6 +876,22 @@ export const translations: Record<string, Translations> = {
     tipAboveMsp: "Prices above MSP indicate good market conditions for selling",
     yourCrop: "Your Crop",
     showingPersonalizedData: "Showing personalized data for your crops",
+      sevenDayChange: "7 days",
+      priceHistory: "Price history (30 days)",
+      whereToSell: "Where to sell",
+      quantityQuintals: "Quantity (quintals)",
+      transportCost: "transport",
+      netPrice: "Net",
+      noNearbyMandis: "No recent prices from mandis near you for this crop",
+      confidence: "Confidence",
+      confidenceHigh: "High",
+      confidenceMedium: "Medium",
+      confidenceLow: "Low",
+      backtestError: "Back-test error",
+      predictionRange80: "80% prediction range",
+      methodSeasonalSmoothing: "Seasonal exponential smoothing on mandi price history",
+      methodSmoothing: "Exponential smoothing on mandi price history",
+      changeSince: "Change since",
     },
     quickActions: {
       title: "Quick Actions",
@@ -601,6 +903,10 @@ export const translations: Record<string, Translations> = {
       livePrices: "Live crop prices",
       nutritionTips: "Crop nutrition tips",
       waterManagement: "Water management",
+      farmingCalendar: "Farming Calendar",
+      sowingHarvest: "Sowing to harvest schedule",
+      myPlots: "My Plots",
+      plotsDescription: "Crop, soil and water per field",
     },
     fertilizerAdvice: {
       title: "Fertilizer Advice Calculator",
@@ -623,6 +929,30 @@ export const translations: Record<string, Translations> = {
       acres: "acre(s)",
       soilCharacteristics: "Soil Characteristics",
       recommendation: "Recommendation",
+      perKg: "/kg",
+      toBuy: "To buy",
+      notNeeded: "Not needed",
+      bags: "bags",
+      cheapestMix: "Cheapest fertilizer mix",
+      cheapestMixDescription: "Lowest-cost combination of these products that meets each stage's N, P and K",
+      notSupplied: "Not supplied by these products",
+      seasonPurchase: "Bags to buy for the season",
+      estimatedCost: "Estimated cost",
+      editPrices: "Fertilizer prices",
+      editPricesDescription: "Prices in force for your state. Enter what your local dealer charges to use it in every estimate.",
+      pricePerBag: "Price per bag (₹)",
+      bagSize: "Bag size (kg)",
+      effectiveFrom: "From",
+      priceSourceOwn: "My price",
+      priceSourceState: "State rate",
+      priceSourceNational: "National rate",
+      builtInPrice: "Using built-in average prices",
+      subsidised: "Subsidised",
+      saveMyPrice: "Save my price",
+      useCataloguePrice: "Use catalogue price",
+      priceSaved: "Price saved",
+      invalidPrice: "Enter a price, a bag size and a date",
+      pricesAsOf: "Prices as of",
     },
     irrigationGuide: {
       title: "Irrigation Guide",
@@ -646,6 +976,222 @@ export const translations: Record<string, Translations> = {
       recommended: "Recommended",
       criticalPeriod: "Critical Period",
       weatherAdjustment: "Weather adjustment",
+      schedule: "Irrigation schedule",
+      scheduleDescription: "Daily water need from the weather forecast, your crop's growth stage and forecast rain",
+      sowingDate: "Sowing date",
+      areaAcres: "Area (acres)",
+      irrigationMethod: "Irrigation method",
+      refreshForecast: "Refresh forecast",
+      needLocation: "Add your farm location or map the plot to get a weather-based schedule",
+      forecastUnavailable: "Weather forecast is not available right now",
+      stageInitial: "Initial stage",
+      stageDevelopment: "Development stage",
+      stageMidSeason: "Mid-season",
+      stageLateSeason: "Late season",
+      daysAfterSowing: "Day",
+      outsideSeason: "Crop not in the field on this day",
+      noIrrigationNeeded: "No irrigation needed",
+      cropWaterUse: "Crop water use",
+      rain: "Rain",
+      netIrrigation: "Net irrigation",
+      totalWater: "Total water for the forecast period",
+      scheduleNote: "Based on FAO-56 reference evapotranspiration and crop coefficients. Rain below 2.5 mm is not counted and 80% of heavier rain is taken as useful.",
+      balanceDescription: "Estimated from observed weather since sowing, forecast and your irrigation log",
+      balanceUnavailable: "Set the sowing date and farm location to track soil moisture for this plot",
+      availableWater: "Available water",
+      rootDepth: "Root depth",
+      stressNow: "The crop is under water stress now",
+      stressExpected: "Water stress expected from",
+      refillWith: "irrigate",
+      noStressExpected: "No water stress expected during the forecast",
+      logIrrigation: "Log irrigation",
+      logIrrigationHelp: "Record the water you applied so the soil moisture estimate stays accurate",
+      irrigationDate: "Date",
+      waterApplied: "Water applied (mm)",
+      notes: "Notes",
+      needAmount: "Enter the date and the amount of water",
+      irrigationLogged: "Irrigation logged",
+      recentIrrigation: "Recent irrigation",
+      measureBy: "Measure by",
+      measureByPump: "Pump run time",
+      measureByDepth: "Depth of water",
+      runHours: "Run time (hours)",
+      flowRate: "Flow rate (L/min)",
+      waterUsage: "Water use",
+      waterUsageDescription: "Irrigation logged this season against the crop's seasonal water requirement",
+      selectPlotForLog: "Select a plot to see its irrigation log and water use",
+      irrigations: "Irrigations",
+      waterPumped: "Water pumped",
+      reachedRoots: "Reached the roots",
+      seasonRequirement: "Season requirement",
+      requirementMet: "Requirement met by irrigation and rain",
+      byMethod: "By method",
+      methodNotRecorded: "Method not recorded",
+      switchingMethods: "Water with other methods",
+      switchingMethodsHelp: "Water needed to deliver the same amount to the roots with each method",
+      saves: "saves",
+      extra: "extra",
+      irrigationLog: "Irrigation log",
+      noIrrigationLogged: "No irrigation logged this season",
+      pumpCost: "Pump Running Cost",
+      pumpCostDescription: "Estimate run hours, energy and cost for each irrigation and for the season",
+      pumpHp: "Pump power (HP)",
+      powerSupply: "Power supply",
+      electric: "Electric",
+      diesel: "Diesel",
+      tariffPerKwh: "Tariff (₹/kWh)",
+      dieselPrice: "Diesel price (₹/L)",
+      pumpHead: "Lift / head (m)",
+      plannedVolume: "Water per irrigation (L)",
+      perIrrigation: "Per irrigation",
+      perSeason: "Per season",
+      runTime: "Run time",
+      energy: "Energy",
+      operatingCostByMethod: "Season operating cost by method",
+      lowestCost: "Lowest cost",
+      pumpCostNote: "Drip and sprinkler need pressure at the field, so the pump delivers less water per hour than for flood irrigation.",
+    },
+    calendar: {
+      title: "Farming Calendar",
+      description: "Your personal crop schedule based on your sowing dates",
+      monthView: "Month",
+      weekView: "Week",
+      sowingDate: "Sowing date",
+      generateSchedule: "Generate schedule",
+      regenerateSchedule: "Regenerate",
+      scheduleSaved: "Schedule saved to your calendar",
+      noCalendarCrops: "No calendar data is available for your crops yet",
+      noActivities: "No activities scheduled",
+      typicalActivities: "Typical activities for this period",
+      status: "Status",
+      pending: "Pending",
+      completed: "Completed",
+      cancelled: "Cancelled",
+      markCompleted: "Mark completed",
+      markCancelled: "Cancel activity",
+      markPending: "Reopen",
+      notes: "Notes",
+      notesPlaceholder: "Add notes about this activity",
+      entryUpdated: "Activity updated",
+      inputs: "Inputs",
+      scheduledFor: "Scheduled for",
+      today: "Today",
+      dateType: "Date type",
+      transplantingDate: "Transplanting date",
+      completedOn: "Completed on",
+      activitiesRescheduled: "Later activities rescheduled",
+      checkWeather: "Check weather",
+      weatherRescheduled: "Activities moved due to weather",
+      noWeatherChanges: "No changes needed for the forecast",
+      weatherAdjusted: "Moved due to weather",
+      originallyScheduled: "Originally scheduled",
+      rainForecast: "Rain forecast",
+      heatForecast: "Extreme heat forecast",
+    },
+    plots: {
+      title: "My Plots",
+      description: "Manage each field with its own crop, soil and water source",
+      addPlot: "Add plot",
+      editPlot: "Edit plot",
+      deletePlot: "Delete plot",
+      deletePlotConfirm: "This also removes the plot's calendar activities. This cannot be undone.",
+      plotName: "Plot name",
+      plotNamePlaceholder: "e.g. North field",
+      area: "Area",
+      soilType: "Soil type",
+      irrigationSource: "Irrigation source",
+      currentCrop: "Current crop",
+      sowingDate: "Sowing date",
+      noCrop: "No crop",
+      noPlots: "No plots yet. Add your first field to get plot-wise advice.",
+      selectPlot: "Plot",
+      allCrops: "All my crops",
+      totalArea: "Total area",
+      plotSaved: "Plot saved",
+      plotDeleted: "Plot deleted",
+      invalidPlot: "Enter a plot name and an area greater than zero.",
+      soilRed: "Red soil",
+      soilBlack: "Black soil",
+      soilAlluvial: "Alluvial soil",
+      soilSandy: "Sandy soil",
+      sourceRainfed: "Rainfed",
+      sourceCanal: "Canal",
+      sourceBorewell: "Borewell",
+      sourceOpenWell: "Open well",
+      sourceTank: "Tank / pond",
+      sourceRiver: "River",
+      drawBoundary: "Draw plot boundary",
+      boundaryHelp: "Tap each corner of the field on the map, or walk along its edge with your phone.",
+      measureOnMap: "Measure on map",
+      walkBoundary: "Walk the boundary",
+      stopWalking: "Stop walking",
+      undoPoint: "Undo point",
+      clearBoundary: "Clear",
+      gpsAccuracy: "GPS accuracy",
+      measuredArea: "Measured area",
+      bighaOf: "Bigha as used in",
+      bighaDefault: "Bigha size varies by state; showing 27,000 sq ft per bigha",
+      useBoundary: "Use this boundary",
+      boundaryNeedsPoints: "Mark at least three corners to measure the plot.",
+      locationUnavailable: "Could not get your location. Tap the corners on the map instead.",
+      boundaryMapped: "Boundary mapped",
+    },
+    soilTest: {
+      title: "Soil test",
+      addSoilTest: "Add soil test",
+      selectSoilTest: "Soil test",
+      noSoilTest: "No soil test (general dose)",
+      sampleDate: "Sampling date",
+      labName: "Laboratory",
+      cardNumber: "Soil Health Card number",
+      uploadReport: "Upload card or report",
+      uploadHelp: "Photo, PDF, text or CSV of your Soil Health Card or lab report",
+      readingReport: "Reading report...",
+      valuesRead: "Values read from the report. Please check them before saving.",
+      nothingRead: "No soil values could be read from this file. Please enter them by hand.",
+      unsupportedFile: "Please upload an image, PDF, text or CSV file under 5 MB.",
+      needValues: "Enter the sampling date and at least one soil value.",
+      saved: "Soil test saved",
+      deleted: "Soil test deleted",
+      deleteSoilTest: "Delete soil test",
+      macronutrients: "Major nutrients",
+      otherParameters: "Soil condition",
+      micronutrients: "Secondary and micronutrients",
+      nitrogen: "Available nitrogen (N)",
+      phosphorus: "Available phosphorus (P)",
+      potassium: "Available potassium (K)",
+      ph: "pH",
+      ec: "Electrical conductivity (EC)",
+      organicCarbon: "Organic carbon (OC)",
+      sulphur: "Sulphur (S)",
+      zinc: "Zinc (Zn)",
+      iron: "Iron (Fe)",
+      copper: "Copper (Cu)",
+      manganese: "Manganese (Mn)",
+      boron: "Boron (B)",
+      soilStatus: "Soil nutrient status",
+      adjustedDose: "Doses below are adjusted to your soil test fertility ratings",
+      generalDose: "General dose",
+      nitrogenFromOc: "No nitrogen value on the card, so nitrogen is rated from organic carbon.",
+      ratingVeryLow: "Very low",
+      ratingLow: "Low",
+      ratingMedium: "Medium",
+      ratingHigh: "High",
+      ratingVeryHigh: "Very high",
+      adviceAcidic: "Acidic soil (pH below 5.5): apply agricultural lime as per the lime requirement before sowing.",
+      adviceAlkaline: "Alkaline soil (pH above 8.5): apply gypsum and prefer acid-forming fertilizers such as ammonium sulphate.",
+      adviceSaline: "High salt content (EC above 1 dS/m): improve drainage, leach salts with good-quality water and choose salt-tolerant varieties.",
+      adviceLowOrganicCarbon: "Low organic carbon: add 4-5 tonnes of FYM or compost per acre and retain crop residues.",
+      adviceSulphur: "Sulphur deficient: apply 20 kg sulphur per hectare through gypsum or bentonite sulphur.",
+      adviceZinc: "Zinc deficient: apply 25 kg zinc sulphate per hectare at sowing.",
+      adviceIron: "Iron deficient: spray 0.5% ferrous sulphate two or three times during growth.",
+      adviceCopper: "Copper deficient: apply 5 kg copper sulphate per hectare.",
+      adviceManganese: "Manganese deficient: spray 0.5% manganese sulphate.",
+      adviceBoron: "Boron deficient: apply 10 kg borax per hectare.",
+      targetedDose: "Doses below are worked out from soil-test crop-response (STCR) equations for your yield target where the soil test has a reading, and from the fertility ratings otherwise",
+      yieldTarget: "Yield target (q/ha)",
+      stcrEquations: "STCR equations fitted in",
+      methodStcr: "STCR",
     },
     cropStages: {
       nurseryStage: "Nursery Stage",
@@ -656,53 +1202,8 @@ export const translations: Record<string, Translations> = {
       grainFillingStage: "Grain Filling Stage",
       maturityStage: "Maturity Stage",
     },
-    states: {
-      tamilNadu: "Tamil Nadu",
-      delhi: "Delhi",
-      punjab: "Punjab",
-      gujarat: "Gujarat",
-      up: "Uttar Pradesh",
-      mp: "Madhya Pradesh",
-      maharashtra: "Maharashtra",
-      karnataka: "Karnataka",
-      andhraPradesh: "Andhra Pradesh",
-      telangana: "Telangana",
-      westBengal: "West Bengal",
-      bihar: "Bihar",
-      rajasthan: "Rajasthan",
-      haryana: "Haryana",
-      uttarakhand: "Uttarakhand",
-      himachalPradesh: "Himachal Pradesh",
-      jammuKashmir: "Jammu & Kashmir",
-      assam: "Assam",
-      odisha: "Odisha",
-      chhattisgarh: "Chhattisgarh",
-      jharkhand: "Jharkhand",
-      uttarPradesh: "Uttar Pradesh",
-      madhyaPradesh: "Madhya Pradesh",
-    },
-    crops: {
-      rice: "Rice",
-      wheat: "Wheat",
-      cotton: "Cotton",
-      sugarcane: "Sugarcane",
-      soybean: "Soybean",
-      groundnut: "Groundnut",
-      maize: "Maize",
-      bajra: "Bajra",
-      jowar: "Jowar",
-      ragi: "Ragi",
-      gram: "Gram",
-      tur: "Tur",
-      moong: "Moong",
-      urad: "Urad",
-      masoor: "Masoor",
-      mustard: "Mustard",
-      sunflower: "Sunflower",
-      sesame: "Sesame",
-      castor: "Castor",
-      jute: "Jute",
-    },
+    states: STATE_NAMES.en,
+    crops: CROP_NAMES.en,
     fertilizers: {
       compost: "Compost",
       vermicompost: "Vermicompost",
@@ -882,6 +1383,29 @@ export const translations: Record<string, Translations> = {
       saveSettings: "Save Settings",
       resetSettings: "Reset Settings",
       settingsSaved: "Settings saved successfully",
+      quietHours: "Quiet hours",
+      quietHoursDescription: "No push alerts during these hours; they arrive when quiet hours end",
+      quietHoursFrom: "From",
+      quietHoursTo: "To",
+      pushDenied: "Notifications are blocked for this site. Allow them in your browser settings to get alerts.",
+      pushUnsupported: "Push notifications are not available on this browser.",
+      smsAlerts: "SMS alerts",
+      smsAlertsDescription: "Weather, price and farm task alerts by SMS to the phone in your profile, in your language. Reply STOP to opt out.",
+      voiceCalls: "Voice call for urgent alerts",
+      voiceCallsDescription: "Also get a phone call that reads out high-priority alerts",
+      pushNotOnDevice: "Not turned on for this device yet",
+      enablePushOnDevice: "Turn on here",
+      verifyPhonePrompt: "Confirm the phone number in your profile to start SMS alerts",
+      sendCode: "Send code",
+      codeSent: "We sent a 6-digit code by SMS",
+      enterCode: "6-digit code",
+      confirmCode: "Verify",
+      phoneVerified: "Phone number verified",
+      codeWrong: "That code is not right",
+      codeExpired: "The code has expired. Send a new one.",
+      codeTooSoon: "Wait a minute before asking for another code",
+      invalidPhone: "Add a valid mobile number to your profile first",
+      codeDailyLimit: "Too many codes have been sent today. Try again tomorrow.",
     },
     notifications: {
       title: "Notifications",
@@ -900,6 +1424,7 @@ export const translations: Record<string, Translations> = {
       irrigationReminder: "Irrigation Reminder",
       harvestTime: "Harvest Time",
       sowingTime: "Sowing Time",
+      updateFailed: "Could not update notifications. Please try again.",
     },
     errors: {
       networkError: "Network connection error",
@@ -939,6 +1464,11 @@ export const translations: Record<string, Translations> = {
     help: "सहायता",
     about: "के बारे में",
     tip: "सुझाव",
+      savedDataFrom: "सहेजा गया डेटा",
+      pendingChanges: "सिंक होने के लिए बाकी बदलाव",
+      syncNow: "अभी सिंक करें",
+      changesSynced: "ऑफ़लाइन किए गए बदलाव सहेज लिए गए",
+      savedOffline: "इस डिवाइस पर सहेजा गया। ऑनलाइन होने पर सिंक हो जाएगा।",
     },
     navigation: {
       dashboard: "डैशबोर्ड",
@@ -984,6 +1514,15 @@ export const translations: Record<string, Translations> = {
       imageUploaded: "छवि अपलोड की गई",
       analyzingImage: "छवि का विश्लेषण कर रहे हैं...",
       tryWeather: "मौसम के बारे में पूछने की कोशिश करें!",
+      conversations: "बातचीत",
+      newConversation: "नई बातचीत",
+      noConversations: "अभी कोई सहेजी गई बातचीत नहीं",
+      renameConversation: "नाम बदलें",
+      deleteConversation: "बातचीत हटाएं",
+      deleteConversationConfirm: "इससे बातचीत और उसके सभी संदेश स्थायी रूप से हट जाएंगे:",
+      conversationDeleted: "बातचीत हटाई गई",
+      queuedOffline: "आप ऑफ़लाइन हैं। ऑनलाइन होते ही यह प्रश्न भेजा जाएगा।",
+      queuedAnswered: "आपके ऑफ़लाइन प्रश्नों के उत्तर आ गए हैं",
     },
     weather: {
       title: "मौसम पूर्वानुमान",
@@ -1007,6 +1546,9 @@ export const translations: Record<string, Translations> = {
       thisWeek: "इस सप्ताह",
       goodConditions: "कृषि गतिविधियों के लिए अच्छी स्थिति",
       condition: "स्थिति",
+      dailyForecast: "दैनिक पूर्वानुमान",
+      minMax: "न्यूनतम / अधिकतम",
+      rainChance: "बारिश की संभावना",
     },
     marketPrices: {
       title: "बाजार मूल्य",
@@ -1026,6 +1568,22 @@ export const translations: Record<string, Translations> = {
     tipAboveMsp: "MSP से ऊपर कीमतें बेचने के लिए अच्छी बाजार स्थिति का संकेत देती हैं",
     yourCrop: "आपकी फसल",
     showingPersonalizedData: "आपकी फसलों के लिए व्यक्तिगत डेटा दिखा रहे हैं",
+      sevenDayChange: "7 दिन",
+      priceHistory: "मूल्य इतिहास (30 दिन)",
+      whereToSell: "कहाँ बेचें",
+      quantityQuintals: "मात्रा (क्विंटल)",
+      transportCost: "परिवहन",
+      netPrice: "शुद्ध",
+      noNearbyMandis: "इस फसल के लिए आपके पास की मंडियों से हाल के भाव उपलब्ध नहीं हैं",
+      confidence: "विश्वसनीयता",
+      confidenceHigh: "उच्च",
+      confidenceMedium: "मध्यम",
+      confidenceLow: "कम",
+      backtestError: "पिछले आंकड़ों पर त्रुटि",
+      predictionRange80: "80% अनुमान सीमा",
+      methodSeasonalSmoothing: "मंडी भाव इतिहास पर मौसमी एक्सपोनेंशियल स्मूदिंग",
+      methodSmoothing: "मंडी भाव इतिहास पर एक्सपोनेंशियल स्मूदिंग",
+      changeSince: "तुलना की तारीख",
     },
     quickActions: {
       title: "त्वरित कार्य",
@@ -1037,6 +1595,10 @@ export const translations: Record<string, Translations> = {
       livePrices: "लाइव फसल मूल्य",
       nutritionTips: "फसल पोषण सुझाव",
       waterManagement: "जल प्रबंधन",
+      farmingCalendar: "खेती कैलेंडर",
+      sowingHarvest: "बुवाई से कटाई तक की समय-सारणी",
+      myPlots: "मेरे खेत",
+      plotsDescription: "हर खेत की फसल, मिट्टी, पानी",
     },
     fertilizerAdvice: {
       title: "उर्वरक सलाह कैलकुलेटर",
@@ -1059,6 +1621,30 @@ export const translations: Record<string, Translations> = {
       acres: "एकड़",
       soilCharacteristics: "मिट्टी की विशेषताएं",
       recommendation: "सिफारिश",
+      perKg: "/किलो",
+      toBuy: "खरीदें",
+      notNeeded: "आवश्यक नहीं",
+      bags: "बोरी",
+      cheapestMix: "सबसे सस्ता उर्वरक मिश्रण",
+      cheapestMixDescription: "इन उत्पादों का सबसे कम लागत वाला मेल जो हर अवस्था की N, P और K ज़रूरत पूरी करे",
+      notSupplied: "इन उत्पादों से नहीं मिलता",
+      seasonPurchase: "मौसम के लिए खरीदने योग्य बोरियां",
+      estimatedCost: "अनुमानित लागत",
+      editPrices: "उर्वरक मूल्य",
+      editPricesDescription: "आपके राज्य में लागू मूल्य। हर अनुमान में उपयोग के लिए अपने स्थानीय विक्रेता का मूल्य दर्ज करें।",
+      pricePerBag: "प्रति बोरी मूल्य (₹)",
+      bagSize: "बोरी का आकार (किग्रा)",
+      effectiveFrom: "से लागू",
+      priceSourceOwn: "मेरा मूल्य",
+      priceSourceState: "राज्य दर",
+      priceSourceNational: "राष्ट्रीय दर",
+      builtInPrice: "अंतर्निहित औसत मूल्य का उपयोग",
+      subsidised: "सब्सिडी युक्त",
+      saveMyPrice: "मेरा मूल्य सहेजें",
+      useCataloguePrice: "सूची मूल्य का उपयोग करें",
+      priceSaved: "मूल्य सहेजा गया",
+      invalidPrice: "मूल्य, बोरी का आकार और तारीख दर्ज करें",
+      pricesAsOf: "मूल्य इस तारीख तक",
     },
     irrigationGuide: {
       title: "सिंचाई गाइड",
@@ -1082,6 +1668,222 @@ export const translations: Record<string, Translations> = {
       recommended: "अनुशंसित",
       criticalPeriod: "महत्वपूर्ण अवधि",
       weatherAdjustment: "मौसम समायोजन",
+      schedule: "सिंचाई कार्यक्रम",
+      scheduleDescription: "मौसम पूर्वानुमान, फसल की वृद्धि अवस्था और अनुमानित वर्षा से दैनिक पानी की आवश्यकता",
+      sowingDate: "बुवाई की तारीख",
+      areaAcres: "क्षेत्रफल (एकड़)",
+      irrigationMethod: "सिंचाई विधि",
+      refreshForecast: "पूर्वानुमान ताज़ा करें",
+      needLocation: "मौसम आधारित कार्यक्रम के लिए खेत का स्थान जोड़ें या प्लॉट का नक्शा बनाएं",
+      forecastUnavailable: "मौसम पूर्वानुमान अभी उपलब्ध नहीं है",
+      stageInitial: "प्रारंभिक अवस्था",
+      stageDevelopment: "विकास अवस्था",
+      stageMidSeason: "मध्य मौसम",
+      stageLateSeason: "अंतिम मौसम",
+      daysAfterSowing: "दिन",
+      outsideSeason: "इस दिन खेत में फसल नहीं",
+      noIrrigationNeeded: "सिंचाई की आवश्यकता नहीं",
+      cropWaterUse: "फसल जल उपयोग",
+      rain: "वर्षा",
+      netIrrigation: "शुद्ध सिंचाई",
+      totalWater: "पूर्वानुमान अवधि के लिए कुल पानी",
+      scheduleNote: "FAO-56 संदर्भ वाष्पोत्सर्जन और फसल गुणांक पर आधारित। 2.5 मिमी से कम वर्षा नहीं गिनी जाती और अधिक वर्षा का 80% उपयोगी माना जाता है।",
+      balanceDescription: "बुवाई से अब तक के मौसम, पूर्वानुमान और आपके सिंचाई रिकॉर्ड से अनुमानित",
+      balanceUnavailable: "इस प्लॉट की मिट्टी की नमी देखने के लिए बुवाई की तारीख और खेत का स्थान दर्ज करें",
+      availableWater: "उपलब्ध पानी",
+      rootDepth: "जड़ की गहराई",
+      stressNow: "फसल अभी पानी की कमी में है",
+      stressExpected: "पानी की कमी की संभावना",
+      refillWith: "सिंचाई करें",
+      noStressExpected: "पूर्वानुमान अवधि में पानी की कमी की संभावना नहीं",
+      logIrrigation: "सिंचाई दर्ज करें",
+      logIrrigationHelp: "मिट्टी की नमी का अनुमान सही रखने के लिए दिया गया पानी दर्ज करें",
+      irrigationDate: "तारीख",
+      waterApplied: "दिया गया पानी (मिमी)",
+      notes: "टिप्पणी",
+      needAmount: "तारीख और पानी की मात्रा दर्ज करें",
+      irrigationLogged: "सिंचाई दर्ज की गई",
+      recentIrrigation: "हाल की सिंचाई",
+      measureBy: "मापने का तरीका",
+      measureByPump: "पंप चलने का समय",
+      measureByDepth: "पानी की गहराई",
+      runHours: "चलने का समय (घंटे)",
+      flowRate: "प्रवाह दर (ली/मिनट)",
+      waterUsage: "जल उपयोग",
+      waterUsageDescription: "इस मौसम में दर्ज सिंचाई, फसल की मौसमी जल आवश्यकता के मुकाबले",
+      selectPlotForLog: "सिंचाई रिकॉर्ड और जल उपयोग देखने के लिए प्लॉट चुनें",
+      irrigations: "सिंचाइयाँ",
+      waterPumped: "पंप किया गया पानी",
+      reachedRoots: "जड़ों तक पहुँचा",
+      seasonRequirement: "मौसमी आवश्यकता",
+      requirementMet: "सिंचाई और वर्षा से पूरी हुई आवश्यकता",
+      byMethod: "विधि अनुसार",
+      methodNotRecorded: "विधि दर्ज नहीं",
+      switchingMethods: "अन्य विधियों से पानी",
+      switchingMethodsHelp: "हर विधि से जड़ों तक उतना ही पानी पहुँचाने के लिए आवश्यक पानी",
+      saves: "बचत",
+      extra: "अतिरिक्त",
+      irrigationLog: "सिंचाई रिकॉर्ड",
+      noIrrigationLogged: "इस मौसम में कोई सिंचाई दर्ज नहीं",
+      pumpCost: "पंप चलाने की लागत",
+      pumpCostDescription: "हर सिंचाई और पूरे मौसम के लिए चलने के घंटे, ऊर्जा और लागत का अनुमान",
+      pumpHp: "पंप शक्ति (HP)",
+      powerSupply: "बिजली स्रोत",
+      electric: "बिजली",
+      diesel: "डीज़ल",
+      tariffPerKwh: "दर (₹/kWh)",
+      dieselPrice: "डीज़ल मूल्य (₹/ली)",
+      pumpHead: "उठान / हेड (मी)",
+      plannedVolume: "प्रति सिंचाई पानी (ली)",
+      perIrrigation: "प्रति सिंचाई",
+      perSeason: "प्रति मौसम",
+      runTime: "चलने का समय",
+      energy: "ऊर्जा",
+      operatingCostByMethod: "विधि अनुसार मौसमी संचालन लागत",
+      lowestCost: "सबसे कम लागत",
+      pumpCostNote: "ड्रिप और स्प्रिंकलर को खेत पर दबाव चाहिए, इसलिए पंप बाढ़ सिंचाई की तुलना में प्रति घंटे कम पानी देता है।",
+    },
+    calendar: {
+      title: "खेती कैलेंडर",
+      description: "आपकी बुवाई तिथियों पर आधारित व्यक्तिगत फसल समय-सारणी",
+      monthView: "महीना",
+      weekView: "सप्ताह",
+      sowingDate: "बुवाई की तिथि",
+      generateSchedule: "समय-सारणी बनाएं",
+      regenerateSchedule: "फिर से बनाएं",
+      scheduleSaved: "समय-सारणी आपके कैलेंडर में सहेजी गई",
+      noCalendarCrops: "आपकी फसलों के लिए अभी कैलेंडर डेटा उपलब्ध नहीं है",
+      noActivities: "कोई गतिविधि निर्धारित नहीं",
+      typicalActivities: "इस अवधि की सामान्य गतिविधियाँ",
+      status: "स्थिति",
+      pending: "लंबित",
+      completed: "पूर्ण",
+      cancelled: "रद्द",
+      markCompleted: "पूर्ण करें",
+      markCancelled: "गतिविधि रद्द करें",
+      markPending: "फिर से खोलें",
+      notes: "टिप्पणियाँ",
+      notesPlaceholder: "इस गतिविधि के बारे में टिप्पणी जोड़ें",
+      entryUpdated: "गतिविधि अपडेट की गई",
+      inputs: "सामग्री",
+      scheduledFor: "निर्धारित तिथि",
+      today: "आज",
+      dateType: "तिथि का प्रकार",
+      transplantingDate: "रोपाई की तिथि",
+      completedOn: "पूर्ण होने की तिथि",
+      activitiesRescheduled: "आगे की गतिविधियाँ पुनर्निर्धारित",
+      checkWeather: "मौसम जांचें",
+      weatherRescheduled: "मौसम के कारण गतिविधियाँ स्थानांतरित",
+      noWeatherChanges: "पूर्वानुमान के अनुसार कोई बदलाव आवश्यक नहीं",
+      weatherAdjusted: "मौसम के कारण स्थानांतरित",
+      originallyScheduled: "मूल रूप से निर्धारित",
+      rainForecast: "बारिश का पूर्वानुमान",
+      heatForecast: "अत्यधिक गर्मी का पूर्वानुमान",
+    },
+    plots: {
+      title: "मेरे खेत",
+      description: "हर खेत की फसल, मिट्टी और पानी का स्रोत अलग से संभालें",
+      addPlot: "खेत जोड़ें",
+      editPlot: "खेत बदलें",
+      deletePlot: "खेत हटाएँ",
+      deletePlotConfirm: "इससे इस खेत की कैलेंडर गतिविधियाँ भी हट जाएँगी। इसे वापस नहीं किया जा सकता।",
+      plotName: "खेत का नाम",
+      plotNamePlaceholder: "जैसे उत्तर वाला खेत",
+      area: "क्षेत्रफल",
+      soilType: "मिट्टी का प्रकार",
+      irrigationSource: "सिंचाई का स्रोत",
+      currentCrop: "वर्तमान फसल",
+      sowingDate: "बुवाई की तारीख",
+      noCrop: "कोई फसल नहीं",
+      noPlots: "अभी कोई खेत नहीं है। खेतवार सलाह के लिए अपना पहला खेत जोड़ें।",
+      selectPlot: "खेत",
+      allCrops: "मेरी सभी फसलें",
+      totalArea: "कुल क्षेत्रफल",
+      plotSaved: "खेत सहेजा गया",
+      plotDeleted: "खेत हटाया गया",
+      invalidPlot: "खेत का नाम और शून्य से अधिक क्षेत्रफल दर्ज करें।",
+      soilRed: "लाल मिट्टी",
+      soilBlack: "काली मिट्टी",
+      soilAlluvial: "जलोढ़ मिट्टी",
+      soilSandy: "बलुई मिट्टी",
+      sourceRainfed: "वर्षा आधारित",
+      sourceCanal: "नहर",
+      sourceBorewell: "बोरवेल",
+      sourceOpenWell: "कुआँ",
+      sourceTank: "तालाब",
+      sourceRiver: "नदी",
+      drawBoundary: "खेत की सीमा बनाएं",
+      boundaryHelp: "मानचित्र पर खेत के हर कोने पर टैप करें, या फ़ोन लेकर खेत की मेड़ पर चलें।",
+      measureOnMap: "मानचित्र पर नापें",
+      walkBoundary: "मेड़ पर चलकर नापें",
+      stopWalking: "चलना बंद करें",
+      undoPoint: "अंतिम बिंदु हटाएं",
+      clearBoundary: "साफ़ करें",
+      gpsAccuracy: "जीपीएस सटीकता",
+      measuredArea: "नापा गया क्षेत्रफल",
+      bighaOf: "बीघा का माप:",
+      bighaDefault: "बीघा का माप हर राज्य में अलग है; 27,000 वर्ग फुट प्रति बीघा दिखाया गया है",
+      useBoundary: "यह सीमा इस्तेमाल करें",
+      boundaryNeedsPoints: "खेत नापने के लिए कम से कम तीन कोने चिह्नित करें।",
+      locationUnavailable: "आपका स्थान नहीं मिल सका। इसके बजाय मानचित्र पर कोनों पर टैप करें।",
+      boundaryMapped: "सीमा नापी गई",
+    },
+    soilTest: {
+      title: "मिट्टी जांच",
+      addSoilTest: "मिट्टी जांच जोड़ें",
+      selectSoilTest: "मिट्टी जांच",
+      noSoilTest: "मिट्टी जांच नहीं (सामान्य मात्रा)",
+      sampleDate: "नमूना लेने की तिथि",
+      labName: "प्रयोगशाला",
+      cardNumber: "मृदा स्वास्थ्य कार्ड संख्या",
+      uploadReport: "कार्ड या रिपोर्ट अपलोड करें",
+      uploadHelp: "मृदा स्वास्थ्य कार्ड या लैब रिपोर्ट की फ़ोटो, PDF, टेक्स्ट या CSV",
+      readingReport: "रिपोर्ट पढ़ी जा रही है...",
+      valuesRead: "रिपोर्ट से मान पढ़े गए। सहेजने से पहले इन्हें जांच लें।",
+      nothingRead: "इस फ़ाइल से मिट्टी के मान नहीं पढ़े जा सके। कृपया इन्हें स्वयं भरें।",
+      unsupportedFile: "कृपया 5 MB से छोटी इमेज, PDF, टेक्स्ट या CSV फ़ाइल अपलोड करें।",
+      needValues: "नमूने की तिथि और कम से कम एक मिट्टी का मान भरें।",
+      saved: "मिट्टी जांच सहेजी गई",
+      deleted: "मिट्टी जांच हटाई गई",
+      deleteSoilTest: "मिट्टी जांच हटाएं",
+      macronutrients: "मुख्य पोषक तत्व",
+      otherParameters: "मिट्टी की स्थिति",
+      micronutrients: "द्वितीयक एवं सूक्ष्म पोषक तत्व",
+      nitrogen: "उपलब्ध नाइट्रोजन (N)",
+      phosphorus: "उपलब्ध फॉस्फोरस (P)",
+      potassium: "उपलब्ध पोटैशियम (K)",
+      ph: "पीएच (pH)",
+      ec: "विद्युत चालकता (EC)",
+      organicCarbon: "जैविक कार्बन (OC)",
+      sulphur: "सल्फर (S)",
+      zinc: "जिंक (Zn)",
+      iron: "आयरन (Fe)",
+      copper: "कॉपर (Cu)",
+      manganese: "मैंगनीज (Mn)",
+      boron: "बोरॉन (B)",
+      soilStatus: "मिट्टी में पोषक तत्वों की स्थिति",
+      adjustedDose: "नीचे दी गई मात्रा आपकी मिट्टी जांच की उर्वरता श्रेणी के अनुसार बदली गई है",
+      generalDose: "सामान्य मात्रा",
+      nitrogenFromOc: "कार्ड पर नाइट्रोजन का मान नहीं है, इसलिए नाइट्रोजन का आकलन जैविक कार्बन से किया गया है।",
+      ratingVeryLow: "बहुत कम",
+      ratingLow: "कम",
+      ratingMedium: "मध्यम",
+      ratingHigh: "अधिक",
+      ratingVeryHigh: "बहुत अधिक",
+      adviceAcidic: "अम्लीय मिट्टी (pH 5.5 से कम): बुवाई से पहले चूने की आवश्यकता के अनुसार कृषि चूना डालें।",
+      adviceAlkaline: "क्षारीय मिट्टी (pH 8.5 से अधिक): जिप्सम डालें और अमोनियम सल्फेट जैसे अम्ल बनाने वाले उर्वरकों को प्राथमिकता दें।",
+      adviceSaline: "अधिक लवण (EC 1 dS/m से अधिक): जल निकासी सुधारें, अच्छे पानी से लवण बहाएं और लवण-सहनशील किस्में चुनें।",
+      adviceLowOrganicCarbon: "कम जैविक कार्बन: प्रति एकड़ 4-5 टन गोबर की खाद या कम्पोस्ट डालें और फसल अवशेष खेत में रखें।",
+      adviceSulphur: "सल्फर की कमी: जिप्सम या बेंटोनाइट सल्फर से प्रति हेक्टेयर 20 किलो सल्फर डालें।",
+      adviceZinc: "जिंक की कमी: बुवाई के समय प्रति हेक्टेयर 25 किलो जिंक सल्फेट डालें।",
+      adviceIron: "आयरन की कमी: बढ़वार के दौरान 0.5% फेरस सल्फेट का दो-तीन बार छिड़काव करें।",
+      adviceCopper: "कॉपर की कमी: प्रति हेक्टेयर 5 किलो कॉपर सल्फेट डालें।",
+      adviceManganese: "मैंगनीज की कमी: 0.5% मैंगनीज सल्फेट का छिड़काव करें।",
+      adviceBoron: "बोरॉन की कमी: प्रति हेक्टेयर 10 किलो बोरेक्स डालें।",
+      targetedDose: "नीचे दी गई मात्रा, जहाँ मिट्टी जांच में मान है, आपके उपज लक्ष्य के लिए मृदा परीक्षण फसल प्रतिक्रिया (STCR) समीकरणों से निकाली गई है, अन्यथा उर्वरता श्रेणी के अनुसार",
+      yieldTarget: "उपज लक्ष्य (क्विंटल/हेक्टेयर)",
+      stcrEquations: "STCR समीकरण इस क्षेत्र के लिए",
+      methodStcr: "STCR",
     },
     cropStages: {
       nurseryStage: "नर्सरी अवस्था",
@@ -1092,53 +1894,8 @@ export const translations: Record<string, Translations> = {
       grainFillingStage: "दाना भरने की अवस्था",
       maturityStage: "पकने की अवस्था",
     },
-    states: {
-      tamilNadu: "तमिलनाडु",
-      delhi: "दिल्ली",
-      punjab: "पंजाब",
-      gujarat: "गुजरात",
-      up: "उत्तर प्रदेश",
-      mp: "मध्य प्रदेश",
-      maharashtra: "महाराष्ट्र",
-      karnataka: "कर्नाटक",
-      andhraPradesh: "आंध्र प्रदेश",
-      telangana: "तेलंगाना",
-      westBengal: "पश्चिम बंगाल",
-      bihar: "बिहार",
-      rajasthan: "राजस्थान",
-      haryana: "हरियाणा",
-      uttarakhand: "उत्तराखंड",
-      himachalPradesh: "हिमाचल प्रदेश",
-      jammuKashmir: "जम्मू और कश्मीर",
-      assam: "असम",
-      odisha: "ओडिशा",
-      chhattisgarh: "छत्तीसगढ़",
-      jharkhand: "झारखंड",
-      uttarPradesh: "उत्तर प्रदेश",
-      madhyaPradesh: "मध्य प्रदेश",
-    },
-    crops: {
-      rice: "चावल",
-      wheat: "गेहूं",
-      cotton: "कपास",
-      sugarcane: "गन्ना",
-      soybean: "सोयाबीन",
-      groundnut: "मूंगफली",
-      maize: "मक्का",
-      bajra: "बाजरा",
-      jowar: "ज्वार",
-      ragi: "रागी",
-      gram: "चना",
-      tur: "तूर",
-      moong: "मूंग",
-      urad: "उड़द",
-      masoor: "मसूर",
-      mustard: "सरसों",
-      sunflower: "सूरजमुखी",
-      sesame: "तिल",
-      castor: "अरंडी",
-      jute: "जूट",
-    },
+    states: STATE_NAMES.hi,
+    crops: CROP_NAMES.hi,
     fertilizers: {
       compost: "कंपोस्ट",
       vermicompost: "वर्मीकंपोस्ट",
@@ -1318,6 +2075,29 @@ export const translations: Record<string, Translations> = {
       saveSettings: "सेटिंग्स सहेजें",
       resetSettings: "सेटिंग्स रीसेट करें",
       settingsSaved: "सेटिंग्स सफलतापूर्वक सहेजी गईं",
+      quietHours: "शांत समय",
+      quietHoursDescription: "इन घंटों में कोई पुश अलर्ट नहीं; शांत समय खत्म होने पर मिलेंगे",
+      quietHoursFrom: "से",
+      quietHoursTo: "तक",
+      pushDenied: "इस साइट के लिए सूचनाएं अवरुद्ध हैं। अलर्ट पाने के लिए ब्राउज़र सेटिंग्स में इन्हें अनुमति दें।",
+      pushUnsupported: "इस ब्राउज़र पर पुश सूचनाएं उपलब्ध नहीं हैं।",
+      smsAlerts: "SMS अलर्ट",
+      smsAlertsDescription: "मौसम, भाव और खेती के काम के अलर्ट आपकी प्रोफ़ाइल के फ़ोन पर आपकी भाषा में SMS से। बंद करने के लिए STOP भेजें।",
+      voiceCalls: "ज़रूरी अलर्ट के लिए वॉइस कॉल",
+      voiceCallsDescription: "उच्च प्राथमिकता वाले अलर्ट पढ़कर सुनाने वाली फ़ोन कॉल भी पाएं",
+      pushNotOnDevice: "इस डिवाइस पर अभी चालू नहीं है",
+      enablePushOnDevice: "यहाँ चालू करें",
+      verifyPhonePrompt: "SMS अलर्ट शुरू करने के लिए अपनी प्रोफ़ाइल का फ़ोन नंबर पुष्टि करें",
+      sendCode: "कोड भेजें",
+      codeSent: "हमने SMS से 6 अंकों का कोड भेजा है",
+      enterCode: "6 अंकों का कोड",
+      confirmCode: "पुष्टि करें",
+      phoneVerified: "फ़ोन नंबर की पुष्टि हो गई",
+      codeWrong: "यह कोड सही नहीं है",
+      codeExpired: "कोड की समय-सीमा समाप्त हो गई। नया कोड भेजें।",
+      codeTooSoon: "दूसरा कोड मांगने से पहले एक मिनट रुकें",
+      invalidPhone: "पहले अपनी प्रोफ़ाइल में सही मोबाइल नंबर जोड़ें",
+      codeDailyLimit: "आज बहुत अधिक कोड भेजे जा चुके हैं। कल फिर प्रयास करें।",
     },
     notifications: {
       title: "सूचनाएं",
@@ -1336,6 +2116,7 @@ export const translations: Record<string, Translations> = {
       irrigationReminder: "सिंचाई अनुस्मारक",
       harvestTime: "कटाई का समय",
       sowingTime: "बुवाई का समय",
+      updateFailed: "सूचनाएं अपडेट नहीं हो सकीं। कृपया फिर से प्रयास करें।",
     },
     errors: {
       networkError: "नेटवर्क कनेक्शन त्रुटि",
@@ -1375,6 +2156,11 @@ export const translations: Record<string, Translations> = {
       help: "உதவி",
       about: "பற்றி",
       tip: "குறிப்பு",
+      savedDataFrom: "சேமித்த தரவு",
+      pendingChanges: "ஒத்திசைக்க காத்திருக்கும் மாற்றங்கள்",
+      syncNow: "இப்போது ஒத்திசை",
+      changesSynced: "ஆஃப்லைனில் செய்த மாற்றங்கள் சேமிக்கப்பட்டன",
+      savedOffline: "இந்தச் சாதனத்தில் சேமிக்கப்பட்டது. இணைப்பு வந்ததும் ஒத்திசைக்கப்படும்.",
     },
     navigation: {
       dashboard: "டாஷ்போர்டு",
@@ -1420,6 +2206,15 @@ export const translations: Record<string, Translations> = {
       imageUploaded: "படம் பதிவேற்றப்பட்டது",
       analyzingImage: "படத்தை பகுப்பாய்வு செய்கிறது...",
       tryWeather: "வானிலை பற்றி கேட்க முயற்சிக்கவும்!",
+      conversations: "உரையாடல்கள்",
+      newConversation: "புதிய உரையாடல்",
+      noConversations: "சேமிக்கப்பட்ட உரையாடல்கள் இல்லை",
+      renameConversation: "பெயர் மாற்று",
+      deleteConversation: "உரையாடலை நீக்கு",
+      deleteConversationConfirm: "இது உரையாடலையும் அதன் செய்திகளையும் நிரந்தரமாக நீக்கும்:",
+      conversationDeleted: "உரையாடல் நீக்கப்பட்டது",
+      queuedOffline: "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். இணைப்பு வந்ததும் இந்தக் கேள்வி அனுப்பப்படும்.",
+      queuedAnswered: "உங்கள் ஆஃப்லைன் கேள்விகளுக்கான பதில்கள் வந்துவிட்டன",
     },
     weather: {
       title: "வானிலை முன்னறிவிப்பு",
@@ -1443,6 +2238,9 @@ export const translations: Record<string, Translations> = {
       thisWeek: "இந்த வாரம்",
       goodConditions: "விவசாய நடவடிக்கைகளுக்கு நல்ல நிலைமைகள்",
       condition: "நிலை",
+      dailyForecast: "தினசரி முன்னறிவிப்பு",
+      minMax: "குறைந்தது / அதிகம்",
+      rainChance: "மழை வாய்ப்பு",
     },
     marketPrices: {
       title: "சந்தை விலைகள்",
@@ -1462,6 +2260,22 @@ export const translations: Record<string, Translations> = {
       tipAboveMsp: "MSP-க்கு மேல் விலைகள் விற்பனைக்கு நல்ல சந்தை நிலைமைகளைக் குறிக்கின்றன",
       yourCrop: "உங்கள் பயிர்",
       showingPersonalizedData: "உங்கள் பயிர்களுக்கான தனிப்பட்ட தரவைக் காட்டுகிறது",
+      sevenDayChange: "7 நாட்கள்",
+      priceHistory: "விலை வரலாறு (30 நாட்கள்)",
+      whereToSell: "எங்கு விற்பது",
+      quantityQuintals: "அளவு (குவிண்டால்)",
+      transportCost: "போக்குவரத்து",
+      netPrice: "நிகர",
+      noNearbyMandis: "இந்த பயிருக்கு அருகிலுள்ள மண்டிகளின் சமீபத்திய விலைகள் இல்லை",
+      confidence: "நம்பகத்தன்மை",
+      confidenceHigh: "அதிகம்",
+      confidenceMedium: "நடுத்தரம்",
+      confidenceLow: "குறைவு",
+      backtestError: "முந்தைய தரவில் பிழை",
+      predictionRange80: "80% கணிப்பு வரம்பு",
+      methodSeasonalSmoothing: "மண்டி விலை வரலாற்றில் பருவகால அடுக்குக்குறி சீராக்கம்",
+      methodSmoothing: "மண்டி விலை வரலாற்றில் அடுக்குக்குறி சீராக்கம்",
+      changeSince: "ஒப்பீட்டுத் தேதி",
     },
     quickActions: {
       title: "விரைவு செயல்கள்",
@@ -1473,6 +2287,10 @@ export const translations: Record<string, Translations> = {
       livePrices: "நேரடி பயிர் விலைகள்",
       nutritionTips: "பயிர் ஊட்டச்சத்து குறிப்புகள்",
       waterManagement: "நீர் மேலாண்மை",
+      farmingCalendar: "விவசாய நாட்காட்டி",
+      sowingHarvest: "விதைப்பு முதல் அறுவடை வரை அட்டவணை",
+      myPlots: "எனது நிலங்கள்",
+      plotsDescription: "ஒவ்வொரு வயலின் பயிர், மண், நீர்",
     },
     fertilizerAdvice: {
       title: "உர அறிவுரை கணிப்பான்",
@@ -1495,6 +2313,30 @@ export const translations: Record<string, Translations> = {
       acres: "ஏக்கர்",
       soilCharacteristics: "மண் பண்புகள்",
       recommendation: "பரிந்துரை",
+      perKg: "/கிலோ",
+      toBuy: "வாங்க வேண்டியது",
+      notNeeded: "தேவையில்லை",
+      bags: "மூட்டை",
+      cheapestMix: "மிகக் குறைந்த செலவிலான உரக் கலவை",
+      cheapestMixDescription: "ஒவ்வொரு நிலையின் N, P, K தேவையைப் பூர்த்தி செய்யும் இந்தப் பொருட்களின் குறைந்த செலவுக் கலவை",
+      notSupplied: "இந்தப் பொருட்களால் வழங்கப்படவில்லை",
+      seasonPurchase: "பருவத்திற்கு வாங்க வேண்டிய மூட்டைகள்",
+      estimatedCost: "மதிப்பிடப்பட்ட செலவு",
+      editPrices: "உர விலைகள்",
+      editPricesDescription: "உங்கள் மாநிலத்தில் நடைமுறையில் உள்ள விலைகள். ஒவ்வொரு மதிப்பீட்டிலும் பயன்படுத்த உங்கள் உள்ளூர் விற்பனையாளர் விலையை உள்ளிடவும்.",
+      pricePerBag: "ஒரு மூட்டை விலை (₹)",
+      bagSize: "மூட்டை அளவு (கிலோ)",
+      effectiveFrom: "முதல்",
+      priceSourceOwn: "என் விலை",
+      priceSourceState: "மாநில விலை",
+      priceSourceNational: "தேசிய விலை",
+      builtInPrice: "உள்ளமைந்த சராசரி விலைகள் பயன்படுத்தப்படுகின்றன",
+      subsidised: "மானிய விலை",
+      saveMyPrice: "என் விலையை சேமி",
+      useCataloguePrice: "பட்டியல் விலையை பயன்படுத்து",
+      priceSaved: "விலை சேமிக்கப்பட்டது",
+      invalidPrice: "விலை, மூட்டை அளவு மற்றும் தேதியை உள்ளிடவும்",
+      pricesAsOf: "விலைகள் இந்த தேதி வரை",
     },
     irrigationGuide: {
       title: "பாசன வழிகாட்டி",
@@ -1518,6 +2360,222 @@ export const translations: Record<string, Translations> = {
       recommended: "பரிந்துரைக்கப்பட்டது",
       criticalPeriod: "முக்கிய காலம்",
       weatherAdjustment: "வானிலை சரிசெய்தல்",
+      schedule: "பாசன அட்டவணை",
+      scheduleDescription: "வானிலை முன்னறிவிப்பு, பயிர் வளர்ச்சி நிலை மற்றும் எதிர்பார்க்கப்படும் மழையிலிருந்து தினசரி நீர் தேவை",
+      sowingDate: "விதைப்பு தேதி",
+      areaAcres: "பரப்பளவு (ஏக்கர்)",
+      irrigationMethod: "பாசன முறை",
+      refreshForecast: "முன்னறிவிப்பை புதுப்பி",
+      needLocation: "வானிலை அடிப்படையிலான அட்டவணைக்கு பண்ணை இருப்பிடத்தைச் சேர்க்கவும் அல்லது நிலத்தை வரைபடமாக்கவும்",
+      forecastUnavailable: "வானிலை முன்னறிவிப்பு இப்போது கிடைக்கவில்லை",
+      stageInitial: "ஆரம்ப நிலை",
+      stageDevelopment: "வளர்ச்சி நிலை",
+      stageMidSeason: "நடுப்பருவம்",
+      stageLateSeason: "கடைசிப் பருவம்",
+      daysAfterSowing: "நாள்",
+      outsideSeason: "இந்த நாளில் வயலில் பயிர் இல்லை",
+      noIrrigationNeeded: "பாசனம் தேவையில்லை",
+      cropWaterUse: "பயிர் நீர் பயன்பாடு",
+      rain: "மழை",
+      netIrrigation: "நிகர பாசனம்",
+      totalWater: "முன்னறிவிப்பு காலத்திற்கான மொத்த நீர்",
+      scheduleNote: "FAO-56 குறிப்பு ஆவியுயிர்ப்பு மற்றும் பயிர் குணகங்களின் அடிப்படையில். 2.5 மிமீக்கு குறைவான மழை கணக்கிடப்படாது; அதிக மழையின் 80% பயனுள்ளதாகக் கொள்ளப்படும்.",
+      balanceDescription: "விதைப்பு முதல் பதிவான வானிலை, முன்னறிவிப்பு மற்றும் உங்கள் பாசனப் பதிவிலிருந்து மதிப்பிடப்பட்டது",
+      balanceUnavailable: "இந்த நிலத்தின் மண் ஈரப்பதத்தைக் கண்காணிக்க விதைப்பு தேதி மற்றும் பண்ணை இருப்பிடத்தை அமைக்கவும்",
+      availableWater: "கிடைக்கும் நீர்",
+      rootDepth: "வேர் ஆழம்",
+      stressNow: "பயிர் இப்போது நீர் பற்றாக்குறையில் உள்ளது",
+      stressExpected: "நீர் பற்றாக்குறை எதிர்பார்க்கப்படும் நாள்",
+      refillWith: "பாசனம் செய்யவும்",
+      noStressExpected: "முன்னறிவிப்பு காலத்தில் நீர் பற்றாக்குறை எதிர்பார்க்கப்படவில்லை",
+      logIrrigation: "பாசனத்தைப் பதிவு செய்",
+      logIrrigationHelp: "மண் ஈரப்பத மதிப்பீடு சரியாக இருக்க நீங்கள் பாய்ச்சிய நீரைப் பதிவு செய்யவும்",
+      irrigationDate: "தேதி",
+      waterApplied: "பாய்ச்சிய நீர் (மிமீ)",
+      notes: "குறிப்புகள்",
+      needAmount: "தேதி மற்றும் நீரின் அளவை உள்ளிடவும்",
+      irrigationLogged: "பாசனம் பதிவு செய்யப்பட்டது",
+      recentIrrigation: "சமீபத்திய பாசனம்",
+      measureBy: "அளவிடும் முறை",
+      measureByPump: "பம்ப் இயங்கிய நேரம்",
+      measureByDepth: "நீரின் ஆழம்",
+      runHours: "இயங்கிய நேரம் (மணி)",
+      flowRate: "ஓட்ட விகிதம் (லி/நிமி)",
+      waterUsage: "நீர் பயன்பாடு",
+      waterUsageDescription: "இந்தப் பருவத்தில் பதிவான பாசனம், பயிரின் பருவ நீர் தேவையுடன் ஒப்பீடு",
+      selectPlotForLog: "பாசனப் பதிவு மற்றும் நீர் பயன்பாட்டைப் பார்க்க நிலத்தைத் தேர்ந்தெடுக்கவும்",
+      irrigations: "பாசனங்கள்",
+      waterPumped: "இறைக்கப்பட்ட நீர்",
+      reachedRoots: "வேர்களை அடைந்தது",
+      seasonRequirement: "பருவத் தேவை",
+      requirementMet: "பாசனம் மற்றும் மழையால் பூர்த்தியான தேவை",
+      byMethod: "முறை வாரியாக",
+      methodNotRecorded: "முறை பதிவு செய்யப்படவில்லை",
+      switchingMethods: "பிற முறைகளில் நீர்",
+      switchingMethodsHelp: "ஒவ்வொரு முறையிலும் வேர்களுக்கு அதே அளவு நீர் சேர்க்கத் தேவையான நீர்",
+      saves: "சேமிப்பு",
+      extra: "கூடுதல்",
+      irrigationLog: "பாசனப் பதிவு",
+      noIrrigationLogged: "இந்தப் பருவத்தில் பாசனம் பதிவு செய்யப்படவில்லை",
+      pumpCost: "பம்ப் இயக்கச் செலவு",
+      pumpCostDescription: "ஒவ்வொரு பாசனத்திற்கும் பருவத்திற்கும் இயக்க நேரம், ஆற்றல் மற்றும் செலவின் மதிப்பீடு",
+      pumpHp: "பம்ப் திறன் (HP)",
+      powerSupply: "மின் ஆதாரம்",
+      electric: "மின்சாரம்",
+      diesel: "டீசல்",
+      tariffPerKwh: "கட்டணம் (₹/kWh)",
+      dieselPrice: "டீசல் விலை (₹/லி)",
+      pumpHead: "உயர்த்தும் உயரம் (மீ)",
+      plannedVolume: "ஒரு பாசனத்திற்கான நீர் (லி)",
+      perIrrigation: "ஒரு பாசனத்திற்கு",
+      perSeason: "ஒரு பருவத்திற்கு",
+      runTime: "இயக்க நேரம்",
+      energy: "ஆற்றல்",
+      operatingCostByMethod: "முறைவாரியான பருவ இயக்கச் செலவு",
+      lowestCost: "குறைந்த செலவு",
+      pumpCostNote: "சொட்டு மற்றும் தெளிப்பு முறைகளுக்கு வயலில் அழுத்தம் தேவை, எனவே வெள்ளப் பாசனத்தை விட பம்ப் மணிக்கு குறைந்த நீரை வழங்கும்.",
+    },
+    calendar: {
+      title: "விவசாய நாட்காட்டி",
+      description: "உங்கள் விதைப்பு தேதிகளின் அடிப்படையில் தனிப்பட்ட பயிர் அட்டவணை",
+      monthView: "மாதம்",
+      weekView: "வாரம்",
+      sowingDate: "விதைப்பு தேதி",
+      generateSchedule: "அட்டவணையை உருவாக்கு",
+      regenerateSchedule: "மீண்டும் உருவாக்கு",
+      scheduleSaved: "அட்டவணை உங்கள் நாட்காட்டியில் சேமிக்கப்பட்டது",
+      noCalendarCrops: "உங்கள் பயிர்களுக்கு இன்னும் நாட்காட்டி தரவு இல்லை",
+      noActivities: "திட்டமிடப்பட்ட செயல்பாடுகள் இல்லை",
+      typicalActivities: "இந்த காலத்திற்கான வழக்கமான செயல்பாடுகள்",
+      status: "நிலை",
+      pending: "நிலுவையில்",
+      completed: "முடிந்தது",
+      cancelled: "ரத்து செய்யப்பட்டது",
+      markCompleted: "முடிந்ததாகக் குறி",
+      markCancelled: "செயல்பாட்டை ரத்து செய்",
+      markPending: "மீண்டும் திற",
+      notes: "குறிப்புகள்",
+      notesPlaceholder: "இந்த செயல்பாடு பற்றிய குறிப்புகளைச் சேர்க்கவும்",
+      entryUpdated: "செயல்பாடு புதுப்பிக்கப்பட்டது",
+      inputs: "இடுபொருட்கள்",
+      scheduledFor: "திட்டமிடப்பட்ட தேதி",
+      today: "இன்று",
+      dateType: "தேதி வகை",
+      transplantingDate: "நடவு தேதி",
+      completedOn: "முடிந்த தேதி",
+      activitiesRescheduled: "அடுத்த செயல்பாடுகள் மறுதிட்டமிடப்பட்டன",
+      checkWeather: "வானிலையை சரிபார்",
+      weatherRescheduled: "வானிலை காரணமாக செயல்பாடுகள் மாற்றப்பட்டன",
+      noWeatherChanges: "முன்னறிவிப்பின்படி மாற்றங்கள் தேவையில்லை",
+      weatherAdjusted: "வானிலை காரணமாக மாற்றப்பட்டது",
+      originallyScheduled: "முதலில் திட்டமிடப்பட்டது",
+      rainForecast: "மழை முன்னறிவிப்பு",
+      heatForecast: "கடும் வெப்ப முன்னறிவிப்பு",
+    },
+    plots: {
+      title: "எனது நிலங்கள்",
+      description: "ஒவ்வொரு வயலின் பயிர், மண், நீர் ஆதாரத்தை தனியாக நிர்வகிக்கவும்",
+      addPlot: "நிலம் சேர்",
+      editPlot: "நிலத்தை திருத்து",
+      deletePlot: "நிலத்தை நீக்கு",
+      deletePlotConfirm: "இது இந்த நிலத்தின் நாட்காட்டி செயல்பாடுகளையும் நீக்கும். இதை மீட்டெடுக்க முடியாது.",
+      plotName: "நிலத்தின் பெயர்",
+      plotNamePlaceholder: "எ.கா. வடக்கு வயல்",
+      area: "பரப்பளவு",
+      soilType: "மண் வகை",
+      irrigationSource: "பாசன ஆதாரம்",
+      currentCrop: "தற்போதைய பயிர்",
+      sowingDate: "விதைப்பு தேதி",
+      noCrop: "பயிர் இல்லை",
+      noPlots: "இன்னும் நிலங்கள் இல்லை. நிலவாரியான ஆலோசனைக்கு உங்கள் முதல் வயலைச் சேர்க்கவும்.",
+      selectPlot: "நிலம்",
+      allCrops: "எனது அனைத்து பயிர்கள்",
+      totalArea: "மொத்த பரப்பளவு",
+      plotSaved: "நிலம் சேமிக்கப்பட்டது",
+      plotDeleted: "நிலம் நீக்கப்பட்டது",
+      invalidPlot: "நிலத்தின் பெயரையும் பூஜ்ஜியத்தை விட அதிகமான பரப்பளவையும் உள்ளிடவும்.",
+      soilRed: "செம்மண்",
+      soilBlack: "கரிசல் மண்",
+      soilAlluvial: "வண்டல் மண்",
+      soilSandy: "மணல் மண்",
+      sourceRainfed: "மானாவாரி",
+      sourceCanal: "கால்வாய்",
+      sourceBorewell: "ஆழ்துளை கிணறு",
+      sourceOpenWell: "திறந்த கிணறு",
+      sourceTank: "குளம்",
+      sourceRiver: "ஆறு",
+      drawBoundary: "நிலத்தின் எல்லையை வரையவும்",
+      boundaryHelp: "வரைபடத்தில் வயலின் ஒவ்வொரு மூலையையும் தட்டவும், அல்லது தொலைபேசியுடன் வயலின் வரப்பில் நடக்கவும்.",
+      measureOnMap: "வரைபடத்தில் அளக்கவும்",
+      walkBoundary: "எல்லையில் நடந்து அளக்கவும்",
+      stopWalking: "நடப்பதை நிறுத்தவும்",
+      undoPoint: "கடைசி புள்ளியை நீக்கவும்",
+      clearBoundary: "அழிக்கவும்",
+      gpsAccuracy: "ஜிபிஎஸ் துல்லியம்",
+      measuredArea: "அளந்த பரப்பளவு",
+      bighaOf: "பிகா அளவு:",
+      bighaDefault: "பிகா அளவு மாநிலத்திற்கு மாநிலம் மாறுபடும்; ஒரு பிகாவுக்கு 27,000 சதுர அடி காட்டப்படுகிறது",
+      useBoundary: "இந்த எல்லையைப் பயன்படுத்தவும்",
+      boundaryNeedsPoints: "நிலத்தை அளக்க குறைந்தது மூன்று மூலைகளைக் குறிக்கவும்.",
+      locationUnavailable: "உங்கள் இருப்பிடத்தைப் பெற முடியவில்லை. அதற்குப் பதிலாக வரைபடத்தில் மூலைகளைத் தட்டவும்.",
+      boundaryMapped: "எல்லை அளக்கப்பட்டது",
+    },
+    soilTest: {
+      title: "மண் பரிசோதனை",
+      addSoilTest: "மண் பரிசோதனை சேர்க்கவும்",
+      selectSoilTest: "மண் பரிசோதனை",
+      noSoilTest: "மண் பரிசோதனை இல்லை (பொது அளவு)",
+      sampleDate: "மாதிரி எடுத்த தேதி",
+      labName: "ஆய்வகம்",
+      cardNumber: "மண் வள அட்டை எண்",
+      uploadReport: "அட்டை அல்லது அறிக்கையைப் பதிவேற்றவும்",
+      uploadHelp: "மண் வள அட்டை அல்லது ஆய்வக அறிக்கையின் புகைப்படம், PDF, உரை அல்லது CSV",
+      readingReport: "அறிக்கை படிக்கப்படுகிறது...",
+      valuesRead: "அறிக்கையிலிருந்து மதிப்புகள் படிக்கப்பட்டன. சேமிக்கும் முன் சரிபார்க்கவும்.",
+      nothingRead: "இந்தக் கோப்பிலிருந்து மண் மதிப்புகளைப் படிக்க முடியவில்லை. தயவுசெய்து கைமுறையாக உள்ளிடவும்.",
+      unsupportedFile: "5 MB-க்குக் குறைவான படம், PDF, உரை அல்லது CSV கோப்பைப் பதிவேற்றவும்.",
+      needValues: "மாதிரி தேதியையும் குறைந்தது ஒரு மண் மதிப்பையும் உள்ளிடவும்.",
+      saved: "மண் பரிசோதனை சேமிக்கப்பட்டது",
+      deleted: "மண் பரிசோதனை நீக்கப்பட்டது",
+      deleteSoilTest: "மண் பரிசோதனையை நீக்கவும்",
+      macronutrients: "முதன்மை ஊட்டச்சத்துகள்",
+      otherParameters: "மண் நிலை",
+      micronutrients: "இரண்டாம் நிலை மற்றும் நுண்ணூட்டச்சத்துகள்",
+      nitrogen: "கிடைக்கும் நைட்ரஜன் (N)",
+      phosphorus: "கிடைக்கும் பாஸ்பரஸ் (P)",
+      potassium: "கிடைக்கும் பொட்டாசியம் (K)",
+      ph: "கார அமில நிலை (pH)",
+      ec: "மின் கடத்துத்திறன் (EC)",
+      organicCarbon: "கரிம கார்பன் (OC)",
+      sulphur: "கந்தகம் (S)",
+      zinc: "துத்தநாகம் (Zn)",
+      iron: "இரும்பு (Fe)",
+      copper: "தாமிரம் (Cu)",
+      manganese: "மாங்கனீசு (Mn)",
+      boron: "போரான் (B)",
+      soilStatus: "மண் ஊட்டச்சத்து நிலை",
+      adjustedDose: "கீழே உள்ள அளவுகள் உங்கள் மண் பரிசோதனையின் வளத் தர மதிப்பீட்டிற்கு ஏற்ப மாற்றப்பட்டுள்ளன",
+      generalDose: "பொது அளவு",
+      nitrogenFromOc: "அட்டையில் நைட்ரஜன் மதிப்பு இல்லை, எனவே நைட்ரஜன் கரிம கார்பனிலிருந்து மதிப்பிடப்பட்டது.",
+      ratingVeryLow: "மிகக் குறைவு",
+      ratingLow: "குறைவு",
+      ratingMedium: "நடுத்தரம்",
+      ratingHigh: "அதிகம்",
+      ratingVeryHigh: "மிக அதிகம்",
+      adviceAcidic: "அமில மண் (pH 5.5-க்குக் கீழ்): விதைப்புக்கு முன் சுண்ணாம்புத் தேவைக்கேற்ப வேளாண் சுண்ணாம்பு இடவும்.",
+      adviceAlkaline: "கார மண் (pH 8.5-க்கு மேல்): ஜிப்சம் இடவும், அம்மோனியம் சல்பேட் போன்ற அமிலம் உருவாக்கும் உரங்களைப் பயன்படுத்தவும்.",
+      adviceSaline: "அதிக உப்பு (EC 1 dS/m-க்கு மேல்): வடிகாலை மேம்படுத்தி, நல்ல நீரால் உப்பைக் கரைத்து அகற்றி, உப்பைத் தாங்கும் ரகங்களைத் தேர்ந்தெடுக்கவும்.",
+      adviceLowOrganicCarbon: "குறைந்த கரிம கார்பன்: ஏக்கருக்கு 4-5 டன் தொழு உரம் அல்லது மட்கிய உரம் இடவும், பயிர்க் கழிவுகளை வயலிலேயே விடவும்.",
+      adviceSulphur: "கந்தகப் பற்றாக்குறை: ஜிப்சம் அல்லது பென்டோனைட் கந்தகம் மூலம் ஹெக்டேருக்கு 20 கிலோ கந்தகம் இடவும்.",
+      adviceZinc: "துத்தநாகப் பற்றாக்குறை: விதைப்பின் போது ஹெக்டேருக்கு 25 கிலோ துத்தநாக சல்பேட் இடவும்.",
+      adviceIron: "இரும்புப் பற்றாக்குறை: வளர்ச்சியின் போது 0.5% பெர்ரஸ் சல்பேட்டை இரண்டு மூன்று முறை தெளிக்கவும்.",
+      adviceCopper: "தாமிரப் பற்றாக்குறை: ஹெக்டேருக்கு 5 கிலோ காப்பர் சல்பேட் இடவும்.",
+      adviceManganese: "மாங்கனீசு பற்றாக்குறை: 0.5% மாங்கனீசு சல்பேட் தெளிக்கவும்.",
+      adviceBoron: "போரான் பற்றாக்குறை: ஹெக்டேருக்கு 10 கிலோ போராக்ஸ் இடவும்.",
+      targetedDose: "கீழே உள்ள அளவுகள், மண் பரிசோதனையில் மதிப்பு உள்ள இடங்களில் உங்கள் மகசூல் இலக்கிற்கான மண் பரிசோதனை பயிர் எதிர்வினை (STCR) சமன்பாடுகளிலிருந்தும், மற்றவை வளத் தர மதிப்பீட்டிலிருந்தும் கணக்கிடப்பட்டவை",
+      yieldTarget: "மகசூல் இலக்கு (குவிண்டால்/ஹெக்டேர்)",
+      stcrEquations: "STCR சமன்பாடுகள் பொருந்தும் பகுதி",
+      methodStcr: "STCR",
     },
     cropStages: {
       nurseryStage: "நர்சரி நிலை",
@@ -1528,53 +2586,8 @@ export const translations: Record<string, Translations> = {
       grainFillingStage: "விதை நிரப்புதல் நிலை",
       maturityStage: "பக்குவமடைதல் நிலை",
     },
-    states: {
-      tamilNadu: "தமிழ்நாடு",
-      delhi: "டெல்லி",
-      punjab: "பஞ்சாப்",
-      gujarat: "குஜராத்",
-      up: "உத்தரப் பிரதேசம்",
-      mp: "மத்தியப் பிரதேசம்",
-      maharashtra: "மகாராஷ்டிரா",
-      karnataka: "கர்நாடகா",
-      andhraPradesh: "ஆந்திரப் பிரதேசம்",
-      telangana: "தெலங்காணா",
-      westBengal: "மேற்கு வங்காளம்",
-      bihar: "பீகார்",
-      rajasthan: "ராஜஸ்தான்",
-      haryana: "ஹரியானா",
-      uttarakhand: "உத்தராகண்ட்",
-      himachalPradesh: "இமாச்சலப் பிரதேசம்",
-      jammuKashmir: "ஜம்மு காஷ்மீர்",
-      assam: "அசாம்",
-      odisha: "ஒடிசா",
-      chhattisgarh: "சத்தீஸ்கர்",
-      jharkhand: "ஜார்கண்ட்",
-      uttarPradesh: "உத்தரப் பிரதேசம்",
-      madhyaPradesh: "மத்தியப் பிரதேசம்",
-    },
-    crops: {
-      rice: "அரிசி",
-      wheat: "கோதுமை",
-      cotton: "பருத்தி",
-      sugarcane: "கரும்பு",
-      soybean: "சோயாபீன்",
-      groundnut: "வேர்க்கடலை",
-      maize: "சோளம்",
-      bajra: "பஜ்ரா",
-      jowar: "சோளம்",
-      ragi: "ராகி",
-      gram: "கடலை",
-      tur: "துவரம் பருப்பு",
-      moong: "பச்சை பருப்பு",
-      urad: "உளுந்து",
-      masoor: "மசூர்",
-      mustard: "கடுகு",
-      sunflower: "சூரியகாந்தி",
-      sesame: "எள்",
-      castor: "ஆமணக்கு",
-      jute: "சணல்",
-    },
+    states: STATE_NAMES.ta,
+    crops: CROP_NAMES.ta,
     fertilizers: {
       compost: "கூட்டு உரம்",
       vermicompost: "வெர்மிகம்போஸ்ட்",
@@ -1754,6 +2767,29 @@ export const translations: Record<string, Translations> = {
       saveSettings: "அமைப்புகளை சேமி",
       resetSettings: "அமைப்புகளை மீட்டமை",
       settingsSaved: "அமைப்புகள் வெற்றிகரமாக சேமிக்கப்பட்டன",
+      quietHours: "அமைதி நேரம்",
+      quietHoursDescription: "இந்த நேரத்தில் புஷ் எச்சரிக்கைகள் இல்லை; அமைதி நேரம் முடிந்ததும் வரும்",
+      quietHoursFrom: "முதல்",
+      quietHoursTo: "வரை",
+      pushDenied: "இந்தத் தளத்திற்கு அறிவிப்புகள் தடுக்கப்பட்டுள்ளன. எச்சரிக்கைகளைப் பெற உலாவி அமைப்புகளில் அனுமதிக்கவும்.",
+      pushUnsupported: "இந்த உலாவியில் புஷ் அறிவிப்புகள் கிடைக்கவில்லை.",
+      smsAlerts: "SMS எச்சரிக்கைகள்",
+      smsAlertsDescription: "வானிலை, விலை மற்றும் பண்ணை வேலை எச்சரிக்கைகள் உங்கள் சுயவிவர தொலைபேசிக்கு உங்கள் மொழியில் SMS ஆக. நிறுத்த STOP அனுப்பவும்.",
+      voiceCalls: "அவசர எச்சரிக்கைகளுக்கு குரல் அழைப்பு",
+      voiceCallsDescription: "அதிக முன்னுரிமை எச்சரிக்கைகளைப் படித்துச் சொல்லும் தொலைபேசி அழைப்பையும் பெறுங்கள்",
+      pushNotOnDevice: "இந்தச் சாதனத்தில் இன்னும் இயக்கப்படவில்லை",
+      enablePushOnDevice: "இங்கே இயக்கு",
+      verifyPhonePrompt: "SMS எச்சரிக்கைகளைத் தொடங்க உங்கள் சுயவிவரத்தில் உள்ள தொலைபேசி எண்ணை உறுதிப்படுத்தவும்",
+      sendCode: "குறியீட்டை அனுப்பு",
+      codeSent: "6 இலக்க குறியீட்டை SMS மூலம் அனுப்பியுள்ளோம்",
+      enterCode: "6 இலக்க குறியீடு",
+      confirmCode: "உறுதிப்படுத்து",
+      phoneVerified: "தொலைபேசி எண் உறுதிப்படுத்தப்பட்டது",
+      codeWrong: "இந்தக் குறியீடு சரியல்ல",
+      codeExpired: "குறியீடு காலாவதியானது. புதியதை அனுப்பவும்.",
+      codeTooSoon: "மற்றொரு குறியீட்டைக் கேட்கும் முன் ஒரு நிமிடம் காத்திருக்கவும்",
+      invalidPhone: "முதலில் உங்கள் சுயவிவரத்தில் சரியான மொபைல் எண்ணைச் சேர்க்கவும்",
+      codeDailyLimit: "இன்று அதிகமான குறியீடுகள் அனுப்பப்பட்டுவிட்டன. நாளை மீண்டும் முயற்சிக்கவும்.",
     },
     notifications: {
       title: "அறிவிப்புகள்",
@@ -1772,6 +2808,7 @@ export const translations: Record<string, Translations> = {
       irrigationReminder: "பாசன நினைவூட்டல்",
       harvestTime: "அறுவடை நேரம்",
       sowingTime: "விதைத்தல் நேரம்",
+      updateFailed: "அறிவிப்புகளைப் புதுப்பிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
     },
     errors: {
       networkError: "நெட்வொர்க் இணைப்பு பிழை",
@@ -1808,8 +2845,9 @@ export const getTranslation = (language: string, key: string): string => {
   return value || key;
 };
 
+// The same function is returned until the language changes, so effects can depend on it
 export const useTranslation = (language: string) => {
-  return (key: string) => getTranslation(language, key);
+  return useCallback((key: string) => getTranslation(language, key), [language]);
 };
 
 // Helper function to translate stage names
@@ -1830,63 +2868,14 @@ export const translateStageName = (stageName: string, language: string): string
 
 // Helper function to translate state names
 export const translateStateName = (stateName: string, language: string): string => {
-  const stateMap: Record<string, string> = {
-    'Tamil Nadu': 'states.tamilNadu',
-    'Delhi': 'states.delhi',
-    'Punjab': 'states.punjab',
-    'Gujarat': 'states.gujarat',
-    'UP': 'states.up',
-    'MP': 'states.mp',
-    'Maharashtra': 'states.maharashtra',
-    'Karnataka': 'states.karnataka',
-    'Andhra Pradesh': 'states.andhraPradesh',
-    'Telangana': 'states.telangana',
-    'West Bengal': 'states.westBengal',
-    'Bihar': 'states.bihar',
-    'Rajasthan': 'states.rajasthan',
-    'Haryana': 'states.haryana',
-    'Uttarakhand': 'states.uttarakhand',
-    'Himachal Pradesh': 'states.himachalPradesh',
-    'Jammu & Kashmir': 'states.jammuKashmir',
-    'Assam': 'states.assam',
-    'Odisha': 'states.odisha',
-    'Chhattisgarh': 'states.chhattisgarh',
-    'Jharkhand': 'states.jharkhand',
-    'Uttar Pradesh': 'states.uttarPradesh',
-    'Madhya Pradesh': 'states.madhyaPradesh',
-  };
-  
-  const translationKey = stateMap[stateName];
-  return translationKey ? getTranslation(language, translationKey) : stateName;
+  const stateKey = STATE_KEYS[stateName];
+  return stateKey ? getTranslation(language, `states.${stateKey}`) : stateName;
 };
 
 // Helper function to translate crop names
 export const translateCropName = (cropName: string, language: string): string => {
-  const cropMap: Record<string, string> = {
-    'Rice': 'crops.rice',
-    'Wheat': 'crops.wheat',
-    'Cotton': 'crops.cotton',
-    'Sugarcane': 'crops.sugarcane',
-    'Soybean': 'crops.soybean',
-    'Groundnut': 'crops.groundnut',
-    'Maize': 'crops.maize',
-    'Bajra': 'crops.bajra',
-    'Jowar': 'crops.jowar',
-    'Ragi': 'crops.ragi',
-    'Gram': 'crops.gram',
-    'Tur': 'crops.tur',
-    'Moong': 'crops.moong',
-    'Urad': 'crops.urad',
-    'Masoor': 'crops.masoor',
-    'Mustard': 'crops.mustard',
-    'Sunflower': 'crops.sunflower',
-    'Sesame': 'crops.sesame',
-    'Castor': 'crops.castor',
-    'Jute': 'crops.jute',
-  };
-  
-  const translationKey = cropMap[cropName];
-  return translationKey ? getTranslation(language, translationKey) : cropName;
+  const cropKey = cropName.toLowerCase();
+  return cropKey in CROP_NAMES.en ? getTranslation(language, `crops.${cropKey}`) : cropName;
 };
 
 // Helper function to translate fertilizer names
@@ -0,0 +1,128 @@
+// Weather-aware rescheduling of pending calendar activities using the weather-data forecast
+import { CropActivity, UserCalendarEntry, getActivityById } from '@/lib/farmingCalendarData';
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD
+  rainfall: number; // mm
+  temperature: number; // daily mean °C
+  tempMax?: number; // °C; unset in older responses
+}
+
+export interface WeatherAdjustment {
+  id: string;
+  scheduledDate: string;
+  originalScheduledDate: string;
+  reason: 'rain' | 'heat';
+  value: number; // forecast rainfall (mm) or maximum temperature (°C) on the original day
+  blockedDate: string;
+}
+
+// A rainy day per IMD is 2.5 mm or more; sprays and top dressings wash off well below heavy-rain levels
+export const RAIN_THRESHOLD_MM = 2.5;
+export const EXTREME_HEAT_C = 40;
+
+// Activity types that suffer from rain or heat even when the dataset does not flag them weather-dependent
+const WEATHER_SENSITIVE_TYPES: CropActivity['type'][] = ['pest_control', 'fertilizing', 'harvesting'];
+
+// Heat mostly matters for sprays, fertilizer (volatilisation) and field operations on young plants
+const HEAT_SENSITIVE_TYPES: CropActivity['type'][] = ['pest_control', 'fertilizing', 'sowing'];
+
+const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromDateKey = (key: string, timeSource: Date): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(timeSource);
+  date.setFullYear(year, month - 1, day);
+  return date;
+};
+
+export const isWeatherSensitive = (activity: CropActivity): boolean =>
+  activity.weatherDependent || WEATHER_SENSITIVE_TYPES.includes(activity.type);
+
+// Convert the weather-data forecast arrays into per-day records; older responses without dates are skipped
+export const getForecastDays = (forecast?: {
+  dates?: string[];
+  rainfall: number[];
+  temperature: number[];
+  tempMax?: number[];
+}): ForecastDay[] => {
+  if (!forecast?.dates) return [];
+  return forecast.dates.map((date, index) => ({
+    date,
+    rainfall: forecast.rainfall[index] ?? 0,
+    temperature: forecast.temperature[index] ?? 0,
+    tempMax: forecast.tempMax?.[index],
+  }));
+};
+
+const getBlockingWeather = (
+  activity: CropActivity,
+  day: ForecastDay
+): { reason: WeatherAdjustment['reason']; value: number } | null => {
+  if (day.rainfall >= RAIN_THRESHOLD_MM) {
+    return { reason: 'rain', value: day.rainfall };
+  }
+  // Heat stress is about the afternoon peak, which the daily mean understates by several degrees
+  const peak = day.tempMax ?? day.temperature;
+  if (peak >= EXTREME_HEAT_C && HEAT_SENSITIVE_TYPES.includes(activity.type)) {
+    return { reason: 'heat', value: peak };
+  }
+  return null;
+};
+
+// Find pending weather-sensitive activities that fall on a bad forecast day and move each to the
+// next suitable day. Activities are only ever delayed; if every remaining forecast day is bad the
+// activity moves to the day after the forecast ends.
+export const planWeatherAdjustments = (
+  entries: UserCalendarEntry[],
+  forecastDays: ForecastDay[],
+  today: Date = new Date()
+): WeatherAdjustment[] => {
+  if (forecastDays.length === 0) return [];
+
+  const todayKey = toDateKey(today);
+  const forecastByDate = new Map(forecastDays.map(day => [day.date, day]));
+  const orderedDates = forecastDays.map(day => day.date).sort();
+  const adjustments: WeatherAdjustment[] = [];
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending') continue;
+
+    const activity = getActivityById(entry.cropName, entry.activityId);
+    if (!activity || !isWeatherSensitive(activity)) continue;
+
+    const scheduled = new Date(entry.scheduledDate);
+    const scheduledKey = toDateKey(scheduled);
+    const forecastDay = forecastByDate.get(scheduledKey);
+    if (scheduledKey < todayKey || !forecastDay) continue;
+
+    const blocking = getBlockingWeather(activity, forecastDay);
+    if (!blocking) continue;
+
+    const nextGoodKey = orderedDates.find(date =>
+      date > scheduledKey && !getBlockingWeather(activity, forecastByDate.get(date)!)
+    );
+    let newDate: Date;
+    if (nextGoodKey) {
+      newDate = fromDateKey(nextGoodKey, scheduled);
+    } else {
+      newDate = fromDateKey(orderedDates[orderedDates.length - 1], scheduled);
+      newDate.setDate(newDate.getDate() + 1);
+    }
+
+    adjustments.push({
+      id: entry.id,
+      scheduledDate: newDate.toISOString(),
+      originalScheduledDate: entry.originalScheduledDate || entry.scheduledDate,
+      reason: blocking.reason,
+      value: Math.round(blocking.value * 10) / 10,
+      blockedDate: scheduledKey,
+    });
+  }
+
+  return adjustments;
+};
@@ -2,5 +2,16 @@ import React from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker } from "./lib/pushNotifications";
+import { startBackgroundSync } from "./lib/offlineSync";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The service worker serves the app shell offline and shows push alerts for farmers who have
+// subscribed on this device
+window.addEventListener("load", () => {
+  registerServiceWorker();
+});
+
+// Replay changes made offline once the connection is back
+startBackgroundSync();
@@ -0,0 +1,195 @@
+// Alerts rendered for phone channels in the farmer's language: short SMS text that fits a fixed
+// number of segments, and a spoken script for voice calls (IVR) with units and money written out.
+// Rendered from the rule and the values it matched on, so stored notifications can be re-rendered.
+import { HEAVY_RAIN_MM, formatActivity } from "./notificationRules.ts";
+import { addDays } from "./dates.ts";
+import { localActivityName, localCropName, localStateName } from "./farmNames.ts";
+
+export type AlertLanguage = 'en' | 'hi' | 'ta';
+export type AlertChannel = 'sms' | 'voice';
+
+export interface RenderableAlert {
+  rule: string | null;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+// Messages longer than one segment are sent as a concatenated SMS, which bills per segment
+const MAX_SMS_SEGMENTS = 2;
+const GSM_SINGLE = 160;
+const GSM_PART = 153;
+const UNICODE_SINGLE = 70;
+const UNICODE_PART = 67;
+// The GSM 03.38 basic character set; anything else (Devanagari, Tamil, ₹) forces UCS-2
+const GSM_CHARS = /^[A-Za-z0-9 \r\n@£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./:;<=>?¡ÄÖÑÜ§¿äöñüà]*$/;
+
+interface LanguageText {
+  brand: string;
+  today: string;
+  tomorrow: string;
+  locale: string;
+  optOut: string;
+  optedOut: string;
+  optedIn: string;
+  verificationCode: (code: string, minutes: number) => string;
+  heavyRain: string;
+  rain: string;
+  millimetres: Record<AlertChannel, string>;
+  money: Record<AlertChannel, (price: string) => string>;
+  perQuintal: Record<AlertChannel, string>;
+  rainAdvice: (what: string, amount: string, day: string) => string;
+  priceMove: (crop: string, state: string, price: string, change: string) => string;
+  activityDue: (activity: string, crop: string, day: string) => string;
+}
+
+const TEXT: Record<AlertLanguage, LanguageText> = {
+  en: {
+    brand: 'Krishi Sahayak',
+    today: 'today',
+    tomorrow: 'tomorrow',
+    locale: 'en-IN',
+    optOut: 'Reply STOP to opt out.',
+    optedOut: 'You will no longer get SMS alerts. Reply START to get them again.',
+    optedIn: 'SMS alerts are on. Reply STOP to opt out.',
+    verificationCode: (code, minutes) => `Your code to turn on SMS alerts is ${code}. It expires in ${minutes} minutes.`,
+    heavyRain: 'Heavy rain',
+    rain: 'Rain',
+    millimetres: { sms: 'mm', voice: ' millimetres' },
+    money: { sms: price => `Rs ${price}`, voice: price => `${price} rupees` },
+    perQuintal: { sms: '/qtl', voice: ' per quintal' },
+    rainAdvice: (what, amount, day) =>
+      `${what} (about ${amount}) forecast ${day}. Hold irrigation and spraying, clear field drains.`,
+    priceMove: (crop, state, price, change) => `${crop} in ${state} is ${price}, ${change} this week.`,
+    activityDue: (activity, crop, day) => `${activity} for your ${crop} is due ${day}.`,
+  },
+  hi: {
+    brand: 'कृषि सहायक',
+    today: 'आज',
+    tomorrow: 'कल',
+    locale: 'hi-IN',
+    optOut: 'बंद करने हेतु STOP भेजें।',
+    optedOut: 'अब आपको SMS अलर्ट नहीं मिलेंगे। फिर से पाने के लिए START भेजें।',
+    optedIn: 'SMS अलर्ट चालू हैं। बंद करने हेतु STOP भेजें।',
+    verificationCode: (code, minutes) => `SMS अलर्ट चालू करने का आपका कोड ${code} है। यह ${minutes} मिनट में समाप्त हो जाएगा।`,
+    heavyRain: 'भारी बारिश',
+    rain: 'बारिश',
+    millimetres: { sms: ' मिमी', voice: ' मिलीमीटर' },
+    money: { sms: price => `₹${price}`, voice: price => `${price} रुपये` },
+    perQuintal: { sms: '/क्विंटल', voice: ' प्रति क्विंटल' },
+    rainAdvice: (what, amount, day) =>
+      `${day} ${what} (लगभग ${amount}) का अनुमान। सिंचाई व छिड़काव रोकें, नालियां साफ रखें।`,
+    priceMove: (crop, state, price, change) => `${state} में ${crop} ${price}, इस सप्ताह ${change}।`,
+    activityDue: (activity, crop, day) => `आपकी ${crop} फसल का काम "${activity}" ${day} करना है।`,
+  },
+  ta: {
+    brand: 'கிருஷி சகாயக்',
+    today: 'இன்று',
+    tomorrow: 'நாளை',
+    locale: 'ta-IN',
+    optOut: 'நிறுத்த STOP அனுப்பவும்.',
+    optedOut: 'இனி SMS எச்சரிக்கைகள் வராது. மீண்டும் பெற START அனுப்பவும்.',
+    optedIn: 'SMS எச்சரிக்கைகள் இயக்கத்தில் உள்ளன. நிறுத்த STOP அனுப்பவும்.',
+    verificationCode: (code, minutes) => `SMS எச்சரிக்கைகளை இயக்க உங்கள் குறியீடு ${code}. இது ${minutes} நிமிடங்களில் காலாவதியாகும்.`,
+    heavyRain: 'கனமழை',
+    rain: 'மழை',
+    millimetres: { sms: ' மி.மீ', voice: ' மில்லிமீட்டர்' },
+    money: { sms: price => `₹${price}`, voice: price => `${price} ரூபாய்` },
+    perQuintal: { sms: '/குவிண்டால்', voice: ' ஒரு குவிண்டாலுக்கு' },
+    rainAdvice: (what, amount, day) =>
+      `${day} ${what} (சுமார் ${amount}) எதிர்பார்ப்பு. பாசனம், தெளிப்பைத் தவிர்க்கவும்.`,
+    priceMove: (crop, state, price, change) => `${state} இல் ${crop} ${price}, இந்த வாரம் ${change}.`,
+    activityDue: (activity, crop, day) => `உங்கள் ${crop} பயிருக்கு "${activity}" ${day} செய்ய வேண்டும்.`,
+  },
+};
+
+export const toAlertLanguage = (language: string | null | undefined): AlertLanguage =>
+  language === 'hi' || language === 'ta' ? language : 'en';
+
+const formatDay = (date: string, today: string, text: LanguageText): string => {
+  if (date === today) return text.today;
+  if (date === addDays(today, 1)) return text.tomorrow;
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(text.locale, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+};
+
+// The alert itself, without the brand prefix or opt-out line; unknown rules fall back to the stored text
+const renderBody = (alert: RenderableAlert, language: AlertLanguage, channel: AlertChannel, today: string): string => {
+  const text = TEXT[language];
+  const data = alert.data;
+
+  switch (alert.rule) {
+    case 'heavy_rain': {
+      const rainfall = Number(data.rainfall);
+      const what = rainfall >= HEAVY_RAIN_MM ? text.heavyRain : text.rain;
+      return text.rainAdvice(what, `${Math.round(rainfall)}${text.millimetres[channel]}`, formatDay(String(data.date), today, text));
+    }
+    case 'price_move': {
+      const change = Number(data.change);
+      const price = text.money[channel](Number(data.price).toLocaleString('en-IN')) + text.perQuintal[channel];
+      return text.priceMove(
+        localCropName(String(data.commodity), language),
+        localStateName(String(data.state), language),
+        price,
+        `${change > 0 ? '+' : ''}${change.toFixed(1)}%`
+      );
+    }
+    case 'activity_due': {
+      const crop = String(data.crop);
+      const activityId = String(data.activityId);
+      return text.activityDue(
+        localActivityName(activityId, crop, language) ?? formatActivity(activityId, crop),
+        localCropName(crop, language),
+        formatDay(String(data.date), today, text)
+      );
+    }
+    default:
+      return `${alert.title}. ${alert.message}`;
+  }
+};
+
+export const countSmsSegments = (text: string): { segments: number; perSegment: number; single: number } => {
+  const gsm = GSM_CHARS.test(text);
+  const single = gsm ? GSM_SINGLE : UNICODE_SINGLE;
+  const part = gsm ? GSM_PART : UNICODE_PART;
+  return { segments: text.length <= single ? 1 : Math.ceil(text.length / part), perSegment: part, single };
+};
+
+// Cut the alert at a word boundary so the whole SMS, including the opt-out line, fits
+const fitSms = (prefix: string, body: string, suffix: string): string => {
+  const full = `${prefix}${body} ${suffix}`;
+  const { perSegment } = countSmsSegments(full);
+  const limit = MAX_SMS_SEGMENTS * perSegment;
+  if (full.length <= limit) return full;
+
+  // "…" is not a GSM character, so a GSM message is cut with three dots to stay GSM
+  const ellipsis = GSM_CHARS.test(full) ? '...' : '…';
+  const room = limit - prefix.length - suffix.length - ellipsis.length - 1;
+  const cut = body.slice(0, room);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${prefix}${(lastSpace > room / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}${ellipsis} ${suffix}`;
+};
+
+// Reply to a STOP or START keyword
+export const renderOptChange = (optedIn: boolean, language: AlertLanguage): string => {
+  const text = TEXT[language];
+  return `${text.brand}: ${optedIn ? text.optedIn : text.optedOut}`;
+};
+
+// The code texted by verify-phone
+export const renderVerificationCode = (code: string, minutes: number, language: AlertLanguage): string => {
+  const text = TEXT[language];
+  return `${text.brand}: ${text.verificationCode(code, minutes)}`;
+};
+
+export const renderAlertMessage = (
+  alert: RenderableAlert,
+  language: AlertLanguage,
+  channel: AlertChannel,
+  today: string
+): string => {
+  const text = TEXT[language];
+  const body = renderBody(alert, language, channel, today);
+  return channel === 'sms'
+    ? fitSms(`${text.brand}: `, body, text.optOut)
+    : `${text.brand}. ${body}`;
+};
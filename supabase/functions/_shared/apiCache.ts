@@ -0,0 +1,141 @@
+// Shared cache of upstream API responses (public.api_cache) used by weather-data and market-data,
+// and through them by chat-assistant and the alert functions. Every source has its own freshness:
+// a fresh entry is served as is, a stale one is served at once and refreshed in the background
+// (stale-while-revalidate), and an expired one is refetched. When a refetch fails, the last value
+// is served instead of an error so an upstream outage or an exhausted quota does not reach farmers.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type CacheSource =
+  | 'openweather-current'
+  | 'openweather-forecast'
+  | 'open-meteo-forecast'
+  | 'open-meteo-history'
+  | 'agmarknet'
+  | 'market-scraper';
+
+interface CachePolicy {
+  freshSeconds: number;
+  staleSeconds: number; // counted from the fetch, so always longer than freshSeconds
+}
+
+// Current conditions change within the hour, forecasts are reissued every few hours and mandi
+// prices are reported once a day
+export const CACHE_POLICIES: Record<CacheSource, CachePolicy> = {
+  'openweather-current': { freshSeconds: 10 * 60, staleSeconds: 60 * 60 },
+  'openweather-forecast': { freshSeconds: 60 * 60, staleSeconds: 6 * 60 * 60 },
+  'open-meteo-forecast': { freshSeconds: 60 * 60, staleSeconds: 6 * 60 * 60 },
+  'open-meteo-history': { freshSeconds: 60 * 60, staleSeconds: 6 * 60 * 60 },
+  'agmarknet': { freshSeconds: 3 * 60 * 60, staleSeconds: 24 * 60 * 60 },
+  'market-scraper': { freshSeconds: 3 * 60 * 60, staleSeconds: 24 * 60 * 60 },
+};
+
+// Only one request refreshes a stale entry. A refresh that fails keeps the claim until it lapses,
+// so a failing API is retried at most this often.
+const REFRESH_CLAIM_SECONDS = 60;
+
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+export interface CachedValue<T> {
+  value: T;
+  status: CacheStatus;
+  fetchedAt: string;
+}
+
+// Two decimals is about 1 km, so neighbouring farms share an entry
+export const roundCoordinate = (value: number): number => Math.round(value * 100) / 100;
+
+export const coordinateCacheKey = (latitude: number, longitude: number): string =>
+  `${roundCoordinate(latitude).toFixed(2)},${roundCoordinate(longitude).toFixed(2)}`;
+
+// Supabase's edge runtime keeps the worker alive for promises handed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const runInBackground = (task: Promise<unknown>) => {
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(task);
+};
+
+const storeEntry = async (client: SupabaseClient, source: CacheSource, key: string, value: unknown) => {
+  const policy = CACHE_POLICIES[source];
+  const now = Date.now();
+  const { error } = await client
+    .from('api_cache')
+    .upsert({
+      cache_key: key,
+      source,
+      value,
+      fetched_at: new Date(now).toISOString(),
+      fresh_until: new Date(now + policy.freshSeconds * 1000).toISOString(),
+      stale_until: new Date(now + policy.staleSeconds * 1000).toISOString(),
+      refreshing_since: null,
+    }, { onConflict: 'cache_key' });
+
+  // The response is still good without the cache, so a failed write is only logged
+  if (error) console.error(`Cache write failed for ${key}:`, error);
+};
+
+const claimRefresh = async (client: SupabaseClient, key: string): Promise<boolean> => {
+  const lapsed = new Date(Date.now() - REFRESH_CLAIM_SECONDS * 1000).toISOString();
+  const { data, error } = await client
+    .from('api_cache')
+    .update({ refreshing_since: new Date().toISOString() })
+    .eq('cache_key', key)
+    .or(`refreshing_since.is.null,refreshing_since.lt.${lapsed}`)
+    .select('cache_key');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+// Return the cached value for `key`, calling `load` when there is none or it has expired. Without a
+// service client (local runs without the service role) every call goes to `load`.
+export const withCache = async <T>(
+  client: SupabaseClient | null,
+  source: CacheSource,
+  key: string,
+  load: () => Promise<T>
+): Promise<CachedValue<T>> => {
+  if (!client) {
+    return { value: await load(), status: 'bypass', fetchedAt: new Date().toISOString() };
+  }
+
+  let entry: { value: unknown; fetched_at: string; fresh_until: string; stale_until: string } | null = null;
+  try {
+    const { data, error } = await client
+      .from('api_cache')
+      .select('value, fetched_at, fresh_until, stale_until')
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    entry = data;
+  } catch (error) {
+    console.error(`Cache read failed for ${key}:`, error);
+  }
+
+  const now = Date.now();
+  if (entry && now < Date.parse(entry.fresh_until)) {
+    return { value: entry.value as T, status: 'hit', fetchedAt: entry.fetched_at };
+  }
+
+  if (entry && now < Date.parse(entry.stale_until)) {
+    runInBackground((async () => {
+      try {
+        if (!(await claimRefresh(client, key))) return;
+        await storeEntry(client, source, key, await load());
+      } catch (error) {
+        console.error(`Background refresh failed for ${key}:`, error);
+      }
+    })());
+    return { value: entry.value as T, status: 'stale', fetchedAt: entry.fetched_at };
+  }
+
+  try {
+    const value = await load();
+    await storeEntry(client, source, key, value);
+    return { value, status: 'miss', fetchedAt: new Date().toISOString() };
+  } catch (error) {
+    if (!entry) throw error;
+    console.error(`${source} failed, serving expired cache for ${key}:`, error);
+    return { value: entry.value as T, status: 'stale', fetchedAt: entry.fetched_at };
+  }
+};
@@ -0,0 +1,12 @@
+// Calendar dates as "YYYY-MM-DD" keys. Farmers are all on IST, so "today" is the date in India.
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const toIndiaDateKey = (date: Date): string => toDateKey(new Date(date.getTime() + IST_OFFSET_MS));
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
@@ -0,0 +1,319 @@
+// Crop, state and calendar activity names in each app language. The app's translations use the
+// crop and state tables, and phone alerts use all three, so a farmer reads the same names in both.
+type NameLanguage = 'en' | 'hi' | 'ta';
+
+export type CropKey =
+  | 'rice' | 'wheat' | 'cotton' | 'sugarcane' | 'soybean' | 'groundnut' | 'maize' | 'bajra' | 'jowar'
+  | 'ragi' | 'gram' | 'tur' | 'moong' | 'urad' | 'masoor' | 'mustard' | 'sunflower' | 'sesame'
+  | 'castor' | 'jute' | 'onion' | 'potato' | 'tomato' | 'chili' | 'turmeric' | 'coriander' | 'cumin';
+
+export type StateKey =
+  | 'tamilNadu' | 'delhi' | 'punjab' | 'gujarat' | 'up' | 'mp' | 'maharashtra' | 'karnataka'
+  | 'andhraPradesh' | 'telangana' | 'westBengal' | 'bihar' | 'rajasthan' | 'haryana' | 'uttarakhand'
+  | 'himachalPradesh' | 'jammuKashmir' | 'assam' | 'odisha' | 'chhattisgarh' | 'jharkhand'
+  | 'uttarPradesh' | 'madhyaPradesh';
+
+export const CROP_NAMES: Record<NameLanguage, Record<CropKey, string>> = {
+  en: {
+    rice: "Rice",
+    wheat: "Wheat",
+    cotton: "Cotton",
+    sugarcane: "Sugarcane",
+    soybean: "Soybean",
+    groundnut: "Groundnut",
+    maize: "Maize",
+    bajra: "Bajra",
+    jowar: "Jowar",
+    ragi: "Ragi",
+    gram: "Gram",
+    tur: "Tur",
+    moong: "Moong",
+    urad: "Urad",
+    masoor: "Masoor",
+    mustard: "Mustard",
+    sunflower: "Sunflower",
+    sesame: "Sesame",
+    castor: "Castor",
+    jute: "Jute",
+    onion: "Onion",
+    potato: "Potato",
+    tomato: "Tomato",
+    chili: "Chili",
+    turmeric: "Turmeric",
+    coriander: "Coriander",
+    cumin: "Cumin",
+  },
+  hi: {
+    rice: "चावल",
+    wheat: "गेहूं",
+    cotton: "कपास",
+    sugarcane: "गन्ना",
+    soybean: "सोयाबीन",
+    groundnut: "मूंगफली",
+    maize: "मक्का",
+    bajra: "बाजरा",
+    jowar: "ज्वार",
+    ragi: "रागी",
+    gram: "चना",
+    tur: "तूर",
+    moong: "मूंग",
+    urad: "उड़द",
+    masoor: "मसूर",
+    mustard: "सरसों",
+    sunflower: "सूरजमुखी",
+    sesame: "तिल",
+    castor: "अरंडी",
+    jute: "जूट",
+    onion: "प्याज",
+    potato: "आलू",
+    tomato: "टमाटर",
+    chili: "मिर्च",
+    turmeric: "हल्दी",
+    coriander: "धनिया",
+    cumin: "जीरा",
+  },
+  ta: {
+    rice: "அரிசி",
+    wheat: "கோதுமை",
+    cotton: "பருத்தி",
+    sugarcane: "கரும்பு",
+    soybean: "சோயாபீன்",
+    groundnut: "வேர்க்கடலை",
+    maize: "சோளம்",
+    bajra: "பஜ்ரா",
+    jowar: "சோளம்",
+    ragi: "ராகி",
+    gram: "கடலை",
+    tur: "துவரம் பருப்பு",
+    moong: "பச்சை பருப்பு",
+    urad: "உளுந்து",
+    masoor: "மசூர்",
+    mustard: "கடுகு",
+    sunflower: "சூரியகாந்தி",
+    sesame: "எள்",
+    castor: "ஆமணக்கு",
+    jute: "சணல்",
+    onion: "வெங்காயம்",
+    potato: "உருளைக்கிழங்கு",
+    tomato: "தக்காளி",
+    chili: "மிளகாய்",
+    turmeric: "மஞ்சள்",
+    coriander: "கொத்தமல்லி",
+    cumin: "சீரகம்",
+  },
+};
+
+export const STATE_NAMES: Record<NameLanguage, Record<StateKey, string>> = {
+  en: {
+    tamilNadu: "Tamil Nadu",
+    delhi: "Delhi",
+    punjab: "Punjab",
+    gujarat: "Gujarat",
+    up: "Uttar Pradesh",
+    mp: "Madhya Pradesh",
+    maharashtra: "Maharashtra",
+    karnataka: "Karnataka",
+    andhraPradesh: "Andhra Pradesh",
+    telangana: "Telangana",
+    westBengal: "West Bengal",
+    bihar: "Bihar",
+    rajasthan: "Rajasthan",
+    haryana: "Haryana",
+    uttarakhand: "Uttarakhand",
+    himachalPradesh: "Himachal Pradesh",
+    jammuKashmir: "Jammu & Kashmir",
+    assam: "Assam",
+    odisha: "Odisha",
+    chhattisgarh: "Chhattisgarh",
+    jharkhand: "Jharkhand",
+    uttarPradesh: "Uttar Pradesh",
+    madhyaPradesh: "Madhya Pradesh",
+  },
+  hi: {
+    tamilNadu: "तमिलनाडु",
+    delhi: "दिल्ली",
+    punjab: "पंजाब",
+    gujarat: "गुजरात",
+    up: "उत्तर प्रदेश",
+    mp: "मध्य प्रदेश",
+    maharashtra: "महाराष्ट्र",
+    karnataka: "कर्नाटक",
+    andhraPradesh: "आंध्र प्रदेश",
+    telangana: "तेलंगाना",
+    westBengal: "पश्चिम बंगाल",
+    bihar: "बिहार",
+    rajasthan: "राजस्थान",
+    haryana: "हरियाणा",
+    uttarakhand: "उत्तराखंड",
+    himachalPradesh: "हिमाचल प्रदेश",
+    jammuKashmir: "जम्मू और कश्मीर",
+    assam: "असम",
+    odisha: "ओडिशा",
+    chhattisgarh: "छत्तीसगढ़",
+    jharkhand: "झारखंड",
+    uttarPradesh: "उत्तर प्रदेश",
+    madhyaPradesh: "मध्य प्रदेश",
+  },
+  ta: {
+    tamilNadu: "தமிழ்நாடு",
+    delhi: "டெல்லி",
+    punjab: "பஞ்சாப்",
+    gujarat: "குஜராத்",
+    up: "உத்தரப் பிரதேசம்",
+    mp: "மத்தியப் பிரதேசம்",
+    maharashtra: "மகாராஷ்டிரா",
+    karnataka: "கர்நாடகா",
+    andhraPradesh: "ஆந்திரப் பிரதேசம்",
+    telangana: "தெலங்காணா",
+    westBengal: "மேற்கு வங்காளம்",
+    bihar: "பீகார்",
+    rajasthan: "ராஜஸ்தான்",
+    haryana: "ஹரியானா",
+    uttarakhand: "உத்தராகண்ட்",
+    himachalPradesh: "இமாச்சலப் பிரதேசம்",
+    jammuKashmir: "ஜம்மு காஷ்மீர்",
+    assam: "அசாம்",
+    odisha: "ஒடிசா",
+    chhattisgarh: "சத்தீஸ்கர்",
+    jharkhand: "ஜார்கண்ட்",
+    uttarPradesh: "உத்தரப் பிரதேசம்",
+    madhyaPradesh: "மத்தியப் பிரதேசம்",
+  },
+};
+
+// State names as farmers and price feeds write them
+export const STATE_KEYS: Record<string, StateKey> = {
+  'Tamil Nadu': 'tamilNadu',
+  'Delhi': 'delhi',
+  'Punjab': 'punjab',
+  'Gujarat': 'gujarat',
+  'UP': 'up',
+  'MP': 'mp',
+  'Maharashtra': 'maharashtra',
+  'Karnataka': 'karnataka',
+  'Andhra Pradesh': 'andhraPradesh',
+  'Telangana': 'telangana',
+  'West Bengal': 'westBengal',
+  'Bihar': 'bihar',
+  'Rajasthan': 'rajasthan',
+  'Haryana': 'haryana',
+  'Uttarakhand': 'uttarakhand',
+  'Himachal Pradesh': 'himachalPradesh',
+  'Jammu & Kashmir': 'jammuKashmir',
+  'Assam': 'assam',
+  'Odisha': 'odisha',
+  'Chhattisgarh': 'chhattisgarh',
+  'Jharkhand': 'jharkhand',
+  'Uttar Pradesh': 'uttarPradesh',
+  'Madhya Pradesh': 'madhyaPradesh',
+};
+
+// Calendar activities by their id without the crop prefix ("rice_first_top_dressing" -> "first_top_dressing")
+export const ACTIVITY_NAMES: Record<NameLanguage, Record<string, string>> = {
+  en: {
+    seed_procurement: "Seed procurement",
+    nursery_preparation: "Nursery preparation",
+    nursery_sowing: "Nursery sowing",
+    field_preparation: "Field preparation",
+    sowing: "Sowing",
+    planting: "Planting",
+    transplanting: "Transplanting",
+    thinning: "Thinning",
+    basal_fertilizer: "Basal fertilizer application",
+    first_fertilizer: "First fertilizer application",
+    first_top_dressing: "First top dressing",
+    second_top_dressing: "Second top dressing",
+    vegetative_fertilizer: "Vegetative stage fertilizer",
+    tillering_fertilizer: "Tillering stage fertilizer",
+    grand_growth_fertilizer: "Grand growth fertilizer",
+    tasseling_fertilizer: "Tasseling stage fertilizer",
+    panicile_initiation: "Panicle initiation fertilizer",
+    flowering_fertilizer: "Flowering stage fertilizer",
+    boll_development: "Boll development fertilizer",
+    first_irrigation: "First irrigation",
+    earthing_up: "Earthing up",
+    second_earthing: "Second earthing up",
+    pest_control: "Pest control",
+    pest_control_1: "Early pest control",
+    flowering_pest_control: "Flowering stage pest control",
+    harvest_preparation: "Harvest preparation",
+    harvesting: "Harvesting",
+  },
+  hi: {
+    seed_procurement: "बीज खरीद",
+    nursery_preparation: "नर्सरी की तैयारी",
+    nursery_sowing: "नर्सरी में बुवाई",
+    field_preparation: "खेत की तैयारी",
+    sowing: "बुवाई",
+    planting: "रोपण",
+    transplanting: "रोपाई",
+    thinning: "विरलन",
+    basal_fertilizer: "आधार खाद डालना",
+    first_fertilizer: "पहली खाद डालना",
+    first_top_dressing: "पहली टॉप ड्रेसिंग",
+    second_top_dressing: "दूसरी टॉप ड्रेसिंग",
+    vegetative_fertilizer: "वानस्पतिक अवस्था की खाद",
+    tillering_fertilizer: "कल्ले निकलने की अवस्था की खाद",
+    grand_growth_fertilizer: "तीव्र वृद्धि अवस्था की खाद",
+    tasseling_fertilizer: "नर मंजरी अवस्था की खाद",
+    panicile_initiation: "बाली बनने की अवस्था की खाद",
+    flowering_fertilizer: "फूल आने की अवस्था की खाद",
+    boll_development: "टिंडा विकास की खाद",
+    first_irrigation: "पहली सिंचाई",
+    earthing_up: "मिट्टी चढ़ाना",
+    second_earthing: "दूसरी बार मिट्टी चढ़ाना",
+    pest_control: "कीट नियंत्रण",
+    pest_control_1: "शुरुआती कीट नियंत्रण",
+    flowering_pest_control: "फूल अवस्था में कीट नियंत्रण",
+    harvest_preparation: "कटाई की तैयारी",
+    harvesting: "कटाई",
+  },
+  ta: {
+    seed_procurement: "விதை கொள்முதல்",
+    nursery_preparation: "நாற்றங்கால் தயாரிப்பு",
+    nursery_sowing: "நாற்றங்கால் விதைப்பு",
+    field_preparation: "நில தயாரிப்பு",
+    sowing: "விதைப்பு",
+    planting: "நடவு",
+    transplanting: "நாற்று நடவு",
+    thinning: "பயிர் கலைத்தல்",
+    basal_fertilizer: "அடியுரம் இடுதல்",
+    first_fertilizer: "முதல் உரமிடுதல்",
+    first_top_dressing: "முதல் மேலுரம்",
+    second_top_dressing: "இரண்டாம் மேலுரம்",
+    vegetative_fertilizer: "வளர்ச்சி நிலை உரம்",
+    tillering_fertilizer: "தூர் கட்டும் நிலை உரம்",
+    grand_growth_fertilizer: "தீவிர வளர்ச்சி நிலை உரம்",
+    tasseling_fertilizer: "ஆண் பூ நிலை உரம்",
+    panicile_initiation: "கதிர் உருவாகும் நிலை உரம்",
+    flowering_fertilizer: "பூக்கும் நிலை உரம்",
+    boll_development: "காய் வளர்ச்சி நிலை உரம்",
+    first_irrigation: "முதல் பாசனம்",
+    earthing_up: "மண் அணைத்தல்",
+    second_earthing: "இரண்டாம் மண் அணைத்தல்",
+    pest_control: "பூச்சி கட்டுப்பாடு",
+    pest_control_1: "ஆரம்ப பூச்சி கட்டுப்பாடு",
+    flowering_pest_control: "பூக்கும் நிலை பூச்சி கட்டுப்பாடு",
+    harvest_preparation: "அறுவடை தயாரிப்பு",
+    harvesting: "அறுவடை",
+  },
+};
+
+const isCropKey = (key: string): key is CropKey => key in CROP_NAMES.en;
+
+// Names that are not in the tables are returned as they are
+export const localCropName = (cropName: string, language: NameLanguage): string => {
+  const key = cropName.trim().toLowerCase();
+  return isCropKey(key) ? CROP_NAMES[language][key] : cropName;
+};
+
+export const localStateName = (stateName: string, language: NameLanguage): string => {
+  const key = STATE_KEYS[stateName];
+  return key ? STATE_NAMES[language][key] : stateName;
+};
+
+export const localActivityName = (activityId: string, cropName: string, language: NameLanguage): string | null => {
+  const prefix = `${cropName.trim().toLowerCase()}_`;
+  const slug = activityId.startsWith(prefix) ? activityId.slice(prefix.length) : activityId;
+  return ACTIVITY_NAMES[language][slug] ?? null;
+};
@@ -0,0 +1,579 @@
+// Bundled gazetteer of Indian states, union territories and district headquarters.
+// Coordinates are the district headquarters town; names follow the current official spelling,
+// with older or common spellings as aliases. Abbreviations are only matched as upper-case tokens.
+
+export interface StateEntry {
+  name: string;
+  aliases?: string[];
+  abbreviations?: string[];
+}
+
+export interface DistrictEntry {
+  name: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export const STATES: StateEntry[] = [
+  { name: 'Andhra Pradesh', abbreviations: ['AP'] },
+  { name: 'Arunachal Pradesh' },
+  { name: 'Assam' },
+  { name: 'Bihar' },
+  { name: 'Chhattisgarh', aliases: ['Chattisgarh', 'Chhatisgarh'], abbreviations: ['CG'] },
+  { name: 'Goa' },
+  { name: 'Gujarat', aliases: ['Gujrat'] },
+  { name: 'Haryana' },
+  { name: 'Himachal Pradesh', abbreviations: ['HP'] },
+  { name: 'Jharkhand' },
+  { name: 'Karnataka' },
+  { name: 'Kerala', aliases: ['Keralam'] },
+  { name: 'Madhya Pradesh', abbreviations: ['MP'] },
+  { name: 'Maharashtra', aliases: ['Maharastra'] },
+  { name: 'Manipur' },
+  { name: 'Meghalaya' },
+  { name: 'Mizoram' },
+  { name: 'Nagaland' },
+  { name: 'Odisha', aliases: ['Orissa'] },
+  { name: 'Punjab' },
+  { name: 'Rajasthan' },
+  { name: 'Sikkim' },
+  { name: 'Tamil Nadu', aliases: ['Tamilnadu'], abbreviations: ['TN'] },
+  { name: 'Telangana' },
+  { name: 'Tripura' },
+  { name: 'Uttar Pradesh', abbreviations: ['UP'] },
+  { name: 'Uttarakhand', aliases: ['Uttaranchal'] },
+  { name: 'West Bengal', aliases: ['Bengal'], abbreviations: ['WB'] },
+  { name: 'Andaman and Nicobar Islands', aliases: ['Andaman', 'Andaman & Nicobar'] },
+  { name: 'Chandigarh' },
+  { name: 'Dadra and Nagar Haveli and Daman and Diu', aliases: ['Dadra and Nagar Haveli', 'Daman and Diu'] },
+  { name: 'Delhi', aliases: ['NCT of Delhi'], abbreviations: ['NCR'] },
+  { name: 'Jammu and Kashmir', aliases: ['Jammu & Kashmir', 'Kashmir'], abbreviations: ['J&K', 'JK'] },
+  { name: 'Ladakh' },
+  { name: 'Lakshadweep' },
+  { name: 'Puducherry', aliases: ['Pondicherry'] },
+];
+
+type DistrictRow = [name: string, latitude: number, longitude: number, aliases?: string[]];
+
+const DISTRICTS_BY_STATE: Record<string, DistrictRow[]> = {
+  'Andhra Pradesh': [
+    ['Visakhapatnam', 17.6868, 83.2185, ['Vizag', 'Vishakhapatnam']],
+    ['NTR', 16.5062, 80.6480, ['Vijayawada']],
+    ['Krishna', 16.1875, 81.1389, ['Machilipatnam']],
+    ['Guntur', 16.3067, 80.4365],
+    ['Sri Potti Sriramulu Nellore', 14.4426, 79.9865, ['Nellore', 'SPS Nellore']],
+    ['Kurnool', 15.8281, 78.0373],
+    ['Anantapuramu', 14.6819, 77.6006, ['Anantapur']],
+    ['Chittoor', 13.2172, 79.1003],
+    ['Tirupati', 13.6288, 79.4192],
+    ['YSR Kadapa', 14.4673, 78.8242, ['Kadapa', 'Cuddapah']],
+    ['East Godavari', 17.0005, 81.8040, ['Rajahmundry', 'Rajamahendravaram']],
+    ['West Godavari', 16.5449, 81.5212, ['Bhimavaram']],
+    ['Eluru', 16.7107, 81.0952],
+    ['Kakinada', 16.9891, 82.2475],
+    ['Srikakulam', 18.2949, 83.8938],
+    ['Vizianagaram', 18.1067, 83.3956],
+    ['Prakasam', 15.5057, 80.0499, ['Ongole']],
+  ],
+  'Arunachal Pradesh': [
+    ['Papum Pare', 27.0844, 93.6053, ['Itanagar']],
+  ],
+  'Assam': [
+    ['Kamrup Metropolitan', 26.1445, 91.7362, ['Guwahati', 'Gauhati']],
+    ['Dibrugarh', 27.4728, 94.9120],
+    ['Jorhat', 26.7509, 94.2037],
+    ['Nagaon', 26.3464, 92.6840],
+    ['Cachar', 24.8333, 92.7789, ['Silchar']],
+    ['Sonitpur', 26.6338, 92.8000, ['Tezpur']],
+    ['Barpeta', 26.3230, 91.0060],
+  ],
+  'Bihar': [
+    ['Patna', 25.5941, 85.1376],
+    ['Gaya', 24.7914, 85.0002],
+    ['Muzaffarpur', 26.1209, 85.3647],
+    ['Bhagalpur', 25.2425, 86.9842],
+    ['Darbhanga', 26.1542, 85.8918],
+    ['Purnia', 25.7771, 87.4753],
+    ['Begusarai', 25.4182, 86.1272],
+    ['Aurangabad', 24.7521, 84.3742],
+    ['Nalanda', 25.1982, 85.5180, ['Bihar Sharif']],
+    ['Saran', 25.7796, 84.7499, ['Chhapra']],
+    ['Rohtas', 24.9520, 84.0322, ['Sasaram']],
+    ['Samastipur', 25.8629, 85.7810],
+  ],
+  'Chhattisgarh': [
+    ['Raipur', 21.2514, 81.6296],
+    ['Bilaspur', 22.0797, 82.1391],
+    ['Durg', 21.1904, 81.2849, ['Bhilai']],
+    ['Rajnandgaon', 21.0971, 81.0302],
+    ['Korba', 22.3595, 82.7501],
+    ['Bastar', 19.0748, 82.0080, ['Jagdalpur']],
+    ['Raigarh', 21.8974, 83.3950],
+  ],
+  'Goa': [
+    ['North Goa', 15.4909, 73.8278, ['Panaji', 'Panjim']],
+    ['South Goa', 15.2832, 73.9862, ['Margao', 'Madgaon']],
+  ],
+  'Gujarat': [
+    ['Ahmedabad', 23.0225, 72.5714],
+    ['Surat', 21.1702, 72.8311],
+    ['Vadodara', 22.3072, 73.1812, ['Baroda']],
+    ['Rajkot', 22.3039, 70.8022],
+    ['Bhavnagar', 21.7645, 72.1519],
+    ['Jamnagar', 22.4707, 70.0577],
+    ['Junagadh', 21.5222, 70.4579],
+    ['Kutch', 23.2420, 69.6669, ['Kachchh', 'Bhuj']],
+    ['Mehsana', 23.5880, 72.3693, ['Mahesana']],
+    ['Banaskantha', 24.1725, 72.4381, ['Palanpur']],
+    ['Anand', 22.5645, 72.9289],
+    ['Kheda', 22.6916, 72.8634, ['Nadiad']],
+    ['Amreli', 21.6032, 71.2221],
+    ['Gandhinagar', 23.2156, 72.6369],
+    ['Patan', 23.8493, 72.1266],
+    ['Sabarkantha', 23.5977, 72.9636, ['Himmatnagar']],
+    ['Bharuch', 21.7051, 72.9959],
+    ['Navsari', 20.9467, 72.9520],
+    ['Valsad', 20.5992, 72.9342],
+    ['Porbandar', 21.6417, 69.6293],
+    ['Surendranagar', 22.7201, 71.6495],
+    ['Dahod', 22.8397, 74.2536],
+    ['Panchmahal', 22.7788, 73.6143, ['Godhra']],
+  ],
+  'Haryana': [
+    ['Karnal', 29.6857, 76.9905],
+    ['Hisar', 29.1492, 75.7217, ['Hissar']],
+    ['Sirsa', 29.5349, 75.0290],
+    ['Kurukshetra', 29.9695, 76.8783, ['Thanesar']],
+    ['Ambala', 30.3782, 76.7767],
+    ['Panipat', 29.3909, 76.9635],
+    ['Sonipat', 28.9931, 77.0151, ['Sonepat']],
+    ['Rohtak', 28.8955, 76.6066],
+    ['Jind', 29.3162, 76.3158],
+    ['Bhiwani', 28.7930, 76.1397],
+    ['Fatehabad', 29.5152, 75.4550],
+    ['Kaithal', 29.8015, 76.3998],
+    ['Yamunanagar', 30.1290, 77.2674],
+    ['Gurugram', 28.4595, 77.0266, ['Gurgaon']],
+    ['Faridabad', 28.4089, 77.3178],
+    ['Rewari', 28.1990, 76.6183],
+    ['Mahendragarh', 28.0444, 76.1083, ['Narnaul']],
+    ['Jhajjar', 28.6063, 76.6565],
+    ['Palwal', 28.1447, 77.3320],
+    ['Nuh', 28.1024, 77.0010, ['Mewat']],
+  ],
+  'Himachal Pradesh': [
+    ['Shimla', 31.1048, 77.1734, ['Simla']],
+    ['Kangra', 32.2190, 76.3234, ['Dharamshala', 'Dharamsala']],
+    ['Mandi', 31.7080, 76.9318],
+    ['Kullu', 31.9592, 77.1089],
+    ['Solan', 30.9045, 77.0967],
+    ['Hamirpur', 31.6862, 76.5213],
+    ['Una', 31.4685, 76.2708],
+    ['Bilaspur', 31.3260, 76.7560],
+    ['Chamba', 32.5534, 76.1258],
+    ['Sirmaur', 30.5596, 77.2960, ['Nahan']],
+  ],
+  'Jharkhand': [
+    ['Ranchi', 23.3441, 85.3096],
+    ['Dhanbad', 23.7957, 86.4304],
+    ['East Singhbhum', 22.8046, 86.2029, ['Jamshedpur']],
+    ['Bokaro', 23.6693, 86.1511],
+    ['Hazaribagh', 23.9925, 85.3637],
+    ['Deoghar', 24.4820, 86.6990],
+    ['Dumka', 24.2676, 87.2497],
+    ['Palamu', 24.0395, 84.0667, ['Daltonganj', 'Medininagar']],
+  ],
+  'Karnataka': [
+    ['Bengaluru Urban', 12.9716, 77.5946, ['Bengaluru', 'Bangalore']],
+    ['Mysuru', 12.2958, 76.6394, ['Mysore']],
+    ['Belagavi', 15.8497, 74.4977, ['Belgaum']],
+    ['Dharwad', 15.4589, 75.0078, ['Hubli', 'Hubballi']],
+    ['Kalaburagi', 17.3297, 76.8343, ['Gulbarga']],
+    ['Ballari', 15.1394, 76.9214, ['Bellary']],
+    ['Vijayapura', 16.8302, 75.7100, ['Bijapur']],
+    ['Raichur', 16.2120, 77.3439],
+    ['Davanagere', 14.4644, 75.9218, ['Davangere']],
+    ['Shivamogga', 13.9299, 75.5681, ['Shimoga']],
+    ['Tumakuru', 13.3379, 77.1173, ['Tumkur']],
+    ['Mandya', 12.5218, 76.8951],
+    ['Hassan', 13.0072, 76.0962],
+    ['Dakshina Kannada', 12.9141, 74.8560, ['Mangaluru', 'Mangalore']],
+    ['Udupi', 13.3409, 74.7421],
+    ['Chitradurga', 14.2251, 76.3980],
+    ['Bidar', 17.9104, 77.5199],
+    ['Bagalkot', 16.1691, 75.6615],
+    ['Haveri', 14.7951, 75.3991],
+    ['Gadag', 15.4315, 75.6355],
+    ['Koppal', 15.3547, 76.1548],
+    ['Kolar', 13.1362, 78.1291],
+    ['Chikkamagaluru', 13.3161, 75.7720, ['Chikmagalur']],
+    ['Chamarajanagar', 11.9261, 76.9437],
+  ],
+  'Kerala': [
+    ['Thiruvananthapuram', 8.5241, 76.9366, ['Trivandrum']],
+    ['Kollam', 8.8932, 76.6141, ['Quilon']],
+    ['Alappuzha', 9.4981, 76.3388, ['Alleppey']],
+    ['Kottayam', 9.5916, 76.5222],
+    ['Ernakulam', 9.9816, 76.2999, ['Kochi', 'Cochin']],
+    ['Thrissur', 10.5276, 76.2144, ['Trichur']],
+    ['Palakkad', 10.7867, 76.6548, ['Palghat']],
+    ['Malappuram', 11.0510, 76.0711],
+    ['Kozhikode', 11.2588, 75.7804, ['Calicut']],
+    ['Kannur', 11.8745, 75.3704, ['Cannanore']],
+    ['Kasaragod', 12.4996, 74.9869],
+    ['Wayanad', 11.6085, 76.0830, ['Kalpetta']],
+    ['Idukki', 9.8500, 76.9400, ['Painavu']],
+    ['Pathanamthitta', 9.2648, 76.7870],
+  ],
+  'Madhya Pradesh': [
+    ['Indore', 22.7196, 75.8577],
+    ['Bhopal', 23.2599, 77.4126],
+    ['Jabalpur', 23.1815, 79.9864],
+    ['Gwalior', 26.2183, 78.1828],
+    ['Ujjain', 23.1765, 75.7885],
+    ['Sagar', 23.8388, 78.7378],
+    ['Rewa', 24.5362, 81.3037],
+    ['Satna', 24.6005, 80.8322],
+    ['Dewas', 22.9676, 76.0534],
+    ['Mandsaur', 24.0734, 75.0679],
+    ['Neemuch', 24.4764, 74.8624],
+    ['Ratlam', 23.3315, 75.0367],
+    ['Narmadapuram', 22.7519, 77.7289, ['Hoshangabad']],
+    ['Vidisha', 23.5251, 77.8081],
+    ['Chhindwara', 22.0574, 78.9382],
+    ['Khargone', 21.8236, 75.6106],
+    ['Khandwa', 21.8257, 76.3525],
+    ['Dhar', 22.6013, 75.3025],
+    ['Shivpuri', 25.4236, 77.6582],
+    ['Morena', 26.4947, 77.9940],
+    ['Sehore', 23.2032, 77.0844],
+    ['Raisen', 23.3313, 77.7880],
+    ['Betul', 21.9011, 77.8988],
+    ['Balaghat', 21.8129, 80.1838],
+  ],
+  'Maharashtra': [
+    ['Pune', 18.5204, 73.8567, ['Poona']],
+    ['Mumbai', 19.0760, 72.8777, ['Bombay']],
+    ['Nashik', 19.9975, 73.7898, ['Nasik']],
+    ['Nagpur', 21.1458, 79.0882],
+    ['Chhatrapati Sambhajinagar', 19.8762, 75.3433, ['Aurangabad']],
+    ['Solapur', 17.6599, 75.9064, ['Sholapur']],
+    ['Kolhapur', 16.7050, 74.2433],
+    ['Sangli', 16.8524, 74.5815],
+    ['Satara', 17.6805, 74.0183],
+    ['Ahilyanagar', 19.0952, 74.7496, ['Ahmednagar']],
+    ['Jalgaon', 21.0077, 75.5626],
+    ['Dhule', 20.9042, 74.7749],
+    ['Nandurbar', 21.3700, 74.2400],
+    ['Akola', 20.7002, 77.0082],
+    ['Amravati', 20.9374, 77.7796],
+    ['Yavatmal', 20.3888, 78.1204],
+    ['Wardha', 20.7453, 78.6022],
+    ['Chandrapur', 19.9615, 79.2961],
+    ['Latur', 18.4088, 76.5604],
+    ['Dharashiv', 18.1860, 76.0419, ['Osmanabad']],
+    ['Beed', 18.9891, 75.7601, ['Bid']],
+    ['Nanded', 19.1383, 77.3210],
+    ['Parbhani', 19.2608, 76.7748],
+    ['Jalna', 19.8347, 75.8816],
+    ['Hingoli', 19.7173, 77.1494],
+    ['Buldhana', 20.5293, 76.1842],
+    ['Washim', 20.1110, 77.1330],
+    ['Ratnagiri', 16.9902, 73.3120],
+    ['Sindhudurg', 16.1300, 73.6900, ['Oros']],
+    ['Raigad', 18.6414, 72.8722, ['Alibag']],
+    ['Thane', 19.2183, 72.9781],
+    ['Palghar', 19.6967, 72.7699],
+    ['Gondia', 21.4624, 80.1920],
+    ['Bhandara', 21.1667, 79.6500],
+    ['Gadchiroli', 20.1809, 80.0000],
+  ],
+  'Manipur': [
+    ['Imphal West', 24.8170, 93.9368, ['Imphal']],
+  ],
+  'Meghalaya': [
+    ['East Khasi Hills', 25.5788, 91.8933, ['Shillong']],
+  ],
+  'Mizoram': [
+    ['Aizawl', 23.7271, 92.7176],
+  ],
+  'Nagaland': [
+    ['Kohima', 25.6751, 94.1086],
+    ['Dimapur', 25.9091, 93.7266],
+  ],
+  'Odisha': [
+    ['Khordha', 20.2961, 85.8245, ['Bhubaneswar', 'Khurda']],
+    ['Cuttack', 20.4625, 85.8830],
+    ['Ganjam', 19.3149, 84.7941, ['Berhampur', 'Brahmapur']],
+    ['Sambalpur', 21.4669, 83.9812],
+    ['Balasore', 21.4934, 86.9135, ['Baleswar']],
+    ['Puri', 19.8135, 85.8312],
+    ['Bargarh', 21.3347, 83.6190],
+    ['Koraput', 18.8135, 82.7123],
+    ['Mayurbhanj', 21.9347, 86.7350, ['Baripada']],
+    ['Sundargarh', 22.1167, 84.0333, ['Rourkela']],
+    ['Kalahandi', 19.9070, 83.1640, ['Bhawanipatna']],
+  ],
+  'Punjab': [
+    ['Ludhiana', 30.9010, 75.8573, ['Khanna']],
+    ['Amritsar', 31.6340, 74.8723],
+    ['Jalandhar', 31.3260, 75.5762, ['Jullundur']],
+    ['Patiala', 30.3398, 76.3869, ['Rajpura']],
+    ['Bathinda', 30.2110, 74.9455, ['Bhatinda']],
+    ['Sangrur', 30.2458, 75.8421],
+    ['Moga', 30.8165, 75.1717],
+    ['Firozpur', 30.9331, 74.6225, ['Ferozepur']],
+    ['Gurdaspur', 32.0414, 75.4031],
+    ['Hoshiarpur', 31.5143, 75.9115],
+    ['Fazilka', 30.4036, 74.0280],
+    ['Barnala', 30.3819, 75.5468],
+    ['Mansa', 29.9988, 75.3933],
+    ['Faridkot', 30.6769, 74.7583],
+    ['Sri Muktsar Sahib', 30.4762, 74.5122, ['Muktsar']],
+    ['Kapurthala', 31.3800, 75.3800],
+    ['Rupnagar', 30.9664, 76.5331, ['Ropar']],
+    ['Sahibzada Ajit Singh Nagar', 30.7046, 76.7179, ['Mohali', 'SAS Nagar']],
+    ['Fatehgarh Sahib', 30.6435, 76.3970],
+    ['Tarn Taran', 31.4518, 74.9278],
+    ['Shaheed Bhagat Singh Nagar', 31.1245, 76.1164, ['Nawanshahr', 'SBS Nagar']],
+    ['Pathankot', 32.2643, 75.6421],
+    ['Malerkotla', 30.5309, 75.8790],
+  ],
+  'Rajasthan': [
+    ['Jaipur', 26.9124, 75.7873],
+    ['Jodhpur', 26.2389, 73.0243],
+    ['Kota', 25.2138, 75.8648],
+    ['Bikaner', 28.0229, 73.3119],
+    ['Ajmer', 26.4499, 74.6399],
+    ['Udaipur', 24.5854, 73.7125],
+    ['Alwar', 27.5530, 76.6346],
+    ['Bharatpur', 27.2152, 77.4909],
+    ['Sri Ganganagar', 29.9038, 73.8772, ['Ganganagar']],
+    ['Hanumangarh', 29.5818, 74.3294],
+    ['Sikar', 27.6094, 75.1399],
+    ['Jhunjhunu', 28.1289, 75.3995],
+    ['Churu', 28.2920, 74.9630],
+    ['Nagaur', 27.2020, 73.7339],
+    ['Pali', 25.7711, 73.3234],
+    ['Barmer', 25.7521, 71.3967],
+    ['Jaisalmer', 26.9157, 70.9083],
+    ['Bhilwara', 25.3407, 74.6313],
+    ['Chittorgarh', 24.8887, 74.6269],
+    ['Tonk', 26.1665, 75.7885],
+    ['Sawai Madhopur', 26.0173, 76.3526],
+    ['Jhalawar', 24.5973, 76.1610],
+    ['Baran', 25.1011, 76.5132],
+    ['Bundi', 25.4305, 75.6499],
+    ['Dausa', 26.8932, 76.3375],
+    ['Dholpur', 26.7025, 77.8934],
+    ['Karauli', 26.4959, 77.0150],
+    ['Banswara', 23.5461, 74.4350],
+    ['Dungarpur', 23.8417, 73.7147],
+    ['Pratapgarh', 24.0300, 74.7800],
+    ['Rajsamand', 25.0714, 73.8808],
+    ['Sirohi', 24.8851, 72.8621],
+    ['Jalore', 25.3456, 72.6156, ['Jalor']],
+  ],
+  'Sikkim': [
+    ['Gangtok', 27.3389, 88.6065, ['East Sikkim']],
+  ],
+  'Tamil Nadu': [
+    ['Chennai', 13.0827, 80.2707, ['Madras']],
+    ['Coimbatore', 11.0168, 76.9558, ['Kovai']],
+    ['Madurai', 9.9252, 78.1198],
+    ['Tiruchirappalli', 10.7905, 78.7047, ['Trichy', 'Tiruchi']],
+    ['Salem', 11.6643, 78.1460],
+    ['Erode', 11.3410, 77.7172],
+    ['Tirunelveli', 8.7139, 77.7567],
+    ['Thanjavur', 10.7870, 79.1378, ['Tanjore']],
+    ['Vellore', 12.9165, 79.1325],
+    ['Dindigul', 10.3624, 77.9695],
+    ['Thoothukudi', 8.7642, 78.1348, ['Tuticorin']],
+    ['Tiruppur', 11.1085, 77.3411, ['Tirupur']],
+    ['Kanyakumari', 8.1833, 77.4119, ['Nagercoil']],
+    ['Namakkal', 11.2189, 78.1674],
+    ['Karur', 10.9601, 78.0766],
+    ['Virudhunagar', 9.5680, 77.9624],
+    ['Sivaganga', 9.8433, 78.4809],
+    ['Ramanathapuram', 9.3639, 78.8395],
+    ['Pudukkottai', 10.3833, 78.8001],
+    ['Tiruvarur', 10.7661, 79.6344],
+    ['Nagapattinam', 10.7672, 79.8449],
+    ['Cuddalore', 11.7480, 79.7714],
+    ['Viluppuram', 11.9401, 79.4861, ['Villupuram']],
+    ['Kanchipuram', 12.8342, 79.7036],
+    ['Tiruvallur', 13.1231, 79.9120],
+    ['Krishnagiri', 12.5266, 78.2150],
+    ['Dharmapuri', 12.1211, 78.1582],
+    ['The Nilgiris', 11.4102, 76.6950, ['Nilgiris', 'Ooty', 'Udhagamandalam']],
+    ['Theni', 10.0104, 77.4768],
+    ['Perambalur', 11.2342, 78.8807],
+    ['Ariyalur', 11.1385, 79.0756],
+    ['Tiruvannamalai', 12.2253, 79.0747],
+  ],
+  'Telangana': [
+    ['Hyderabad', 17.3850, 78.4867, ['Secunderabad']],
+    ['Hanumakonda', 17.9689, 79.5941, ['Warangal']],
+    ['Karimnagar', 18.4386, 79.1288],
+    ['Nizamabad', 18.6725, 78.0941],
+    ['Khammam', 17.2473, 80.1514],
+    ['Nalgonda', 17.0575, 79.2684],
+    ['Mahabubnagar', 16.7488, 78.0035],
+    ['Adilabad', 19.6641, 78.5320],
+    ['Medak', 18.0456, 78.2608],
+    ['Sangareddy', 17.6140, 78.0816],
+    ['Siddipet', 18.1018, 78.8520],
+    ['Suryapet', 17.1405, 79.6236],
+    ['Mancherial', 18.8756, 79.4591],
+  ],
+  'Tripura': [
+    ['West Tripura', 23.8315, 91.2868, ['Agartala']],
+  ],
+  'Uttar Pradesh': [
+    ['Lucknow', 26.8467, 80.9462],
+    ['Kanpur Nagar', 26.4499, 80.3319, ['Kanpur']],
+    ['Kanpur Dehat', 26.4300, 79.9500],
+    ['Agra', 27.1767, 78.0081],
+    ['Varanasi', 25.3176, 82.9739, ['Banaras', 'Benares']],
+    ['Prayagraj', 25.4358, 81.8463, ['Allahabad']],
+    ['Meerut', 28.9845, 77.7064],
+    ['Ghaziabad', 28.6692, 77.4538],
+    ['Gautam Buddh Nagar', 28.5355, 77.3910, ['Noida', 'Greater Noida']],
+    ['Aligarh', 27.8974, 78.0880],
+    ['Bareilly', 28.3670, 79.4304],
+    ['Moradabad', 28.8386, 78.7733],
+    ['Saharanpur', 29.9680, 77.5552],
+    ['Gorakhpur', 26.7606, 83.3732],
+    ['Mathura', 27.4924, 77.6737],
+    ['Jhansi', 25.4484, 78.5685],
+    ['Muzaffarnagar', 29.4727, 77.7085],
+    ['Shahjahanpur', 27.8830, 79.9120],
+    ['Rampur', 28.8090, 79.0250],
+    ['Bulandshahr', 28.4069, 77.8498],
+    ['Hapur', 28.7306, 77.7759],
+    ['Bijnor', 29.3732, 78.1351],
+    ['Sitapur', 27.5680, 80.6790],
+    ['Lakhimpur Kheri', 27.9462, 80.7787, ['Kheri']],
+    ['Hardoi', 27.3965, 80.1250],
+    ['Unnao', 26.5393, 80.4878],
+    ['Rae Bareli', 26.2309, 81.2331, ['Raebareli']],
+    ['Sultanpur', 26.2648, 82.0727],
+    ['Ayodhya', 26.7922, 82.1998, ['Faizabad']],
+    ['Barabanki', 26.9268, 81.1834],
+    ['Gonda', 27.1339, 81.9619],
+    ['Bahraich', 27.5743, 81.5960],
+    ['Basti', 26.7900, 82.7300],
+    ['Azamgarh', 26.0739, 83.1859],
+    ['Jaunpur', 25.7464, 82.6837],
+    ['Ghazipur', 25.5878, 83.5783],
+    ['Ballia', 25.7584, 84.1487],
+    ['Mirzapur', 25.1337, 82.5644],
+    ['Etawah', 26.7855, 79.0215],
+    ['Mainpuri', 27.2350, 79.0236],
+    ['Firozabad', 27.1592, 78.3957],
+    ['Etah', 27.5587, 78.6560],
+    ['Budaun', 28.0311, 79.1270, ['Badaun']],
+    ['Pilibhit', 28.6315, 79.8040],
+    ['Farrukhabad', 27.3826, 79.5800],
+    ['Kannauj', 27.0514, 79.9137],
+    ['Fatehpur', 25.9300, 80.8100],
+    ['Banda', 25.4800, 80.3300],
+    ['Hamirpur', 25.9560, 80.1480],
+    ['Lalitpur', 24.6900, 78.4100],
+    ['Deoria', 26.5024, 83.7791],
+    ['Kushinagar', 26.9000, 83.9800, ['Padrauna']],
+    ['Maharajganj', 27.1300, 83.5600],
+    ['Siddharthnagar', 27.2800, 83.0700],
+    ['Pratapgarh', 25.8970, 81.9450],
+    ['Amethi', 26.1540, 81.8140],
+    ['Shamli', 29.4500, 77.3100],
+    ['Baghpat', 28.9500, 77.2200],
+    ['Chandauli', 25.2600, 83.2700],
+    ['Sonbhadra', 24.6800, 83.0700, ['Robertsganj']],
+    ['Bhadohi', 25.3950, 82.5680, ['Sant Ravidas Nagar']],
+    ['Kaushambi', 25.5300, 81.3800],
+    ['Auraiya', 26.4650, 79.5100],
+    ['Jalaun', 25.9900, 79.4500, ['Orai']],
+    ['Mahoba', 25.2900, 79.8700],
+    ['Chitrakoot', 25.2000, 80.9000],
+    ['Ambedkar Nagar', 26.4300, 82.5400],
+    ['Shravasti', 27.5000, 82.0000],
+    ['Balrampur', 27.4300, 82.1800],
+    ['Sant Kabir Nagar', 26.7700, 83.0700, ['Khalilabad']],
+    ['Mau', 25.9417, 83.5611],
+    ['Kasganj', 27.8100, 78.6500],
+    ['Hathras', 27.6000, 78.0500],
+    ['Amroha', 28.9000, 78.4700],
+    ['Sambhal', 28.5800, 78.5700],
+  ],
+  'Uttarakhand': [
+    ['Dehradun', 30.3165, 78.0322, ['Dehra Dun']],
+    ['Haridwar', 29.9457, 78.1642, ['Hardwar']],
+    ['Nainital', 29.3919, 79.4542, ['Haldwani']],
+    ['Udham Singh Nagar', 28.9800, 79.4000, ['Rudrapur']],
+    ['Almora', 29.5971, 79.6591],
+    ['Pauri Garhwal', 30.1500, 78.7800, ['Pauri']],
+    ['Tehri Garhwal', 30.3800, 78.4300, ['Tehri', 'New Tehri']],
+  ],
+  'West Bengal': [
+    ['Kolkata', 22.5726, 88.3639, ['Calcutta']],
+    ['Howrah', 22.5958, 88.2636],
+    ['North 24 Parganas', 22.7200, 88.4800, ['Barasat']],
+    ['South 24 Parganas', 22.5300, 88.3300, ['Alipore']],
+    ['Purba Bardhaman', 23.2324, 87.8615, ['Bardhaman', 'Burdwan']],
+    ['Paschim Bardhaman', 23.6739, 86.9524, ['Asansol', 'Durgapur']],
+    ['Hooghly', 22.9000, 88.3900, ['Hugli', 'Chinsurah']],
+    ['Nadia', 23.4000, 88.5000, ['Krishnanagar']],
+    ['Murshidabad', 24.1000, 88.2500, ['Berhampore']],
+    ['Birbhum', 23.9100, 87.5300, ['Suri']],
+    ['Bankura', 23.2324, 87.0716],
+    ['Purulia', 23.3321, 86.3652],
+    ['Paschim Medinipur', 22.4200, 87.3200, ['Midnapore', 'Medinipur']],
+    ['Purba Medinipur', 22.3000, 87.9200, ['Tamluk']],
+    ['Malda', 25.0108, 88.1411, ['English Bazar']],
+    ['Darjeeling', 27.0410, 88.2663, ['Siliguri']],
+    ['Jalpaiguri', 26.5167, 88.7333],
+    ['Cooch Behar', 26.3240, 89.4510, ['Koch Bihar']],
+    ['Uttar Dinajpur', 25.6200, 88.1200, ['Raiganj']],
+    ['Dakshin Dinajpur', 25.2200, 88.7700, ['Balurghat']],
+    ['Alipurduar', 26.4900, 89.5300],
+  ],
+  'Andaman and Nicobar Islands': [
+    ['South Andaman', 11.6234, 92.7265, ['Port Blair']],
+  ],
+  'Chandigarh': [
+    ['Chandigarh', 30.7333, 76.7794],
+  ],
+  'Dadra and Nagar Haveli and Daman and Diu': [
+    ['Dadra and Nagar Haveli', 20.2740, 73.0169, ['Silvassa']],
+    ['Daman', 20.3974, 72.8328],
+  ],
+  'Delhi': [
+    ['New Delhi', 28.6139, 77.2090],
+    ['North West Delhi', 28.7106, 77.1760, ['Azadpur']],
+  ],
+  'Jammu and Kashmir': [
+    ['Srinagar', 34.0837, 74.7973],
+    ['Jammu', 32.7266, 74.8570],
+    ['Anantnag', 33.7311, 75.1487],
+    ['Baramulla', 34.1980, 74.3636],
+    ['Kathua', 32.3700, 75.5200],
+  ],
+  'Ladakh': [
+    ['Leh', 34.1526, 77.5771],
+    ['Kargil', 34.5539, 76.1349],
+  ],
+  'Lakshadweep': [
+    ['Lakshadweep', 10.5593, 72.6358, ['Kavaratti']],
+  ],
+  'Puducherry': [
+    ['Puducherry', 11.9416, 79.8083, ['Pondicherry']],
+    ['Karaikal', 10.9254, 79.8380],
+  ],
+};
+
+export const DISTRICTS: DistrictEntry[] = Object.entries(DISTRICTS_BY_STATE).flatMap(([state, rows]) =>
+  rows.map(([name, latitude, longitude, aliases]) => ({ name, state, latitude, longitude, aliases }))
+);
@@ -0,0 +1,433 @@
+// Shared LLM provider layer for the edge functions.
+// Each provider implements the same interface; callers pick a priority order and get a uniform
+// { ok, content, error, provider } result. Set LLM_PROVIDER_ORDER (e.g. "mock" or "mistral,gemini")
+// to override the order of every function, which is how the functions are exercised offline.
+
+export type LlmProviderName = 'gemini' | 'together' | 'mistral' | 'mock';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  // Base64 image attached to the last user message (vision requests)
+  image?: { data: string; mimeType: string };
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmResult {
+  ok: boolean;
+  content?: string;
+  error?: string;
+  provider: LlmProviderName;
+}
+
+export interface LlmFallbackResult extends LlmResult {
+  attempts: LlmResult[];
+}
+
+export interface ProviderOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface LlmCallOptions extends ProviderOptions {
+  providers: LlmProviderName[];
+  providerOptions?: Partial<Record<LlmProviderName, ProviderOptions>>;
+}
+
+export interface LlmStreamHandlers {
+  onDelta: (text: string) => void;
+  // Text already sent for a failed attempt must be discarded; the next attempt starts over
+  onReset: (provider: LlmProviderName) => void;
+}
+
+interface LlmProvider {
+  name: LlmProviderName;
+  isConfigured: () => boolean;
+  complete: (request: LlmRequest, signal: AbortSignal) => Promise<string>;
+  stream: (request: LlmRequest, signal: AbortSignal, onDelta: (text: string) => void) => Promise<string>;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 1;
+const RETRY_BACKOFF_MS = 500;
+
+class ProviderError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+// Rate limits and server errors are worth retrying; bad requests and auth failures are not
+const checkResponse = async (response: Response, label: string) => {
+  if (response.ok) return;
+  const errorText = await response.text();
+  console.error(`${label} API error:`, response.status, errorText);
+  throw new ProviderError(
+    `${label} error: ${response.status} - ${errorText}`,
+    response.status === 429 || response.status >= 500
+  );
+};
+
+// Read a server-sent event stream and hand each `data:` payload to the callback
+export const readSseData = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) onData(trimmed.slice(5).trim());
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith('data:')) onData(rest.slice(5).trim());
+};
+
+// ---------- Gemini ----------
+
+const GEMINI_MODEL = 'gemini-1.5-flash';
+
+// Gemini has no system role on v1, so the system prompt is sent as an opening exchange
+const toGeminiContents = ({ messages, image }: LlmRequest) => {
+  const contents: Array<{ role: string; parts: Array<Record<string, unknown>> }> = [];
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const conversation = messages.filter(m => m.role !== 'system');
+
+  if (system) {
+    contents.push(
+      { role: 'user', parts: [{ text: 'Here is your system instruction:\n\n' + system }] },
+      { role: 'model', parts: [{ text: 'Understood! I will follow these instructions.' }] }
+    );
+  }
+
+  conversation.forEach((message, index) => {
+    const isLast = index === conversation.length - 1;
+    const parts: Array<Record<string, unknown>> = [{ text: message.content }];
+    if (isLast && image) {
+      parts.push({ inline_data: { mime_type: image.mimeType, data: image.data } });
+    }
+    contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+  });
+
+  return contents;
+};
+
+const geminiBody = (request: LlmRequest) => JSON.stringify({
+  contents: toGeminiContents(request),
+  generationConfig: {
+    maxOutputTokens: request.maxTokens ?? 300,
+    temperature: request.temperature ?? 0.4,
+  },
+});
+
+const geminiProvider: LlmProvider = {
+  name: 'gemini',
+  isConfigured: () => !!Deno.env.get('GEMINI_API_KEY'),
+  complete: async (request, signal) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1/models/${GEMINI_MODEL}:generateContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: geminiBody(request), signal }
+    );
+    await checkResponse(response, 'Gemini');
+
+    const data = await response.json();
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  },
+  stream: async (request, signal, onDelta) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1/models/${GEMINI_MODEL}:streamGenerateContent?alt=sse&key=${Deno.env.get('GEMINI_API_KEY')}`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: geminiBody(request), signal }
+    );
+    await checkResponse(response, 'Gemini');
+
+    let content = '';
+    await readSseData(response.body!, (data) => {
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new ProviderError(chunk.error.message || 'Gemini stream error', true);
+      }
+      const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      if (text) {
+        content += text;
+        onDelta(text);
+      }
+    });
+    return content;
+  },
+};
+
+// ---------- OpenAI-compatible chat completions (Together, Mistral) ----------
+
+const toChatMessages = ({ messages, image }: LlmRequest) =>
+  messages.map((message, index) => {
+    if (!image || index !== messages.length - 1) return message;
+    return {
+      role: message.role,
+      content: [
+        { type: 'text', text: message.content },
+        { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+      ],
+    };
+  });
+
+const createChatCompletionsProvider = (
+  name: LlmProviderName,
+  label: string,
+  url: string,
+  apiKeyEnv: string,
+  pickModel: (request: LlmRequest) => string
+): LlmProvider => {
+  const post = (request: LlmRequest, signal: AbortSignal, stream: boolean) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get(apiKeyEnv)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: pickModel(request),
+        messages: toChatMessages(request),
+        max_tokens: request.maxTokens ?? 300,
+        temperature: request.temperature ?? 0.4,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+
+  return {
+    name,
+    isConfigured: () => !!Deno.env.get(apiKeyEnv),
+    complete: async (request, signal) => {
+      const response = await post(request, signal, false);
+      await checkResponse(response, label);
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+    stream: async (request, signal, onDelta) => {
+      const response = await post(request, signal, true);
+      await checkResponse(response, label);
+
+      let content = '';
+      await readSseData(response.body!, (data) => {
+        if (data === '[DONE]') return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content || '';
+        if (text) {
+          content += text;
+          onDelta(text);
+        }
+      });
+      return content;
+    },
+  };
+};
+
+const togetherProvider = createChatCompletionsProvider(
+  'together',
+  'Together',
+  'https://api.together.xyz/v1/chat/completions',
+  'TOGETHER_API_KEY',
+  () => 'meta-llama/Llama-Vision-Free'
+);
+
+const mistralProvider = createChatCompletionsProvider(
+  'mistral',
+  'Mistral',
+  'https://api.mistral.ai/v1/chat/completions',
+  'MISTRAL_API_KEY',
+  (request) => request.image ? 'pixtral-12b-2409' : 'mistral-small'
+);
+
+// ---------- Mock (offline) ----------
+
+export interface MockProviderConfig {
+  // Fixed reply; defaults to echoing the last user message
+  response?: string;
+  // Fail before answering, or after streaming this many characters, to exercise fallbacks
+  fail?: boolean;
+  failAfterChars?: number;
+}
+
+export const createMockProvider = (config: MockProviderConfig = {}): LlmProvider => {
+  const reply = (request: LlmRequest) => {
+    if (config.response) return config.response;
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    return `[mock] ${lastUser?.content.slice(0, 200) ?? ''}${request.image ? ' (image received)' : ''}`;
+  };
+
+  return {
+    name: 'mock',
+    isConfigured: () => true,
+    complete: async (request) => {
+      if (config.fail) throw new ProviderError('Mock provider failure', false);
+      return reply(request);
+    },
+    stream: async (request, _signal, onDelta) => {
+      if (config.fail) throw new ProviderError('Mock provider failure', false);
+      let sent = '';
+      for (const token of reply(request).split(/(?<=\s)/)) {
+        if (config.failAfterChars !== undefined && sent.length >= config.failAfterChars) {
+          throw new ProviderError('Mock provider failed mid-stream', false);
+        }
+        sent += token;
+        onDelta(token);
+      }
+      return sent;
+    },
+  };
+};
+
+// LLM_MOCK_RESPONSE / LLM_MOCK_FAIL / LLM_MOCK_FAIL_AFTER configure the registered mock provider
+const mockFromEnv = (): LlmProvider => {
+  const failAfter = Deno.env.get('LLM_MOCK_FAIL_AFTER');
+  return createMockProvider({
+    response: Deno.env.get('LLM_MOCK_RESPONSE') || undefined,
+    fail: Deno.env.get('LLM_MOCK_FAIL') === 'true',
+    failAfterChars: failAfter ? Number(failAfter) : undefined,
+  });
+};
+
+const getProvider = (name: LlmProviderName): LlmProvider => {
+  switch (name) {
+    case 'gemini': return geminiProvider;
+    case 'together': return togetherProvider;
+    case 'mistral': return mistralProvider;
+    case 'mock': return mockFromEnv();
+  }
+};
+
+// ---------- Runner ----------
+
+const KNOWN_PROVIDERS: LlmProviderName[] = ['gemini', 'together', 'mistral', 'mock'];
+
+// LLM_PROVIDER_ORDER overrides the caller's order for every function
+const resolveOrder = (providers: LlmProviderName[]): LlmProviderName[] => {
+  const override = Deno.env.get('LLM_PROVIDER_ORDER');
+  if (!override) return providers;
+  const names = override.split(',').map(name => name.trim()) as LlmProviderName[];
+  const valid = names.filter(name => KNOWN_PROVIDERS.includes(name));
+  return valid.length > 0 ? valid : providers;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run one provider with its timeout and retry budget. The timeout counts from the start of the
+// attempt or from the last `keepAlive`, so a stream that keeps producing text is never cut off;
+// only a slow first token or a stall between chunks aborts it.
+const runProvider = async (
+  provider: LlmProvider,
+  options: LlmCallOptions,
+  attempt: (signal: AbortSignal, keepAlive: () => void) => Promise<string>,
+  onRetry?: () => void
+): Promise<LlmResult> => {
+  if (!provider.isConfigured()) {
+    console.log(`${provider.name} is not configured, skipping`);
+    return { ok: false, error: `${provider.name} not configured`, provider: provider.name };
+  }
+
+  const timeoutMs = options.providerOptions?.[provider.name]?.timeoutMs ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.providerOptions?.[provider.name]?.retries ?? options.retries ?? DEFAULT_RETRIES;
+  let lastError = '';
+
+  for (let tryIndex = 0; tryIndex <= retries; tryIndex++) {
+    if (tryIndex > 0) {
+      onRetry?.();
+      await sleep(RETRY_BACKOFF_MS * tryIndex);
+    }
+
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), timeoutMs);
+    };
+    try {
+      console.log(`Calling ${provider.name} (attempt ${tryIndex + 1}/${retries + 1})...`);
+      const content = await attempt(controller.signal, keepAlive);
+      if (!content) {
+        lastError = `Empty response from ${provider.name}`;
+        continue;
+      }
+      console.log(`${provider.name} response received successfully`);
+      return { ok: true, content, provider: provider.name };
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      lastError = timedOut ? `${provider.name} sent nothing for ${timeoutMs}ms` : error.message;
+      console.error(`${provider.name} call failed:`, lastError);
+      if (!timedOut && error instanceof ProviderError && !error.retryable) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return { ok: false, error: lastError, provider: provider.name };
+};
+
+// Try each provider in priority order until one returns content
+export const completeWithFallback = async (
+  request: LlmRequest,
+  options: LlmCallOptions
+): Promise<LlmFallbackResult> => {
+  const attempts: LlmResult[] = [];
+
+  for (const name of resolveOrder(options.providers)) {
+    const provider = getProvider(name);
+    const result = await runProvider(provider, options, (signal) => provider.complete(request, signal));
+    attempts.push(result);
+    if (result.ok) return { ...result, attempts };
+  }
+
+  const last = attempts[attempts.length - 1];
+  return { ok: false, error: last?.error ?? 'No LLM providers configured', provider: last?.provider ?? 'mock', attempts };
+};
+
+// Streaming variant. Deltas go straight to the caller; if an attempt fails after sending text,
+// onReset is called before the retry or the next provider starts.
+export const streamWithFallback = async (
+  request: LlmRequest,
+  handlers: LlmStreamHandlers,
+  options: LlmCallOptions
+): Promise<LlmFallbackResult> => {
+  const attempts: LlmResult[] = [];
+
+  for (const name of resolveOrder(options.providers)) {
+    const provider = getProvider(name);
+    let sentText = false;
+    const resetIfNeeded = () => {
+      if (sentText) handlers.onReset(provider.name);
+      sentText = false;
+    };
+
+    const result = await runProvider(
+      provider,
+      options,
+      (signal, keepAlive) => provider.stream(request, signal, (text) => {
+        keepAlive();
+        sentText = true;
+        handlers.onDelta(text);
+      }),
+      resetIfNeeded
+    );
+    attempts.push(result);
+    if (result.ok) return { ...result, attempts };
+    resetIfNeeded();
+  }
+
+  const last = attempts[attempts.length - 1];
+  return { ok: false, error: last?.error ?? 'No LLM providers configured', provider: last?.provider ?? 'mock', attempts };
+};
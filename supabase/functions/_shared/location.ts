@@ -0,0 +1,153 @@
+// Resolve farmer locations (GPS coordinates or free text) to a canonical state and district
+// using the bundled gazetteer. Unrecognised locations are reported, never defaulted.
+import { DISTRICTS, STATES, type DistrictEntry, type StateEntry } from "./gazetteer.ts";
+import { haversineKm } from "./mandis.ts";
+
+export interface LocationQuery {
+  text?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface LocationCandidate {
+  state: string;
+  district: string | null;
+}
+
+export type LocationResolution =
+  | {
+      status: 'resolved';
+      state: string;
+      district: string | null;
+      method: 'coordinates' | 'text';
+      distanceKm?: number; // to the district headquarters, for coordinate matches
+    }
+  | { status: 'ambiguous'; candidates: LocationCandidate[] }
+  | { status: 'unknown'; reason: 'empty' | 'outside_coverage' | 'not_recognised' };
+
+// A point further than this from every district headquarters is outside what the gazetteer covers
+const MAX_HQ_DISTANCE_KM = 150;
+
+// Rough bounding box of India, to reject obviously foreign or swapped coordinates early
+const INDIA_BOUNDS = { minLat: 6, maxLat: 37.5, minLng: 68, maxLng: 97.5 };
+
+const normalize = (value: string) =>
+  ` ${value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const namesOf = (entry: { name: string; aliases?: string[] }) =>
+  [entry.name, ...(entry.aliases ?? [])].map(name => normalize(name).trim());
+
+const STATE_INDEX = STATES.map(state => ({ state, names: namesOf(state) }));
+const DISTRICT_INDEX = DISTRICTS.map(district => ({ district, names: namesOf(district) }));
+
+// Whole-word phrase search so "up" in "Jaipur" or "mp" in "camp" never matches
+const findPhrase = (haystack: string, names: string[]): { name: string; index: number } | null => {
+  let best: { name: string; index: number } | null = null;
+  for (const name of names) {
+    const index = haystack.indexOf(` ${name} `);
+    if (index >= 0 && (!best || name.length > best.name.length)) best = { name, index };
+  }
+  return best;
+};
+
+// Abbreviations like UP, MP or TN only count when written as upper-case tokens
+const hasAbbreviation = (text: string, state: StateEntry) => {
+  const tokens = text.split(/[^A-Za-z&]+/);
+  return (state.abbreviations ?? []).some(abbreviation => tokens.includes(abbreviation));
+};
+
+const isValidCoordinate = (latitude?: number | null, longitude?: number | null): boolean =>
+  typeof latitude === 'number' && typeof longitude === 'number'
+  && Number.isFinite(latitude) && Number.isFinite(longitude);
+
+// Nearest district headquarters; boundaries are approximated by the closest HQ, so points near a
+// state border can land on the neighbouring district
+export const resolveCoordinates = (latitude: number, longitude: number): LocationResolution => {
+  if (latitude < INDIA_BOUNDS.minLat || latitude > INDIA_BOUNDS.maxLat
+    || longitude < INDIA_BOUNDS.minLng || longitude > INDIA_BOUNDS.maxLng) {
+    return { status: 'unknown', reason: 'outside_coverage' };
+  }
+
+  let nearest: DistrictEntry | null = null;
+  let nearestKm = Infinity;
+  for (const district of DISTRICTS) {
+    const km = haversineKm(latitude, longitude, district.latitude, district.longitude);
+    if (km < nearestKm) {
+      nearest = district;
+      nearestKm = km;
+    }
+  }
+
+  if (!nearest || nearestKm > MAX_HQ_DISTANCE_KM) {
+    return { status: 'unknown', reason: 'outside_coverage' };
+  }
+
+  return {
+    status: 'resolved',
+    state: nearest.state,
+    district: nearest.name,
+    method: 'coordinates',
+    distanceKm: Math.round(nearestKm),
+  };
+};
+
+// Free-text addresses: a district mention wins, and a state mention narrows districts that exist
+// in several states (Aurangabad, Bilaspur, Hamirpur, Pratapgarh)
+export const resolveText = (text: string): LocationResolution => {
+  const haystack = normalize(text);
+  if (!haystack.trim()) return { status: 'unknown', reason: 'empty' };
+
+  const states = STATE_INDEX
+    .filter(({ state, names }) => findPhrase(haystack, names) || hasAbbreviation(text, state))
+    .map(({ state }) => state.name);
+
+  const matches = DISTRICT_INDEX
+    .map(({ district, names }) => ({ district, match: findPhrase(haystack, names) }))
+    .filter((entry): entry is { district: DistrictEntry; match: { name: string; index: number } } => entry.match !== null);
+
+  // "Kanpur Dehat" also contains "Kanpur"; drop matches that sit inside a longer one
+  const districts = matches
+    .filter(({ match }) => !matches.some(other =>
+      other.match.name.length > match.name.length && ` ${other.match.name} `.includes(` ${match.name} `)))
+    .filter(({ district }) => states.length === 0 || states.includes(district.state))
+    .sort((a, b) => a.match.index - b.match.index)
+    .map(({ district }) => district);
+
+  const districtStates = [...new Set(districts.map(district => district.state))];
+  if (districtStates.length === 1) {
+    return { status: 'resolved', state: districtStates[0], district: districts[0].name, method: 'text' };
+  }
+  if (districtStates.length > 1) {
+    return {
+      status: 'ambiguous',
+      candidates: districts.map(district => ({ state: district.state, district: district.name })),
+    };
+  }
+
+  if (states.length === 1) {
+    return { status: 'resolved', state: states[0], district: null, method: 'text' };
+  }
+  if (states.length > 1) {
+    return { status: 'ambiguous', candidates: states.map(state => ({ state, district: null })) };
+  }
+
+  return { status: 'unknown', reason: 'not_recognised' };
+};
+
+// GPS is trusted over typed text; text is used when there are no usable coordinates
+export const resolveLocation = ({ text, latitude, longitude }: LocationQuery): LocationResolution => {
+  let fromCoordinates: LocationResolution | null = null;
+  if (isValidCoordinate(latitude, longitude)) {
+    fromCoordinates = resolveCoordinates(latitude as number, longitude as number);
+    if (fromCoordinates.status === 'resolved') return fromCoordinates;
+  }
+
+  if (text && text.trim()) return resolveText(text);
+  return fromCoordinates ?? { status: 'unknown', reason: 'empty' };
+};
+
+// "District, State" for display and prompts; null when the location could not be resolved
+export const formatResolvedLocation = (resolution: LocationResolution): string | null => {
+  if (resolution.status !== 'resolved') return null;
+  return resolution.district ? `${resolution.district}, ${resolution.state}` : resolution.state;
+};
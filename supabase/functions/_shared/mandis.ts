@@ -0,0 +1,159 @@
+// Major APMC mandis with approximate coordinates, used to find markets near a farmer.
+// Names follow AGMARKNET market names; aliases cover the other spellings seen in its records.
+
+export interface Mandi {
+  name: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export interface NearbyMandi extends Mandi {
+  distanceKm: number;
+}
+
+// Straight-line distance understates road distance; 1.3 is a common detour factor for rural India
+const ROAD_FACTOR = 1.3;
+
+export const MANDIS: Mandi[] = [
+  { name: 'Azadpur', state: 'Delhi', latitude: 28.7106, longitude: 77.1760, aliases: ['Delhi'] },
+
+  { name: 'Khanna', state: 'Punjab', latitude: 30.7050, longitude: 76.2210 },
+  { name: 'Ludhiana', state: 'Punjab', latitude: 30.9010, longitude: 75.8573 },
+  { name: 'Amritsar', state: 'Punjab', latitude: 31.6340, longitude: 74.8723 },
+  { name: 'Jalandhar', state: 'Punjab', latitude: 31.3260, longitude: 75.5762, aliases: ['Jalandhar City'] },
+  { name: 'Bathinda', state: 'Punjab', latitude: 30.2110, longitude: 74.9455 },
+  { name: 'Rajpura', state: 'Punjab', latitude: 30.4840, longitude: 76.5940 },
+
+  { name: 'Karnal', state: 'Haryana', latitude: 29.6857, longitude: 76.9905 },
+  { name: 'Sirsa', state: 'Haryana', latitude: 29.5349, longitude: 75.0290 },
+  { name: 'Hisar', state: 'Haryana', latitude: 29.1492, longitude: 75.7217 },
+  { name: 'Thanesar', state: 'Haryana', latitude: 29.9695, longitude: 76.8783, aliases: ['Kurukshetra'] },
+
+  { name: 'Agra', state: 'Uttar Pradesh', latitude: 27.1767, longitude: 78.0081 },
+  { name: 'Lucknow', state: 'Uttar Pradesh', latitude: 26.8467, longitude: 80.9462 },
+  { name: 'Kanpur', state: 'Uttar Pradesh', latitude: 26.4499, longitude: 80.3319, aliases: ['Kanpur(Grain)'] },
+  { name: 'Meerut', state: 'Uttar Pradesh', latitude: 28.9845, longitude: 77.7064 },
+  { name: 'Hapur', state: 'Uttar Pradesh', latitude: 28.7306, longitude: 77.7759 },
+  { name: 'Varanasi', state: 'Uttar Pradesh', latitude: 25.3176, longitude: 82.9739 },
+  { name: 'Bareilly', state: 'Uttar Pradesh', latitude: 28.3670, longitude: 79.4304 },
+
+  { name: 'Indore', state: 'Madhya Pradesh', latitude: 22.7196, longitude: 75.8577 },
+  { name: 'Bhopal', state: 'Madhya Pradesh', latitude: 23.2599, longitude: 77.4126 },
+  { name: 'Ujjain', state: 'Madhya Pradesh', latitude: 23.1765, longitude: 75.7885 },
+  { name: 'Mandsaur', state: 'Madhya Pradesh', latitude: 24.0734, longitude: 75.0679 },
+  { name: 'Neemuch', state: 'Madhya Pradesh', latitude: 24.4764, longitude: 74.8624 },
+  { name: 'Jabalpur', state: 'Madhya Pradesh', latitude: 23.1815, longitude: 79.9864 },
+  { name: 'Dewas', state: 'Madhya Pradesh', latitude: 22.9676, longitude: 76.0534 },
+
+  { name: 'Lasalgaon', state: 'Maharashtra', latitude: 20.1500, longitude: 74.2300 },
+  { name: 'Pimpalgaon', state: 'Maharashtra', latitude: 20.1667, longitude: 73.9833, aliases: ['Pimpalgaon Baswant'] },
+  { name: 'Nashik', state: 'Maharashtra', latitude: 19.9975, longitude: 73.7898, aliases: ['Nasik'] },
+  { name: 'Pune', state: 'Maharashtra', latitude: 18.5204, longitude: 73.8567 },
+  { name: 'Vashi', state: 'Maharashtra', latitude: 19.0771, longitude: 72.9986, aliases: ['Mumbai', 'Navi Mumbai'] },
+  { name: 'Nagpur', state: 'Maharashtra', latitude: 21.1458, longitude: 79.0882 },
+  { name: 'Latur', state: 'Maharashtra', latitude: 18.4088, longitude: 76.5604 },
+  { name: 'Solapur', state: 'Maharashtra', latitude: 17.6599, longitude: 75.9064 },
+  { name: 'Akola', state: 'Maharashtra', latitude: 20.7002, longitude: 77.0082 },
+  { name: 'Amravati', state: 'Maharashtra', latitude: 20.9374, longitude: 77.7796 },
+  { name: 'Jalgaon', state: 'Maharashtra', latitude: 21.0077, longitude: 75.5626 },
+  { name: 'Kolhapur', state: 'Maharashtra', latitude: 16.7050, longitude: 74.2433 },
+
+  { name: 'Rajkot', state: 'Gujarat', latitude: 22.3039, longitude: 70.8022 },
+  { name: 'Gondal', state: 'Gujarat', latitude: 21.9612, longitude: 70.7939 },
+  { name: 'Unjha', state: 'Gujarat', latitude: 23.8042, longitude: 72.3938 },
+  { name: 'Ahmedabad', state: 'Gujarat', latitude: 23.0225, longitude: 72.5714 },
+  { name: 'Junagadh', state: 'Gujarat', latitude: 21.5222, longitude: 70.4579 },
+  { name: 'Surat', state: 'Gujarat', latitude: 21.1702, longitude: 72.8311 },
+  { name: 'Jamnagar', state: 'Gujarat', latitude: 22.4707, longitude: 70.0577 },
+
+  { name: 'Jaipur', state: 'Rajasthan', latitude: 26.9124, longitude: 75.7873, aliases: ['Jaipur (Grain)'] },
+  { name: 'Kota', state: 'Rajasthan', latitude: 25.2138, longitude: 75.8648 },
+  { name: 'Jodhpur', state: 'Rajasthan', latitude: 26.2389, longitude: 73.0243 },
+  { name: 'Bikaner', state: 'Rajasthan', latitude: 28.0229, longitude: 73.3119 },
+  { name: 'Sri Ganganagar', state: 'Rajasthan', latitude: 29.9038, longitude: 73.8772, aliases: ['Ganganagar'] },
+  { name: 'Alwar', state: 'Rajasthan', latitude: 27.5530, longitude: 76.6346 },
+
+  { name: 'Bangalore', state: 'Karnataka', latitude: 12.9716, longitude: 77.5946, aliases: ['Bengaluru', 'Binny Mill'] },
+  { name: 'Hubli', state: 'Karnataka', latitude: 15.3647, longitude: 75.1240, aliases: ['Hubli (Amaragol)'] },
+  { name: 'Davangere', state: 'Karnataka', latitude: 14.4644, longitude: 75.9218 },
+  { name: 'Mysore', state: 'Karnataka', latitude: 12.2958, longitude: 76.6394, aliases: ['Mysuru', 'Bandipalya'] },
+  { name: 'Raichur', state: 'Karnataka', latitude: 16.2120, longitude: 77.3439 },
+  { name: 'Gulbarga', state: 'Karnataka', latitude: 17.3297, longitude: 76.8343, aliases: ['Kalaburagi'] },
+
+  { name: 'Guntur', state: 'Andhra Pradesh', latitude: 16.3067, longitude: 80.4365 },
+  { name: 'Kurnool', state: 'Andhra Pradesh', latitude: 15.8281, longitude: 78.0373 },
+  { name: 'Vijayawada', state: 'Andhra Pradesh', latitude: 16.5062, longitude: 80.6480 },
+
+  { name: 'Bowenpally', state: 'Telangana', latitude: 17.4700, longitude: 78.4800, aliases: ['Hyderabad'] },
+  { name: 'Warangal', state: 'Telangana', latitude: 17.9689, longitude: 79.5941 },
+  { name: 'Nizamabad', state: 'Telangana', latitude: 18.6725, longitude: 78.0941 },
+  { name: 'Khammam', state: 'Telangana', latitude: 17.2473, longitude: 80.1514 },
+
+  { name: 'Koyambedu', state: 'Tamil Nadu', latitude: 13.0694, longitude: 80.1948, aliases: ['Chennai'] },
+  { name: 'Coimbatore', state: 'Tamil Nadu', latitude: 11.0168, longitude: 76.9558 },
+  { name: 'Madurai', state: 'Tamil Nadu', latitude: 9.9252, longitude: 78.1198 },
+  { name: 'Salem', state: 'Tamil Nadu', latitude: 11.6643, longitude: 78.1460 },
+  { name: 'Erode', state: 'Tamil Nadu', latitude: 11.3410, longitude: 77.7172 },
+  { name: 'Thanjavur', state: 'Tamil Nadu', latitude: 10.7870, longitude: 79.1378 },
+  { name: 'Dindigul', state: 'Tamil Nadu', latitude: 10.3624, longitude: 77.9695 },
+  { name: 'Tiruchirappalli', state: 'Tamil Nadu', latitude: 10.7905, longitude: 78.7047, aliases: ['Trichy'] },
+
+  { name: 'Ernakulam', state: 'Kerala', latitude: 9.9816, longitude: 76.2999, aliases: ['Kochi'] },
+  { name: 'Thrissur', state: 'Kerala', latitude: 10.5276, longitude: 76.2144 },
+  { name: 'Kozhikode', state: 'Kerala', latitude: 11.2588, longitude: 75.7804, aliases: ['Calicut'] },
+
+  { name: 'Kolkata', state: 'West Bengal', latitude: 22.5726, longitude: 88.3639 },
+  { name: 'Burdwan', state: 'West Bengal', latitude: 23.2324, longitude: 87.8615, aliases: ['Bardhaman'] },
+  { name: 'Siliguri', state: 'West Bengal', latitude: 26.7271, longitude: 88.3953 },
+
+  { name: 'Patna', state: 'Bihar', latitude: 25.5941, longitude: 85.1376 },
+  { name: 'Gaya', state: 'Bihar', latitude: 24.7914, longitude: 85.0002 },
+  { name: 'Muzaffarpur', state: 'Bihar', latitude: 26.1209, longitude: 85.3647 },
+
+  { name: 'Bhubaneswar', state: 'Odisha', latitude: 20.2961, longitude: 85.8245 },
+  { name: 'Cuttack', state: 'Odisha', latitude: 20.4625, longitude: 85.8830 },
+  { name: 'Sambalpur', state: 'Odisha', latitude: 21.4669, longitude: 83.9812 },
+
+  { name: 'Guwahati', state: 'Assam', latitude: 26.1445, longitude: 91.7362 },
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in km
+export const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Estimated road distance to each mandi within the radius, closest first
+export const findNearbyMandis = (
+  latitude: number,
+  longitude: number,
+  radiusKm = 200,
+  limit = 10
+): NearbyMandi[] =>
+  MANDIS
+    .map(mandi => ({
+      ...mandi,
+      distanceKm: Math.round(haversineKm(latitude, longitude, mandi.latitude, mandi.longitude) * ROAD_FACTOR),
+    }))
+    .filter(mandi => mandi.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// AGMARKNET market names often carry suffixes such as "(F&V)" or "APMC"; match on the core name
+export const matchesMandi = (mandi: Mandi, marketName: string): boolean => {
+  const market = normalize(marketName);
+  if (!market) return false;
+  return [mandi.name, ...(mandi.aliases ?? [])].some(name => {
+    const candidate = normalize(name);
+    return market === candidate || market.startsWith(candidate) || (market.length >= 4 && candidate.startsWith(market));
+  });
+};
@@ -0,0 +1,131 @@
+// Outbound SMS and voice calls behind a provider interface. SMS_PROVIDER picks the provider;
+// without it (or with "stub") messages are only logged, which is what local runs and tests use.
+import type { AlertLanguage } from "./alertMessages.ts";
+
+export interface SendResult {
+  providerMessageId: string;
+}
+
+export interface MessageProvider {
+  name: string;
+  sendSms(to: string, body: string): Promise<SendResult>;
+  // Speaks the script when the farmer answers; providers without voice leave this out
+  placeCall?(to: string, script: string, language: AlertLanguage): Promise<SendResult>;
+  // Whether an incoming-message webhook call (the public URL it was sent to and its form fields)
+  // really came from the provider
+  verifyWebhook(url: string, params: Record<string, string>, headers: Headers): Promise<boolean>;
+}
+
+export interface StubMessage {
+  channel: 'sms' | 'voice';
+  to: string;
+  body: string;
+}
+
+// Keeps what it was asked to send so a test can inspect it
+export class StubMessageProvider implements MessageProvider {
+  name = 'stub';
+  sent: StubMessage[] = [];
+
+  async sendSms(to: string, body: string): Promise<SendResult> {
+    this.sent.push({ channel: 'sms', to, body });
+    console.log(`[stub sms] ${to}: ${body}`);
+    return { providerMessageId: `stub-${this.sent.length}` };
+  }
+
+  async placeCall(to: string, script: string): Promise<SendResult> {
+    this.sent.push({ channel: 'voice', to, body: script });
+    console.log(`[stub call] ${to}: ${script}`);
+    return { providerMessageId: `stub-${this.sent.length}` };
+  }
+
+  // Nothing is sent through the stub, so local runs and tests can post replies freely
+  async verifyWebhook(): Promise<boolean> {
+    return true;
+  }
+}
+
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+};
+
+const VOICE_LANGUAGES: Record<AlertLanguage, string> = { en: 'en-IN', hi: 'hi-IN', ta: 'ta-IN' };
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class TwilioMessageProvider implements MessageProvider {
+  name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string
+  ) {}
+
+  private async post(resource: string, params: Record<string, string>): Promise<SendResult> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/${resource}.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ From: this.from, ...params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio ${resource} error: ${response.status} ${await response.text()}`);
+    }
+    const result = await response.json();
+    return { providerMessageId: result.sid };
+  }
+
+  sendSms(to: string, body: string): Promise<SendResult> {
+    return this.post('Messages', { To: to, Body: body });
+  }
+
+  placeCall(to: string, script: string, language: AlertLanguage): Promise<SendResult> {
+    const twiml = `<Response><Say language="${VOICE_LANGUAGES[language]}">${escapeXml(script)}</Say></Response>`;
+    return this.post('Calls', { To: to, Twiml: twiml });
+  }
+
+  // X-Twilio-Signature is the base64 HMAC-SHA1, keyed with the auth token, of the URL followed by
+  // every form field name and value in name order
+  async verifyWebhook(url: string, params: Record<string, string>, headers: Headers): Promise<boolean> {
+    const signature = headers.get('x-twilio-signature');
+    if (!signature) return false;
+
+    const payload = url + Object.keys(params).sort().map(name => name + params[name]).join('');
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw', encoder.encode(this.authToken), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']
+    );
+    const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+    return timingSafeEqual(btoa(String.fromCharCode(...digest)), signature);
+  }
+}
+
+export const getMessageProvider = (): MessageProvider => {
+  if (Deno.env.get('SMS_PROVIDER') === 'twilio') {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    const from = Deno.env.get('TWILIO_FROM_NUMBER');
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio credentials not configured');
+    }
+    return new TwilioMessageProvider(accountSid, authToken, from);
+  }
+  return new StubMessageProvider();
+};
+
+// Profiles hold the number as typed; providers want E.164. Ten-digit Indian mobiles get +91.
+export const normalizeIndianPhone = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (/^[6-9]\d{9}$/.test(digits)) return `+91${digits}`;
+  if (/^0[6-9]\d{9}$/.test(digits)) return `+91${digits.slice(1)}`;
+  if (/^91[6-9]\d{9}$/.test(digits)) return `+${digits}`;
+  return null;
+};
@@ -0,0 +1,178 @@
+// Notification rules: turn a farmer's forecast, local prices and calendar into alerts. Each alert
+// carries a dedupe key naming the rule occurrence (the rain day, the price date, the calendar
+// entry) so running the rules again does not raise the same alert twice.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeTrend, fetchStateSeries, type PricePoint } from "./priceHistory.ts";
+import { addDays, toIndiaDateKey } from "./dates.ts";
+
+export type AlertRule = 'heavy_rain' | 'price_move' | 'activity_due';
+export type AlertType = 'weather' | 'market' | 'farming' | 'system' | 'alert';
+export type AlertPriority = 'low' | 'medium' | 'high';
+
+export interface NotificationAlert {
+  rule: AlertRule;
+  type: AlertType;
+  priority: AlertPriority;
+  title: string;
+  message: string;
+  actionUrl: string;
+  dedupeKey: string;
+  data: Record<string, string | number>;
+}
+
+export interface ForecastRain {
+  dates: string[]; // YYYY-MM-DD
+  rainfall: number[]; // mm per day
+}
+
+export interface DueActivity {
+  id: string;
+  cropName: string;
+  activityId: string;
+  scheduledDate: string; // YYYY-MM-DD
+}
+
+export interface FarmProfile {
+  userId: string;
+  crops: string[];
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// IMD 24-hour rainfall categories: "rather heavy" from 35.6 mm, "heavy" from 64.5 mm
+const RATHER_HEAVY_RAIN_MM = 35.6;
+export const HEAVY_RAIN_MM = 64.5;
+const RAIN_LOOKAHEAD_DAYS = 3;
+// Weekly change in the state's median modal price that is worth telling the farmer about
+const PRICE_MOVE_PCT = 5;
+const LARGE_PRICE_MOVE_PCT = 10;
+// Calendar activities due today or within this many days
+const ACTIVITY_LOOKAHEAD_DAYS = 1;
+
+// Monday of the date's week, so a price that keeps moving is reported once a week rather than daily
+const weekStart = (dateKey: string): string => {
+  const day = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return addDays(dateKey, -((day + 6) % 7));
+};
+
+const formatDay = (dateKey: string, today: string): string => {
+  if (dateKey === today) return 'today';
+  if (dateKey === addDays(today, 1)) return 'tomorrow';
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-IN', {
+    weekday: 'long', day: 'numeric', month: 'short', timeZone: 'UTC',
+  });
+};
+
+// "rice_first_top_dressing" -> "First top dressing"
+export const formatActivity = (activityId: string, cropName: string): string => {
+  const prefix = `${cropName.toLowerCase()}_`;
+  const name = (activityId.startsWith(prefix) ? activityId.slice(prefix.length) : activityId).replace(/_/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+export const heavyRainAlerts = (forecast: ForecastRain, today: string): NotificationAlert[] => {
+  const lastDay = addDays(today, RAIN_LOOKAHEAD_DAYS);
+  return forecast.dates.flatMap((date, index) => {
+    const rainfall = forecast.rainfall[index] ?? 0;
+    if (date < today || date > lastDay || rainfall < RATHER_HEAVY_RAIN_MM) return [];
+    const heavy = rainfall >= HEAVY_RAIN_MM;
+    const day = formatDay(date, today);
+    return [{
+      rule: 'heavy_rain' as const,
+      type: 'weather' as const,
+      priority: heavy ? 'high' as const : 'medium' as const,
+      title: heavy ? 'Heavy rain warning' : 'Rain alert',
+      message: `About ${Math.round(rainfall)} mm of rain is forecast ${day}. Hold off irrigation and spraying, and clear field drains.`,
+      actionUrl: '/?widget=weather',
+      dedupeKey: `heavy_rain:${date}`,
+      data: { date, rainfall },
+    }];
+  });
+};
+
+// Compares the latest state price with the latest one at least a week older, as the market widget does
+export const priceMoveAlerts = (series: Map<string, PricePoint[]>, state: string): NotificationAlert[] =>
+  [...series.entries()].flatMap(([commodity, points]) => {
+    const latest = points[points.length - 1];
+    const change = computeTrend(points).change7d;
+    const changePct = change ? parseFloat(change) : 0;
+    if (!latest || Math.abs(changePct) < PRICE_MOVE_PCT) return [];
+    const rising = changePct > 0;
+    return [{
+      rule: 'price_move' as const,
+      type: 'market' as const,
+      priority: Math.abs(changePct) >= LARGE_PRICE_MOVE_PCT ? 'high' as const : 'medium' as const,
+      title: `${commodity} price ${rising ? 'up' : 'down'} ${Math.abs(changePct).toFixed(1)}%`,
+      message: `${commodity} in ${state} is at ₹${latest.price.toLocaleString('en-IN')}/quintal, ${change} over the week. ${rising ? 'A good time to consider selling.' : 'Consider holding stock if you can store it.'}`,
+      actionUrl: '/?widget=market',
+      dedupeKey: `price_move:${commodity}:${weekStart(latest.date)}`,
+      data: { commodity, state, price: latest.price, change: changePct, date: latest.date },
+    }];
+  });
+
+export const activityDueAlerts = (activities: DueActivity[], today: string): NotificationAlert[] => {
+  const lastDay = addDays(today, ACTIVITY_LOOKAHEAD_DAYS);
+  return activities
+    .filter(activity => activity.scheduledDate >= today && activity.scheduledDate <= lastDay)
+    .map(activity => ({
+      rule: 'activity_due' as const,
+      type: 'farming' as const,
+      priority: activity.scheduledDate === today ? 'high' as const : 'medium' as const,
+      title: `${activity.cropName}: ${formatActivity(activity.activityId, activity.cropName)}`,
+      message: `${formatActivity(activity.activityId, activity.cropName)} for your ${activity.cropName} is due ${formatDay(activity.scheduledDate, today)}.`,
+      actionUrl: '/?widget=calendar',
+      dedupeKey: `activity_due:${activity.id}:${activity.scheduledDate}`,
+      data: { entryId: activity.id, crop: activity.cropName, activityId: activity.activityId, date: activity.scheduledDate },
+    }));
+};
+
+// Load everything the rules need for one farmer and run them. Each source is optional: a farmer
+// without coordinates still gets price and calendar alerts.
+export const buildFarmAlerts = async (
+  client: SupabaseClient,
+  profile: FarmProfile,
+  fetchForecast: (latitude: number, longitude: number) => Promise<ForecastRain | null>
+): Promise<NotificationAlert[]> => {
+  const today = toIndiaDateKey(new Date());
+  const alerts: NotificationAlert[] = [];
+
+  if (profile.latitude !== null && profile.longitude !== null) {
+    try {
+      const forecast = await fetchForecast(profile.latitude, profile.longitude);
+      if (forecast) alerts.push(...heavyRainAlerts(forecast, today));
+    } catch (error) {
+      console.error('Forecast for notifications failed:', error);
+    }
+  }
+
+  if (profile.state && profile.crops.length > 0) {
+    try {
+      const series = await fetchStateSeries(client, profile.state, profile.crops);
+      alerts.push(...priceMoveAlerts(series, profile.state));
+    } catch (error) {
+      console.error('Price history for notifications failed:', error);
+    }
+  }
+
+  const { data, error } = await client
+    .from('user_calendar_entries')
+    .select('id, crop_name, activity_id, scheduled_date')
+    .eq('user_id', profile.userId)
+    .eq('status', 'pending')
+    .gte('scheduled_date', `${today}T00:00:00+05:30`)
+    .lte('scheduled_date', `${addDays(today, ACTIVITY_LOOKAHEAD_DAYS)}T23:59:59+05:30`);
+
+  if (error) {
+    console.error('Calendar for notifications failed:', error);
+  } else {
+    alerts.push(...activityDueAlerts((data || []).map(row => ({
+      id: row.id,
+      cropName: row.crop_name,
+      activityId: row.activity_id,
+      scheduledDate: toIndiaDateKey(new Date(row.scheduled_date)),
+    })), today));
+  }
+
+  return alerts;
+};
@@ -0,0 +1,95 @@
+// Storage and delivery side of the notification rules, shared by every function that raises or
+// sends alerts: load the farmer's profile, fetch the forecast through weather-data, store new alerts
+// once per dedupe key, and apply the farmer's frequency and quiet hours to outbound channels
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FarmProfile, ForecastRain, NotificationAlert } from "./notificationRules.ts";
+
+export const loadFarmProfile = async (client: SupabaseClient, userId: string): Promise<FarmProfile | null> => {
+  const { data, error } = await client
+    .from('farmer_profiles')
+    .select('crops, state, latitude, longitude')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    userId,
+    crops: data.crops || [],
+    state: data.state,
+    latitude: data.latitude,
+    longitude: data.longitude,
+  };
+};
+
+// Calls the weather-data function on the same project, as chat-assistant does
+export const createForecastFetcher = (origin: string, apiKey: string) =>
+  async (latitude: number, longitude: number): Promise<ForecastRain | null> => {
+    const response = await fetch(`${origin}/functions/v1/weather-data`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { apikey: apiKey } : {}) },
+      body: JSON.stringify({ latitude, longitude }),
+    });
+    if (!response.ok) return null;
+    const forecast = (await response.json())?.weather?.forecast;
+    return forecast?.dates && forecast?.rainfall ? { dates: forecast.dates, rainfall: forecast.rainfall } : null;
+  };
+
+// Alerts already raised (same dedupe key) are left as they are, including ones the farmer has read
+// or dismissed. Returns how many were new.
+export const storeAlerts = async (
+  client: SupabaseClient,
+  userId: string,
+  alerts: NotificationAlert[]
+): Promise<number> => {
+  if (alerts.length === 0) return 0;
+
+  const { data, error } = await client
+    .from('notifications')
+    .upsert(alerts.map(alert => ({
+      user_id: userId,
+      type: alert.type,
+      rule: alert.rule,
+      title: alert.title,
+      message: alert.message,
+      priority: alert.priority,
+      action_url: alert.actionUrl,
+      data: alert.data,
+      dedupe_key: alert.dedupeKey,
+    })), { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+};
+
+export type NotificationFrequency = 'low' | 'medium' | 'high';
+
+export interface DeliveryPreferences {
+  frequency: NotificationFrequency;
+  quietHoursStart: string | null; // HH:MM, IST
+  quietHoursEnd: string | null;
+}
+
+// The Settings choices: low is important only, medium adds regular updates, high sends everything
+const MIN_PRIORITY_RANK: Record<NotificationFrequency, number> = { low: 3, medium: 2, high: 1 };
+const PRIORITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const IST_OFFSET_MINUTES = 330;
+
+export const meetsFrequency = (priority: string, frequency: NotificationFrequency): boolean =>
+  (PRIORITY_RANK[priority] ?? 1) >= MIN_PRIORITY_RANK[frequency];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Quiet hours may run over midnight, e.g. 21:00 to 06:00
+export const isQuietTime = (preferences: DeliveryPreferences, now: Date = new Date()): boolean => {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return false;
+  const minute = (now.getUTCHours() * 60 + now.getUTCMinutes() + IST_OFFSET_MINUTES) % (24 * 60);
+  const start = toMinutes(preferences.quietHoursStart);
+  const end = toMinutes(preferences.quietHoursEnd);
+  if (start === end) return false;
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
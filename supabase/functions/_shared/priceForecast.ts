@@ -0,0 +1,263 @@
+// Statistical price forecasting: additive Holt-Winters (damped trend, weekly seasonality) fitted by
+// grid search on one-step errors, with rolling-origin back-tests and error-based prediction intervals.
+import type { PricePoint } from "./priceHistory.ts";
+
+export const FORECAST_HORIZONS = [7, 14, 30];
+
+// Below this many daily points a fitted model is not meaningful; callers fall back to heuristics
+export const MIN_FORECAST_POINTS = 14;
+
+const SEASON_LENGTH = 7;
+const BACKTEST_ORIGINS = 8;
+const BACKTEST_STEP_DAYS = 3;
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export interface HorizonForecast {
+  days: number;
+  date: string;
+  point: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface AccuracyMetrics {
+  horizon: number;
+  mape: number; // mean absolute percentage error, %
+  mae: number;
+  rmse: number;
+  samples: number;
+}
+
+export interface StatisticalForecast {
+  model: 'holt-winters' | 'holt';
+  lastPrice: number;
+  lastDate: string;
+  horizons: HorizonForecast[];
+  accuracy: AccuracyMetrics[];
+  confidence: 'high' | 'medium' | 'low';
+}
+
+interface ModelParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  phi: number;
+  seasonal: boolean;
+}
+
+interface FittedModel {
+  params: ModelParams;
+  level: number;
+  trend: number;
+  season: number[];
+  residualSd: number;
+  sse: number;
+  n: number;
+}
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.3];
+const PHIS = [0.8, 0.9, 0.98];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+const fromUtc = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Mandis close on holidays and collection can skip days; interpolate to a regular daily series
+export const toDailySeries = (series: PricePoint[]): PricePoint[] => {
+  if (series.length === 0) return [];
+  const sorted = [...series].sort((a, b) => a.date.localeCompare(b.date));
+  const daily: PricePoint[] = [sorted[0]];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+    const gap = Math.round((toUtc(next.date) - toUtc(prev.date)) / DAY_MS);
+    for (let step = 1; step < gap; step++) {
+      daily.push({
+        date: fromUtc(toUtc(prev.date) + step * DAY_MS),
+        price: prev.price + ((next.price - prev.price) * step) / gap,
+      });
+    }
+    if (gap > 0) daily.push(next);
+  }
+
+  return daily;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Classical initialisation: level and trend from the first two seasons, seasonal indices from
+// the first season's deviations around its mean
+const fitModel = (values: number[], params: ModelParams): FittedModel => {
+  const m = params.seasonal ? SEASON_LENGTH : 1;
+  const first = values.slice(0, m);
+  const second = values.slice(m, 2 * m);
+
+  let level = mean(first);
+  let trend = second.length === m ? (mean(second) - level) / m : 0;
+  const season = params.seasonal ? first.map(v => v - level) : [0];
+
+  let sse = 0;
+  let count = 0;
+  for (let t = m; t < values.length; t++) {
+    const s = season[t % m];
+    const predicted = level + params.phi * trend + s;
+    const error = values[t] - predicted;
+    sse += error * error;
+    count++;
+
+    const newLevel = params.alpha * (values[t] - s) + (1 - params.alpha) * (level + params.phi * trend);
+    trend = params.beta * (newLevel - level) + (1 - params.beta) * params.phi * trend;
+    if (params.seasonal) {
+      season[t % m] = params.gamma * (values[t] - newLevel) + (1 - params.gamma) * s;
+    }
+    level = newLevel;
+  }
+
+  return {
+    params,
+    level,
+    trend,
+    season,
+    residualSd: count > 1 ? Math.sqrt(sse / (count - 1)) : 0,
+    sse,
+    n: count,
+  };
+};
+
+// Pick smoothing parameters by grid search; seasonal and non-seasonal fits are compared by AIC
+const selectModel = (values: number[]): FittedModel => {
+  const candidates: FittedModel[] = [];
+  const allowSeasonal = values.length >= 3 * SEASON_LENGTH;
+
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const phi of PHIS) {
+        candidates.push(fitModel(values, { alpha, beta, gamma: 0, phi, seasonal: false }));
+        if (allowSeasonal) {
+          for (const gamma of GAMMAS) {
+            candidates.push(fitModel(values, { alpha, beta, gamma, phi, seasonal: true }));
+          }
+        }
+      }
+    }
+  }
+
+  const aic = (model: FittedModel) => {
+    const parameters = model.params.seasonal ? 4 + SEASON_LENGTH : 3;
+    return model.n * Math.log(Math.max(model.sse, 1e-9) / model.n) + 2 * parameters;
+  };
+
+  return candidates.reduce((best, model) => (aic(model) < aic(best) ? model : best));
+};
+
+const forecastAt = (model: FittedModel, h: number): number => {
+  let damping = 0;
+  for (let j = 1; j <= h; j++) damping += Math.pow(model.params.phi, j);
+  const m = model.params.seasonal ? SEASON_LENGTH : 1;
+  const index = (model.n + m - 1 + h) % m;
+  return model.level + damping * model.trend + model.season[index];
+};
+
+// Approximate h-step variance for additive exponential smoothing (seasonal term ignored)
+const horizonSd = (model: FittedModel, h: number): number => {
+  const { alpha, beta } = model.params;
+  let variance = 1;
+  for (let j = 1; j < h; j++) {
+    variance += Math.pow(alpha * (1 + j * beta), 2);
+  }
+  return model.residualSd * Math.sqrt(variance);
+};
+
+// Rolling-origin back-test: refit on data before each origin and score the forecast h days later
+const backtest = (values: number[], horizon: number): AccuracyMetrics | null => {
+  const absErrors: number[] = [];
+  const pctErrors: number[] = [];
+
+  for (let k = 0; k < BACKTEST_ORIGINS; k++) {
+    const cut = values.length - horizon - k * BACKTEST_STEP_DAYS;
+    if (cut < MIN_FORECAST_POINTS) break;
+
+    const model = selectModel(values.slice(0, cut));
+    const actual = values[cut + horizon - 1];
+    const error = actual - forecastAt(model, horizon);
+    absErrors.push(Math.abs(error));
+    if (actual !== 0) pctErrors.push(Math.abs(error / actual) * 100);
+  }
+
+  if (absErrors.length === 0) return null;
+
+  return {
+    horizon,
+    mape: Math.round(mean(pctErrors) * 10) / 10,
+    mae: Math.round(mean(absErrors)),
+    rmse: Math.round(Math.sqrt(mean(absErrors.map(e => e * e)))),
+    samples: absErrors.length,
+  };
+};
+
+// Back-tested 7-day error decides the confidence; without enough history for a back-test,
+// fall back to the relative width of the 80% interval
+const deriveConfidence = (
+  accuracy: AccuracyMetrics[],
+  horizons: HorizonForecast[]
+): StatisticalForecast['confidence'] => {
+  const weekly = accuracy.find(metric => metric.horizon === 7);
+  if (weekly) {
+    if (weekly.mape <= 4) return 'high';
+    if (weekly.mape <= 10) return 'medium';
+    return 'low';
+  }
+
+  const first = horizons[0];
+  const relativeWidth = first.point ? (first.upper80 - first.lower80) / first.point : 1;
+  if (relativeWidth <= 0.08) return 'high';
+  if (relativeWidth <= 0.2) return 'medium';
+  return 'low';
+};
+
+// Returns null when the history is too short to fit a model
+export const forecastPrices = (
+  series: PricePoint[],
+  horizons: number[] = FORECAST_HORIZONS
+): StatisticalForecast | null => {
+  const daily = toDailySeries(series);
+  if (daily.length < MIN_FORECAST_POINTS) return null;
+
+  const values = daily.map(point => point.price);
+  const model = selectModel(values);
+  const last = daily[daily.length - 1];
+
+  const horizonForecasts = horizons.map(days => {
+    const point = Math.max(0, forecastAt(model, days));
+    const sd = horizonSd(model, days);
+    return {
+      days,
+      date: fromUtc(toUtc(last.date) + days * DAY_MS),
+      point: Math.round(point),
+      lower80: Math.max(0, Math.round(point - Z_80 * sd)),
+      upper80: Math.round(point + Z_80 * sd),
+      lower95: Math.max(0, Math.round(point - Z_95 * sd)),
+      upper95: Math.round(point + Z_95 * sd),
+    };
+  });
+
+  const accuracy = horizons
+    .map(days => backtest(values, days))
+    .filter((metric): metric is AccuracyMetrics => metric !== null);
+
+  return {
+    model: model.params.seasonal ? 'holt-winters' : 'holt',
+    lastPrice: Math.round(last.price),
+    lastDate: last.date,
+    horizons: horizonForecasts,
+    accuracy,
+    confidence: deriveConfidence(accuracy, horizonForecasts),
+  };
+};
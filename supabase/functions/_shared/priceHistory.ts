@@ -0,0 +1,178 @@
+// Daily market price snapshots (market_price_history) and trend computation from real history
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchAllPages } from "./supabaseClient.ts";
+import { toDateKey } from "./dates.ts";
+
+export interface PriceSnapshot {
+  commodity: string;
+  state: string;
+  market: string;
+  priceDate: string; // YYYY-MM-DD
+  modalPrice: number;
+  minPrice?: number;
+  maxPrice?: number;
+  source: string;
+}
+
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  price: number;
+}
+
+export interface PriceTrend {
+  trend: 'up' | 'down' | 'stable';
+  change: string; // vs. the previous snapshot, e.g. "+1.2%"
+  changeSince: string | null; // previous snapshot date when it is not the day before; null for day-over-day
+  change7d: string | null; // vs. the latest price at least 7 days older
+}
+
+// Moves within ±1% are reported as stable
+const STABLE_BAND_PCT = 1;
+export const HISTORY_DAYS = 30;
+
+// Parse the date formats used by our sources: "dd/mm/yyyy" (AGMARKNET), "18 Oct 2026" (scraper), ISO
+export const parsePriceDate = (value: string | undefined): string => {
+  if (!value) return toDateKey(new Date());
+  const dmy = value.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (dmy) {
+    return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? toDateKey(new Date()) : toDateKey(parsed);
+};
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+// Upsert snapshots; a re-fetch on the same day overwrites that day's price
+export const saveSnapshots = async (client: SupabaseClient, snapshots: PriceSnapshot[]): Promise<void> => {
+  if (snapshots.length === 0) return;
+
+  const { error } = await client
+    .from('market_price_history')
+    .upsert(snapshots.map(snapshot => ({
+      commodity: snapshot.commodity,
+      state: snapshot.state,
+      market: snapshot.market,
+      price_date: snapshot.priceDate,
+      modal_price: snapshot.modalPrice,
+      min_price: snapshot.minPrice ?? null,
+      max_price: snapshot.maxPrice ?? null,
+      source: snapshot.source,
+    })), { onConflict: 'commodity,state,market,price_date' });
+
+  if (error) throw error;
+};
+
+// The day's state price as stored in the series: the median over the markets reporting on the
+// latest date among the snapshots
+export const latestStateMedian = (snapshots: PriceSnapshot[]): number => {
+  const latestDate = snapshots.reduce((latest, snapshot) => snapshot.priceDate > latest ? snapshot.priceDate : latest, '');
+  return median(snapshots.filter(snapshot => snapshot.priceDate === latestDate).map(snapshot => snapshot.modalPrice));
+};
+
+// Daily state-level series per commodity: the median modal price across the state's markets
+export const fetchStateSeries = async (
+  client: SupabaseClient,
+  state: string,
+  commodities: string[],
+  days: number = HISTORY_DAYS
+): Promise<Map<string, PricePoint[]>> => {
+  const series = new Map<string, PricePoint[]>();
+  if (commodities.length === 0) return series;
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const rows = await fetchAllPages((from, to) => client
+    .from('market_price_history')
+    .select('commodity, price_date, modal_price')
+    .eq('state', state)
+    .in('commodity', commodities)
+    .gte('price_date', toDateKey(since))
+    .order('price_date', { ascending: true })
+    .order('id')
+    .range(from, to));
+
+  const byCommodityDate = new Map<string, Map<string, number[]>>();
+  for (const row of rows) {
+    if (!byCommodityDate.has(row.commodity)) byCommodityDate.set(row.commodity, new Map());
+    const byDate = byCommodityDate.get(row.commodity)!;
+    if (!byDate.has(row.price_date)) byDate.set(row.price_date, []);
+    byDate.get(row.price_date)!.push(Number(row.modal_price));
+  }
+
+  for (const [commodity, byDate] of byCommodityDate.entries()) {
+    series.set(commodity, [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, prices]) => ({ date, price: median(prices) })));
+  }
+
+  return series;
+};
+
+// Recent per-market snapshots for the given states, newest first
+export const fetchRecentMarketSnapshots = async (
+  client: SupabaseClient,
+  states: string[],
+  days = 14
+): Promise<PriceSnapshot[]> => {
+  if (states.length === 0) return [];
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const rows = await fetchAllPages((from, to) => client
+    .from('market_price_history')
+    .select('commodity, state, market, price_date, modal_price, source')
+    .in('state', states)
+    .gte('price_date', toDateKey(since))
+    .order('price_date', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  return rows.map(row => ({
+    commodity: row.commodity,
+    state: row.state,
+    market: row.market,
+    priceDate: row.price_date,
+    modalPrice: Number(row.modal_price),
+    source: row.source,
+  }));
+};
+
+const formatChange = (pct: number): string => `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+const percentChange = (current: number, previous: number): number =>
+  previous ? ((current - previous) / previous) * 100 : 0;
+
+// The change compares the two latest snapshots and is only day-over-day when they are one day apart;
+// otherwise changeSince carries the older date. The 7-day change uses the latest snapshot at least
+// 7 days before the newest one, so gaps in collection do not fake a trend.
+export const computeTrend = (series: PricePoint[]): PriceTrend => {
+  if (series.length < 2) {
+    return { trend: 'stable', change: formatChange(0), changeSince: null, change7d: null };
+  }
+
+  const latest = series[series.length - 1];
+  const previous = series[series.length - 2];
+  const dayChange = percentChange(latest.price, previous.price);
+
+  const dayBefore = new Date(`${latest.date}T00:00:00Z`);
+  dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+
+  const weekAgo = new Date(`${latest.date}T00:00:00Z`);
+  weekAgo.setUTCDate(weekAgo.getUTCDate() - 7);
+  const weekAgoKey = toDateKey(weekAgo);
+  const weekBase = [...series].reverse().find(point => point.date <= weekAgoKey);
+
+  return {
+    trend: dayChange > STABLE_BAND_PCT ? 'up' : dayChange < -STABLE_BAND_PCT ? 'down' : 'stable',
+    change: formatChange(dayChange),
+    changeSince: previous.date === toDateKey(dayBefore) ? null : previous.date,
+    change7d: weekBase ? formatChange(percentChange(latest.price, weekBase.price)) : null,
+  };
+};
@@ -0,0 +1,129 @@
+// Read nutrient values out of Soil Health Card / soil lab report text.
+// Works on plain text, CSV exports and the transcription of a photographed card. Values are
+// normalised to the units the card format uses: N, P, K in kg/ha (P as P, K as K), EC in dS/m,
+// organic carbon in %, and S and micronutrients in ppm.
+
+export type SoilParameter =
+  | 'nitrogen'
+  | 'phosphorus'
+  | 'potassium'
+  | 'ph'
+  | 'ec'
+  | 'organicCarbon'
+  | 'sulphur'
+  | 'zinc'
+  | 'iron'
+  | 'copper'
+  | 'manganese'
+  | 'boron';
+
+export type SoilTestValues = Partial<Record<SoilParameter, number>>;
+
+export interface SoilReportParse {
+  values: SoilTestValues;
+  found: SoilParameter[];
+}
+
+// Checked in order, so "organic carbon" is claimed before "carbon" or a bare "C" could be, and
+// the single-letter symbols only match as standalone tokens (e.g. "(N)" or "N:" but not "Nitrate")
+const LABELS: { parameter: SoilParameter; pattern: RegExp }[] = [
+  { parameter: 'organicCarbon', pattern: /\borganic\s*carbon\b|\bo\.?\s?c\b/i },
+  { parameter: 'ec', pattern: /\belectrical\s*conductivity\b|\be\.?\s?c\b/i },
+  { parameter: 'ph', pattern: /\bp\s?h\b/i },
+  { parameter: 'nitrogen', pattern: /\b(?:[Nn]itrogen|NITROGEN|N)\b/ },
+  { parameter: 'phosphorus', pattern: /\bphosph\w*|\bP2O5\b|\bP\b/i },
+  { parameter: 'potassium', pattern: /\bpotass\w*|\bpotash\b|\bK2O\b|\bK\b/i },
+  { parameter: 'sulphur', pattern: /\b(?:[Ss]ulph\w*|[Ss]ulfur|SULPH\w*|SULFUR|S)\b/ },
+  { parameter: 'zinc', pattern: /\bzinc\b|\bZn\b/i },
+  { parameter: 'iron', pattern: /\biron\b|\bFe\b/i },
+  { parameter: 'copper', pattern: /\bcopper\b|\bCu\b/i },
+  { parameter: 'manganese', pattern: /\bmanganese\b|\bMn\b/i },
+  { parameter: 'boron', pattern: /\b(?:[Bb]oron|BORON|B)\b/ },
+];
+
+// Values outside these ranges are misreads (serial numbers, ranges, dates) and are ignored
+const PLAUSIBLE: Record<SoilParameter, [number, number]> = {
+  nitrogen: [0, 2000],
+  phosphorus: [0, 500],
+  potassium: [0, 3000],
+  ph: [2, 12],
+  ec: [0, 50],
+  organicCarbon: [0, 20],
+  sulphur: [0, 500],
+  zinc: [0, 100],
+  iron: [0, 500],
+  copper: [0, 100],
+  manganese: [0, 500],
+  boron: [0, 50],
+};
+
+const P_PER_P2O5 = 0.4364;
+const K_PER_K2O = 0.8301;
+const HECTARES_PER_ACRE = 0.404686;
+
+const NUMBER = /-?\d+(?:\.\d+)?/;
+
+const findParameter = (text: string): { parameter: SoilParameter; end: number } | null => {
+  for (const { parameter, pattern } of LABELS) {
+    const match = pattern.exec(text);
+    if (match) return { parameter, end: match.index + match[0].length };
+  }
+  return null;
+};
+
+// Convert a reading to the card's standard unit using the unit words on the same line
+const normalise = (parameter: SoilParameter, value: number, line: string): number => {
+  let result = value;
+  if (parameter === 'phosphorus' && /P2O5/i.test(line)) result *= P_PER_P2O5;
+  if (parameter === 'potassium' && /K2O/i.test(line)) result *= K_PER_K2O;
+  if (['nitrogen', 'phosphorus', 'potassium'].includes(parameter) && /kg\s*\/\s*(acre|ac)\b/i.test(line)) {
+    result /= HECTARES_PER_ACRE;
+  }
+  if (parameter === 'ec' && /[µu]s\s*\/\s*cm/i.test(line)) result /= 1000;
+  if (parameter === 'organicCarbon' && /g\s*\/\s*kg/i.test(line)) result /= 10;
+  return Math.round(result * 100) / 100;
+};
+
+const accept = (values: SoilTestValues, parameter: SoilParameter, value: number, line: string) => {
+  if (values[parameter] !== undefined) return;
+  const normalised = normalise(parameter, value, line);
+  const [min, max] = PLAUSIBLE[parameter];
+  if (normalised >= min && normalised <= max) values[parameter] = normalised;
+};
+
+// The first number after the label is the reading; formula digits (P2O5, K2O) are dropped first
+const readingAfter = (text: string): number | null => {
+  const match = NUMBER.exec(text.replace(/P2O5|K2O/gi, ' '));
+  return match ? Number(match[0]) : null;
+};
+
+const splitCells = (line: string) => line.split(/[,;\t|]/).map(cell => cell.trim()).filter(Boolean);
+
+export const parseSoilReport = (text: string): SoilReportParse => {
+  const values: SoilTestValues = {};
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  lines.forEach((line, index) => {
+    const cells = splitCells(line);
+    const headers = cells.map(cell => findParameter(cell));
+
+    // Column layout (CSV exports): a header row of labels followed by a row of numbers
+    const next = lines[index + 1] ? splitCells(lines[index + 1]) : [];
+    if (cells.length > 1 && headers.every(Boolean) && next.length === cells.length
+      && next.every(cell => NUMBER.test(cell))) {
+      headers.forEach((header, column) => {
+        const value = readingAfter(next[column]);
+        if (header && value !== null) accept(values, header.parameter, value, cells[column]);
+      });
+      return;
+    }
+
+    // Row layout (cards and lab sheets): "3. Available Phosphorus (P) 14.2 kg/ha Low"
+    const found = findParameter(line);
+    if (!found) return;
+    const value = readingAfter(line.slice(found.end));
+    if (value !== null) accept(values, found.parameter, value, line);
+  });
+
+  return { values, found: Object.keys(values) as SoilParameter[] };
+};
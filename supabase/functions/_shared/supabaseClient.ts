@@ -0,0 +1,26 @@
+// Service-role Supabase client for edge functions that read or write across users
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Edge functions get SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from the platform
+export const getServiceClient = (): SupabaseClient | null => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceKey) return null;
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+};
+
+// PostgREST returns at most max_rows (supabase/config.toml) per request, so larger reads are
+// fetched in pages. The query must have a stable order for the pages not to overlap.
+const PAGE_SIZE = 1000;
+
+export const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,343 @@
+// Daily agro-weather forecasts behind a provider interface. WEATHER_PROVIDER picks the provider:
+// "openweather" (the default; 5 days from the 3-hourly forecast, needs OPENWEATHER_API_KEY),
+// "open-meteo" (10 days, no key) or "fixture" (a stored forecast, for local runs and tests). Another
+// source such as IMD is added by implementing WeatherProvider and listing it in getWeatherProvider.
+// Observed weather for the soil water balance comes from Open-Meteo, or the fixture in tests.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { coordinateCacheKey, roundCoordinate, withCache } from "./apiCache.ts";
+import { formatResolvedLocation, resolveLocation } from "./location.ts";
+import { addDays, toIndiaDateKey } from "./dates.ts";
+
+export const MAX_FORECAST_DAYS = 10;
+// Open-Meteo keeps up to 92 past days on its forecast endpoint
+export const MAX_PAST_DAYS = 92;
+
+export interface CurrentWeather {
+  temperature: number; // °C
+  humidity: number; // %
+  rainfall: number; // mm in the last hour
+  windSpeed: number; // km/h at 10 m
+  condition: string;
+  location: string;
+}
+
+export interface DailyWeather {
+  date: string; // YYYY-MM-DD in the location's time zone
+  temperature: number; // daily mean, °C
+  tempMin: number;
+  tempMax: number;
+  rainfall: number; // daily total, mm
+  rainProbability: number; // highest chance of rain in the day, %
+  windSpeed: number; // daily mean, km/h at 10 m
+  windSpeedMax: number;
+  humidity: number; // daily mean, %
+  humidityMin: number;
+  humidityMax: number;
+  cloudCover: number; // daily mean, %
+  condition: string;
+  partial?: boolean; // only the rest of today is covered, so totals and extremes are for those hours
+}
+
+export interface WeatherForecast {
+  current: CurrentWeather;
+  daily: DailyWeather[];
+}
+
+export interface WeatherProvider {
+  name: string;
+  maxDays: number;
+  getForecast(latitude: number, longitude: number, days: number): Promise<WeatherForecast>;
+}
+
+export interface ObservedDay {
+  date: string; // YYYY-MM-DD in the location's time zone
+  rainfall: number; // mm
+  et0: number; // FAO-56 reference evapotranspiration, mm
+}
+
+export interface WeatherHistoryProvider {
+  name: string;
+  // The past `days` days and today, oldest first
+  getHistory(latitude: number, longitude: number, days: number): Promise<ObservedDay[]>;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const MS_TO_KMH = 3.6;
+const SLOTS_PER_DAY = 8;
+
+// One 3-hourly entry of the OpenWeather forecast, limited to the fields used here
+interface ForecastSlot {
+  dt: number;
+  main: { temp: number; temp_min: number; temp_max: number; humidity: number };
+  wind?: { speed: number };
+  clouds?: { all: number };
+  rain?: { '3h'?: number };
+  pop?: number; // 0-1
+  weather: { description: string }[];
+}
+
+// Group 3-hourly slots into local days. Means are over the day's slots, rain is their total, and
+// min/max, the highest wind and the highest chance of rain come from all slots of the day. The
+// forecast starts part way through today, which is kept and flagged partial, and ends part way
+// through its last day, which is dropped rather than reported with a fraction of its rain.
+export const aggregateOpenWeatherDays = (slots: ForecastSlot[], timezoneOffsetSeconds: number): DailyWeather[] => {
+  const slotsByDate = new Map<string, ForecastSlot[]>();
+  for (const slot of slots) {
+    const date = new Date((slot.dt + timezoneOffsetSeconds) * 1000).toISOString().slice(0, 10);
+    if (!slotsByDate.has(date)) slotsByDate.set(date, []);
+    slotsByDate.get(date)!.push(slot);
+  }
+
+  return [...slotsByDate.entries()]
+    .filter(([, day], index) => index === 0 || day.length === SLOTS_PER_DAY)
+    .map(([date, day]) => ({
+      date,
+      temperature: Math.round(mean(day.map(slot => slot.main.temp))),
+      tempMin: round1(Math.min(...day.map(slot => slot.main.temp_min))),
+      tempMax: round1(Math.max(...day.map(slot => slot.main.temp_max))),
+      rainfall: round1(day.reduce((sum, slot) => sum + (slot.rain?.['3h'] || 0), 0)),
+      rainProbability: Math.round(Math.max(...day.map(slot => slot.pop ?? 0)) * 100),
+      windSpeed: round1(mean(day.map(slot => slot.wind?.speed ?? 0)) * MS_TO_KMH),
+      windSpeedMax: round1(Math.max(...day.map(slot => slot.wind?.speed ?? 0)) * MS_TO_KMH),
+      humidity: Math.round(mean(day.map(slot => slot.main.humidity))),
+      humidityMin: Math.min(...day.map(slot => slot.main.humidity)),
+      humidityMax: Math.max(...day.map(slot => slot.main.humidity)),
+      cloudCover: Math.round(mean(day.map(slot => slot.clouds?.all ?? 0))),
+      condition: day[Math.floor(day.length / 2)].weather[0].description,
+      ...(day.length < SLOTS_PER_DAY ? { partial: true } : {}),
+    }));
+};
+
+export class OpenWeatherProvider implements WeatherProvider {
+  name = 'openweather';
+  // The free forecast API covers five days in 3-hour steps
+  maxDays = 5;
+
+  constructor(
+    private apiKey: string,
+    private client: SupabaseClient | null
+  ) {}
+
+  private async fetchEndpoint(endpoint: 'weather' | 'forecast', latitude: number, longitude: number) {
+    const response = await fetch(
+      `https://api.openweathermap.org/data/2.5/${endpoint}?lat=${latitude}&lon=${longitude}&appid=${this.apiKey}&units=metric`
+    );
+
+    if (!response.ok) {
+      throw new Error(`${endpoint === 'weather' ? 'Current weather' : 'Forecast'} API error: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getForecast(latitude: number, longitude: number, days: number): Promise<WeatherForecast> {
+    // Both calls are cached per ~1 km cell and fetched for the cell, so every farm in it gets the same answer
+    const cell = coordinateCacheKey(latitude, longitude);
+    const [lat, lon] = [roundCoordinate(latitude), roundCoordinate(longitude)];
+    const [{ value: current }, { value: forecast }] = await Promise.all([
+      withCache(this.client, 'openweather-current', `openweather:current:${cell}`,
+        () => this.fetchEndpoint('weather', lat, lon)),
+      withCache(this.client, 'openweather-forecast', `openweather:forecast:${cell}`,
+        () => this.fetchEndpoint('forecast', lat, lon)),
+    ]);
+
+    return {
+      current: {
+        temperature: Math.round(current.main.temp),
+        humidity: current.main.humidity,
+        rainfall: current.rain ? current.rain['1h'] || 0 : 0,
+        windSpeed: Math.round(current.wind.speed * MS_TO_KMH),
+        condition: current.weather[0].description,
+        location: `${current.name}, ${current.sys.country}`,
+      },
+      daily: aggregateOpenWeatherDays(forecast.list, forecast.city?.timezone ?? 0).slice(0, days),
+    };
+  }
+}
+
+// WMO weather interpretation codes used by Open-Meteo, worded like OpenWeather's descriptions
+const WMO_CONDITIONS: Record<number, string> = {
+  0: 'clear sky', 1: 'mainly clear', 2: 'partly cloudy', 3: 'overcast',
+  45: 'fog', 48: 'fog',
+  51: 'light drizzle', 53: 'drizzle', 55: 'heavy drizzle', 56: 'freezing drizzle', 57: 'freezing drizzle',
+  61: 'light rain', 63: 'moderate rain', 65: 'heavy rain', 66: 'freezing rain', 67: 'freezing rain',
+  71: 'light snow', 73: 'snow', 75: 'heavy snow', 77: 'snow grains',
+  80: 'light rain showers', 81: 'rain showers', 82: 'heavy rain showers', 85: 'snow showers', 86: 'snow showers',
+  95: 'thunderstorm', 96: 'thunderstorm with hail', 99: 'thunderstorm with hail',
+};
+
+const describeWmo = (code: number | null | undefined) => WMO_CONDITIONS[code ?? -1] ?? 'unknown';
+
+// Open-Meteo has no place names, so the district and state come from the gazetteer, and the
+// coordinates are shown when the point is outside it
+const describeLocation = (latitude: number, longitude: number): string =>
+  formatResolvedLocation(resolveLocation({ latitude, longitude })) ??
+  `${Math.abs(roundCoordinate(latitude)).toFixed(2)}°${latitude < 0 ? 'S' : 'N'}, ` +
+  `${Math.abs(roundCoordinate(longitude)).toFixed(2)}°${longitude < 0 ? 'W' : 'E'}`;
+
+const OPEN_METEO_DAILY = [
+  'weather_code', 'temperature_2m_mean', 'temperature_2m_min', 'temperature_2m_max', 'precipitation_sum',
+  'precipitation_probability_max', 'wind_speed_10m_mean', 'wind_speed_10m_max', 'relative_humidity_2m_mean',
+  'relative_humidity_2m_min', 'relative_humidity_2m_max', 'cloud_cover_mean',
+];
+const OPEN_METEO_CURRENT = ['temperature_2m', 'relative_humidity_2m', 'precipitation', 'wind_speed_10m', 'weather_code'];
+
+export class OpenMeteoProvider implements WeatherProvider, WeatherHistoryProvider {
+  name = 'open-meteo';
+  maxDays = MAX_FORECAST_DAYS;
+
+  constructor(private client: SupabaseClient | null) {}
+
+  private async fetchForecast(latitude: number, longitude: number) {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      daily: OPEN_METEO_DAILY.join(','),
+      current: OPEN_METEO_CURRENT.join(','),
+      wind_speed_unit: 'kmh',
+      timezone: 'auto',
+      forecast_days: String(this.maxDays),
+    });
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo forecast error: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private async fetchHistory(latitude: number, longitude: number) {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      daily: 'precipitation_sum,et0_fao_evapotranspiration',
+      past_days: String(MAX_PAST_DAYS),
+      forecast_days: '1',
+      timezone: 'auto',
+    });
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo history error: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getHistory(latitude: number, longitude: number, days: number): Promise<ObservedDay[]> {
+    // Always fetched for all past days, like the forecast, so every plot in the cell shares the entry
+    const cell = coordinateCacheKey(latitude, longitude);
+    const { value: history } = await withCache(this.client, 'open-meteo-history', `open-meteo:history:${cell}`,
+      () => this.fetchHistory(roundCoordinate(latitude), roundCoordinate(longitude)));
+
+    const daily = history.daily ?? {};
+    return ((daily.time ?? []) as string[]).map((date, index) => ({
+      date,
+      rainfall: daily.precipitation_sum?.[index] ?? 0,
+      et0: daily.et0_fao_evapotranspiration?.[index] ?? 0,
+    })).slice(-(days + 1));
+  }
+
+  async getForecast(latitude: number, longitude: number, days: number): Promise<WeatherForecast> {
+    // Always fetched for the full horizon so requests for fewer days share the cached entry
+    const cell = coordinateCacheKey(latitude, longitude);
+    const { value: forecast } = await withCache(this.client, 'open-meteo-forecast', `open-meteo:forecast:${cell}`,
+      () => this.fetchForecast(roundCoordinate(latitude), roundCoordinate(longitude)));
+
+    const daily = forecast.daily;
+    const current = forecast.current;
+    return {
+      current: {
+        temperature: Math.round(current.temperature_2m),
+        humidity: Math.round(current.relative_humidity_2m),
+        rainfall: round1(current.precipitation ?? 0),
+        windSpeed: Math.round(current.wind_speed_10m),
+        condition: describeWmo(current.weather_code),
+        location: describeLocation(latitude, longitude),
+      },
+      daily: (daily.time as string[]).slice(0, days).map((date, index) => ({
+        date,
+        temperature: Math.round(daily.temperature_2m_mean[index]),
+        tempMin: round1(daily.temperature_2m_min[index]),
+        tempMax: round1(daily.temperature_2m_max[index]),
+        rainfall: round1(daily.precipitation_sum[index] ?? 0),
+        rainProbability: Math.round(daily.precipitation_probability_max[index] ?? 0),
+        windSpeed: round1(daily.wind_speed_10m_mean[index] ?? 0),
+        windSpeedMax: round1(daily.wind_speed_10m_max[index] ?? 0),
+        humidity: Math.round(daily.relative_humidity_2m_mean[index]),
+        humidityMin: Math.round(daily.relative_humidity_2m_min[index]),
+        humidityMax: Math.round(daily.relative_humidity_2m_max[index]),
+        cloudCover: Math.round(daily.cloud_cover_mean[index] ?? 0),
+        condition: describeWmo(daily.weather_code[index]),
+      })),
+    };
+  }
+}
+
+// A stored forecast: today's conditions and days without dates, which are given dates from today
+// (India time) so date-based rules such as heavy-rain alerts behave the same on any day. The
+// observed history, oldest first, ends today.
+export interface WeatherFixture {
+  current: CurrentWeather;
+  daily: Omit<DailyWeather, 'date'>[];
+  history?: Omit<ObservedDay, 'date'>[];
+}
+
+const DEFAULT_FIXTURE = new URL('./fixtures/weather-forecast.json', import.meta.url);
+
+export class FixtureWeatherProvider implements WeatherProvider, WeatherHistoryProvider {
+  name = 'fixture';
+  maxDays = MAX_FORECAST_DAYS;
+
+  constructor(
+    private source: WeatherFixture | URL = DEFAULT_FIXTURE,
+    private today: string = toIndiaDateKey(new Date())
+  ) {}
+
+  private async load(): Promise<WeatherFixture> {
+    return this.source instanceof URL ? JSON.parse(await Deno.readTextFile(this.source)) : this.source;
+  }
+
+  async getForecast(_latitude: number, _longitude: number, days: number): Promise<WeatherForecast> {
+    const fixture = await this.load();
+
+    return {
+      current: fixture.current,
+      daily: fixture.daily.slice(0, days).map((day, index) => ({ ...day, date: addDays(this.today, index) })),
+    };
+  }
+
+  async getHistory(_latitude: number, _longitude: number, days: number): Promise<ObservedDay[]> {
+    const history = (await this.load()).history ?? [];
+    return history
+      .map((day, index) => ({ ...day, date: addDays(this.today, index - (history.length - 1)) }))
+      .slice(-(days + 1));
+  }
+}
+
+const fixtureFromEnv = (): FixtureWeatherProvider => {
+  const path = Deno.env.get('WEATHER_FIXTURE_PATH');
+  return new FixtureWeatherProvider(path ? new URL(path, `file://${Deno.cwd()}/`) : DEFAULT_FIXTURE);
+};
+
+export const getWeatherProvider = (client: SupabaseClient | null): WeatherProvider => {
+  const name = Deno.env.get('WEATHER_PROVIDER') || 'openweather';
+  switch (name) {
+    case 'open-meteo':
+      return new OpenMeteoProvider(client);
+    case 'openweather': {
+      const apiKey = Deno.env.get('OPENWEATHER_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenWeather API key not configured');
+      }
+      return new OpenWeatherProvider(apiKey, client);
+    }
+    case 'fixture':
+      return fixtureFromEnv();
+    default:
+      throw new Error(`Unknown weather provider: ${name}`);
+  }
+};
+
+// Only Open-Meteo has observed history, so every setting except "fixture" uses it
+export const getWeatherHistoryProvider = (client: SupabaseClient | null): WeatherHistoryProvider =>
+  Deno.env.get('WEATHER_PROVIDER') === 'fixture' ? fixtureFromEnv() : new OpenMeteoProvider(client);
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { completeWithFallback } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,12 +22,6 @@ serve(async (req) => {
       });
     }
 
-    const geminiApiKey = Deno.env.get("GEMINI_API_KEY");
-    const togetherApiKey = Deno.env.get("TOGETHER_API_KEY");
-    const mistralApiKey = Deno.env.get("MISTRAL_API_KEY");
-
-    console.log("API Keys status - Gemini:", !!geminiApiKey, "Together:", !!togetherApiKey, "Mistral:", !!mistralApiKey);
-
     // Build personalized agricultural prompt
     const langInstruction = language === 'hi'
       ? 'Respond in Hindi (हिंदी में जवाब दें)'
@@ -81,204 +76,17 @@ IMPORTANT: If you truly cannot identify the specific plant, ask the farmer to pr
 Address the farmer as: ${farmerData?.name || 'Farmer'}
 Keep response under 300 words but be specific about crop identification.`;
 
-    // Gemini API call (Primary)
-    const callGemini = async (): Promise<{ ok: boolean; content?: string; error?: string }> => {
-      if (!geminiApiKey) {
-        console.log("GEMINI_API_KEY not configured, skipping");
-        return { ok: false, error: "GEMINI_API_KEY not configured" };
-      }
-
-      try {
-        console.log("Analyzing image with Gemini...");
-
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              contents: [
-                {
-                  parts: [
-                    { text: analysisPrompt },
-                    {
-                      inline_data: {
-                        mime_type: "image/png",
-                        data: image,
-                      },
-                    },
-                  ],
-                },
-              ],
-              generationConfig: {
-                maxOutputTokens: 500,
-                temperature: 0.3,
-              },
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("Gemini API error:", response.status, errorText);
-          return { ok: false, error: `Gemini error: ${response.status}` };
-        }
-
-        const data = await response.json();
-        const content = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-        if (!content) {
-          console.error("Gemini returned empty content");
-          return { ok: false, error: "Empty response from Gemini" };
-        }
-
-        console.log("Gemini image analysis completed successfully");
-        return { ok: true, content };
-      } catch (error) {
-        console.error("Gemini API error:", error);
-        return { ok: false, error: error.message };
-      }
-    };
-
-    // Together AI call (Fallback) - Using Llama Vision Free
-    const callTogether = async (): Promise<{ ok: boolean; content?: string; error?: string }> => {
-      if (!togetherApiKey) {
-        console.log("TOGETHER_API_KEY not configured, skipping");
-        return { ok: false, error: "TOGETHER_API_KEY not configured" };
-      }
-
-      try {
-        console.log("Analyzing image with Together AI Llama Vision...");
-
-        const response = await fetch("https://api.together.xyz/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${togetherApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "meta-llama/Llama-Vision-Free",
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: analysisPrompt,
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:image/png;base64,${image}`,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 500,
-            temperature: 0.3,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("Together API error:", response.status, errorText);
-          return { ok: false, error: `Together error: ${response.status} - ${errorText}` };
-        }
-
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || "";
-
-        if (!content) {
-          console.error("Together returned empty content");
-          return { ok: false, error: "Empty response from Together" };
-        }
-
-        console.log("Together image analysis completed successfully");
-        return { ok: true, content };
-      } catch (error) {
-        console.error("Together API error:", error);
-        return { ok: false, error: error.message };
-      }
-    };
-
-    // Mistral Pixtral call (Third fallback)
-    const callMistral = async (): Promise<{ ok: boolean; content?: string; error?: string }> => {
-      if (!mistralApiKey) {
-        console.log("MISTRAL_API_KEY not configured, skipping");
-        return { ok: false, error: "MISTRAL_API_KEY not configured" };
-      }
-
-      try {
-        console.log("Analyzing image with Mistral Pixtral...");
-
-        const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${mistralApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "pixtral-12b-2409",
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: analysisPrompt,
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:image/png;base64,${image}`,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 500,
-            temperature: 0.3,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("Mistral API error:", response.status, errorText);
-          return { ok: false, error: `Mistral error: ${response.status} - ${errorText}` };
-        }
-
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || "";
-
-        if (!content) {
-          console.error("Mistral returned empty content");
-          return { ok: false, error: "Empty response from Mistral" };
-        }
-
-        console.log("Mistral image analysis completed successfully");
-        return { ok: true, content };
-      } catch (error) {
-        console.error("Mistral API error:", error);
-        return { ok: false, error: error.message };
-      }
-    };
-
-    // Try providers in order: Gemini -> Together -> Mistral
-    let result = await callGemini();
-    let usedProvider = "gemini";
-
-    if (!result.ok) {
-      console.log("Gemini failed, trying Together AI...");
-      result = await callTogether();
-      usedProvider = "together";
-    }
-
-    if (!result.ok) {
-      console.log("Together failed, trying Mistral Pixtral...");
-      result = await callMistral();
-      usedProvider = "mistral";
-    }
+    // Try vision providers in order: Gemini -> Together (Llama Vision) -> Mistral (Pixtral)
+    const result = await completeWithFallback({
+      messages: [{ role: "user", content: analysisPrompt }],
+      image: { data: image, mimeType: "image/png" },
+      maxTokens: 500,
+      temperature: 0.3,
+    }, {
+      providers: ["gemini", "together", "mistral"],
+      timeoutMs: 30000,
+      retries: 1,
+    });
 
     if (!result.ok) {
       console.error("All image providers failed");
@@ -303,7 +111,7 @@ Keep response under 300 words but be specific about crop identification.`;
     return new Response(JSON.stringify({
       output: result.content,
       status: "success",
-      provider: usedProvider,
+      provider: result.provider,
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
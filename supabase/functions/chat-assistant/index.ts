@@ -1,11 +1,35 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  completeWithFallback,
+  streamWithFallback,
+  type LlmCallOptions,
+  type LlmMessage,
+  type LlmRequest,
+  type LlmResult,
+} from "../_shared/llm.ts";
+import { formatResolvedLocation, resolveLocation } from "../_shared/location.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Prior turns come from the client, so only plain user/assistant text is kept, and only as much
+// as the client is meant to send (see CHAT_HISTORY_LIMIT in src/lib/chatConversations.ts)
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_CHARS = 2000;
+
+const sanitizeHistory = (history: unknown): LlmMessage[] => {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((entry): entry is { role: 'user' | 'assistant'; content: string } =>
+      (entry?.role === 'user' || entry?.role === 'assistant') && typeof entry?.content === 'string'
+    )
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(({ role, content }) => ({ role, content: content.slice(0, MAX_HISTORY_CHARS) }));
+};
+
 // Get current season based on month (Indian agricultural seasons)
 const getCurrentSeason = (): string => {
   const month = new Date().getMonth() + 1;
@@ -20,24 +44,30 @@ serve(async (req) => {
   }
 
   try {
-    const { message, language, farmerData, debug, history } = await req.json();
+    const { message, language, farmerData, debug, history, stream } = await req.json();
 
     if (!message) {
       throw new Error('Message is required');
     }
 
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-    const mistralApiKey = Deno.env.get('MISTRAL_API_KEY');
     const currentSeason = getCurrentSeason();
 
-    console.log('API Keys status - Gemini:', !!geminiApiKey, 'Mistral:', !!mistralApiKey);
+    // Canonical district/state for the prompt; an unrecognised location is stated as such
+    const resolvedLocation = formatResolvedLocation(resolveLocation({
+      text: farmerData?.location,
+      latitude: farmerData?.latitude,
+      longitude: farmerData?.longitude,
+    }));
+    const locationLine = resolvedLocation
+      ? `${resolvedLocation}${farmerData?.location ? ` (entered as "${farmerData.location}")` : ''}`
+      : `${farmerData?.location || 'India'} (district and state could not be identified; ask the farmer if it matters)`;
 
     // Enhanced personalization prompt
     const systemPrompt = `You are Krishi Sahayak AI (कृषि सहायक), a trusted and friendly agricultural advisor for Indian farmers.
 
 FARMER PROFILE:
 - Name: ${farmerData?.name || 'Farmer'}
-- Location: ${farmerData?.location || 'India'} (consider local climate, soil type, and nearby markets)
+- Location: ${locationLine} (consider local climate, soil type, and nearby markets)
 - Crops: ${farmerData?.crops?.join(', ') || 'General farming'}
 - Land Size: ${farmerData?.landSize || 'Not specified'} ${farmerData?.landUnit || ''}
 - Current Season: ${currentSeason}
@@ -68,7 +98,8 @@ EXPERTISE AREAS:
 - Government schemes for farmers
 - Organic farming practices`;
 
-    // Fetch live context if we have coordinates/location
+    // Fetch live context if we have coordinates/location; both functions answer from the shared
+    // API cache, so a message costs no upstream calls when the area was looked up recently
     let weatherSummary = '';
     let marketSummary = '';
     try {
@@ -87,17 +118,22 @@ EXPERTISE AREAS:
           }
         }
       }
-      if (farmerData?.location) {
+      if (farmerData?.location || (farmerData?.latitude && farmerData?.longitude)) {
         const marketResp = await fetch(`${new URL(req.url).origin}/functions/v1/market-data`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', ...(forwardApiKey ? { apikey: forwardApiKey } : {}) },
-          body: JSON.stringify({ location: farmerData.location, crops: farmerData.crops || [] })
+          body: JSON.stringify({
+            location: farmerData.location,
+            latitude: farmerData.latitude,
+            longitude: farmerData.longitude,
+            crops: farmerData.crops || [],
+          })
         });
         if (marketResp.ok) {
           const m = await marketResp.json();
           const top = m?.marketData?.[0];
           if (top) {
-            marketSummary = `Market Update (${m.state}): ${top.crop} ₹${top.currentPrice}/quintal (${top.change}, ${top.trend}).`;
+            marketSummary = `Market Update (${m.state ?? 'national estimate'}): ${top.crop} ₹${top.currentPrice}/quintal (${top.change}, ${top.trend}).`;
           }
         }
       }
@@ -120,151 +156,89 @@ EXPERTISE AREAS:
           : `Hello ${farmerData?.name || 'Farmer'}! I'm your agricultural assistant. The AI service is currently busy. Please try again in a moment.`
     );
 
-    // Gemini AI call using REST API (Primary)
-    const callGemini = async (): Promise<{ ok: boolean; content?: string; error?: string }> => {
-      if (!geminiApiKey) {
-        console.error('GEMINI_API_KEY is missing');
-        return { ok: false, error: 'GEMINI_API_KEY missing' };
-      }
-
-      try {
-        console.log('Calling Gemini AI via REST API...');
-
-        // Build conversation for Gemini
-        const contents = [
-          {
-            role: 'user',
-            parts: [{ text: 'You are Krishi Sahayak AI. Here is your system instruction:\n\n' + systemPrompt }]
-          },
-          {
-            role: 'model',
-            parts: [{ text: 'Understood! I am Krishi Sahayak AI, ready to help farmers with personalized agricultural advice.' }]
-          }
-        ];
-
-        // Add history if available
-        if (Array.isArray(history)) {
-          for (const h of history) {
-            contents.push({
-              role: h.role === 'assistant' ? 'model' : 'user',
-              parts: [{ text: h.content }]
-            });
-          }
-        }
-
-        // Add current message
-        contents.push({
-          role: 'user',
-          parts: [{ text: userMessageWithContext }]
-        });
-
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: contents,
-              generationConfig: {
-                maxOutputTokens: 300,
-                temperature: 0.4,
-              },
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Gemini API error:', response.status, errorText);
-          return { ok: false, error: `Gemini API error: ${response.status} - ${errorText}` };
-        }
-
-        const data = await response.json();
-        const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-        if (!content) {
-          console.error('Gemini returned empty content:', JSON.stringify(data));
-          return { ok: false, error: 'Empty response from Gemini' };
-        }
-
-        console.log('Gemini response received successfully');
-        return { ok: true, content };
-      } catch (error) {
-        console.error('Gemini API error:', error);
-        return { ok: false, error: error.message };
-      }
+    const request: LlmRequest = {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...sanitizeHistory(history),
+        { role: 'user', content: userMessageWithContext },
+      ],
+      maxTokens: 300,
+      temperature: 0.4,
     };
 
-    // Mistral AI call (Fallback)
-    const callMistral = async (): Promise<{ ok: boolean; content?: string; error?: string }> => {
-      if (!mistralApiKey) {
-        console.error('MISTRAL_API_KEY is missing');
-        return { ok: false, error: 'MISTRAL_API_KEY missing' };
-      }
-
-      console.log('Calling Mistral AI (fallback)...');
-
-      try {
-        const messages = [
-          { role: 'system', content: systemPrompt },
-          ...(Array.isArray(history) ? history : []),
-          { role: 'user', content: userMessageWithContext }
-        ];
-
-        const resp = await fetch('https://api.mistral.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${mistralApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'mistral-small',
-            messages: messages,
-            max_tokens: 300,
-            temperature: 0.4,
-          }),
-        });
-
-        if (!resp.ok) {
-          const txt = await resp.text();
-          console.error('Mistral API error:', resp.status, txt);
-          return { ok: false, error: txt };
-        }
-
-        const json = await resp.json();
-        const content = json.choices?.[0]?.message?.content ?? '';
-        console.log('Mistral response received successfully');
-        return { ok: true, content };
-      } catch (error) {
-        console.error('Error calling Mistral API:', error);
-        return { ok: false, error: error.message };
-      }
+    // Gemini first, Mistral as fallback
+    const llmOptions: LlmCallOptions = {
+      providers: ['gemini', 'mistral'],
+      timeoutMs: 20000,
+      retries: 1,
     };
 
-    // Try Gemini first, then fallback to Mistral
-    let result = await callGemini();
-    let usedProvider = 'gemini';
-    let geminiError = result.ok ? null : result.error;
+    const providerErrors = (attempts: LlmResult[]) => Object.fromEntries(
+      attempts.map(attempt => [`${attempt.provider}Error`, attempt.error])
+    );
 
-    if (!result.ok) {
-      console.log('Gemini failed with error:', result.error);
-      console.log('Trying Mistral fallback...');
-      result = await callMistral();
-      usedProvider = 'mistral';
+    // Streaming mode: emit `data: {type, ...}` events (delta / reset / done / error).
+    // A `reset` tells the client to discard partial text from a provider that failed mid-stream.
+    if (stream) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        async start(controller) {
+          const send = (event: Record<string, unknown>) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+          try {
+            const result = await streamWithFallback(request, {
+              onDelta: (content) => send({ type: 'delta', content }),
+              onReset: (provider) => send({ type: 'reset', provider }),
+            }, llmOptions);
+
+            if (!result.ok) {
+              console.error('All AI providers failed:', JSON.stringify(providerErrors(result.attempts)));
+
+              if (debug) {
+                send({ type: 'error', error: 'All AI providers failed', ...providerErrors(result.attempts) });
+              } else {
+                send({ type: 'delta', content: buildFallback() });
+                send({ type: 'done', fallback: true });
+              }
+            } else {
+              send({ type: 'done', provider: result.provider });
+            }
+
+            controller.close();
+          } catch (error) {
+            // Without this the client waits on a stream that never ends
+            console.error('Chat stream error:', error);
+            try {
+              send({ type: 'error', error: error instanceof Error ? error.message : 'Chat stream failed' });
+              controller.close();
+            } catch {
+              // The client has gone and the stream is already closed
+            }
+          }
+        },
+      });
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+      });
     }
 
+    const result = await completeWithFallback(request, llmOptions);
+
     if (!result.ok) {
-      // Both providers failed
-      console.error('Both AI providers failed. Gemini error:', geminiError, 'Mistral error:', result.error);
+      // All providers failed
+      console.error('All AI providers failed:', JSON.stringify(providerErrors(result.attempts)));
 
       if (debug) {
         return new Response(JSON.stringify({
           status: 'error',
           error: 'All AI providers failed',
-          geminiError: geminiError,
-          mistralError: result.error,
+          ...providerErrors(result.attempts),
         }), {
           status: 502,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -283,7 +257,7 @@ EXPERTISE AREAS:
     return new Response(JSON.stringify({
       response: result.content,
       status: 'success',
-      provider: usedProvider,
+      provider: result.provider,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
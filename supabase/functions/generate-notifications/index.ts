@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { buildFarmAlerts } from "../_shared/notificationRules.ts";
+import { createForecastFetcher, loadFarmProfile, storeAlerts } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Run the notification rules for the signed-in farmer and store any new alerts
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const client = getServiceClient();
+    if (!client) {
+      throw new Error('Supabase service role not configured');
+    }
+
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    const { data: { user }, error: authError } = await client.auth.getUser(token);
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Not signed in', status: 'error' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const profile = await loadFarmProfile(client, user.id);
+    if (!profile) {
+      return new Response(JSON.stringify({ created: 0, status: 'success' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const fetchForecast = createForecastFetcher(new URL(req.url).origin, req.headers.get('apikey') || '');
+    const alerts = await buildFarmAlerts(client, profile, fetchForecast);
+    const created = await storeAlerts(client, user.id, alerts);
+
+    console.log(`Notification rules raised ${alerts.length} alerts, ${created} new`);
+
+    return new Response(JSON.stringify({ created, status: 'success' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in generate-notifications function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,36 +1,198 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  computeTrend,
+  fetchRecentMarketSnapshots,
+  fetchStateSeries,
+  latestStateMedian,
+  parsePriceDate,
+  saveSnapshots,
+  type PricePoint,
+  type PriceSnapshot,
+} from "../_shared/priceHistory.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { resolveLocation } from "../_shared/location.ts";
+import { findNearbyMandis, matchesMandi } from "../_shared/mandis.ts";
+import { withCache } from "../_shared/apiCache.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Map user locations to states for market data
-const getStateFromLocation = (location: string): string => {
-  const locationLower = location.toLowerCase();
-
-  if (locationLower.includes('punjab')) return 'Punjab';
-  if (locationLower.includes('haryana')) return 'Haryana';
-  if (locationLower.includes('uttar pradesh') || locationLower.includes('up')) return 'Uttar Pradesh';
-  if (locationLower.includes('bihar')) return 'Bihar';
-  if (locationLower.includes('west bengal') || locationLower.includes('kolkata')) return 'West Bengal';
-  if (locationLower.includes('maharashtra') || locationLower.includes('mumbai') || locationLower.includes('pune')) return 'Maharashtra';
-  if (locationLower.includes('gujarat') || locationLower.includes('ahmedabad')) return 'Gujarat';
-  if (locationLower.includes('rajasthan') || locationLower.includes('jaipur')) return 'Rajasthan';
-  if (locationLower.includes('madhya pradesh') || locationLower.includes('mp') || locationLower.includes('bhopal')) return 'Madhya Pradesh';
-  if (locationLower.includes('karnataka') || locationLower.includes('bangalore') || locationLower.includes('bengaluru')) return 'Karnataka';
-  if (locationLower.includes('andhra pradesh') || locationLower.includes('hyderabad')) return 'Andhra Pradesh';
-  if (locationLower.includes('telangana')) return 'Telangana';
-  if (locationLower.includes('tamil nadu') || locationLower.includes('chennai')) return 'Tamil Nadu';
-  if (locationLower.includes('kerala') || locationLower.includes('kochi')) return 'Kerala';
-  if (locationLower.includes('odisha') || locationLower.includes('bhubaneswar')) return 'Odisha';
-  if (locationLower.includes('assam') || locationLower.includes('guwahati')) return 'Assam';
-
-  // Default fallback based on region detection
-  if (locationLower.includes('delhi') || locationLower.includes('ncr')) return 'Delhi';
-
-  return 'Maharashtra'; // Default state
+// data.gov.in AGMARKNET resource id (wholesale market prices)
+const AGMARKNET_RESOURCE_ID = '9ef84268-d588-465a-a308-a864a43d0070';
+
+interface MandiPrice {
+  market: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+  modalPrice: number;
+  priceDate: string;
+  source: string;
+}
+
+const cropMatches = (commodity: string, crop: string) =>
+  commodity.toLowerCase().includes(crop.toLowerCase()) || crop.toLowerCase().includes(commodity.toLowerCase());
+
+// Fetch a state's AGMARKNET records as per-market snapshots
+const fetchAgmarknetSnapshots = async (apiKey: string, state: string): Promise<PriceSnapshot[]> => {
+  const baseUrl = `https://api.data.gov.in/resource/${AGMARKNET_RESOURCE_ID}`;
+  // Build query: state filter, optional commodity filter if user crops provided
+  const params = new URLSearchParams();
+  params.set('api-key', apiKey);
+  params.set('format', 'json');
+  params.set('limit', '500');
+  // Filters per data.gov.in patterns
+  params.set('filters[state]', state);
+  // Do not filter by commodity to maximize chances of records
+
+  const url = `${baseUrl}?${params.toString()}`;
+  console.log('Calling AGMARKNET:', url);
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    throw new Error(`AGMARKNET API error: ${resp.status}`);
+  }
+  const json = await resp.json();
+  const records: any[] = json?.records || [];
+
+  const normalizeName = (s: string) => (s || '').trim();
+  return records
+    .map((r) => ({
+      commodity: normalizeName(r.commodity),
+      state,
+      market: normalizeName(r.market) || state,
+      priceDate: parsePriceDate(r.arrival_date),
+      modalPrice: Number(r.modal_price),
+      minPrice: Number(r.min_price) || undefined,
+      maxPrice: Number(r.max_price) || undefined,
+      source: 'agmarknet',
+    }))
+    .filter((snapshot) => snapshot.commodity && !isNaN(snapshot.modalPrice));
+};
+
+// Fetch one crop's prices in a state from the custom scraper (MARKET_DATA_API_URL), which answers
+// /request?commodity=X&state=Y[&market=Z] with rows such as
+// { "City": "...", "Min Prize": "1500", "Max Prize": "1700", "Model Prize": "1600", "Date": "..." }
+const fetchScraperSnapshots = async (apiUrl: string, state: string, crop: string): Promise<PriceSnapshot[]> => {
+  const url = new URL(apiUrl.endsWith('/') ? apiUrl + 'request' : apiUrl + '/request');
+  url.searchParams.set('commodity', crop);
+  url.searchParams.set('state', state);
+  // Market is optional; without it the scraper returns every market in the state
+
+  const resp = await fetch(url.toString());
+  if (!resp.ok) {
+    throw new Error(`Custom API error: ${resp.status}`);
+  }
+  const json = await resp.json();
+  if (!Array.isArray(json)) return [];
+
+  return json
+    .map((row) => ({
+      commodity: crop,
+      state,
+      market: row["City"] || state,
+      priceDate: parsePriceDate(row["Date"]),
+      modalPrice: parseFloat(row["Model Prize"]),
+      minPrice: parseFloat(row["Min Prize"]) || undefined,
+      maxPrice: parseFloat(row["Max Prize"]) || undefined,
+      source: 'custom-api',
+    }))
+    .filter((snapshot) => !isNaN(snapshot.modalPrice));
+};
+
+// Freshly fetched prices go into the price history as they arrive, so cached responses are not
+// written again on every request
+const recordSnapshots = async (snapshots: PriceSnapshot[]): Promise<PriceSnapshot[]> => {
+  const client = getServiceClient();
+  if (client) {
+    try {
+      await saveSnapshots(client, snapshots);
+    } catch (error) {
+      console.error('Price history save failed:', error);
+    }
+  }
+  return snapshots;
+};
+
+// Latest modal price at each mandi near the farmer, per crop. Prices come from AGMARKNET when
+// configured and from stored snapshots; mandis without a recent price are left out.
+const getNearbyMandiPrices = async (
+  latitude: number,
+  longitude: number,
+  crops: string[],
+  loadAgmarknet: ((state: string) => Promise<PriceSnapshot[]>) | null
+): Promise<Record<string, MandiPrice[]>> => {
+  const nearby = findNearbyMandis(latitude, longitude);
+  const result: Record<string, MandiPrice[]> = {};
+  if (nearby.length === 0 || crops.length === 0) return result;
+
+  const states = [...new Set(nearby.map(mandi => mandi.state))];
+  const client = getServiceClient();
+  const snapshots: PriceSnapshot[] = [];
+
+  if (loadAgmarknet) {
+    const fetched = await Promise.all(states.map(state => loadAgmarknet(state).catch((error) => {
+      console.error(`AGMARKNET fetch failed for ${state}:`, error);
+      return [] as PriceSnapshot[];
+    })));
+    snapshots.push(...fetched.flat());
+  }
+
+  if (client) {
+    try {
+      snapshots.push(...await fetchRecentMarketSnapshots(client, states));
+    } catch (error) {
+      console.error('Stored mandi prices unavailable:', error);
+    }
+  }
+
+  for (const crop of crops) {
+    result[crop] = nearby.flatMap((mandi) => {
+      const matches = snapshots.filter(snapshot =>
+        snapshot.state === mandi.state &&
+        cropMatches(snapshot.commodity, crop) &&
+        matchesMandi(mandi, snapshot.market)
+      );
+      if (matches.length === 0) return [];
+
+      const latest = matches.reduce((a, b) => (b.priceDate > a.priceDate ? b : a));
+      return [{
+        market: mandi.name,
+        state: mandi.state,
+        latitude: mandi.latitude,
+        longitude: mandi.longitude,
+        distanceKm: mandi.distanceKm,
+        modalPrice: latest.modalPrice,
+        priceDate: latest.priceDate,
+        source: latest.source,
+      }];
+    });
+  }
+
+  return result;
+};
+
+// Compute trend/change and the chart series from stored history. Without history (or without a
+// service key or a resolved state) items are reported as stable with no series.
+const attachHistory = async <T extends { crop: string }>(state: string | null, items: T[]) => {
+  const client = getServiceClient();
+  let series = new Map<string, PricePoint[]>();
+
+  if (client && state) {
+    try {
+      series = await fetchStateSeries(client, state, items.map(item => item.crop));
+    } catch (error) {
+      console.error('Price history unavailable:', error);
+    }
+  }
+
+  return items.map(item => {
+    const history = series.get(item.crop) ?? [];
+    return { ...item, ...computeTrend(history), history };
+  });
 };
 
 // Robust Market Data Estimation Engine (Fallback when API fails)
@@ -45,7 +207,7 @@ const generateMarketData = (state: string, userCrops: string[] = []) => {
     'Madhya Pradesh': { 'Wheat': 0.92, 'Soybean': 0.88, 'Gram': 0.85, 'Garlic': 0.8 },
     'Maharashtra': { 'Onion': 0.7, 'Grapes': 0.8, 'Cotton': 0.9, 'Sugarcane': 0.95 },
     'Gujarat': { 'Cotton': 0.88, 'Groundnut': 0.85, 'Cumin': 0.8, 'Onion': 0.85 },
-    'UP': { 'Sugarcane': 0.9, 'Wheat': 0.93, 'Potato': 0.8, 'Mango': 0.85 },
+    'Uttar Pradesh': { 'Sugarcane': 0.9, 'Wheat': 0.93, 'Potato': 0.8, 'Mango': 0.85 },
     'West Bengal': { 'Rice': 0.88, 'Jute': 0.85, 'Potato': 0.85 },
     'Tamil Nadu': { 'Rice': 0.95, 'Coconut': 0.8, 'Banana': 0.85 },
     'Kerala': { 'Coconut': 0.75, 'Spices': 0.8, 'Rubber': 0.85, 'Rice': 1.2 },
@@ -58,21 +220,21 @@ const generateMarketData = (state: string, userCrops: string[] = []) => {
 
   // 2026 Realistic Base Prices (Per Quintal) roughly for India avg
   const baseData = [
-    { crop: 'Rice', basePrice: 2900, msp: 2300, volatility: 0.05 },
-    { crop: 'Wheat', basePrice: 2550, msp: 2275, volatility: 0.04 },
-    { crop: 'Cotton', basePrice: 7200, msp: 6620, volatility: 0.12 },
-    { crop: 'Sugarcane', basePrice: 390, msp: 340, volatility: 0.02 }, // Per Quintal
-    { crop: 'Soybean', basePrice: 4600, msp: 4600, volatility: 0.10 },
-    { crop: 'Groundnut', basePrice: 6200, msp: 6377, volatility: 0.08 },
-    { crop: 'Maize', basePrice: 2250, msp: 2090, volatility: 0.06 },
-    { crop: 'Bajra', basePrice: 2450, msp: 2500, volatility: 0.07 },
-    { crop: 'Mustard', basePrice: 5600, msp: 5650, volatility: 0.09 },
-    { crop: 'Gram', basePrice: 5900, msp: 5440, volatility: 0.08 },
-    { crop: 'Onion', basePrice: 3500, msp: 0, volatility: 0.40 }, // High volatility
-    { crop: 'Potato', basePrice: 1800, msp: 0, volatility: 0.25 },
-    { crop: 'Tomato', basePrice: 3000, msp: 0, volatility: 0.50 },
-    { crop: 'Tur', basePrice: 9500, msp: 7000, volatility: 0.10 },
-    { crop: 'Moong', basePrice: 8200, msp: 8558, volatility: 0.08 },
+    { crop: 'Rice', basePrice: 2900, msp: 2300 },
+    { crop: 'Wheat', basePrice: 2550, msp: 2275 },
+    { crop: 'Cotton', basePrice: 7200, msp: 6620 },
+    { crop: 'Sugarcane', basePrice: 390, msp: 340 }, // Per Quintal
+    { crop: 'Soybean', basePrice: 4600, msp: 4600 },
+    { crop: 'Groundnut', basePrice: 6200, msp: 6377 },
+    { crop: 'Maize', basePrice: 2250, msp: 2090 },
+    { crop: 'Bajra', basePrice: 2450, msp: 2500 },
+    { crop: 'Mustard', basePrice: 5600, msp: 5650 },
+    { crop: 'Gram', basePrice: 5900, msp: 5440 },
+    { crop: 'Onion', basePrice: 3500, msp: 0 },
+    { crop: 'Potato', basePrice: 1800, msp: 0 },
+    { crop: 'Tomato', basePrice: 3000, msp: 0 },
+    { crop: 'Tur', basePrice: 9500, msp: 7000 },
+    { crop: 'Moong', basePrice: 8200, msp: 8558 },
   ];
 
   // Seasonality Logic roughly (1 = neutral, >1 expensive (off-season/demand), <1 cheap (harvest))
@@ -129,29 +291,18 @@ const generateMarketData = (state: string, userCrops: string[] = []) => {
     // 2. Identify seasonal factor
     const seasonalFactor = getSeasonalFactor(item.crop);
 
-    // 3. Add small daily noise (Simulated realism)
-    const randomNoise = 1 + (Math.random() - 0.5) * item.volatility;
-
-    // Calculate Final Estimated Price
-    let estimatedPrice = Math.round(item.basePrice * stateFactor * seasonalFactor * randomNoise);
+    // Calculate Final Estimated Price (trend and change come from stored history, not from the estimate)
+    let estimatedPrice = Math.round(item.basePrice * stateFactor * seasonalFactor);
 
     // Ensure estimated price isn't ridiculously below MSP unless it's a crisis crop (onion/tomato)
     if (item.msp > 0 && estimatedPrice < item.msp * 0.85) {
       estimatedPrice = Math.round(item.msp * 0.95); // Support levels
     }
 
-    const change = ((estimatedPrice - item.basePrice) / item.basePrice * 100);
-
-    let trend = 'stable';
-    if (change > 2) trend = 'up';
-    else if (change < -2) trend = 'down';
-
     return {
       crop: item.crop,
       currentPrice: estimatedPrice,
       msp: Math.round(item.msp),
-      trend,
-      change: `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`,
       market: state,
     };
   });
@@ -163,53 +314,74 @@ serve(async (req) => {
   }
 
   try {
-    const { location, crops } = await req.json();
+    const { location, crops, latitude, longitude } = await req.json();
 
-    if (!location) {
+    const hasCoordinates = typeof latitude === 'number' && typeof longitude === 'number';
+    if (!location && !hasCoordinates) {
       throw new Error('Location is required');
     }
 
     console.log(`Fetching market data for location: ${location}, crops: ${crops}`);
 
-    const state = getStateFromLocation(location);
+    // Unresolved locations get national estimates and are flagged in the response, not guessed
+    const resolution = resolveLocation({ text: location, latitude, longitude });
+    const state = resolution.status === 'resolved' ? resolution.state : null;
+    const locationFields = {
+      state,
+      district: resolution.status === 'resolved' ? resolution.district : null,
+      resolution,
+    };
+    if (!state) {
+      console.warn(`Could not resolve location "${location}" (${resolution.status})`);
+    }
+    const userCrops: string[] = Array.isArray(crops) ? crops : [];
+
+    // Share AGMARKNET responses between the state summary and the nearby-mandi lookup. AGMARKNET is
+    // queried for a whole state, so that is its cache key; the scraper is cached per state and crop.
+    const client = getServiceClient();
+    const agmarkKey = Deno.env.get('AGMARKNET_API_KEY');
+    const agmarknetByState = new Map<string, Promise<PriceSnapshot[]>>();
+    const loadAgmarknet = agmarkKey
+      ? (forState: string) => {
+        if (!agmarknetByState.has(forState)) {
+          agmarknetByState.set(forState, withCache(client, 'agmarknet', `agmarknet:${forState}`,
+            () => fetchAgmarknetSnapshots(agmarkKey, forState).then(recordSnapshots)
+          ).then(entry => entry.value));
+        }
+        return agmarknetByState.get(forState)!;
+      }
+      : null;
+
+    // Per-mandi prices for the farmer's crops when their coordinates are known
+    const mandis = hasCoordinates
+      ? await getNearbyMandiPrices(latitude, longitude, userCrops.slice(0, 5), loadAgmarknet)
+      : undefined;
 
     // 1. Try Custom Scraper API (if configured)
     // Supports the Python scraper format: /request?commodity=X&state=Y&market=Z
     const customApiUrl = Deno.env.get('MARKET_DATA_API_URL');
-    if (customApiUrl) {
+    if (customApiUrl && state) {
       try {
         console.log('Fetching from custom API:', customApiUrl);
         // Map common crops/states to Agmarknet names if needed
         // For now pass directly
         const promises = userCrops.slice(0, 5).map(async (crop) => {
           try {
-            // Construct URL: baseUrl/request?commodity=Crop&state=State
-            const url = new URL(customApiUrl.endsWith('/') ? customApiUrl + 'request' : customApiUrl + '/request');
-            url.searchParams.set('commodity', crop);
-            url.searchParams.set('state', state);
-            // Market is optional, maybe don't set to get state average?
-            // url.searchParams.set('market', state); 
-
-            // Check if user is using the python scraper pattern
-            const resp = await fetch(url.toString());
-            if (resp.ok) {
-              const json = await resp.json();
-              // Expecting array: [{ "Model Prize": "1600", "Date": "..." }]
-              if (Array.isArray(json) && json.length > 0) {
-                const latest = json[0];
-                const price = parseFloat(latest["Model Prize"]);
-                if (!isNaN(price)) {
-                  return {
-                    crop,
-                    currentPrice: price,
-                    msp: 0, // Scraper might not have MSP
-                    trend: 'stable', // Could calulcate from history
-                    change: '0%',
-                    market: state,
-                    source: 'custom-api'
-                  };
-                }
-              }
+            const { value: snapshots } = await withCache(
+              client,
+              'market-scraper',
+              `market-scraper:${state}:${crop.toLowerCase()}`,
+              () => fetchScraperSnapshots(customApiUrl, state, crop).then(recordSnapshots)
+            );
+
+            if (snapshots.length > 0) {
+              return {
+                crop,
+                currentPrice: latestStateMedian(snapshots),
+                msp: 0, // Scraper might not have MSP
+                market: state,
+                source: 'custom-api'
+              };
             }
           } catch (e) {
             console.error(`Custom API failed for ${crop}:`, e);
@@ -218,12 +390,15 @@ serve(async (req) => {
         });
 
         const results = await Promise.all(promises);
-        const validResults = results.filter(r => r !== null);
+        const validResults = results.filter((r): r is NonNullable<typeof r> => r !== null);
 
         if (validResults.length > 0) {
+          const marketData = await attachHistory(state, validResults);
+
           return new Response(JSON.stringify({
-            marketData: validResults,
-            state,
+            marketData,
+            mandis,
+            ...locationFields,
             status: 'success',
             source: 'custom-api'
           }), {
@@ -236,59 +411,24 @@ serve(async (req) => {
     }
 
     // 2. Try AGMARKNET (data.gov.in) first if key is present
-    const agmarkKey = Deno.env.get('AGMARKNET_API_KEY');
-    if (agmarkKey) {
+    if (loadAgmarknet && state) {
       try {
-        // data.gov.in AGMARKNET resource id (wholesale market prices)
-        const RESOURCE_ID = '9ef84268-d588-465a-a308-a864a43d0070';
-        const baseUrl = `https://api.data.gov.in/resource/${RESOURCE_ID}`;
-        // Build query: state filter, optional commodity filter if user crops provided
-        const params = new URLSearchParams();
-        params.set('api-key', agmarkKey);
-        params.set('format', 'json');
-        params.set('limit', '500');
-        // Filters per data.gov.in patterns
-        params.set('filters[state]', state);
-        // Optionally narrow by commodity
-        // Do not filter by commodity to maximize chances of records
-
-        const url = `${baseUrl}?${params.toString()}`;
-        console.log('Calling AGMARKNET:', url);
-        const resp = await fetch(url);
-        if (!resp.ok) {
-          throw new Error(`AGMARKNET API error: ${resp.status}`);
-        }
-        const json = await resp.json();
-        const records: any[] = json?.records || [];
+        const snapshots = await loadAgmarknet(state);
 
         // If no records, fallback
-        if (records.length > 0) {
-          // Normalize and pick a small set
-          const normalizeName = (s: string) => (s || '').trim();
-          const userCrops = Array.isArray(crops) ? crops : [];
-
-          // Group by commodity and compute a representative price (median/modal_price)
-          const byCommodity = new Map<string, number[]>();
-          for (const r of records) {
-            const commodity = normalizeName(r.commodity);
-            const modal = Number(r.modal_price);
-            if (!commodity || isNaN(modal)) continue;
-            if (!byCommodity.has(commodity)) byCommodity.set(commodity, []);
-            byCommodity.get(commodity)!.push(modal);
+        if (snapshots.length > 0) {
+          // Group by commodity; the price is the state median the history and trend are built from
+          const byCommodity = new Map<string, PriceSnapshot[]>();
+          for (const snapshot of snapshots) {
+            if (!byCommodity.has(snapshot.commodity)) byCommodity.set(snapshot.commodity, []);
+            byCommodity.get(snapshot.commodity)!.push(snapshot);
           }
 
-          const computeMedian = (arr: number[]) => {
-            const a = [...arr].sort((x, y) => x - y);
-            const mid = Math.floor(a.length / 2);
-            return a.length % 2 ? a[mid] : Math.round((a[mid - 1] + a[mid]) / 2);
-          };
-
           // Prioritize user crops
           const prioritized: any[] = [];
           const others: any[] = [];
-          for (const [commodity, prices] of byCommodity.entries()) {
-            const median = computeMedian(prices);
-            const item = { commodity, price: median };
+          for (const [commodity, commoditySnapshots] of byCommodity.entries()) {
+            const item = { commodity, price: latestStateMedian(commoditySnapshots) };
             if (userCrops.some(c => c.toLowerCase().includes(commodity.toLowerCase()) || commodity.toLowerCase().includes(c.toLowerCase()))) {
               prioritized.push(item);
             } else {
@@ -297,24 +437,16 @@ serve(async (req) => {
           }
 
           const selected = [...prioritized, ...others].slice(0, 6);
-          const basePriceMap = new Map<string, number>();
           // Build response in your UI shape
-          const marketData = selected.map((it) => {
-            const base = basePriceMap.get(it.commodity) ?? it.price;
-            const change = base ? ((it.price - base) / base) * 100 : 0;
-            const trend = change > 1 ? 'up' : change < -1 ? 'down' : 'stable';
-            return {
-              crop: it.commodity,
-              currentPrice: it.price,
-              msp: it.price, // AGMARKNET doesn’t provide MSP; use price as placeholder
-              trend,
-              change: `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`,
-              market: state,
-            };
-          });
+          const marketData = await attachHistory(state, selected.map((it) => ({
+            crop: it.commodity,
+            currentPrice: it.price,
+            msp: it.price, // AGMARKNET doesn’t provide MSP; use price as placeholder
+            market: state,
+          })));
 
           console.log(`AGMARKNET data prepared for state: ${state}, items: ${marketData.length}`);
-          return new Response(JSON.stringify({ marketData, state, status: 'success', source: 'agmarknet' }), {
+          return new Response(JSON.stringify({ marketData, mandis, ...locationFields, status: 'success', source: 'agmarknet' }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
@@ -323,13 +455,17 @@ serve(async (req) => {
       }
     }
 
-    // Fallback to generated sample data
-    const marketData = generateMarketData(state, crops);
-    console.log(`Generated fallback market data for state: ${state}`);
+    // Fallback to estimated prices; where earlier snapshots exist, the latest real price wins
+    const estimates = await attachHistory(state, generateMarketData(state ?? 'India', userCrops));
+    const marketData = estimates.map(item => item.history.length > 0
+      ? { ...item, currentPrice: item.history[item.history.length - 1].price, estimated: false }
+      : { ...item, estimated: true });
+    console.log(`Generated fallback market data for state: ${state ?? 'unknown'}`);
 
     return new Response(JSON.stringify({
       marketData,
-      state,
+      mandis,
+      ...locationFields,
       status: 'success',
       source: agmarkKey ? 'fallback' : 'mock'
     }), {
@@ -1,5 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeWithFallback } from "../_shared/llm.ts";
+import { fetchStateSeries } from "../_shared/priceHistory.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { forecastPrices, type StatisticalForecast } from "../_shared/priceForecast.ts";
+import { formatResolvedLocation, resolveLocation } from "../_shared/location.ts";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -45,7 +50,10 @@ const getSeasonalFactor = (crop: string): { trend: string; factor: number; reaso
     return { trend: 'stable', factor: 0.02, reason: 'Normal market conditions' };
 };
 
-// Calculate simple forecast based on current trend and seasonality
+// Days of stored history used to fit the statistical model
+const FORECAST_HISTORY_DAYS = 365;
+
+// Calculate simple forecast based on current trend and seasonality (used until enough history exists)
 const calculateForecast = (currentPrice: number, currentTrend: string, crop: string) => {
     const seasonal = getSeasonalFactor(crop);
 
@@ -108,6 +116,45 @@ const calculateForecast = (currentPrice: number, currentTrend: string, crop: str
     };
 };
 
+// Fit the statistical model on the crop's stored state-level price history, if there is enough of it
+const loadStatisticalForecast = async (crop: string, state: string | null): Promise<StatisticalForecast | null> => {
+    const client = getServiceClient();
+    if (!client || !state) return null;
+
+    try {
+        const series = await fetchStateSeries(client, state, [crop], FORECAST_HISTORY_DAYS);
+        return forecastPrices(series.get(crop) ?? []);
+    } catch (error) {
+        console.error('Price history unavailable for forecasting:', error);
+        return null;
+    }
+};
+
+// Express the model output in the same shape as the heuristic forecast, using the 7-day 80% interval
+const summarizeStatisticalForecast = (result: StatisticalForecast, crop: string) => {
+    const week = result.horizons.find(h => h.days === 7) ?? result.horizons[0];
+    const pct = (value: number) => Math.round(((value - result.lastPrice) / result.lastPrice) * 1000) / 10;
+
+    const expectedChangeMin = pct(week.lower80);
+    const expectedChangeMax = pct(week.upper80);
+    const pointChange = pct(week.point);
+    const direction = pointChange > 2 ? 'up' : pointChange < -2 ? 'down' : 'stable';
+
+    return {
+        direction,
+        expectedChangeMin,
+        expectedChangeMax,
+        expectedChange: `${expectedChangeMin > 0 ? '+' : ''}${expectedChangeMin}% to ${expectedChangeMax > 0 ? '+' : ''}${expectedChangeMax}%`,
+        expectedPriceRange: `₹${week.lower80} - ₹${week.upper80}`,
+        confidence: result.confidence,
+        timeframe: `${week.days} days`,
+        seasonalReason: getSeasonalFactor(crop).reason,
+        method: result.model,
+        horizons: result.horizons,
+        accuracy: result.accuracy,
+    };
+};
+
 // Determine selling recommendation
 const getRecommendation = (direction: string, confidence: string) => {
     if (direction === 'up' && confidence === 'high') {
@@ -128,7 +175,7 @@ serve(async (req) => {
     }
 
     try {
-        const { crop, location, currentPrice, currentTrend, language = 'en', farmerData } = await req.json();
+        const { crop, location, latitude, longitude, currentPrice, currentTrend, language = 'en', farmerData } = await req.json();
 
         if (!crop) {
             throw new Error('Crop is required');
@@ -136,30 +183,32 @@ serve(async (req) => {
 
         console.log(`Generating forecast for ${crop} in ${location}`);
 
-        const mistralApiKey = Deno.env.get('MISTRAL_API_KEY');
+        // Price history is kept per state; an unresolved location skips the statistical model
+        const resolution = resolveLocation({ text: location, latitude, longitude });
+        const state = resolution.status === 'resolved' ? resolution.state : null;
 
         // Use provided price/trend or defaults
-        const price = currentPrice || 2500;
         const trend = currentTrend || 'stable';
 
-        // Calculate forecast
-        const forecast = calculateForecast(price, trend, crop);
+        // Statistical model when enough price history is stored, otherwise the seasonal heuristic
+        const statistical = await loadStatisticalForecast(crop, state);
+        const price = statistical?.lastPrice || currentPrice || 2500;
+        const forecast = statistical
+            ? summarizeStatisticalForecast(statistical, crop)
+            : { ...calculateForecast(price, trend, crop), method: 'heuristic' };
         const recommendation = getRecommendation(forecast.direction, forecast.confidence);
 
-        // Generate AI-powered advice using Mistral
-        let aiAdvice = '';
-        if (mistralApiKey) {
-            try {
-                const langInstruction = language === 'hi'
-                    ? 'Respond ONLY in Hindi (हिंदी में)'
-                    : language === 'ta'
-                        ? 'Respond ONLY in Tamil (தமிழில்)'
-                        : 'Respond in simple English';
+        // Generate AI-powered advice (Mistral first, Gemini as fallback)
+        const langInstruction = language === 'hi'
+            ? 'Respond ONLY in Hindi (हिंदी में)'
+            : language === 'ta'
+                ? 'Respond ONLY in Tamil (தமிழில்)'
+                : 'Respond in simple English';
 
-                const prompt = `You are Krishi Sahayak AI, a friendly market advisor for Indian farmers.
+        const prompt = `You are Krishi Sahayak AI, a friendly market advisor for Indian farmers.
 
 FARMER: ${farmerData?.name || 'Farmer'}
-LOCATION: ${location || 'India'}
+LOCATION: ${formatResolvedLocation(resolution) || location || 'India'}
 CROP: ${crop}
 CURRENT PRICE: ₹${price}/quintal
 PRICE TREND: ${trend}
@@ -177,27 +226,21 @@ Write a SHORT, friendly 2-3 sentence advice for the farmer about whether to sell
 
 Keep it under 50 words, conversational and encouraging.`;
 
-                const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${mistralApiKey}`,
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        model: 'mistral-small',
-                        messages: [{ role: 'user', content: prompt }],
-                        max_tokens: 100,
-                        temperature: 0.5,
-                    }),
-                });
-
-                if (response.ok) {
-                    const data = await response.json();
-                    aiAdvice = data.choices?.[0]?.message?.content || '';
-                }
-            } catch (err) {
-                console.error('AI advice generation failed:', err);
-            }
+        let aiAdvice = '';
+        const aiResult = await completeWithFallback({
+            messages: [{ role: 'user', content: prompt }],
+            maxTokens: 100,
+            temperature: 0.5,
+        }, {
+            providers: ['mistral', 'gemini'],
+            timeoutMs: 10000,
+            retries: 0,
+        });
+
+        if (aiResult.ok) {
+            aiAdvice = aiResult.content || '';
+        } else {
+            console.error('AI advice generation failed:', aiResult.error);
         }
 
         // Fallback advice if AI fails
@@ -228,6 +271,7 @@ Keep it under 50 words, conversational and encouraging.`;
             crop,
             currentPrice: price,
             location: location || 'India',
+            state,
             forecast,
             recommendation: {
                 action: recommendation.action,
@@ -0,0 +1,202 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import webpush from "npm:web-push@3.6.7";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { buildFarmAlerts } from "../_shared/notificationRules.ts";
+import {
+  createForecastFetcher,
+  isQuietTime,
+  loadFarmProfile,
+  meetsFrequency,
+  storeAlerts,
+  type DeliveryPreferences,
+  type NotificationFrequency,
+} from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Notifications older than this are not pushed any more; they are still in the app
+const PUSH_WINDOW_HOURS = 24;
+const VIBRATE_PATTERN = [200, 100, 200];
+
+interface PushPreferences extends DeliveryPreferences {
+  pushEnabled: boolean;
+  sound: boolean;
+  vibration: boolean;
+}
+
+const DEFAULT_PREFERENCES: PushPreferences = {
+  pushEnabled: true,
+  sound: true,
+  vibration: true,
+  frequency: 'medium',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+// Run on a schedule with the service role key (e.g. every 30 minutes from pg_cron). For every
+// farmer with a push subscription it runs the notification rules, then pushes the notifications not
+// yet pushed that pass the farmer's frequency setting. During quiet hours nothing is sent; the
+// notifications go out on the first run after the quiet hours end.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const client = getServiceClient();
+    if (!client) {
+      throw new Error('Supabase service role not configured');
+    }
+
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return new Response(JSON.stringify({ error: 'Service role required', status: 'error' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+    const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      throw new Error('VAPID keys not configured');
+    }
+    webpush.setVapidDetails(
+      Deno.env.get('VAPID_SUBJECT') || 'mailto:support@krishisahayak.in',
+      vapidPublicKey,
+      vapidPrivateKey
+    );
+
+    const { data: subscriptions, error: subscriptionsError } = await client
+      .from('push_subscriptions')
+      .select('id, user_id, endpoint, p256dh, auth');
+
+    if (subscriptionsError) throw subscriptionsError;
+
+    const subscriptionsByUser = new Map<string, typeof subscriptions>();
+    for (const subscription of subscriptions || []) {
+      if (!subscriptionsByUser.has(subscription.user_id)) subscriptionsByUser.set(subscription.user_id, []);
+      subscriptionsByUser.get(subscription.user_id)!.push(subscription);
+    }
+
+    const userIds = [...subscriptionsByUser.keys()];
+    if (userIds.length === 0) {
+      return new Response(JSON.stringify({ sent: 0, expired: 0, status: 'success' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: preferenceRows, error: preferencesError } = await client
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', userIds);
+
+    if (preferencesError) throw preferencesError;
+
+    const preferencesByUser = new Map<string, PushPreferences>((preferenceRows || []).map(row => [row.user_id, {
+      pushEnabled: row.push_enabled,
+      sound: row.sound,
+      vibration: row.vibration,
+      frequency: row.frequency as NotificationFrequency,
+      quietHoursStart: row.quiet_hours_start,
+      quietHoursEnd: row.quiet_hours_end,
+    }]));
+
+    const fetchForecast = createForecastFetcher(new URL(req.url).origin, req.headers.get('apikey') || '');
+    const since = new Date(Date.now() - PUSH_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    let sent = 0;
+    let expired = 0;
+
+    for (const [userId, userSubscriptions] of subscriptionsByUser.entries()) {
+      const preferences = preferencesByUser.get(userId) ?? DEFAULT_PREFERENCES;
+      if (!preferences.pushEnabled || isQuietTime(preferences)) continue;
+
+      try {
+        const profile = await loadFarmProfile(client, userId);
+        if (profile) {
+          await storeAlerts(client, userId, await buildFarmAlerts(client, profile, fetchForecast));
+        }
+
+        const { data: pending, error: pendingError } = await client
+          .from('notifications')
+          .select('id, title, message, priority, action_url, dedupe_key')
+          .eq('user_id', userId)
+          .is('pushed_at', null)
+          .is('dismissed_at', null)
+          .eq('is_read', false)
+          .gte('created_at', since)
+          .order('created_at', { ascending: true });
+
+        if (pendingError) throw pendingError;
+
+        const due = (pending || []).filter(notification => meetsFrequency(notification.priority, preferences.frequency));
+        if (due.length === 0) continue;
+
+        let active = userSubscriptions;
+        // Notifications no subscription accepted stay unpushed and are retried while still recent
+        const delivered: string[] = [];
+        for (const notification of due) {
+          const payload = JSON.stringify({
+            id: notification.id,
+            title: notification.title,
+            body: notification.message,
+            url: notification.action_url || '/',
+            tag: notification.dedupe_key || notification.id,
+            silent: !preferences.sound,
+            vibrate: preferences.vibration ? VIBRATE_PATTERN : [],
+          });
+
+          for (const subscription of active) {
+            try {
+              await webpush.sendNotification({
+                endpoint: subscription.endpoint,
+                keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+              }, payload);
+              sent++;
+              if (!delivered.includes(notification.id)) delivered.push(notification.id);
+            } catch (error) {
+              // The browser dropped the subscription (unsubscribed, uninstalled or expired)
+              if (error?.statusCode === 404 || error?.statusCode === 410) {
+                await client.from('push_subscriptions').delete().eq('id', subscription.id);
+                active = active.filter(other => other.id !== subscription.id);
+                expired++;
+              } else {
+                console.error(`Push to ${subscription.endpoint} failed:`, error);
+              }
+            }
+          }
+        }
+
+        if (delivered.length > 0) {
+          const { error: markError } = await client
+            .from('notifications')
+            .update({ pushed_at: new Date().toISOString() })
+            .in('id', delivered);
+
+          if (markError) throw markError;
+        }
+      } catch (error) {
+        console.error(`Push notifications for ${userId} failed:`, error);
+      }
+    }
+
+    console.log(`Sent ${sent} push messages to ${subscriptionsByUser.size} farmers, removed ${expired} expired subscriptions`);
+
+    return new Response(JSON.stringify({ sent, expired, status: 'success' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in send-push-notifications function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
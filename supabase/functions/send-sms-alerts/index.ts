@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { buildFarmAlerts } from "../_shared/notificationRules.ts";
+import { toIndiaDateKey } from "../_shared/dates.ts";
+import {
+  createForecastFetcher,
+  isQuietTime,
+  loadFarmProfile,
+  meetsFrequency,
+  storeAlerts,
+  type NotificationFrequency,
+} from "../_shared/notifications.ts";
+import { renderAlertMessage, toAlertLanguage, type AlertChannel } from "../_shared/alertMessages.ts";
+import { getMessageProvider, normalizeIndianPhone } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Notifications older than this are not sent any more; they are still in the app
+const SMS_WINDOW_HOURS = 24;
+// At most this many messages per farmer per run; the rest go out on later runs
+const MAX_SMS_PER_RUN = 3;
+
+// Run on a schedule with the service role key, like send-push-notifications. For every farmer who
+// opted in to SMS it runs the notification rules and texts the notifications not yet sent that pass
+// the farmer's frequency setting, in the farmer's language. High-priority alerts are also spoken in
+// a voice call for farmers who chose calls. Nothing is sent during quiet hours, or to a number the
+// farmer has not verified (see verify-phone).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const client = getServiceClient();
+    if (!client) {
+      throw new Error('Supabase service role not configured');
+    }
+
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return new Response(JSON.stringify({ error: 'Service role required', status: 'error' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const provider = getMessageProvider();
+
+    const { data: preferenceRows, error: preferencesError } = await client
+      .from('notification_preferences')
+      .select('*')
+      .eq('sms_enabled', true);
+
+    if (preferencesError) throw preferencesError;
+
+    const fetchForecast = createForecastFetcher(new URL(req.url).origin, req.headers.get('apikey') || '');
+    const since = new Date(Date.now() - SMS_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const today = toIndiaDateKey(new Date());
+    let sent = 0;
+    let failed = 0;
+
+    for (const preferences of preferenceRows || []) {
+      const userId = preferences.user_id;
+      const frequency = preferences.frequency as NotificationFrequency;
+      if (isQuietTime({
+        frequency,
+        quietHoursStart: preferences.quiet_hours_start,
+        quietHoursEnd: preferences.quiet_hours_end,
+      })) continue;
+
+      try {
+        const { data: farmer, error: farmerError } = await client
+          .from('farmer_profiles')
+          .select('phone')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (farmerError) throw farmerError;
+        const phone = normalizeIndianPhone(farmer?.phone);
+        if (!phone) continue;
+
+        // The number may have changed on the profile since it was verified
+        const { data: verification, error: verificationError } = await client
+          .from('phone_verifications')
+          .select('phone, verified_at')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (verificationError) throw verificationError;
+        if (verification?.phone !== phone || !verification.verified_at) {
+          console.log(`Skipping SMS alerts for ${userId}: phone not verified`);
+          continue;
+        }
+
+        const profile = await loadFarmProfile(client, userId);
+        if (profile) {
+          await storeAlerts(client, userId, await buildFarmAlerts(client, profile, fetchForecast));
+        }
+
+        const { data: pending, error: pendingError } = await client
+          .from('notifications')
+          .select('id, rule, title, message, priority, data')
+          .eq('user_id', userId)
+          .is('sms_sent_at', null)
+          .is('dismissed_at', null)
+          .eq('is_read', false)
+          .gte('created_at', since)
+          .order('created_at', { ascending: true });
+
+        if (pendingError) throw pendingError;
+
+        const due = (pending || [])
+          .filter(notification => meetsFrequency(notification.priority, frequency))
+          .slice(0, MAX_SMS_PER_RUN);
+        const language = toAlertLanguage(preferences.language);
+        const delivered: string[] = [];
+
+        for (const notification of due) {
+          const alert = { ...notification, data: (notification.data ?? {}) as Record<string, unknown> };
+          const channels: AlertChannel[] = preferences.voice_calls && notification.priority === 'high' && provider.placeCall
+            ? ['sms', 'voice']
+            : ['sms'];
+
+          for (const channel of channels) {
+            const body = renderAlertMessage(alert, language, channel, today);
+            let providerMessageId: string | null = null;
+            let sendError: string | null = null;
+            try {
+              const result = channel === 'sms'
+                ? await provider.sendSms(phone, body)
+                : await provider.placeCall!(phone, body, language);
+              providerMessageId = result.providerMessageId;
+              sent++;
+              if (!delivered.includes(notification.id)) delivered.push(notification.id);
+            } catch (error) {
+              sendError = error instanceof Error ? error.message : String(error);
+              failed++;
+              console.error(`${channel} to ${userId} failed:`, error);
+            }
+
+            const { error: logError } = await client.from('outbound_messages').insert({
+              user_id: userId,
+              notification_id: notification.id,
+              channel,
+              phone,
+              body,
+              provider: provider.name,
+              provider_message_id: providerMessageId,
+              status: sendError ? 'failed' : 'sent',
+              error: sendError,
+            });
+            if (logError) console.error('Outbound message log failed:', logError);
+          }
+        }
+
+        // A notification that reached the farmer by SMS or by call is done, so a failed SMS does not
+        // bring the call back on every run; ones that failed on every channel are retried while recent
+        if (delivered.length > 0) {
+          const { error: markError } = await client
+            .from('notifications')
+            .update({ sms_sent_at: new Date().toISOString() })
+            .in('id', delivered);
+
+          if (markError) throw markError;
+        }
+      } catch (error) {
+        console.error(`SMS alerts for ${userId} failed:`, error);
+      }
+    }
+
+    console.log(`SMS alerts via ${provider.name}: ${sent} sent, ${failed} failed`);
+
+    return new Response(JSON.stringify({ sent, failed, provider: provider.name, status: 'success' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in send-sms-alerts function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { renderOptChange, toAlertLanguage } from "../_shared/alertMessages.ts";
+import { getMessageProvider, normalizeIndianPhone } from "../_shared/messaging.ts";
+
+// Keywords carriers and DLT templates commonly use for opting out and back in
+const OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE', 'END', 'CANCEL', 'QUIT', 'बंद', 'நிறுத்து'];
+// "YES" is left out: it is too common a reply to mean "send me alerts again"
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE', 'शुरू', 'தொடங்கு'];
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Replies in TwiML, which Twilio sends back to the farmer; other providers ignore the body
+const reply = (message?: string) =>
+  new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${escapeXml(message)}</Message>` : ''}</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  );
+
+// Webhook for SMS replies from farmers. The provider calls it with form fields (From, Body), signed
+// as the provider does it (X-Twilio-Signature for Twilio) over SMS_WEBHOOK_URL, the public URL
+// configured at the provider, or the request URL when that is unset. The stub provider also
+// accepts JSON ({ from, body }) for local runs. STOP turns SMS alerts off for every
+// farmer with that phone number. START turns them back on only for farmers who verified the
+// number, so texting from a phone cannot opt in someone who merely typed it into their profile.
+// Anything else is ignored.
+serve(async (req) => {
+  try {
+    const client = getServiceClient();
+    if (!client) {
+      throw new Error('Supabase service role not configured');
+    }
+
+    const provider = getMessageProvider();
+    const params: Record<string, string> = {};
+    if (provider.name === 'stub' && (req.headers.get('content-type') || '').includes('application/json')) {
+      const json = await req.json();
+      params.From = String(json.from ?? '');
+      params.Body = String(json.body ?? '');
+    } else {
+      const form = await req.formData();
+      form.forEach((value, name) => {
+        params[name] = String(value);
+      });
+    }
+
+    const webhookUrl = Deno.env.get('SMS_WEBHOOK_URL') || req.url;
+    if (!(await provider.verifyWebhook(webhookUrl, params, req.headers))) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    const from = params.From ?? '';
+    const body = params.Body ?? '';
+
+    const keyword = body.trim().split(/\s+/)[0]?.toUpperCase() ?? '';
+    const optOut = OPT_OUT_KEYWORDS.includes(keyword);
+    const optIn = OPT_IN_KEYWORDS.includes(keyword);
+    const phone = normalizeIndianPhone(from);
+    if ((!optOut && !optIn) || !phone) return reply();
+
+    // Profiles keep the number as typed, so match on the last ten digits and then compare exactly
+    const { data: farmers, error: farmersError } = await client
+      .from('farmer_profiles')
+      .select('user_id, phone')
+      .ilike('phone', `%${phone.slice(-10)}`);
+
+    if (farmersError) throw farmersError;
+
+    let userIds = (farmers || [])
+      .filter(farmer => normalizeIndianPhone(farmer.phone) === phone)
+      .map(farmer => farmer.user_id);
+
+    if (optIn && userIds.length > 0) {
+      const { data: verified, error: verifiedError } = await client
+        .from('phone_verifications')
+        .select('user_id')
+        .in('user_id', userIds)
+        .eq('phone', phone)
+        .not('verified_at', 'is', null);
+
+      if (verifiedError) throw verifiedError;
+      userIds = (verified || []).map(row => row.user_id);
+    }
+    if (userIds.length === 0) return reply();
+
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await client
+      .from('notification_preferences')
+      .upsert(userIds.map(userId => ({
+        user_id: userId,
+        sms_enabled: optIn,
+        ...(optIn ? { sms_opted_in_at: now } : { sms_opted_out_at: now }),
+      })), { onConflict: 'user_id' })
+      .select('language');
+
+    if (updateError) throw updateError;
+
+    console.log(`SMS ${optIn ? 'opt-in' : 'opt-out'} from ${phone} for ${userIds.length} profiles`);
+    return reply(renderOptChange(optIn, toAlertLanguage(updated?.[0]?.language)));
+
+  } catch (error) {
+    console.error('Error in sms-inbound function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
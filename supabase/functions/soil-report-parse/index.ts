@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { completeWithFallback } from "../_shared/llm.ts";
+import { parseSoilReport } from "../_shared/soilReport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SUPPORTED_TYPES = ["image/png", "image/jpeg", "image/webp", "application/pdf"];
+
+// Transcribe only; the numbers are read by the shared parser so manual entry, text uploads and
+// scanned cards all go through the same unit handling and plausibility checks
+const TRANSCRIBE_PROMPT = `This is a soil test report or Indian Soil Health Card.
+Transcribe every soil parameter row exactly as printed, one per line, in the form:
+<parameter name> <value> <unit>
+Include pH, EC, organic carbon, available N, P (or P2O5), K (or K2O), sulphur, zinc, iron, copper,
+manganese and boron when present. Keep the units as printed (kg/ha, ppm, %, dS/m).
+Also include lines "Lab: <laboratory name>", "Card number: <number>" and "Sampling date: <YYYY-MM-DD>" if shown.
+Do not add interpretation or recommendations. If a value is unreadable, leave that row out.`;
+
+const readLabelled = (text: string, label: RegExp): string | null => {
+  const match = text.match(label);
+  return match ? match[1].trim() : null;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { file, mimeType } = await req.json();
+
+    if (!file || !SUPPORTED_TYPES.includes(mimeType)) {
+      return new Response(JSON.stringify({ error: "A PNG, JPEG, WebP or PDF file is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // PDFs are only understood by Gemini; images can fall through to the other vision models
+    const result = await completeWithFallback({
+      messages: [{ role: "user", content: TRANSCRIBE_PROMPT }],
+      image: { data: file, mimeType },
+      maxTokens: 600,
+      temperature: 0,
+    }, {
+      providers: mimeType === "application/pdf" ? ["gemini"] : ["gemini", "together", "mistral"],
+      timeoutMs: 30000,
+      retries: 1,
+    });
+
+    if (!result.ok || !result.content) {
+      console.error("Soil report transcription failed:", result.error);
+      return new Response(JSON.stringify({
+        error: "Could not read the soil report",
+        details: result.error,
+        status: "error",
+      }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const text = result.content;
+    const { values, found } = parseSoilReport(text);
+    const sampleDate = readLabelled(text, /sampling date:\s*(\d{4}-\d{2}-\d{2})/i);
+
+    return new Response(JSON.stringify({
+      values,
+      found,
+      text,
+      labName: readLabelled(text, /lab:\s*(.+)/i),
+      cardNumber: readLabelled(text, /card number:\s*(.+)/i),
+      sampleDate,
+      provider: result.provider,
+      status: "success",
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in soil-report-parse function:", error);
+
+    return new Response(JSON.stringify({
+      error: "Failed to parse soil report",
+      details: error.message,
+      status: "error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { renderVerificationCode, toAlertLanguage } from "../_shared/alertMessages.ts";
+import { getMessageProvider, normalizeIndianPhone } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CODE_TTL_MINUTES = 10;
+// A new code can be asked for once a minute, and each code can be tried this many times
+const RESEND_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+// Daily caps on texted codes, per number across all accounts and per farmer across all numbers,
+// so nobody can flood a phone or run up SMS charges by switching accounts or profile numbers
+const MAX_CODES_PER_PHONE_PER_DAY = 5;
+const MAX_CODES_PER_USER_PER_DAY = 10;
+
+// Codes are keyed with a server-side secret: with only a million possible codes a plain hash could
+// be reversed by anyone who got hold of it. PHONE_VERIFICATION_SECRET falls back to the service
+// role key, which edge functions always have.
+const hashCode = async (userId: string, code: string): Promise<string> => {
+  const secret = Deno.env.get('PHONE_VERIFICATION_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!secret) {
+    throw new Error('Phone verification secret not configured');
+  }
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${userId}:${code}`));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Confirms that the signed-in farmer owns the phone on their profile before SMS alerts can be
+// turned on. `{ action: 'status' }` says whether that number is verified, `{ action: 'send' }`
+// texts a six-digit code to it and `{ action: 'confirm', code }` checks the code.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const client = getServiceClient();
+    if (!client) {
+      throw new Error('Supabase service role not configured');
+    }
+
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    const { data: { user }, error: authError } = await client.auth.getUser(token);
+    if (authError || !user) {
+      return respond({ error: 'Not signed in', status: 'error' }, 401);
+    }
+
+    const { action, code, language } = await req.json();
+
+    const { data: farmer, error: farmerError } = await client
+      .from('farmer_profiles')
+      .select('phone')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (farmerError) throw farmerError;
+    const phone = normalizeIndianPhone(farmer?.phone);
+    if (!phone) {
+      return respond({ error: 'No valid mobile number on the profile', reason: 'invalid-phone', status: 'error' }, 400);
+    }
+
+    const { data: verification, error: verificationError } = await client
+      .from('phone_verifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (verificationError) throw verificationError;
+    const verified = verification?.phone === phone && verification.verified_at !== null;
+
+    if (action === 'status') {
+      return respond({ verified, status: 'success' });
+    }
+
+    if (action === 'send') {
+      if (verified) return respond({ verified, status: 'success' });
+
+      const sentAt = verification?.phone === phone && verification.code_sent_at ? Date.parse(verification.code_sent_at) : 0;
+      if (Date.now() - sentAt < RESEND_SECONDS * 1000) {
+        return respond({ error: 'A code was sent a moment ago', reason: 'too-soon', status: 'error' }, 429);
+      }
+
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const [phoneSends, userSends] = await Promise.all([
+        client.from('phone_verification_sends').select('id', { count: 'exact', head: true })
+          .eq('phone', phone).gte('sent_at', since),
+        client.from('phone_verification_sends').select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id).gte('sent_at', since),
+      ]);
+      if (phoneSends.error) throw phoneSends.error;
+      if (userSends.error) throw userSends.error;
+      if ((phoneSends.count ?? 0) >= MAX_CODES_PER_PHONE_PER_DAY || (userSends.count ?? 0) >= MAX_CODES_PER_USER_PER_DAY) {
+        return respond({ error: 'Too many codes today', reason: 'daily-limit', status: 'error' }, 429);
+      }
+
+      const newCode = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+      const now = Date.now();
+      // A new number starts unverified, so changing the profile phone needs a new confirmation
+      const { error: saveError } = await client
+        .from('phone_verifications')
+        .upsert({
+          user_id: user.id,
+          phone,
+          code_hash: await hashCode(user.id, newCode),
+          code_sent_at: new Date(now).toISOString(),
+          code_expires_at: new Date(now + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+          attempts: 0,
+          verified_at: null,
+        }, { onConflict: 'user_id' });
+
+      if (saveError) throw saveError;
+
+      const { error: logError } = await client.from('phone_verification_sends').insert({ user_id: user.id, phone });
+      if (logError) throw logError;
+
+      const provider = getMessageProvider();
+      const body = renderVerificationCode(newCode, CODE_TTL_MINUTES, toAlertLanguage(language));
+      await provider.sendSms(phone, body);
+
+      console.log(`Verification code sent to ${user.id} via ${provider.name}`);
+      return respond({ sent: true, verified: false, status: 'success' });
+    }
+
+    if (action === 'confirm') {
+      if (verified) return respond({ verified, status: 'success' });
+
+      const pending = verification?.phone === phone && verification.code_hash && verification.code_expires_at
+        && Date.parse(verification.code_expires_at) > Date.now()
+        && verification.attempts < MAX_ATTEMPTS;
+      if (!pending) {
+        return respond({ error: 'No code pending; ask for a new one', reason: 'expired', status: 'error' }, 400);
+      }
+
+      const matches = await hashCode(user.id, String(code ?? '').trim()) === verification.code_hash;
+      const { error: updateError } = await client
+        .from('phone_verifications')
+        .update(matches
+          ? { code_hash: null, code_expires_at: null, verified_at: new Date().toISOString() }
+          : { attempts: verification.attempts + 1 })
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+      if (!matches) {
+        return respond({ error: 'Wrong code', reason: 'wrong-code', status: 'error' }, 400);
+      }
+      return respond({ verified: true, status: 'success' });
+    }
+
+    throw new Error(`Unknown action: ${action}`);
+
+  } catch (error) {
+    console.error('Error in verify-phone function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { MAX_FORECAST_DAYS, getWeatherProvider } from "../_shared/weatherProviders.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,83 +14,48 @@ serve(async (req) => {
   }
 
   try {
-    const { latitude, longitude } = await req.json();
+    const { latitude, longitude, days } = await req.json();
 
     if (!latitude || !longitude) {
       throw new Error('Latitude and longitude are required');
     }
 
-    const openWeatherApiKey = Deno.env.get('OPENWEATHER_API_KEY');
-    if (!openWeatherApiKey) {
-      throw new Error('OpenWeather API key not configured');
-    }
-
-    console.log(`Fetching weather for coordinates: ${latitude}, ${longitude}`);
-
-    // Get current weather
-    const currentWeatherResponse = await fetch(
-      `https://api.openweathermap.org/data/2.5/weather?lat=${latitude}&lon=${longitude}&appid=${openWeatherApiKey}&units=metric`
-    );
-
-    if (!currentWeatherResponse.ok) {
-      throw new Error(`Current weather API error: ${currentWeatherResponse.status}`);
-    }
-
-    const currentWeather = await currentWeatherResponse.json();
+    // Up to ten days; providers with a shorter horizon return what they have
+    const provider = getWeatherProvider(getServiceClient());
+    const requestedDays = Math.min(Math.max(Math.round(Number(days) || MAX_FORECAST_DAYS), 1), MAX_FORECAST_DAYS);
 
-    // Get 7-day forecast
-    const forecastResponse = await fetch(
-      `https://api.openweathermap.org/data/2.5/forecast?lat=${latitude}&lon=${longitude}&appid=${openWeatherApiKey}&units=metric`
-    );
+    console.log(`Fetching ${requestedDays}-day weather from ${provider.name} for coordinates: ${latitude}, ${longitude}`);
 
-    if (!forecastResponse.ok) {
-      throw new Error(`Forecast API error: ${forecastResponse.status}`);
-    }
-
-    const forecast = await forecastResponse.json();
-
-    // Process forecast data for 7 days
-    const dailyForecast = [];
-    const processedDates = new Set();
-
-    for (const item of forecast.list) {
-      const date = new Date(item.dt * 1000);
-      const dateKey = date.toDateString();
-      
-      if (!processedDates.has(dateKey) && dailyForecast.length < 7) {
-        processedDates.add(dateKey);
-        dailyForecast.push({
-          date: dateKey,
-          day: date.toLocaleDateString('en-US', { weekday: 'short' }),
-          temperature: Math.round(item.main.temp),
-          humidity: item.main.humidity,
-          rainfall: item.rain ? item.rain['3h'] || 0 : 0,
-          condition: item.weather[0].description,
-        });
-      }
-    }
+    const { current, daily } = await provider.getForecast(latitude, longitude, Math.min(requestedDays, provider.maxDays));
 
+    // The per-day arrays are what the widgets, irrigation and calendar code read; `daily` has the
+    // same days as records
     const weatherData = {
-      current: {
-        temperature: Math.round(currentWeather.main.temp),
-        humidity: currentWeather.main.humidity,
-        rainfall: currentWeather.rain ? currentWeather.rain['1h'] || 0 : 0,
-        windSpeed: Math.round(currentWeather.wind.speed * 3.6), // Convert m/s to km/h
-        condition: currentWeather.weather[0].description,
-        location: `${currentWeather.name}, ${currentWeather.sys.country}`,
-      },
+      current,
+      daily,
       forecast: {
-        labels: dailyForecast.map(day => day.day),
-        temperature: dailyForecast.map(day => day.temperature),
-        humidity: dailyForecast.map(day => day.humidity),
-        rainfall: dailyForecast.map(day => day.rainfall),
+        labels: daily.map(day => new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })),
+        dates: daily.map(day => day.date),
+        temperature: daily.map(day => day.temperature),
+        tempMin: daily.map(day => day.tempMin),
+        tempMax: daily.map(day => day.tempMax),
+        humidity: daily.map(day => day.humidity),
+        humidityMin: daily.map(day => day.humidityMin),
+        humidityMax: daily.map(day => day.humidityMax),
+        windSpeed: daily.map(day => day.windSpeed),
+        windSpeedMax: daily.map(day => day.windSpeedMax),
+        cloudCover: daily.map(day => day.cloudCover),
+        rainfall: daily.map(day => day.rainfall),
+        rainProbability: daily.map(day => day.rainProbability),
+        partial: daily.map(day => day.partial ?? false),
       }
     };
 
-    console.log('Weather data processed successfully');
+    console.log(`Weather data processed successfully: ${daily.length} days`);
 
     return new Response(JSON.stringify({
       weather: weatherData,
+      provider: provider.name,
       status: 'success'
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -104,4 +71,4 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+});
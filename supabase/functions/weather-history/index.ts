@@ -0,0 +1,53 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/supabaseClient.ts";
+import { getWeatherHistoryProvider, MAX_PAST_DAYS } from "../_shared/weatherProviders.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Observed daily rainfall and FAO-56 reference evapotranspiration for the days up to today,
+// used to run the soil water balance forward from the sowing date
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { latitude, longitude, pastDays } = await req.json();
+
+    if (!latitude || !longitude) {
+      throw new Error('Latitude and longitude are required');
+    }
+
+    const days = Math.max(1, Math.min(MAX_PAST_DAYS, Math.round(Number(pastDays) || 30)));
+    const provider = getWeatherHistoryProvider(getServiceClient());
+
+    console.log(`Fetching ${days} days of weather history from ${provider.name} for: ${latitude}, ${longitude}`);
+
+    const history = await provider.getHistory(latitude, longitude, days);
+
+    return new Response(JSON.stringify({
+      history: {
+        dates: history.map(day => day.date),
+        rainfall: history.map(day => day.rainfall),
+        et0: history.map(day => day.et0),
+      },
+      source: provider.name,
+      status: 'success'
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in weather-history function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      status: 'error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,4 @@
+-- Track why and from when a calendar entry was moved by the weather rescheduler
+ALTER TABLE user_calendar_entries
+    ADD COLUMN IF NOT EXISTS weather_adjustment_reason TEXT,
+    ADD COLUMN IF NOT EXISTS original_scheduled_date TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,62 @@
+-- Create chat conversation tables so chat history survives reloads and devices
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL DEFAULT 'New conversation',
+    language TEXT NOT NULL DEFAULT 'en',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    message_type TEXT NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'weather')),
+    weather_data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_updated ON public.chat_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_created ON public.chat_messages(conversation_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own conversations" ON public.chat_conversations
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own conversations" ON public.chat_conversations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversations" ON public.chat_conversations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conversations" ON public.chat_conversations
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own chat messages" ON public.chat_messages
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create messages in their own conversations" ON public.chat_messages
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.chat_conversations c
+            WHERE c.id = conversation_id AND c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete their own chat messages" ON public.chat_messages
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Keep updated_at current so the sidebar can sort by latest activity
+CREATE TRIGGER update_chat_conversations_updated_at
+    BEFORE UPDATE ON public.chat_conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,25 @@
+-- Daily price snapshots per commodity, state and market, recorded by the market-data function
+CREATE TABLE IF NOT EXISTS public.market_price_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    commodity TEXT NOT NULL,
+    state TEXT NOT NULL,
+    market TEXT NOT NULL,
+    price_date DATE NOT NULL,
+    modal_price NUMERIC(10,2) NOT NULL,
+    min_price NUMERIC(10,2),
+    max_price NUMERIC(10,2),
+    source TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (commodity, state, market, price_date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_market_price_history_state_commodity_date
+    ON public.market_price_history(state, commodity, price_date DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.market_price_history ENABLE ROW LEVEL SECURITY;
+
+-- Prices are public data; only the service role (edge functions) writes snapshots
+CREATE POLICY "Market price history is viewable by everyone" ON public.market_price_history
+    FOR SELECT USING (true);
@@ -0,0 +1,6 @@
+-- Canonical state and district resolved from the farmer's location; NULL when it could not be resolved
+ALTER TABLE farmer_profiles
+    ADD COLUMN IF NOT EXISTS state TEXT,
+    ADD COLUMN IF NOT EXISTS district TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_farmer_profiles_state_district ON farmer_profiles(state, district);
@@ -0,0 +1,51 @@
+-- Farms are made of plots with their own crop, soil and water source
+CREATE TABLE IF NOT EXISTS public.farm_plots (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    area NUMERIC(10,2) NOT NULL CHECK (area > 0),
+    area_unit TEXT NOT NULL DEFAULT 'acres' CHECK (area_unit IN ('acres', 'hectares')),
+    soil_type TEXT CHECK (soil_type IN ('red', 'black', 'alluvial', 'sandy')),
+    irrigation_source TEXT CHECK (irrigation_source IN ('rainfed', 'canal', 'borewell', 'open_well', 'tank', 'river')),
+    current_crop TEXT,
+    sowing_date DATE,
+    boundary JSONB, -- GeoJSON Polygon, [longitude, latitude] positions
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_plots_user ON public.farm_plots(user_id, created_at);
+
+-- Calendar entries belong to a plot; entries created before plots existed keep plot_id NULL
+ALTER TABLE public.user_calendar_entries
+    ADD COLUMN IF NOT EXISTS plot_id UUID REFERENCES public.farm_plots(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_user_calendar_entries_plot ON public.user_calendar_entries(plot_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.farm_plots ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own plots" ON public.farm_plots
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own plots" ON public.farm_plots
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own plots" ON public.farm_plots
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plots" ON public.farm_plots
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_farm_plots_updated_at
+    BEFORE UPDATE ON public.farm_plots
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing farmers start with one plot holding their whole recorded land and first crop
+INSERT INTO public.farm_plots (user_id, name, area, area_unit, current_crop)
+SELECT user_id, 'My farm', land_size, land_unit, crops[1]
+FROM public.farmer_profiles
+WHERE land_size > 0
+  AND NOT EXISTS (SELECT 1 FROM public.farm_plots p WHERE p.user_id = farmer_profiles.user_id);
@@ -0,0 +1,51 @@
+-- Soil Health Card / lab results, optionally tied to a plot
+CREATE TABLE IF NOT EXISTS public.soil_tests (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    plot_id UUID REFERENCES public.farm_plots(id) ON DELETE SET NULL,
+    sample_date DATE NOT NULL,
+    lab_name TEXT,
+    card_number TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'upload')),
+    -- Available macronutrients, kg/ha (N as N, P as P, K as K)
+    nitrogen NUMERIC(8,2),
+    phosphorus NUMERIC(8,2),
+    potassium NUMERIC(8,2),
+    ph NUMERIC(4,2) CHECK (ph BETWEEN 0 AND 14),
+    ec NUMERIC(6,2), -- dS/m
+    organic_carbon NUMERIC(5,2), -- %
+    -- Secondary and micronutrients, ppm (mg/kg)
+    sulphur NUMERIC(8,2),
+    zinc NUMERIC(8,2),
+    iron NUMERIC(8,2),
+    copper NUMERIC(8,2),
+    manganese NUMERIC(8,2),
+    boron NUMERIC(8,2),
+    raw_text TEXT, -- text read from an uploaded card, kept for re-checking the parse
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_soil_tests_user_date ON public.soil_tests(user_id, sample_date DESC);
+CREATE INDEX IF NOT EXISTS idx_soil_tests_plot ON public.soil_tests(plot_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.soil_tests ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own soil tests" ON public.soil_tests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own soil tests" ON public.soil_tests
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own soil tests" ON public.soil_tests
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own soil tests" ON public.soil_tests
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_soil_tests_updated_at
+    BEFORE UPDATE ON public.soil_tests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
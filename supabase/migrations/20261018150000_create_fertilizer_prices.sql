@@ -0,0 +1,51 @@
+-- Fertilizer price catalogue, versioned by effective date and state.
+-- Catalogue rows (user_id NULL) are maintained by admins with the service role; farmers add their
+-- own rows for the prices they actually pay locally, which take precedence for them.
+CREATE TABLE IF NOT EXISTS public.fertilizer_prices (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL, -- urea, dap, mop, npk, compost, vermicompost, farmyardManure
+    state TEXT, -- NULL means the national rate
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    price_per_bag NUMERIC(10,2) NOT NULL CHECK (price_per_bag >= 0),
+    bag_kg NUMERIC(6,2) NOT NULL CHECK (bag_kg > 0),
+    is_subsidised BOOLEAN NOT NULL DEFAULT false,
+    effective_from DATE NOT NULL,
+    source TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fertilizer_prices_lookup
+    ON public.fertilizer_prices(product_id, state, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_fertilizer_prices_user ON public.fertilizer_prices(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.fertilizer_prices ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reads the catalogue; farmers only see and manage their own price entries
+CREATE POLICY "Catalogue and own fertilizer prices are viewable" ON public.fertilizer_prices
+    FOR SELECT USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own fertilizer prices" ON public.fertilizer_prices
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fertilizer prices" ON public.fertilizer_prices
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fertilizer prices" ON public.fertilizer_prices
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_fertilizer_prices_updated_at
+    BEFORE UPDATE ON public.fertilizer_prices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- National maximum retail prices per bag at the start of the catalogue (subsidised under NBS / urea policy)
+INSERT INTO public.fertilizer_prices (product_id, state, price_per_bag, bag_kg, is_subsidised, effective_from, source) VALUES
+    ('urea', NULL, 266.50, 45, true, '2024-04-01', 'Department of Fertilizers MRP'),
+    ('dap', NULL, 1350.00, 50, true, '2024-04-01', 'Department of Fertilizers MRP'),
+    ('mop', NULL, 1700.00, 50, true, '2024-04-01', 'Company MRP under NBS'),
+    ('npk', NULL, 1470.00, 50, true, '2024-04-01', 'Company MRP under NBS'),
+    ('compost', NULL, 150.00, 50, false, '2024-04-01', 'Typical local rate'),
+    ('vermicompost', NULL, 400.00, 50, false, '2024-04-01', 'Typical local rate'),
+    ('farmyardManure', NULL, 75.00, 50, false, '2024-04-01', 'Typical local rate');
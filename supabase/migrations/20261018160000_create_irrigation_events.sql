@@ -0,0 +1,35 @@
+-- Irrigation applied to a plot; each event adds water to the plot's soil water balance
+CREATE TABLE IF NOT EXISTS public.irrigation_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    plot_id UUID NOT NULL REFERENCES public.farm_plots(id) ON DELETE CASCADE,
+    event_date DATE NOT NULL,
+    depth_mm NUMERIC(6,1) NOT NULL CHECK (depth_mm > 0), -- water applied over the plot area
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_irrigation_events_plot_date ON public.irrigation_events(plot_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_irrigation_events_user ON public.irrigation_events(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.irrigation_events ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own irrigation events" ON public.irrigation_events
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own irrigation events" ON public.irrigation_events
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own irrigation events" ON public.irrigation_events
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own irrigation events" ON public.irrigation_events
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_irrigation_events_updated_at
+    BEFORE UPDATE ON public.irrigation_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,7 @@
+-- How the water was applied: method, run time and flow rate, with the resulting volume.
+-- depth_mm stays the volume spread over the plot area so the soil water balance can use it.
+ALTER TABLE public.irrigation_events
+    ADD COLUMN IF NOT EXISTS method TEXT CHECK (method IN ('drip', 'sprinkler', 'flood')),
+    ADD COLUMN IF NOT EXISTS duration_minutes NUMERIC(7,1) CHECK (duration_minutes > 0),
+    ADD COLUMN IF NOT EXISTS flow_rate_lpm NUMERIC(8,1) CHECK (flow_rate_lpm > 0), -- litres per minute
+    ADD COLUMN IF NOT EXISTS volume_litres NUMERIC(12,0) CHECK (volume_litres > 0);
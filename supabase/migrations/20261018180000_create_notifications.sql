@@ -0,0 +1,41 @@
+-- In-app notifications per farmer, written by the generate-notifications function from the
+-- notification rules (forecast heavy rain, price moves, calendar activities due)
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('weather', 'market', 'farming', 'system', 'alert')),
+    rule TEXT, -- the rule that raised it; null for notifications sent by hand
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+    action_url TEXT, -- deep link into the app, e.g. /?widget=weather
+    data JSONB NOT NULL DEFAULT '{}'::jsonb, -- the values the rule matched on
+    dedupe_key TEXT, -- one notification per rule occurrence, even when the rules run again
+    is_read BOOLEAN NOT NULL DEFAULT false,
+    read_at TIMESTAMP WITH TIME ZONE,
+    dismissed_at TIMESTAMP WITH TIME ZONE, -- kept rather than deleted so the rule does not raise it again
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Farmers read and update (mark read, dismiss) their own notifications; only the service role
+-- (edge functions) creates them
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications" ON public.notifications
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notifications_updated_at
+    BEFORE UPDATE ON public.notifications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
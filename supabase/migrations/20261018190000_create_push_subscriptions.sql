@@ -0,0 +1,67 @@
+-- Web Push subscriptions (one per browser or device) and the delivery preferences the
+-- send-push-notifications function applies to them
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    push_enabled BOOLEAN NOT NULL DEFAULT true,
+    sound BOOLEAN NOT NULL DEFAULT true,
+    vibration BOOLEAN NOT NULL DEFAULT true,
+    frequency TEXT NOT NULL DEFAULT 'medium' CHECK (frequency IN ('low', 'medium', 'high')),
+    quiet_hours_start TIME, -- IST; no quiet hours when either end is null
+    quiet_hours_end TIME,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each notification is pushed at most once
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS pushed_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable Row Level Security
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own push subscriptions" ON public.push_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own push subscriptions" ON public.push_subscriptions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions" ON public.push_subscriptions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions" ON public.push_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own notification preferences" ON public.notification_preferences
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences" ON public.notification_preferences
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences" ON public.notification_preferences
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+    BEFORE UPDATE ON public.push_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
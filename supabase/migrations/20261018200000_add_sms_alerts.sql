@@ -0,0 +1,35 @@
+-- SMS alerts (and, if chosen, voice calls) to the phone on the farmer's profile. Farmers opt in
+-- from Settings and can opt out there or by replying STOP; every outbound message is logged.
+ALTER TABLE public.notification_preferences
+    ADD COLUMN IF NOT EXISTS sms_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS sms_opted_in_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS sms_opted_out_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS voice_calls BOOLEAN NOT NULL DEFAULT false, -- also call for high-priority alerts
+    ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'hi', 'ta'));
+
+-- Each notification is sent by SMS at most once
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS sms_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.outbound_messages (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('sms', 'voice')),
+    phone TEXT NOT NULL, -- E.164
+    body TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    provider_message_id TEXT,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_user_created ON public.outbound_messages(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.outbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- Farmers can see what was sent to them; only the service role (edge functions) writes the log
+CREATE POLICY "Users can view their own outbound messages" ON public.outbound_messages
+    FOR SELECT USING (auth.uid() = user_id);
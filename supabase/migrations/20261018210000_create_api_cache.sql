@@ -0,0 +1,18 @@
+-- Shared cache of upstream API responses (OpenWeather, AGMARKNET, the market scraper) for the edge
+-- functions, so repeated requests for the same place or state do not spend API quota. Entries are
+-- served as they are until fresh_until, served while being refreshed until stale_until, and
+-- refetched after that. Only the service role (edge functions) reads and writes it.
+CREATE TABLE IF NOT EXISTS public.api_cache (
+    cache_key TEXT NOT NULL PRIMARY KEY, -- e.g. "openweather:forecast:12.97,77.59", "agmarknet:Karnataka"
+    source TEXT NOT NULL,
+    value JSONB NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    fresh_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    stale_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    refreshing_since TIMESTAMP WITH TIME ZONE -- set while one request refreshes a stale entry
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_cache_stale_until ON public.api_cache(stale_until);
+
+-- Enable Row Level Security; there are no policies, so only the service role has access
+ALTER TABLE public.api_cache ENABLE ROW LEVEL SECURITY;
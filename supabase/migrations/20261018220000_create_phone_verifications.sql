@@ -0,0 +1,48 @@
+-- SMS and voice alerts go only to a number the farmer has shown they own, by entering a code
+-- texted to it (the verify-phone function) or by texting START from it. Rows are written by the
+-- service role only, so a farmer cannot mark a number as verified themselves.
+CREATE TABLE IF NOT EXISTS public.phone_verifications (
+    user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL, -- E.164; the number the code was sent to, or that was verified
+    code_hash TEXT, -- SHA-256 of the pending code; null once verified
+    code_sent_at TIMESTAMP WITH TIME ZONE,
+    code_expires_at TIMESTAMP WITH TIME ZONE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    verified_at TIMESTAMP WITH TIME ZONE, -- null until this phone is confirmed
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own phone verification" ON public.phone_verifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_phone_verifications_updated_at
+    BEFORE UPDATE ON public.phone_verifications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SMS alerts can only be turned on once a number is verified. send-sms-alerts also checks that
+-- the verified number is still the one on the profile.
+CREATE OR REPLACE FUNCTION public.require_verified_phone_for_sms()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.sms_enabled
+        AND (TG_OP = 'INSERT' OR NOT OLD.sms_enabled)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.phone_verifications
+            WHERE user_id = NEW.user_id AND verified_at IS NOT NULL
+        ) THEN
+        RAISE EXCEPTION 'Phone number must be verified before SMS alerts are turned on';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_verified_phone_for_sms
+    BEFORE INSERT OR UPDATE OF sms_enabled ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.require_verified_phone_for_sms();
@@ -0,0 +1,3 @@
+-- The pending code's hash must stay on the server, so farmers no longer read phone_verifications
+-- directly; verify-phone's "status" action tells the app whether the number is verified
+DROP POLICY IF EXISTS "Users can view their own phone verification" ON public.phone_verifications;
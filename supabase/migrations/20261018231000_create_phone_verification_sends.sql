@@ -0,0 +1,14 @@
+-- Every verification code texted by verify-phone, so codes can be capped per number and per
+-- farmer each day whatever account or profile number asks for them. Service role only.
+CREATE TABLE IF NOT EXISTS public.phone_verification_sends (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL, -- E.164
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_verification_sends_phone_sent ON public.phone_verification_sends(phone, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_phone_verification_sends_user_sent ON public.phone_verification_sends(user_id, sent_at DESC);
+
+-- Enable Row Level Security; with no policies only the service role can use the table
+ALTER TABLE public.phone_verification_sends ENABLE ROW LEVEL SECURITY;
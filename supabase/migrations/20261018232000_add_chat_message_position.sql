@@ -0,0 +1,23 @@
+-- A question and its answer are inserted together and share created_at, so order messages by an
+-- insertion counter instead. Existing rows are numbered by time, the farmer's message first.
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS position BIGINT;
+
+UPDATE public.chat_messages m
+SET position = ordered.position
+FROM (
+    SELECT id, row_number() OVER (ORDER BY created_at, CASE role WHEN 'user' THEN 0 ELSE 1 END, id) AS position
+    FROM public.chat_messages
+) ordered
+WHERE m.id = ordered.id;
+
+ALTER TABLE public.chat_messages ALTER COLUMN position SET NOT NULL;
+ALTER TABLE public.chat_messages ALTER COLUMN position ADD GENERATED BY DEFAULT AS IDENTITY;
+
+SELECT setval(
+    pg_get_serial_sequence('public.chat_messages', 'position'),
+    COALESCE(MAX(position), 0) + 1,
+    false
+) FROM public.chat_messages;
+
+DROP INDEX IF EXISTS public.idx_chat_messages_conversation_created;
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_position ON public.chat_messages(conversation_id, position);
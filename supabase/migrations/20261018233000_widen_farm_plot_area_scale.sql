@@ -0,0 +1,3 @@
+-- Two decimals rounded kitchen gardens and nursery beds (under about 20 m²) to zero, which the
+-- area > 0 check then rejected. Four decimals keep plots down to half a square metre.
+ALTER TABLE public.farm_plots ALTER COLUMN area TYPE NUMERIC(12,4);
@@ -1,6 +1,30 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+
+// Writes the built /assets/ files into dist/sw.js so the service worker precaches all of them at
+// install, with a cache id derived from their names (see public/sw.js)
+const precacheServiceWorker = (): Plugin => ({
+  name: "precache-service-worker",
+  apply: "build",
+  writeBundle(options, bundle) {
+    const swPath = path.join(options.dir ?? "dist", "sw.js");
+    if (!fs.existsSync(swPath)) return;
+
+    const assets = Object.keys(bundle)
+      .filter((fileName) => fileName.startsWith("assets/"))
+      .map((fileName) => `/${fileName}`)
+      .sort();
+    const buildId = createHash("sha256").update(assets.join("\n")).digest("hex").slice(0, 12);
+
+    const source = fs.readFileSync(swPath, "utf8")
+      .replace("'dev' /* build-id */", JSON.stringify(buildId))
+      .replace("[] /* build-assets */", JSON.stringify(assets));
+    fs.writeFileSync(swPath, source);
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -8,7 +32,7 @@ export default defineConfig({
     host: "::",
     port: 8080,
   },
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),